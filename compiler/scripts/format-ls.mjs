@@ -0,0 +1,7 @@
+import { runLsc } from "../src/index.ts";
+
+process.exitCode = await runLsc(["fmt", ...process.argv.slice(2)], {
+  stdout: (text) => process.stdout.write(text),
+  stderr: (text) => process.stderr.write(text),
+  color: process.stderr.isTTY
+});
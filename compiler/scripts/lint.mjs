@@ -1,4 +1,4 @@
-import { existsSync } from "node:fs";
+import { existsSync, readFileSync, readdirSync } from "node:fs";
 
 const requiredPaths = ["package.json", "tsconfig.json", "src/index.ts", "test/smoke.test.ts"];
 
@@ -8,3 +8,12 @@ for (const path of requiredPaths) {
     process.exit(1);
   }
 }
+
+// The runtime imports the compiler, so compiler sources share contracts through
+// `contracts/` instead of importing the runtime.
+for (const file of readdirSync("src").filter((name) => name.endsWith(".ts"))) {
+  if (/from "\.\.\/\.\.\/runtime\//.test(readFileSync(`src/${file}`, "utf8"))) {
+    console.error(`Compiler source must not import the runtime: src/${file}`);
+    process.exit(1);
+  }
+}
@@ -0,0 +1,10 @@
+#!/usr/bin/env -S node --experimental-strip-types
+import { runSemanticIr } from "../../runtime/src/index.ts";
+import { runLsc } from "../src/index.ts";
+
+process.exitCode = await runLsc(process.argv.slice(2), {
+  stdout: (text) => process.stdout.write(text),
+  stderr: (text) => process.stderr.write(text),
+  color: process.stderr.isTTY,
+  runSemanticIr
+});
@@ -0,0 +1,68 @@
+import type { DocumentAstNode, ModuleAstNode } from "./ast.ts";
+import { astChildren, isAstNode } from "./ast-visitor.ts";
+
+export const LS_AST_SCHEMA_VERSION = "0.1.0";
+
+export interface LsAstJson {
+  schema_version: typeof LS_AST_SCHEMA_VERSION;
+  ast: DocumentAstNode | ModuleAstNode;
+}
+
+function compareKeys(left: string, right: string): number {
+  if (left === "kind" || right === "kind") {
+    return left === "kind" ? -1 : 1;
+  }
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
+function sortKeys(_key: string, value: unknown): unknown {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return value;
+  }
+
+  const record = value as Record<string, unknown>;
+  return Object.fromEntries(
+    Object.keys(record)
+      .sort(compareKeys)
+      .map((key) => [key, record[key]])
+  );
+}
+
+// Keys are written `kind` first and then alphabetically, so equal ASTs serialize to identical
+// text however their nodes were built.
+export function serializeAst(ast: DocumentAstNode | ModuleAstNode): string {
+  const payload: LsAstJson = { schema_version: LS_AST_SCHEMA_VERSION, ast };
+  return `${JSON.stringify(payload, sortKeys, 2)}\n`;
+}
+
+function assertAstTree(value: unknown, parent: string): void {
+  if (!isAstNode(value)) {
+    throw new Error(`Serialized AST has a malformed node under ${parent}`);
+  }
+
+  for (const child of astChildren(value)) {
+    assertAstTree(child, value.kind);
+  }
+}
+
+// Checks the envelope and node kinds; docs/spec/schemas/lsast-v0.schema.json is the full contract.
+export function deserializeAst(json: string): DocumentAstNode | ModuleAstNode {
+  const payload = JSON.parse(json) as Partial<LsAstJson> | null;
+  if (typeof payload !== "object" || payload === null) {
+    throw new Error("Serialized AST must be a JSON object");
+  }
+  if (payload.schema_version !== LS_AST_SCHEMA_VERSION) {
+    throw new Error(
+      `Unsupported serialized AST schema_version '${String(payload.schema_version)}'; ` +
+        `expected '${LS_AST_SCHEMA_VERSION}'`
+    );
+  }
+
+  const ast = payload.ast;
+  if (ast?.kind !== "Document" && ast?.kind !== "Module") {
+    throw new Error("Serialized AST root must be a Document or Module node");
+  }
+
+  assertAstTree(ast, "the root");
+  return ast;
+}
@@ -0,0 +1,172 @@
+import type {
+  CapabilityDeclarationAstNode,
+  CheckDeclarationAstNode,
+  DocumentAstNode,
+  IdentifierAstNode,
+  ImportDeclarationAstNode,
+  InferDeclarationAstNode,
+  ModuleAstNode,
+  NumberLiteralAstNode,
+  OutcomeConditionAstNode,
+  OutcomeDeclarationAstNode,
+  PolicyDeclarationAstNode,
+  StepDeclarationAstNode,
+  StringLiteralAstNode,
+  VerifyDeclarationAstNode
+} from "./ast.ts";
+import { formatLsDocument, quoteString } from "./formatter.ts";
+
+function docLines(node: { docs?: string }): string[] {
+  return node.docs === undefined
+    ? []
+    : node.docs.split("\n").map((line) => `## ${line}`.trimEnd());
+}
+
+function valueText(node: IdentifierAstNode | NumberLiteralAstNode | StringLiteralAstNode): string {
+  if (node.kind === "Identifier") {
+    return node.name;
+  }
+  return node.kind === "NumberLiteral" ? node.raw : quoteString(node.value);
+}
+
+function names(nodes: readonly IdentifierAstNode[]): string {
+  return nodes.map((node) => node.name).join(" ");
+}
+
+function clause(keyword: string, value: string | undefined): string {
+  return value === undefined || value.length === 0 ? "" : ` ${keyword} ${value}`;
+}
+
+function importLine(node: ImportDeclarationAstNode): string {
+  return `import ${quoteString(node.path.value)}`;
+}
+
+function checkLine(node: CheckDeclarationAstNode): string {
+  return `check ${node.name} ${quoteString(node.description)}`;
+}
+
+function capabilityLine(node: CapabilityDeclarationAstNode): string {
+  const parameters = node.parameters
+    ?.map((parameter) => `${parameter.name.name} ${parameter.type.name}`)
+    .join(" ");
+  return [
+    `capability ${node.name} ${quoteString(node.description)}`,
+    clause("takes", parameters),
+    clause("returns", node.returns?.name),
+    clause("effects", node.effects !== undefined ? names(node.effects) : undefined)
+  ].join("");
+}
+
+function inferLine(node: InferDeclarationAstNode): string {
+  return [
+    `infer ${node.name} ${quoteString(node.prompt.value)} using ${node.provider.name}`,
+    clause("temperature", node.temperature?.raw),
+    clause("min_confidence", node.minConfidence?.raw)
+  ].join("");
+}
+
+function stepLine(node: StepDeclarationAstNode): string {
+  return [
+    `step ${node.name} ${quoteString(node.description)}`,
+    clause("after", names(node.after)),
+    clause("uses", names(node.uses))
+  ].join("");
+}
+
+function conditionText(condition: OutcomeConditionAstNode): string {
+  if (condition.kind === "BudgetCondition") {
+    return `${condition.budget.name} exhausted`;
+  }
+  return `${condition.check.name} ${condition.status === "passed" ? "passes" : "fails"}`;
+}
+
+function outcomeLine(node: OutcomeDeclarationAstNode): string {
+  return `${node.outcome} when ${node.conditions.map(conditionText).join(" and ")}`;
+}
+
+function policyLines(node: PolicyDeclarationAstNode): string[] {
+  return [
+    ...docLines(node),
+    `policy ${node.environment.name}`,
+    ...(node.allow.length > 0 ? [`allow ${names(node.allow)}`] : []),
+    ...(node.deny.length > 0 ? [`deny ${names(node.deny)}`] : []),
+    ...node.escalations.map(
+      (escalation) =>
+        `escalate ${escalation.capability.name} to ${escalation.level.name} approvals ` +
+        `${escalation.approvals.raw}${escalation.reasonRequired ? " reason_required" : ""}`
+    ),
+    ...(node.effects !== undefined && node.effects.length > 0
+      ? [`effects ${names(node.effects)}`]
+      : []),
+    ...node.settings.map((setting) => `${setting.name} ${valueText(setting.value)}`)
+  ];
+}
+
+function verifyLines(node: VerifyDeclarationAstNode): string[] {
+  return [
+    ...docLines(node),
+    "verify",
+    ...node.requirements.map(
+      (requirement) =>
+        `${requirement.requirementKind} ${requirement.check.name}` +
+        (requirement.required ? "" : " optional")
+    ),
+    ...node.assertions.map(
+      (assertion) =>
+        `assert ${assertion.id.name} ${quoteString(assertion.policyPath.value)} ` +
+        `${valueText(assertion.expected)}${assertion.required ? "" : " optional"}`
+    ),
+    ...node.settings.map((setting) => `${setting.name} ${valueText(setting.value)}`)
+  ];
+}
+
+function declarationLines<T extends { docs?: string }>(
+  nodes: readonly T[] | undefined,
+  render: (node: T) => string
+): string[] {
+  return (nodes ?? []).flatMap((node) => [...docLines(node), render(node)]);
+}
+
+function documentGroups(ast: DocumentAstNode): string[][] {
+  return [
+    declarationLines(ast.imports, importLine),
+    [
+      ...declarationLines([ast.goal], (node) => `goal ${quoteString(node.value)}`),
+      ...declarationLines(ast.capabilities, capabilityLine),
+      ...declarationLines(ast.inferences, inferLine),
+      ...declarationLines(ast.steps, stepLine),
+      ...declarationLines(ast.checks, checkLine)
+    ],
+    [
+      ...declarationLines(ast.budget !== undefined ? [ast.budget] : [], (node) =>
+        `budget ${node.limits.map((limit) => `${limit.name} ${limit.value.raw}`).join(" ")}`
+      ),
+      ...declarationLines(ast.outcomes, outcomeLine)
+    ],
+    ast.policy !== undefined ? policyLines(ast.policy) : [],
+    ast.verify !== undefined ? verifyLines(ast.verify) : []
+  ];
+}
+
+function moduleGroups(ast: ModuleAstNode): string[][] {
+  return [
+    declarationLines(ast.imports, importLine),
+    [
+      ...declarationLines(ast.capabilities, capabilityLine),
+      ...declarationLines(ast.checks, checkLine)
+    ]
+  ];
+}
+
+// Prints the canonical (`lsc fmt`) source for an AST, ignoring its ranges. Plain `#` comments are
+// not part of the AST and are dropped; `docs` are printed back as `##` comments, and number
+// literals keep their `raw` text. An AST that does not parse back is printed unformatted.
+export function astToSource(ast: DocumentAstNode | ModuleAstNode): string {
+  const groups = ast.kind === "Document" ? documentGroups(ast) : moduleGroups(ast);
+  const printed = groups
+    .filter((lines) => lines.length > 0)
+    .map((lines) => lines.join("\n"))
+    .join("\n\n");
+  const source = printed.length > 0 ? `${printed}\n` : "";
+  return formatLsDocument(source).formatted ?? source;
+}
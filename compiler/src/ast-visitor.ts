@@ -0,0 +1,246 @@
+import type {
+  BudgetConditionAstNode,
+  BudgetDeclarationAstNode,
+  BudgetLimitAstNode,
+  CapabilityDeclarationAstNode,
+  CapabilityParameterAstNode,
+  CheckConditionAstNode,
+  CheckDeclarationAstNode,
+  DocumentAstNode,
+  GoalDeclarationAstNode,
+  IdentifierAstNode,
+  ImportDeclarationAstNode,
+  InferDeclarationAstNode,
+  ModuleAstNode,
+  NumberLiteralAstNode,
+  OutcomeDeclarationAstNode,
+  PolicyDeclarationAstNode,
+  PolicyEscalationAstNode,
+  PolicySettingAstNode,
+  StepDeclarationAstNode,
+  StringLiteralAstNode,
+  VerifyDeclarationAstNode,
+  VerifyPolicyAssertionAstNode,
+  VerifyRequirementAstNode,
+  VerifySettingAstNode
+} from "./ast.ts";
+
+export type AstNode =
+  | DocumentAstNode
+  | ModuleAstNode
+  | ImportDeclarationAstNode
+  | GoalDeclarationAstNode
+  | CapabilityDeclarationAstNode
+  | CapabilityParameterAstNode
+  | InferDeclarationAstNode
+  | StepDeclarationAstNode
+  | CheckDeclarationAstNode
+  | BudgetDeclarationAstNode
+  | BudgetLimitAstNode
+  | OutcomeDeclarationAstNode
+  | CheckConditionAstNode
+  | BudgetConditionAstNode
+  | PolicyDeclarationAstNode
+  | PolicyEscalationAstNode
+  | PolicySettingAstNode
+  | VerifyDeclarationAstNode
+  | VerifyRequirementAstNode
+  | VerifyPolicyAssertionAstNode
+  | VerifySettingAstNode
+  | IdentifierAstNode
+  | StringLiteralAstNode
+  | NumberLiteralAstNode;
+
+export type AstNodeKind = AstNode["kind"];
+
+export type AstNodeOfKind<K extends AstNodeKind> = Extract<AstNode, { kind: K }>;
+
+// Called when a node is entered; returning `false` skips its children.
+export type AstVisitor = {
+  [K in AstNodeKind]?: (node: AstNodeOfKind<K>, parent: AstNode | null) => boolean | void;
+};
+
+// Called after a node's children are transformed. Returning `null` removes the node from a list
+// or an optional field; required fields cannot be removed.
+export type AstTransformer = {
+  [K in AstNodeKind]?: (node: AstNodeOfKind<K>) => AstNodeOfKind<K> | null;
+};
+
+interface ChildField {
+  key: string;
+  list?: boolean;
+  optional?: boolean;
+}
+
+const CHILD_FIELDS: { [K in AstNodeKind]: readonly ChildField[] } = {
+  Document: [
+    { key: "imports", list: true },
+    { key: "goal" },
+    { key: "capabilities", list: true },
+    { key: "inferences", list: true, optional: true },
+    { key: "steps", list: true, optional: true },
+    { key: "checks", list: true },
+    { key: "budget", optional: true },
+    { key: "outcomes", list: true, optional: true },
+    { key: "policy", optional: true },
+    { key: "verify", optional: true }
+  ],
+  Module: [
+    { key: "imports", list: true },
+    { key: "capabilities", list: true },
+    { key: "checks", list: true }
+  ],
+  ImportDeclaration: [{ key: "path" }],
+  GoalDeclaration: [],
+  CapabilityDeclaration: [
+    { key: "parameters", list: true, optional: true },
+    { key: "returns", optional: true },
+    { key: "effects", list: true, optional: true }
+  ],
+  CapabilityParameter: [{ key: "name" }, { key: "type" }],
+  InferDeclaration: [
+    { key: "prompt" },
+    { key: "provider" },
+    { key: "temperature", optional: true },
+    { key: "minConfidence", optional: true }
+  ],
+  StepDeclaration: [
+    { key: "after", list: true },
+    { key: "uses", list: true }
+  ],
+  CheckDeclaration: [],
+  BudgetDeclaration: [{ key: "limits", list: true }],
+  BudgetLimit: [{ key: "value" }],
+  OutcomeDeclaration: [{ key: "conditions", list: true }],
+  CheckCondition: [{ key: "check" }],
+  BudgetCondition: [{ key: "budget" }],
+  PolicyDeclaration: [
+    { key: "environment" },
+    { key: "allow", list: true },
+    { key: "deny", list: true },
+    { key: "escalations", list: true },
+    { key: "effects", list: true, optional: true },
+    { key: "settings", list: true }
+  ],
+  PolicyEscalation: [{ key: "capability" }, { key: "level" }, { key: "approvals" }],
+  PolicySetting: [{ key: "value" }],
+  VerifyDeclaration: [
+    { key: "requirements", list: true },
+    { key: "assertions", list: true },
+    { key: "settings", list: true }
+  ],
+  VerifyRequirement: [{ key: "check" }],
+  VerifyPolicyAssertion: [{ key: "id" }, { key: "policyPath" }, { key: "expected" }],
+  VerifySetting: [{ key: "value" }],
+  Identifier: [],
+  StringLiteral: [],
+  NumberLiteral: []
+};
+
+export function isAstNode(value: unknown): value is AstNode {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+
+  const { kind, range } = value as { kind?: unknown; range?: unknown };
+  return (
+    typeof kind === "string" &&
+    Object.prototype.hasOwnProperty.call(CHILD_FIELDS, kind) &&
+    typeof range === "object" &&
+    range !== null
+  );
+}
+
+function fieldsOf(node: AstNode): readonly ChildField[] {
+  return CHILD_FIELDS[node.kind];
+}
+
+function fieldValue(node: AstNode, key: string): unknown {
+  return (node as unknown as Record<string, unknown>)[key];
+}
+
+// Children in field order; for declarations and clauses that is source order within each kind.
+export function astChildren(node: AstNode): AstNode[] {
+  return fieldsOf(node).flatMap((field) => {
+    const value = fieldValue(node, field.key);
+    if (value === undefined) {
+      return [];
+    }
+    return field.list === true ? (value as AstNode[]) : [value as AstNode];
+  });
+}
+
+function visitNode(node: AstNode, parent: AstNode | null, visitor: AstVisitor): void {
+  const handler = visitor[node.kind] as
+    | ((node: AstNode, parent: AstNode | null) => boolean | void)
+    | undefined;
+  if (handler?.(node, parent) === false) {
+    return;
+  }
+
+  for (const child of astChildren(node)) {
+    visitNode(child, node, visitor);
+  }
+}
+
+// Depth-first, parents before children.
+export function visitAst(node: AstNode, visitor: AstVisitor): void {
+  visitNode(node, null, visitor);
+}
+
+function transformNode(node: AstNode, transformer: AstTransformer): AstNode | null {
+  let changed: Record<string, unknown> | null = null;
+  for (const field of fieldsOf(node)) {
+    const value = fieldValue(node, field.key);
+    if (value === undefined) {
+      continue;
+    }
+
+    let next: unknown;
+    if (field.list === true) {
+      const items = value as AstNode[];
+      const transformed = items
+        .map((item) => transformNode(item, transformer))
+        .filter((item): item is AstNode => item !== null);
+      const same =
+        transformed.length === items.length &&
+        transformed.every((item, index) => item === items[index]);
+      const dropped = transformed.length === 0 && field.optional === true;
+      next = same ? value : dropped ? undefined : transformed;
+    } else {
+      next = transformNode(value as AstNode, transformer);
+      if (next === null) {
+        if (field.optional !== true) {
+          throw new Error(`Cannot remove required field '${field.key}' of ${node.kind}`);
+        }
+        next = undefined;
+      }
+    }
+
+    if (next !== value) {
+      changed ??= { ...node };
+      if (next === undefined) {
+        delete changed[field.key];
+      } else {
+        changed[field.key] = next;
+      }
+    }
+  }
+
+  const rebuilt = (changed ?? node) as AstNode;
+  const handler = transformer[rebuilt.kind] as ((node: AstNode) => AstNode | null) | undefined;
+  return handler !== undefined ? handler(rebuilt) : rebuilt;
+}
+
+// Bottom-up rewrite that copies only the nodes on changed paths; untouched subtrees are shared
+// with the input, which is never mutated.
+export function transformAst<T extends DocumentAstNode | ModuleAstNode>(
+  node: T,
+  transformer: AstTransformer
+): T {
+  const transformed = transformNode(node, transformer);
+  if (transformed === null || transformed.kind !== node.kind) {
+    throw new Error(`Transform must return a ${node.kind} node for the root`);
+  }
+  return transformed as T;
+}
@@ -12,27 +12,235 @@ export interface SourceRange {
 export interface GoalDeclarationAstNode {
   kind: "GoalDeclaration";
   value: string;
+  docs?: string;
+  range: SourceRange;
+}
+
+export type CapabilityValueType = "string" | "number" | "boolean" | "json";
+
+export type CapabilityEffect = "fs.read" | "fs.write" | "net" | "exec";
+
+export type CapabilityTypeAstNode = IdentifierAstNode & { name: CapabilityValueType };
+
+export type CapabilityEffectAstNode = IdentifierAstNode & { name: CapabilityEffect };
+
+export interface CapabilityParameterAstNode {
+  kind: "CapabilityParameter";
+  name: IdentifierAstNode;
+  type: CapabilityTypeAstNode;
   range: SourceRange;
 }
 
 export interface CapabilityDeclarationAstNode {
   kind: "CapabilityDeclaration";
   name: string;
+  namespace: string[];
   description: string;
+  parameters?: CapabilityParameterAstNode[];
+  returns?: CapabilityTypeAstNode;
+  effects?: CapabilityEffectAstNode[];
+  docs?: string;
   range: SourceRange;
+  file?: string;
 }
 
 export interface CheckDeclarationAstNode {
   kind: "CheckDeclaration";
   name: string;
   description: string;
+  docs?: string;
+  range: SourceRange;
+  file?: string;
+}
+
+export interface InferDeclarationAstNode {
+  kind: "InferDeclaration";
+  name: string;
+  prompt: StringLiteralAstNode;
+  provider: IdentifierAstNode;
+  temperature?: NumberLiteralAstNode;
+  minConfidence?: NumberLiteralAstNode;
+  docs?: string;
+  range: SourceRange;
+}
+
+export interface StepDeclarationAstNode {
+  kind: "StepDeclaration";
+  name: string;
+  description: string;
+  after: IdentifierAstNode[];
+  uses: IdentifierAstNode[];
+  docs?: string;
+  range: SourceRange;
+}
+
+export interface IdentifierAstNode {
+  kind: "Identifier";
+  name: string;
+  namespace: string[];
+  wildcard: boolean;
+  range: SourceRange;
+}
+
+export interface StringLiteralAstNode {
+  kind: "StringLiteral";
+  value: string;
+  range: SourceRange;
+}
+
+export interface NumberLiteralAstNode {
+  kind: "NumberLiteral";
+  value: number;
+  raw: string;
+  range: SourceRange;
+}
+
+export interface PolicyEscalationAstNode {
+  kind: "PolicyEscalation";
+  capability: IdentifierAstNode;
+  level: IdentifierAstNode;
+  approvals: NumberLiteralAstNode;
+  reasonRequired: boolean;
+  range: SourceRange;
+}
+
+export type PolicySettingName =
+  | "max_autonomous_steps"
+  | "max_runtime_seconds"
+  | "require_human_review_on_policy_violation"
+  | "escalation_default";
+
+export interface PolicySettingAstNode {
+  kind: "PolicySetting";
+  name: PolicySettingName;
+  value: IdentifierAstNode | NumberLiteralAstNode;
+  range: SourceRange;
+}
+
+export interface PolicyDeclarationAstNode {
+  kind: "PolicyDeclaration";
+  environment: IdentifierAstNode;
+  allow: IdentifierAstNode[];
+  deny: IdentifierAstNode[];
+  escalations: PolicyEscalationAstNode[];
+  settings: PolicySettingAstNode[];
+  // Effects capabilities may have; present only when the section declares an `effects` clause.
+  effects?: CapabilityEffectAstNode[];
+  docs?: string;
+  range: SourceRange;
+}
+
+export type VerificationRequirementKind = "test" | "static_analysis";
+
+export interface VerifyRequirementAstNode {
+  kind: "VerifyRequirement";
+  requirementKind: VerificationRequirementKind;
+  check: IdentifierAstNode;
+  required: boolean;
+  range: SourceRange;
+}
+
+export interface VerifyPolicyAssertionAstNode {
+  kind: "VerifyPolicyAssertion";
+  id: IdentifierAstNode;
+  policyPath: StringLiteralAstNode;
+  expected: StringLiteralAstNode | NumberLiteralAstNode | IdentifierAstNode;
+  required: boolean;
+  range: SourceRange;
+}
+
+export type VerifySettingName = "min_pass_ratio" | "max_warnings" | "on_failure";
+
+export interface VerifySettingAstNode {
+  kind: "VerifySetting";
+  name: VerifySettingName;
+  value: IdentifierAstNode | NumberLiteralAstNode;
+  range: SourceRange;
+}
+
+export interface VerifyDeclarationAstNode {
+  kind: "VerifyDeclaration";
+  requirements: VerifyRequirementAstNode[];
+  assertions: VerifyPolicyAssertionAstNode[];
+  settings: VerifySettingAstNode[];
+  docs?: string;
+  range: SourceRange;
+}
+
+export type OutcomeKind = "succeed" | "fail" | "stop";
+
+export type BudgetLimitName =
+  | "max_tokens"
+  | "max_autonomous_steps"
+  | "max_runtime_seconds"
+  | "max_cost_usd";
+
+export interface BudgetLimitAstNode {
+  kind: "BudgetLimit";
+  name: BudgetLimitName;
+  value: NumberLiteralAstNode;
+  range: SourceRange;
+}
+
+export interface BudgetDeclarationAstNode {
+  kind: "BudgetDeclaration";
+  limits: BudgetLimitAstNode[];
+  docs?: string;
+  range: SourceRange;
+}
+
+export type OutcomeBudgetName = BudgetLimitName;
+
+export interface CheckConditionAstNode {
+  kind: "CheckCondition";
+  check: IdentifierAstNode;
+  status: "passed" | "failed";
+  range: SourceRange;
+}
+
+export interface BudgetConditionAstNode {
+  kind: "BudgetCondition";
+  budget: IdentifierAstNode & { name: OutcomeBudgetName };
+  range: SourceRange;
+}
+
+export type OutcomeConditionAstNode = CheckConditionAstNode | BudgetConditionAstNode;
+
+export interface OutcomeDeclarationAstNode {
+  kind: "OutcomeDeclaration";
+  outcome: OutcomeKind;
+  // All conditions must hold; separate declarations of the same outcome are alternatives.
+  conditions: OutcomeConditionAstNode[];
+  docs?: string;
+  range: SourceRange;
+}
+
+export interface ImportDeclarationAstNode {
+  kind: "ImportDeclaration";
+  path: StringLiteralAstNode;
+  docs?: string;
+  range: SourceRange;
+}
+
+export interface ModuleAstNode {
+  kind: "Module";
+  imports: ImportDeclarationAstNode[];
+  capabilities: CapabilityDeclarationAstNode[];
+  checks: CheckDeclarationAstNode[];
   range: SourceRange;
 }
 
 export interface DocumentAstNode {
   kind: "Document";
+  imports: ImportDeclarationAstNode[];
   goal: GoalDeclarationAstNode;
   capabilities: CapabilityDeclarationAstNode[];
+  inferences?: InferDeclarationAstNode[];
+  steps?: StepDeclarationAstNode[];
   checks: CheckDeclarationAstNode[];
+  budget?: BudgetDeclarationAstNode;
+  outcomes?: OutcomeDeclarationAstNode[];
+  policy?: PolicyDeclarationAstNode;
+  verify?: VerifyDeclarationAstNode;
   range: SourceRange;
 }
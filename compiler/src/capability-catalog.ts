@@ -0,0 +1,116 @@
+import type {
+  CapabilityDeclarationAstNode,
+  DocumentAstNode,
+  IdentifierAstNode,
+  SourceRange
+} from "./ast.ts";
+import {
+  DEFAULT_DIAGNOSTIC_FILE,
+  createDiagnostic,
+  createDiagnosticSpanFromRange,
+  emitDiagnostic,
+  type Diagnostic
+} from "./diagnostics.ts";
+
+export interface CapabilityCatalog {
+  namespaces: Record<string, readonly string[]>;
+}
+
+export interface ValidateCapabilityNamespacesOptions {
+  catalog?: CapabilityCatalog;
+  file?: string;
+}
+
+// Mirrors the runtime's required apply/rollback capabilities (`DEFAULT_*_REQUIRED_CAPABILITY`).
+export const DEFAULT_CAPABILITY_CATALOG: CapabilityCatalog = {
+  namespaces: {
+    workspace: ["workspace.apply_patch", "workspace.rollback_patch"]
+  }
+};
+
+function namespaceKey(namespace: string[]): string {
+  return namespace.join(".");
+}
+
+function isKnownNamespace(catalog: CapabilityCatalog, namespace: string): boolean {
+  return Object.prototype.hasOwnProperty.call(catalog.namespaces, namespace);
+}
+
+function describeKnownNamespaces(catalog: CapabilityCatalog): string {
+  const namespaces = Object.keys(catalog.namespaces).sort();
+  return namespaces.length > 0 ? namespaces.map((name) => `'${name}'`).join(", ") : "none";
+}
+
+export function expandCapabilityReference(
+  reference: IdentifierAstNode,
+  declarations: CapabilityDeclarationAstNode[],
+  catalog: CapabilityCatalog = DEFAULT_CAPABILITY_CATALOG
+): string[] {
+  if (!reference.wildcard) {
+    return [reference.name];
+  }
+
+  const namespace = namespaceKey(reference.namespace);
+  const declared = declarations
+    .filter((declaration) => namespaceKey(declaration.namespace) === namespace)
+    .map((declaration) => declaration.name);
+  const cataloged = isKnownNamespace(catalog, namespace) ? catalog.namespaces[namespace] : [];
+
+  return [...new Set([...declared, ...cataloged])];
+}
+
+export function validateCapabilityNamespaces(
+  ast: DocumentAstNode,
+  options: ValidateCapabilityNamespacesOptions = {}
+): Diagnostic[] {
+  const catalog = options.catalog ?? DEFAULT_CAPABILITY_CATALOG;
+  const file = options.file ?? DEFAULT_DIAGNOSTIC_FILE;
+  const diagnostics: Diagnostic[] = [];
+
+  const check = (
+    subject: string,
+    name: string,
+    namespace: string[],
+    range: SourceRange,
+    spanFile: string
+  ): void => {
+    if (namespace.length === 0 || isKnownNamespace(catalog, namespaceKey(namespace))) {
+      return;
+    }
+
+    emitDiagnostic(
+      diagnostics,
+      createDiagnostic(
+        "CATALOG_UNKNOWN_NAMESPACE",
+        `${subject} '${name}' uses unknown capability namespace '${namespaceKey(
+          namespace
+        )}' (known: ${describeKnownNamespaces(catalog)})`,
+        createDiagnosticSpanFromRange(range, spanFile)
+      )
+    );
+  };
+
+  for (const declaration of ast.capabilities) {
+    check(
+      "Capability",
+      declaration.name,
+      declaration.namespace,
+      declaration.range,
+      declaration.file ?? file
+    );
+  }
+
+  const policy = ast.policy;
+  if (policy !== undefined) {
+    const references = [
+      ...policy.allow,
+      ...policy.deny,
+      ...policy.escalations.map((escalation) => escalation.capability)
+    ];
+    for (const reference of references) {
+      check("Capability reference", reference.name, reference.namespace, reference.range, file);
+    }
+  }
+
+  return diagnostics;
+}
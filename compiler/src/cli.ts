@@ -0,0 +1,532 @@
+import { mkdirSync, readFileSync, readdirSync, statSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+
+import type { PolicyProfileContract, VerificationContract } from "../../contracts/src/index.ts";
+import type { DocumentAstNode } from "./ast.ts";
+import { validateCapabilityNamespaces } from "./capability-catalog.ts";
+import { checkStepEffects } from "./effect-checker.ts";
+import { formatDiagnostics } from "./diagnostic-format.ts";
+import { hasErrorDiagnostics, type Diagnostic } from "./diagnostics.ts";
+import { formatLsDocument } from "./formatter.ts";
+import { resolveLsProgram } from "./module-resolver.ts";
+import { lowerToPolicyProfile, type PolicyProfileLoweringResult } from "./policy-profile.ts";
+import { analyzeLsDocument } from "./semantic-analysis.ts";
+import {
+  lowerToSemanticIr,
+  type SemanticIrContract,
+  type SemanticIrDeterministicNode
+} from "./semantic-ir.ts";
+import {
+  lowerToVerificationContract,
+  type VerificationContractLoweringResult
+} from "./verification-contract.ts";
+
+export const LSC_EXIT_OK = 0;
+export const LSC_EXIT_FAILURE = 1;
+export const LSC_EXIT_USAGE = 2;
+
+const LSC_USAGE = [
+  "Usage: lsc <command> [options]",
+  "",
+  "Commands:",
+  "  check <file>                 report diagnostics",
+  "  build <file> [--out-dir d]   emit SemanticIR, PolicyProfile, and VerificationContract JSON",
+  "  fmt [--check] <path>...      format .ls files in place, or only report with --check",
+  "  run <file>                   compile and run with runSemanticIr",
+  "",
+  "Run options:",
+  "  --handlers <module>    node handlers and stochastic providers for lsc run",
+  "  --feedback-evidence <file>  FeedbackTensor fields the verify section's gate requires",
+  "  --trace-ledger <path>  --feedback-tensor <path>",
+  "  --trace-inspection <path>  --trace-inspection-report <path>",
+  "",
+  "Global options:",
+  "  --json   print one JSON object on stdout instead of human-readable output"
+].join("\n");
+
+// Mirrors the runtime's SemanticIrNodeHandler without importing the runtime package.
+export type LscNodeHandler = (
+  node: SemanticIrDeterministicNode,
+  inputs: Record<string, unknown>,
+  context: { goal: string }
+) => Record<string, unknown> | void | Promise<Record<string, unknown> | void>;
+
+// Mirrors the runtime's StochasticProvider.
+export interface LscStochasticProvider {
+  complete(request: {
+    nodeId: string;
+    provider: string;
+    prompt: string;
+    temperature: number;
+    minConfidence?: number;
+    inputs: Record<string, unknown>;
+  }): Promise<{
+    output: unknown;
+    usage: { inputTokens: number; outputTokens: number };
+    confidence: number;
+  }>;
+}
+
+// Mirrors the options of runSemanticIr that `lsc run` sets, without importing the runtime
+// package.
+export interface LscRunSemanticIrOptions {
+  traceLedgerPath?: string;
+  feedbackTensorPath?: string;
+  traceInspectionPath?: string;
+  traceInspectionReportPath?: string;
+  nodeHandlers: Record<string, LscNodeHandler>;
+  stochasticProviders?: Record<string, LscStochasticProvider>;
+  policyProfile?: PolicyProfileContract;
+  // Set from the verify section; `feedbackTensor` is the parsed --feedback-evidence file.
+  continuationGate?: {
+    verificationContract: VerificationContract;
+    policyProfile?: PolicyProfileContract;
+    feedbackTensor?: object;
+  };
+}
+
+export type LscRunSemanticIr = (
+  ir: SemanticIrContract,
+  options: LscRunSemanticIrOptions
+) => Promise<unknown>;
+
+export interface RunLscOptions {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+  color?: boolean;
+  runSemanticIr?: LscRunSemanticIr;
+}
+
+interface LscArguments {
+  command: string | undefined;
+  positionals: string[];
+  json: boolean;
+  check: boolean;
+  values: Map<string, string>;
+}
+
+interface CompiledProgram {
+  file: string;
+  ast: DocumentAstNode | null;
+  diagnostics: Diagnostic[];
+  policy?: PolicyProfileLoweringResult;
+  verify?: VerificationContractLoweringResult;
+}
+
+const VALUE_FLAGS = new Set([
+  "--out-dir",
+  "--handlers",
+  "--feedback-evidence",
+  "--trace-ledger",
+  "--feedback-tensor",
+  "--trace-inspection",
+  "--trace-inspection-report"
+]);
+
+// Stand-ins for node kinds the --handlers module leaves out: goal nodes produce the goal, and
+// every other node records `null` outputs, so stub checks never report a result.
+const LSC_STUB_NODE_HANDLERS: Record<string, LscNodeHandler> = {
+  goal: (node, _inputs, context) =>
+    Object.fromEntries(node.outputs.map((output) => [output, context.goal])),
+  capability: () => undefined,
+  step: () => undefined,
+  check: () => undefined
+};
+
+class LscUsageError extends Error {}
+
+function parseArguments(argv: string[]): LscArguments {
+  const [command, ...rest] = argv.filter((arg) => arg !== "--");
+  const parsed: LscArguments = {
+    command,
+    positionals: [],
+    json: false,
+    check: false,
+    values: new Map()
+  };
+
+  for (let index = 0; index < rest.length; index += 1) {
+    const arg = rest[index];
+    if (arg === "--json") {
+      parsed.json = true;
+    } else if (arg === "--check") {
+      parsed.check = true;
+    } else if (VALUE_FLAGS.has(arg)) {
+      const value = rest[index + 1];
+      if (value === undefined || value.startsWith("--")) {
+        throw new LscUsageError(`Option ${arg} requires a value`);
+      }
+      parsed.values.set(arg, value);
+      index += 1;
+    } else if (arg.startsWith("--")) {
+      throw new LscUsageError(`Unknown option ${arg}`);
+    } else {
+      parsed.positionals.push(arg);
+    }
+  }
+
+  return parsed;
+}
+
+function singleFile(args: LscArguments): string {
+  if (args.positionals.length !== 1) {
+    throw new LscUsageError(`lsc ${args.command} expects exactly one .ls file`);
+  }
+
+  return args.positionals[0];
+}
+
+function collectLsFiles(target: string): string[] {
+  const stats = statSync(target, { throwIfNoEntry: false });
+  if (stats === undefined) {
+    throw new LscUsageError(`No such file or directory: ${target}`);
+  }
+
+  if (!stats.isDirectory()) {
+    return [target];
+  }
+
+  return readdirSync(target, { withFileTypes: true })
+    .sort((left, right) => left.name.localeCompare(right.name))
+    .flatMap((entry) => {
+      const entryPath = path.join(target, entry.name);
+      if (entry.isDirectory()) {
+        return collectLsFiles(entryPath);
+      }
+
+      return entry.name.endsWith(".ls") ? [entryPath] : [];
+    });
+}
+
+function compileProgram(file: string): CompiledProgram {
+  const resolved = resolveLsProgram(file);
+  if (resolved.ast === null) {
+    return { file, ast: null, diagnostics: resolved.diagnostics };
+  }
+
+  // Lowering runs during checks too so schema violations surface before `lsc build`.
+  const ast = resolved.ast;
+  const policy = ast.policy !== undefined ? lowerToPolicyProfile(ast, { file }) : undefined;
+  const verify = ast.verify !== undefined ? lowerToVerificationContract(ast, { file }) : undefined;
+  const diagnostics = [
+    ...resolved.diagnostics,
+    ...validateCapabilityNamespaces(ast, { file }),
+    ...analyzeLsDocument(ast, { file }),
+    ...(policy?.diagnostics ?? []),
+    ...(policy?.policyProfile != null ? checkStepEffects(ast, policy.policyProfile, { file }) : []),
+    ...(verify?.diagnostics ?? [])
+  ];
+
+  return { file, ast, diagnostics, policy, verify };
+}
+
+function readSource(file: string): string {
+  try {
+    return readFileSync(file, "utf8");
+  } catch {
+    return "";
+  }
+}
+
+function printJson(options: RunLscOptions, value: Record<string, unknown>): void {
+  options.stdout(`${JSON.stringify(value, null, 2)}\n`);
+}
+
+function printDiagnostics(options: RunLscOptions, program: CompiledProgram): void {
+  if (program.diagnostics.length === 0) {
+    return;
+  }
+
+  const rendered = formatDiagnostics(readSource(program.file), program.diagnostics, {
+    file: program.file,
+    color: options.color ?? false
+  });
+  options.stderr(`${rendered}\n`);
+}
+
+function runCheck(args: LscArguments, options: RunLscOptions): number {
+  const program = compileProgram(singleFile(args));
+  const ok = !hasErrorDiagnostics(program.diagnostics);
+  if (args.json) {
+    printJson(options, {
+      command: "check",
+      ok,
+      file: program.file,
+      diagnostics: program.diagnostics
+    });
+  } else {
+    printDiagnostics(options, program);
+  }
+
+  return ok ? LSC_EXIT_OK : LSC_EXIT_FAILURE;
+}
+
+function runBuild(args: LscArguments, options: RunLscOptions): number {
+  const program = compileProgram(singleFile(args));
+  const ast = program.ast;
+  if (ast === null || hasErrorDiagnostics(program.diagnostics)) {
+    if (args.json) {
+      printJson(options, {
+        command: "build",
+        ok: false,
+        file: program.file,
+        diagnostics: program.diagnostics
+      });
+    } else {
+      printDiagnostics(options, program);
+    }
+    return LSC_EXIT_FAILURE;
+  }
+
+  const file = program.file;
+  const artifacts: Record<string, unknown> = {
+    semantic_ir: lowerToSemanticIr(ast, { file }),
+    ...(program.policy !== undefined ? { policy_profile: program.policy.policyProfile } : {}),
+    ...(program.verify !== undefined
+      ? { verification_contract: program.verify.verificationContract }
+      : {})
+  };
+
+  const outDir = args.values.get("--out-dir");
+  const written: string[] = [];
+  if (outDir !== undefined) {
+    mkdirSync(outDir, { recursive: true });
+    const basename = path.basename(file, ".ls");
+    for (const [kind, artifact] of Object.entries(artifacts)) {
+      const output = path.join(outDir, `${basename}.${kind.replace(/_/g, "-")}.json`);
+      writeFileSync(output, `${JSON.stringify(artifact, null, 2)}\n`, "utf8");
+      written.push(output);
+    }
+  }
+
+  if (args.json) {
+    printJson(options, {
+      command: "build",
+      ok: true,
+      file,
+      diagnostics: program.diagnostics,
+      artifacts,
+      written
+    });
+    return LSC_EXIT_OK;
+  }
+
+  printDiagnostics(options, program);
+  if (outDir === undefined) {
+    options.stdout(`${JSON.stringify(artifacts, null, 2)}\n`);
+  } else {
+    written.forEach((output) => options.stdout(`wrote ${output}\n`));
+  }
+  return LSC_EXIT_OK;
+}
+
+function runFmt(args: LscArguments, options: RunLscOptions): number {
+  if (args.positionals.length === 0) {
+    throw new LscUsageError("lsc fmt expects at least one file or directory");
+  }
+
+  let failed = false;
+  const files: Array<{ file: string; changed: boolean; diagnostics: Diagnostic[] }> = [];
+  for (const file of args.positionals.flatMap(collectLsFiles)) {
+    const source = readFileSync(file, "utf8");
+    const result = formatLsDocument(source, { file });
+    files.push({ file, changed: result.changed, diagnostics: result.diagnostics });
+    if (result.formatted === null) {
+      failed = true;
+      if (!args.json) {
+        const color = options.color ?? false;
+        options.stderr(`${formatDiagnostics(source, result.diagnostics, { file, color })}\n`);
+      }
+      continue;
+    }
+
+    if (!result.changed) {
+      continue;
+    }
+
+    if (args.check) {
+      failed = true;
+      if (!args.json) {
+        options.stderr(`${file} is not formatted\n`);
+      }
+    } else {
+      writeFileSync(file, result.formatted, "utf8");
+      if (!args.json) {
+        options.stdout(`formatted ${file}\n`);
+      }
+    }
+  }
+
+  if (args.json) {
+    printJson(options, { command: "fmt", ok: !failed, check: args.check, files });
+  }
+  return failed ? LSC_EXIT_FAILURE : LSC_EXIT_OK;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function readFeedbackEvidence(file: string): Record<string, unknown> {
+  const evidence = JSON.parse(readFileSync(file, "utf8")) as unknown;
+  if (!isRecord(evidence)) {
+    throw new Error(`Feedback evidence ${file} must be a JSON object`);
+  }
+  return evidence;
+}
+
+// The compiled policy section guards capabilities, and the verify section configures the
+// continuation gate that decides once the nodes have run.
+function loadRunContracts(
+  program: CompiledProgram,
+  feedbackEvidencePath: string | undefined
+): Pick<LscRunSemanticIrOptions, "policyProfile" | "continuationGate"> {
+  const policyProfile = program.policy?.policyProfile ?? undefined;
+  const verificationContract = program.verify?.verificationContract ?? undefined;
+  if (feedbackEvidencePath !== undefined && verificationContract === undefined) {
+    throw new Error(`--feedback-evidence needs a verify section in ${program.file}`);
+  }
+
+  const feedbackTensor =
+    feedbackEvidencePath !== undefined ? readFeedbackEvidence(feedbackEvidencePath) : undefined;
+  return {
+    ...(policyProfile !== undefined ? { policyProfile } : {}),
+    ...(verificationContract !== undefined
+      ? {
+          continuationGate: {
+            verificationContract,
+            ...(policyProfile !== undefined ? { policyProfile } : {}),
+            ...(feedbackTensor !== undefined ? { feedbackTensor } : {})
+          }
+        }
+      : {})
+  };
+}
+
+// A --handlers module may export `nodeHandlers` keyed by node kind, which replace the stubs for
+// those kinds, and `stochasticProviders` keyed by provider name.
+async function loadRunHandlers(
+  modulePath: string | undefined
+): Promise<Pick<LscRunSemanticIrOptions, "nodeHandlers" | "stochasticProviders">> {
+  if (modulePath === undefined) {
+    return { nodeHandlers: { ...LSC_STUB_NODE_HANDLERS } };
+  }
+
+  const loaded = (await import(pathToFileURL(path.resolve(modulePath)).href)) as {
+    nodeHandlers?: unknown;
+    stochasticProviders?: unknown;
+  };
+  for (const name of ["nodeHandlers", "stochasticProviders"] as const) {
+    if (loaded[name] !== undefined && !isRecord(loaded[name])) {
+      throw new Error(`Handlers module ${modulePath} must export ${name} as an object`);
+    }
+  }
+
+  return {
+    nodeHandlers: {
+      ...LSC_STUB_NODE_HANDLERS,
+      ...(loaded.nodeHandlers as Record<string, LscNodeHandler> | undefined)
+    },
+    ...(loaded.stochasticProviders !== undefined
+      ? {
+          stochasticProviders: loaded.stochasticProviders as Record<string, LscStochasticProvider>
+        }
+      : {})
+  };
+}
+
+async function runProgram(args: LscArguments, options: RunLscOptions): Promise<number> {
+  if (options.runSemanticIr === undefined) {
+    throw new LscUsageError("lsc run is not available without a runtime");
+  }
+
+  const program = compileProgram(singleFile(args));
+  const ast = program.ast;
+  if (ast === null || hasErrorDiagnostics(program.diagnostics)) {
+    if (args.json) {
+      printJson(options, {
+        command: "run",
+        ok: false,
+        file: program.file,
+        diagnostics: program.diagnostics
+      });
+    } else {
+      printDiagnostics(options, program);
+    }
+    return LSC_EXIT_FAILURE;
+  }
+
+  const ir = lowerToSemanticIr(ast, { file: program.file });
+  let result: unknown;
+  try {
+    result = await options.runSemanticIr(ir, {
+      traceLedgerPath: args.values.get("--trace-ledger"),
+      feedbackTensorPath: args.values.get("--feedback-tensor"),
+      traceInspectionPath: args.values.get("--trace-inspection"),
+      traceInspectionReportPath: args.values.get("--trace-inspection-report"),
+      ...(await loadRunHandlers(args.values.get("--handlers"))),
+      ...loadRunContracts(program, args.values.get("--feedback-evidence"))
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const code = (error as { code?: unknown }).code;
+    if (args.json) {
+      printJson(options, {
+        command: "run",
+        ok: false,
+        file: program.file,
+        diagnostics: program.diagnostics,
+        error: { ...(typeof code === "string" ? { code } : {}), message }
+      });
+    } else {
+      options.stderr(`lsc run failed: ${message}\n`);
+    }
+    return LSC_EXIT_FAILURE;
+  }
+
+  if (args.json) {
+    printJson(options, {
+      command: "run",
+      ok: true,
+      file: program.file,
+      diagnostics: program.diagnostics,
+      result
+    });
+  } else {
+    printDiagnostics(options, program);
+    options.stdout(`${JSON.stringify(result, null, 2)}\n`);
+  }
+  return LSC_EXIT_OK;
+}
+
+export async function runLsc(argv: string[], options: RunLscOptions): Promise<number> {
+  try {
+    const args = parseArguments(argv);
+    switch (args.command) {
+      case "check":
+        return runCheck(args, options);
+      case "build":
+        return runBuild(args, options);
+      case "fmt":
+        return runFmt(args, options);
+      case "run":
+        return await runProgram(args, options);
+      case "help":
+      case "--help":
+        options.stdout(`${LSC_USAGE}\n`);
+        return LSC_EXIT_OK;
+      case undefined:
+        throw new LscUsageError("missing command");
+      default:
+        throw new LscUsageError(`Unknown command '${args.command}'`);
+    }
+  } catch (error) {
+    if (!(error instanceof LscUsageError)) {
+      throw error;
+    }
+
+    options.stderr(`lsc: ${error.message}\n\n${LSC_USAGE}\n`);
+    return LSC_EXIT_USAGE;
+  }
+}
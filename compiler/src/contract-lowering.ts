@@ -0,0 +1,90 @@
+import { createHash } from "node:crypto";
+
+import type { ContractValidationError } from "../../contracts/src/index.ts";
+import type { SourceRange } from "./ast.ts";
+import {
+  createDiagnostic,
+  createDiagnosticSpanFromRange,
+  emitDiagnostic,
+  type Diagnostic,
+  type DiagnosticCode
+} from "./diagnostics.ts";
+
+export type InstancePathRanges = Map<string, SourceRange>;
+
+export function resolveCreatedAt(now: () => Date): string {
+  try {
+    const candidate = now();
+    if (candidate instanceof Date && Number.isFinite(candidate.getTime())) {
+      return candidate.toISOString();
+    }
+  } catch {}
+
+  return new Date().toISOString();
+}
+
+export function createContentId(prefix: string, fingerprint: unknown): string {
+  const digest = createHash("sha256").update(JSON.stringify(fingerprint)).digest("hex");
+  return `${prefix}-${digest.slice(0, 16)}`;
+}
+
+export function resolveOptionalId(value: string | undefined, fallback: () => string): string {
+  if (value !== undefined && value.trim().length > 0) {
+    return value.trim();
+  }
+
+  return fallback();
+}
+
+function resolveIssueRange(
+  instancePath: string,
+  ranges: InstancePathRanges,
+  fallback: SourceRange
+): SourceRange {
+  const segments = instancePath.split("/");
+  while (segments.length > 1) {
+    const range = ranges.get(segments.join("/"));
+    if (range !== undefined) {
+      return range;
+    }
+    segments.pop();
+  }
+
+  return fallback;
+}
+
+export function emitContractValidationDiagnostics(params: {
+  diagnostics: Diagnostic[];
+  error: ContractValidationError;
+  code: DiagnosticCode;
+  ranges: InstancePathRanges;
+  fallback: SourceRange;
+  file: string;
+}): void {
+  const reported = new Set<string>();
+  for (const issue of params.error.issues) {
+    // `if` issues only restate that a nested `then` branch failed; the nested issue is reported instead.
+    if (issue.keyword === "if") {
+      continue;
+    }
+
+    const key = `${issue.instancePath}:${issue.message}`;
+    if (reported.has(key)) {
+      continue;
+    }
+    reported.add(key);
+
+    const path = issue.instancePath.length > 0 ? issue.instancePath : "/";
+    emitDiagnostic(
+      params.diagnostics,
+      createDiagnostic(
+        params.code,
+        `${params.error.contract} ${path} ${issue.message}`,
+        createDiagnosticSpanFromRange(
+          resolveIssueRange(issue.instancePath, params.ranges, params.fallback),
+          params.file
+        )
+      )
+    );
+  }
+}
@@ -0,0 +1,153 @@
+import type { Diagnostic, DiagnosticSeverity } from "./diagnostics.ts";
+
+export interface FormatDiagnosticsOptions {
+  color?: boolean;
+  // When set, only diagnostics for this file get a code frame; others print their location only.
+  file?: string;
+}
+
+const TAB_WIDTH = 4;
+
+const ANSI_RESET = "\u001b[0m";
+const ANSI_BOLD = "\u001b[1m";
+const ANSI_GUTTER = "\u001b[1;34m";
+const ANSI_SEVERITY: Record<DiagnosticSeverity, string> = {
+  error: "\u001b[1;31m",
+  warning: "\u001b[1;33m",
+  info: "\u001b[1;36m"
+};
+
+interface Painter {
+  severity: (severity: DiagnosticSeverity, text: string) => string;
+  gutter: (text: string) => string;
+  bold: (text: string) => string;
+}
+
+function createPainter(color: boolean): Painter {
+  const paint = (style: string, text: string): string =>
+    color && text.length > 0 ? `${style}${text}${ANSI_RESET}` : text;
+
+  return {
+    severity: (severity, text) => paint(ANSI_SEVERITY[severity], text),
+    gutter: (text) => paint(ANSI_GUTTER, text),
+    bold: (text) => paint(ANSI_BOLD, text)
+  };
+}
+
+function compareDiagnostics(left: Diagnostic, right: Diagnostic): number {
+  return (
+    left.span.file.localeCompare(right.span.file) ||
+    left.span.start.line - right.span.start.line ||
+    left.span.start.column - right.span.start.column
+  );
+}
+
+// Diagnostics that start on the same line of the same file share one code frame.
+function groupDiagnostics(diagnostics: Diagnostic[]): Diagnostic[][] {
+  const groups: Diagnostic[][] = [];
+  for (const diagnostic of [...diagnostics].sort(compareDiagnostics)) {
+    const current = groups[groups.length - 1];
+    const first = current?.[0];
+    if (
+      first !== undefined &&
+      first.span.file === diagnostic.span.file &&
+      first.span.start.line === diagnostic.span.start.line
+    ) {
+      current.push(diagnostic);
+    } else {
+      groups.push([diagnostic]);
+    }
+  }
+
+  return groups;
+}
+
+function expandTabs(text: string): string {
+  return text.replace(/\t/g, " ".repeat(TAB_WIDTH));
+}
+
+function visualColumn(line: string, column: number): number {
+  return expandTabs(line.slice(0, Math.max(0, column - 1))).length;
+}
+
+function underline(line: string, diagnostic: Diagnostic): { offset: number; width: number } {
+  const { start, end } = diagnostic.span;
+  const endColumn = end.line === start.line ? end.column : line.length + 1;
+  const offset = visualColumn(line, start.column);
+  const width = Math.max(1, visualColumn(line, endColumn) - offset);
+  return { offset, width };
+}
+
+function pluralize(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+function formatSummary(diagnostics: Diagnostic[], painter: Painter): string {
+  const counts: Record<DiagnosticSeverity, number> = { error: 0, warning: 0, info: 0 };
+  for (const diagnostic of diagnostics) {
+    counts[diagnostic.severity] += 1;
+  }
+
+  const parts = [
+    counts.error > 0 ? pluralize(counts.error, "error") : null,
+    counts.warning > 0 ? pluralize(counts.warning, "warning") : null,
+    counts.info > 0 ? `${counts.info} info` : null
+  ].filter((part): part is string => part !== null);
+  const severity: DiagnosticSeverity =
+    counts.error > 0 ? "error" : counts.warning > 0 ? "warning" : "info";
+
+  return `${painter.severity(severity, severity)}${painter.bold(`: ${parts.join(", ")} emitted`)}`;
+}
+
+function formatGroup(
+  group: Diagnostic[],
+  sourceLines: string[] | null,
+  painter: Painter
+): string[] {
+  const [first] = group;
+  const lineNumber = String(first.span.start.line);
+  const pad = " ".repeat(lineNumber.length);
+  const output = group.map(
+    (diagnostic) =>
+      `${painter.severity(diagnostic.severity, `${diagnostic.severity}[${diagnostic.code}]`)}` +
+      painter.bold(`: ${diagnostic.message}`)
+  );
+  const { file, start } = first.span;
+  output.push(`${pad}${painter.gutter("-->")} ${file}:${start.line}:${start.column}`);
+
+  const line = sourceLines?.[first.span.start.line - 1];
+  if (line === undefined) {
+    return output;
+  }
+
+  const bar = painter.gutter("|");
+  output.push(`${pad} ${bar}`);
+  output.push(`${painter.gutter(lineNumber)} ${bar} ${expandTabs(line)}`.trimEnd());
+  for (const diagnostic of group) {
+    const { offset, width } = underline(line, diagnostic);
+    const label = group.length > 1 ? ` ${diagnostic.code}` : "";
+    const carets = painter.severity(diagnostic.severity, `${"^".repeat(width)}${label}`);
+    output.push(`${pad} ${bar} ${" ".repeat(offset)}${carets}`);
+  }
+
+  return output;
+}
+
+export function formatDiagnostics(
+  source: string,
+  diagnostics: Diagnostic[],
+  options: FormatDiagnosticsOptions = {}
+): string {
+  if (diagnostics.length === 0) {
+    return "";
+  }
+
+  const painter = createPainter(options.color ?? false);
+  const sourceLines = source.split(/\r?\n/);
+  const blocks = groupDiagnostics(diagnostics).map((group) => {
+    const hasSource = options.file === undefined || group[0].span.file === options.file;
+    return formatGroup(group, hasSource ? sourceLines : null, painter).join("\n");
+  });
+
+  return [...blocks, formatSummary(diagnostics, painter)].join("\n\n");
+}
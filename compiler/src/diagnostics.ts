@@ -7,9 +7,37 @@ export type DiagnosticCode =
   | "PARSE_EXPECTED_DECLARATION"
   | "PARSE_EXPECTED_TOKEN"
   | "PARSE_UNEXPECTED_TOKEN"
-  | "PARSE_MISSING_REQUIRED_DECLARATION";
+  | "PARSE_MISSING_REQUIRED_DECLARATION"
+  | "RESOLVE_MODULE_NOT_FOUND"
+  | "RESOLVE_IMPORT_CYCLE"
+  | "RESOLVE_DUPLICATE_SYMBOL"
+  | "CATALOG_UNKNOWN_NAMESPACE"
+  | "EFFECT_NOT_ALLOWED"
+  | "LOWER_POLICY_MISSING"
+  | "LOWER_POLICY_SCHEMA_VIOLATION"
+  | "LOWER_VERIFY_MISSING"
+  | "LOWER_VERIFY_UNKNOWN_CHECK"
+  | "LOWER_VERIFY_DUPLICATE_CHECK"
+  | "LOWER_VERIFY_SCHEMA_VIOLATION"
+  | "SEMA_DUPLICATE_CAPABILITY"
+  | "SEMA_DUPLICATE_CHECK"
+  | "SEMA_DUPLICATE_INFERENCE"
+  | "SEMA_DUPLICATE_STEP"
+  | "SEMA_CHECK_WITHOUT_CAPABILITY"
+  | "SEMA_EMPTY_DESCRIPTION"
+  | "SEMA_GOAL_TOO_LONG"
+  | "SEMA_INFERENCE_WITHOUT_CONFIDENCE"
+  | "SEMA_CONFIDENCE_OUT_OF_RANGE"
+  | "SEMA_UNKNOWN_STEP"
+  | "SEMA_UNKNOWN_STEP_CAPABILITY"
+  | "SEMA_STEP_CYCLE"
+  | "SEMA_UNUSED_CAPABILITY"
+  | "SEMA_UNKNOWN_CONDITION_CHECK"
+  | "SEMA_CONDITION_BUDGET_WITHOUT_LIMIT"
+  | "SEMA_INVALID_BUDGET_LIMIT"
+  | "SEMA_BUDGET_EXCEEDS_POLICY";
 
-export type DiagnosticSeverity = "error";
+export type DiagnosticSeverity = "error" | "warning" | "info";
 
 export interface DiagnosticSpan {
   file: string;
@@ -17,11 +45,18 @@ export interface DiagnosticSpan {
   end: SourcePosition;
 }
 
+export interface DiagnosticFix {
+  title: string;
+  span: DiagnosticSpan;
+  replacement: string;
+}
+
 export interface Diagnostic {
   code: DiagnosticCode;
   message: string;
   severity: DiagnosticSeverity;
   span: DiagnosticSpan;
+  fixes?: DiagnosticFix[];
 }
 
 export const DEFAULT_DIAGNOSTIC_FILE = "<input>";
@@ -33,7 +68,41 @@ const DIAGNOSTIC_SEVERITY_BY_CODE: Record<DiagnosticCode, DiagnosticSeverity> =
   PARSE_EXPECTED_DECLARATION: "error",
   PARSE_EXPECTED_TOKEN: "error",
   PARSE_UNEXPECTED_TOKEN: "error",
-  PARSE_MISSING_REQUIRED_DECLARATION: "error"
+  PARSE_MISSING_REQUIRED_DECLARATION: "error",
+  RESOLVE_MODULE_NOT_FOUND: "error",
+  RESOLVE_IMPORT_CYCLE: "error",
+  RESOLVE_DUPLICATE_SYMBOL: "error",
+  CATALOG_UNKNOWN_NAMESPACE: "error",
+  EFFECT_NOT_ALLOWED: "error",
+  LOWER_POLICY_MISSING: "error",
+  LOWER_POLICY_SCHEMA_VIOLATION: "error",
+  LOWER_VERIFY_MISSING: "error",
+  LOWER_VERIFY_UNKNOWN_CHECK: "error",
+  LOWER_VERIFY_DUPLICATE_CHECK: "error",
+  LOWER_VERIFY_SCHEMA_VIOLATION: "error",
+  SEMA_DUPLICATE_CAPABILITY: "error",
+  SEMA_DUPLICATE_CHECK: "error",
+  SEMA_DUPLICATE_INFERENCE: "error",
+  SEMA_DUPLICATE_STEP: "error",
+  SEMA_CHECK_WITHOUT_CAPABILITY: "info",
+  SEMA_EMPTY_DESCRIPTION: "warning",
+  SEMA_GOAL_TOO_LONG: "warning",
+  SEMA_INFERENCE_WITHOUT_CONFIDENCE: "error",
+  SEMA_CONFIDENCE_OUT_OF_RANGE: "error",
+  SEMA_UNKNOWN_STEP: "error",
+  SEMA_UNKNOWN_STEP_CAPABILITY: "error",
+  SEMA_STEP_CYCLE: "error",
+  SEMA_UNUSED_CAPABILITY: "warning",
+  SEMA_UNKNOWN_CONDITION_CHECK: "error",
+  SEMA_CONDITION_BUDGET_WITHOUT_LIMIT: "warning",
+  SEMA_INVALID_BUDGET_LIMIT: "error",
+  SEMA_BUDGET_EXCEEDS_POLICY: "info"
+};
+
+const DIAGNOSTIC_SEVERITY_RANK: Record<DiagnosticSeverity, number> = {
+  info: 0,
+  warning: 1,
+  error: 2
 };
 
 function clonePosition(position: SourcePosition): SourcePosition {
@@ -66,16 +135,40 @@ export function createDiagnosticSpanFromRange(
 export function createDiagnostic(
   code: DiagnosticCode,
   message: string,
-  span: DiagnosticSpan
+  span: DiagnosticSpan,
+  fixes: DiagnosticFix[] = []
 ): Diagnostic {
   return {
     code,
     message,
     severity: DIAGNOSTIC_SEVERITY_BY_CODE[code],
-    span
+    span,
+    ...(fixes.length > 0 ? { fixes } : {})
   };
 }
 
+export function createDiagnosticFix(
+  title: string,
+  span: DiagnosticSpan,
+  replacement: string
+): DiagnosticFix {
+  return { title, span, replacement };
+}
+
 export function emitDiagnostic(diagnostics: Diagnostic[], diagnostic: Diagnostic): void {
   diagnostics.push(diagnostic);
 }
+
+export function filterDiagnosticsBySeverity(
+  diagnostics: Diagnostic[],
+  minimumSeverity: DiagnosticSeverity
+): Diagnostic[] {
+  const minimumRank = DIAGNOSTIC_SEVERITY_RANK[minimumSeverity];
+  return diagnostics.filter(
+    (diagnostic) => DIAGNOSTIC_SEVERITY_RANK[diagnostic.severity] >= minimumRank
+  );
+}
+
+export function hasErrorDiagnostics(diagnostics: Diagnostic[]): boolean {
+  return diagnostics.some((diagnostic) => diagnostic.severity === "error");
+}
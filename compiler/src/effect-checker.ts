@@ -0,0 +1,93 @@
+import type { PolicyProfileContract } from "../../contracts/src/index.ts";
+import type { CapabilityEffect, DocumentAstNode } from "./ast.ts";
+import {
+  DEFAULT_DIAGNOSTIC_FILE,
+  createDiagnostic,
+  createDiagnosticSpanFromRange,
+  emitDiagnostic,
+  type Diagnostic
+} from "./diagnostics.ts";
+
+export interface CheckStepEffectsOptions {
+  file?: string;
+}
+
+function describeEffects(effects: readonly string[]): string {
+  return effects.length === 0 ? "none" : effects.map((effect) => `'${effect}'`).join(", ");
+}
+
+function describeDisallowed(disallowed: readonly string[], allowed: readonly string[]): string {
+  return `${disallowed.length === 1 ? "effect" : "effects"} ${describeEffects(
+    disallowed
+  )} not allowed by the policy (allowed: ${describeEffects(allowed)})`;
+}
+
+// A step's effects are the union of the effects of the capabilities it `uses`. Programs without
+// steps invoke every declared capability, so each capability's own effects are checked instead.
+// Profiles without `allowed_effects` leave effects unrestricted, and capabilities without an
+// `effects` clause are treated as effect-free.
+export function checkStepEffects(
+  ast: DocumentAstNode,
+  policyProfile: PolicyProfileContract,
+  options: CheckStepEffectsOptions = {}
+): Diagnostic[] {
+  const allowed = policyProfile.capability_policy.allowed_effects;
+  const diagnostics: Diagnostic[] = [];
+  if (allowed === undefined) {
+    return diagnostics;
+  }
+
+  const file = options.file ?? DEFAULT_DIAGNOSTIC_FILE;
+  const effectsByCapability = new Map<string, CapabilityEffect[]>();
+  for (const capability of ast.capabilities) {
+    if (!effectsByCapability.has(capability.name)) {
+      effectsByCapability.set(
+        capability.name,
+        (capability.effects ?? []).map((effect) => effect.name)
+      );
+    }
+  }
+  const findDisallowed = (capability: string) =>
+    (effectsByCapability.get(capability) ?? []).filter((effect) => !allowed.includes(effect));
+
+  const steps = ast.steps ?? [];
+  if (steps.length === 0) {
+    for (const capability of ast.capabilities) {
+      const disallowed = findDisallowed(capability.name);
+      if (disallowed.length > 0) {
+        emitDiagnostic(
+          diagnostics,
+          createDiagnostic(
+            "EFFECT_NOT_ALLOWED",
+            `Capability '${capability.name}' has ${describeDisallowed(disallowed, allowed)}`,
+            createDiagnosticSpanFromRange(capability.range, capability.file ?? file)
+          )
+        );
+      }
+    }
+    return diagnostics;
+  }
+
+  for (const step of steps) {
+    for (const reference of step.uses) {
+      const disallowed = findDisallowed(reference.name);
+      if (disallowed.length === 0) {
+        continue;
+      }
+
+      emitDiagnostic(
+        diagnostics,
+        createDiagnostic(
+          "EFFECT_NOT_ALLOWED",
+          `Step '${step.name}' uses capability '${reference.name}' with ${describeDisallowed(
+            disallowed,
+            allowed
+          )}`,
+          createDiagnosticSpanFromRange(reference.range, file)
+        )
+      );
+    }
+  }
+
+  return diagnostics;
+}
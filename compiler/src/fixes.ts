@@ -0,0 +1,56 @@
+import type { Diagnostic, DiagnosticFix } from "./diagnostics.ts";
+
+export interface ApplyFixesOptions {
+  // When set, fixes whose span belongs to another file are ignored.
+  file?: string;
+}
+
+export interface ApplyFixesResult {
+  source: string;
+  applied: DiagnosticFix[];
+  skipped: DiagnosticFix[];
+}
+
+// Applies the first (preferred) fix of each diagnostic. Fixes that overlap an earlier fix are
+// skipped; re-lexing/parsing the result and applying again picks them up.
+export function applyFixes(
+  source: string,
+  diagnostics: Diagnostic[],
+  options: ApplyFixesOptions = {}
+): ApplyFixesResult {
+  const candidates = diagnostics
+    .map((diagnostic) => diagnostic.fixes?.[0])
+    .filter(
+      (fix): fix is DiagnosticFix =>
+        fix !== undefined && (options.file === undefined || fix.span.file === options.file)
+    )
+    .sort(
+      (left, right) =>
+        left.span.start.offset - right.span.start.offset ||
+        left.span.end.offset - right.span.end.offset
+    );
+
+  const applied: DiagnosticFix[] = [];
+  const skipped: DiagnosticFix[] = [];
+  let output = "";
+  let cursor = 0;
+  let lastInsertion = -1;
+  for (const fix of candidates) {
+    const { start, end } = fix.span;
+    if (start.offset < cursor || start.offset === lastInsertion || end.offset > source.length) {
+      skipped.push(fix);
+      continue;
+    }
+
+    output += source.slice(cursor, start.offset) + fix.replacement;
+    cursor = end.offset;
+    lastInsertion = start.offset === end.offset ? start.offset : -1;
+    applied.push(fix);
+  }
+
+  return {
+    source: output + source.slice(cursor),
+    applied,
+    skipped
+  };
+}
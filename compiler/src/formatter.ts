@@ -0,0 +1,195 @@
+import type { Diagnostic } from "./diagnostics.ts";
+import { lex, type Token, type TokenKind, type Trivia } from "./lexer.ts";
+import { parseLsDocument, parseLsModule } from "./parser.ts";
+
+export interface FormatLsDocumentOptions {
+  file?: string;
+}
+
+export interface FormatLsDocumentResult {
+  formatted: string | null;
+  changed: boolean;
+  diagnostics: Diagnostic[];
+}
+
+type LineGroup = "imports" | "declarations" | "outcomes" | "policy" | "verify";
+
+interface FormattedLine {
+  group: LineGroup;
+  tokens: Token[];
+  comments: string[];
+  trailingComments: string[];
+}
+
+interface SplitSource {
+  lines: FormattedLine[];
+  endComments: string[];
+}
+
+const GROUP_BY_LEADING_KIND: Partial<Record<TokenKind, LineGroup>> = {
+  ImportKeyword: "imports",
+  GoalKeyword: "declarations",
+  CapabilityKeyword: "declarations",
+  CheckKeyword: "declarations",
+  InferKeyword: "declarations",
+  StepKeyword: "declarations",
+  BudgetKeyword: "outcomes",
+  PolicyKeyword: "policy",
+  VerifyKeyword: "verify"
+};
+
+const OUTCOME_KEYWORDS = new Set(["succeed", "fail", "stop"]);
+
+const ALIGNED_DECLARATION_KINDS = new Set<TokenKind>(["CapabilityKeyword", "CheckKeyword"]);
+
+export function quoteString(value: string): string {
+  const escaped = value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, "\\\"")
+    .replace(/\n/g, "\\n")
+    .replace(/\t/g, "\\t");
+  return `"${escaped}"`;
+}
+
+function renderToken(token: Token): string {
+  return token.kind === "StringLiteral" ? quoteString(token.value ?? "") : token.lexeme;
+}
+
+function commentLexemes(token: Token | undefined): string[] {
+  return (token?.leadingTrivia ?? []).map((trivia) => trivia.lexeme);
+}
+
+function isOutcomeLine(tokens: Token[]): boolean {
+  const [keyword, when] = tokens;
+  return (
+    keyword?.kind === "Identifier" &&
+    OUTCOME_KEYWORDS.has(keyword.lexeme) &&
+    when?.kind === "Identifier" &&
+    when.lexeme === "when"
+  );
+}
+
+function splitLines(tokens: Token[]): SplitSource {
+  const lines: FormattedLine[] = [];
+  const endComments: string[] = [];
+  let current: Token[] = [];
+  let group: LineGroup = "declarations";
+
+  const flush = (terminator: Token): void => {
+    const leading = current[0];
+    const trivia = terminator.leadingTrivia ?? [];
+    if (leading === undefined) {
+      endComments.push(...trivia.map((entry) => entry.lexeme));
+      return;
+    }
+
+    // Newline trivia is always trailing; EOF trivia only when it is on the line's last row.
+    const lastLine = current[current.length - 1].range.end.line;
+    const isTrailing = (entry: Trivia): boolean =>
+      terminator.kind === "Newline" || entry.range.start.line === lastLine;
+
+    group = GROUP_BY_LEADING_KIND[leading.kind] ?? (isOutcomeLine(current) ? "outcomes" : group);
+    lines.push({
+      group,
+      tokens: current,
+      comments: commentLexemes(leading),
+      trailingComments: trivia.filter(isTrailing).map((entry) => entry.lexeme)
+    });
+    endComments.push(...trivia.filter((entry) => !isTrailing(entry)).map((entry) => entry.lexeme));
+    current = [];
+  };
+
+  for (const token of tokens) {
+    if (token.kind === "Newline" || token.kind === "EOF") {
+      flush(token);
+      continue;
+    }
+
+    current.push(token);
+  }
+
+  return { lines, endComments };
+}
+
+function isAlignedDeclaration(line: FormattedLine): boolean {
+  return line.tokens.length === 3 && ALIGNED_DECLARATION_KINDS.has(line.tokens[0].kind);
+}
+
+function declarationHead(line: FormattedLine): string {
+  return `${line.tokens[0].lexeme} ${line.tokens[1].lexeme}`;
+}
+
+function renderContents(lines: FormattedLine[]): string[] {
+  const contents: string[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index];
+    if (!isAlignedDeclaration(line)) {
+      contents.push(line.tokens.map(renderToken).join(" "));
+      index += 1;
+      continue;
+    }
+
+    // Align descriptions across a run of consecutive declarations of the same kind.
+    let runEnd = index;
+    while (
+      runEnd < lines.length &&
+      isAlignedDeclaration(lines[runEnd]) &&
+      lines[runEnd].tokens[0].kind === line.tokens[0].kind
+    ) {
+      runEnd += 1;
+    }
+
+    const run = lines.slice(index, runEnd);
+    const width = Math.max(...run.map((entry) => declarationHead(entry).length));
+    for (const entry of run) {
+      contents.push(`${declarationHead(entry).padEnd(width)} ${renderToken(entry.tokens[2])}`);
+    }
+    index = runEnd;
+  }
+
+  return contents;
+}
+
+function renderLines({ lines, endComments }: SplitSource): string[] {
+  const contents = renderContents(lines);
+  const rendered: string[] = [];
+
+  lines.forEach((line, index) => {
+    const previous = lines[index - 1];
+    if (previous !== undefined && previous.group !== line.group) {
+      rendered.push("");
+    }
+
+    rendered.push(...line.comments);
+    rendered.push([contents[index], ...line.trailingComments].join(" "));
+  });
+
+  if (endComments.length > 0 && rendered.length > 0) {
+    rendered.push("");
+  }
+  rendered.push(...endComments);
+
+  return rendered;
+}
+
+export function formatLsDocument(
+  source: string,
+  options: FormatLsDocumentOptions = {}
+): FormatLsDocumentResult {
+  const lexed = lex(source, { file: options.file });
+  // Sources without a goal are formatted as imported modules.
+  const isModule = !lexed.tokens.some((token) => token.kind === "GoalKeyword");
+  const parsed = isModule
+    ? parseLsModule(source, { file: options.file })
+    : parseLsDocument(source, { file: options.file });
+  if (parsed.ast === null) {
+    return { formatted: null, changed: false, diagnostics: parsed.diagnostics };
+  }
+
+  const rendered = renderLines(splitLines(lexed.tokens));
+  const formatted = rendered.length > 0 ? `${rendered.join("\n")}\n` : "";
+
+  return { formatted, changed: formatted !== source, diagnostics: [] };
+}
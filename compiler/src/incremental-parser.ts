@@ -0,0 +1,351 @@
+import type { DocumentAstNode, SourcePosition, SourceRange } from "./ast.ts";
+import { DEFAULT_DIAGNOSTIC_FILE } from "./diagnostics.ts";
+import { lex, type Token, type Trivia } from "./lexer.ts";
+import {
+  parseLsDocumentTokens,
+  type ParseLsDocumentOptions,
+  type ParseResult
+} from "./parser.ts";
+
+// Replaces the text between the `start` and `end` offsets with `replacement`.
+export interface LsTextEdit {
+  start: number;
+  end: number;
+  replacement: string;
+}
+
+export interface IncrementalParseResult extends ParseResult {
+  source: string;
+  file: string;
+  // Null when the source has lexer diagnostics; the next reparse then lexes from scratch.
+  tokens: Token[] | null;
+}
+
+interface EditedText {
+  source: string;
+  // Changed region: [start, oldEnd) in the previous source became [start, newEnd).
+  start: number;
+  oldEnd: number;
+  newEnd: number;
+}
+
+interface Shift {
+  offset: number;
+  line: number;
+}
+
+interface RelexWindow {
+  start: number;
+  oldEnd: number;
+  shift: Shift;
+}
+
+const NO_SHIFT: Shift = { offset: 0, line: 0 };
+
+function applyTextEdits(source: string, edits: readonly LsTextEdit[]): EditedText {
+  let text = source;
+  let start = Number.POSITIVE_INFINITY;
+  let end = Number.NEGATIVE_INFINITY;
+  let delta = 0;
+  for (const edit of edits) {
+    if (edit.start < 0 || edit.start > edit.end || edit.end > text.length) {
+      throw new Error(
+        `Text edit [${edit.start}, ${edit.end}) is outside the document (length ${text.length})`
+      );
+    }
+
+    const shift = edit.replacement.length - (edit.end - edit.start);
+    const replacedEnd = edit.start + edit.replacement.length;
+    if (start === Number.POSITIVE_INFINITY) {
+      end = replacedEnd;
+    } else {
+      const mappedEnd = end <= edit.start ? end : end >= edit.end ? end + shift : replacedEnd;
+      end = Math.max(mappedEnd, replacedEnd);
+    }
+    start = Math.min(start, edit.start);
+    text = text.slice(0, edit.start) + edit.replacement + text.slice(edit.end);
+    delta += shift;
+  }
+
+  return { source: text, start, oldEnd: end - delta, newEnd: end };
+}
+
+function lineStart(source: string, offset: number): number {
+  return offset === 0 ? 0 : source.lastIndexOf("\n", offset - 1) + 1;
+}
+
+function nextLineStart(source: string, offset: number): number {
+  const newline = source.indexOf("\n", offset);
+  return newline === -1 ? source.length : newline + 1;
+}
+
+function countNewlines(source: string, start: number, end: number): number {
+  let count = 0;
+  for (let index = source.indexOf("\n", start); index !== -1 && index < end; ) {
+    count += 1;
+    index = source.indexOf("\n", index + 1);
+  }
+  return count;
+}
+
+function shiftPosition(position: SourcePosition, shift: Shift): SourcePosition {
+  return {
+    offset: position.offset + shift.offset,
+    line: position.line + shift.line,
+    column: position.column
+  };
+}
+
+function shiftRange(range: SourceRange, shift: Shift): SourceRange {
+  return { start: shiftPosition(range.start, shift), end: shiftPosition(range.end, shift) };
+}
+
+function shiftTrivia(trivia: Trivia, shift: Shift): Trivia {
+  return { ...trivia, range: shiftRange(trivia.range, shift) };
+}
+
+function shiftToken(token: Token, shift: Shift): Token {
+  return {
+    ...token,
+    range: shiftRange(token.range, shift),
+    ...(token.leadingTrivia !== undefined
+      ? { leadingTrivia: token.leadingTrivia.map((trivia) => shiftTrivia(trivia, shift)) }
+      : {})
+  };
+}
+
+function firstTriviaOffset(token: Token | undefined): number | undefined {
+  return token?.leadingTrivia?.[0]?.range.start.offset;
+}
+
+// Re-lexes whole lines around the edit. Tokens before the window are reused as they are and
+// tokens after it are shifted copies; comments attach to the next significant token, so the
+// window grows until no comment run crosses one of its edges. Returns null when the window has
+// lexer diagnostics, which the caller reports through a full lex instead.
+function relexTokens(
+  previousSource: string,
+  previousTokens: Token[],
+  edited: EditedText
+): { tokens: Token[]; window: RelexWindow } | null {
+  const isAffected = (token: Token): boolean =>
+    token.kind === "EOF" || token.range.end.offset > start;
+  let start = lineStart(previousSource, edited.start);
+  const commentStart = firstTriviaOffset(
+    previousTokens.find((token) => isAffected(token) && token.kind !== "Newline")
+  );
+  if (commentStart !== undefined && commentStart < start) {
+    start = lineStart(previousSource, commentStart);
+  }
+  const prefix = previousTokens.slice(0, previousTokens.findIndex(isAffected));
+
+  const delta = edited.source.length - previousSource.length;
+  let oldEnd = nextLineStart(previousSource, edited.oldEnd);
+  for (;;) {
+    const suffixIndex = previousTokens.findIndex((token) => token.range.start.offset >= oldEnd);
+    const suffix = suffixIndex === -1 ? [] : previousTokens.slice(suffixIndex);
+    const nextSignificant = suffix.find((token) => token.kind !== "Newline");
+    const suffixComment = firstTriviaOffset(nextSignificant);
+    const reachesEnd = oldEnd >= previousSource.length;
+    if (!reachesEnd && suffixComment !== undefined && suffixComment < oldEnd) {
+      oldEnd = nextLineStart(previousSource, nextSignificant?.range.end.offset ?? oldEnd);
+      continue;
+    }
+
+    const newEnd = oldEnd + delta;
+    const lexed = lex(edited.source.slice(start, newEnd));
+    if (lexed.diagnostics.length > 0) {
+      return null;
+    }
+
+    const eof = lexed.tokens[lexed.tokens.length - 1];
+    if (!reachesEnd && eof.leadingTrivia !== undefined) {
+      oldEnd = nextLineStart(previousSource, oldEnd);
+      continue;
+    }
+
+    const startLine = previousSource.slice(0, start).split("\n").length;
+    const windowShift: Shift = { offset: start, line: startLine - 1 };
+    const relexed = (reachesEnd ? lexed.tokens : lexed.tokens.slice(0, -1)).map((token) =>
+      shiftToken(token, windowShift)
+    );
+    const shift: Shift = {
+      offset: delta,
+      line:
+        countNewlines(edited.source, start, newEnd) - countNewlines(previousSource, start, oldEnd)
+    };
+
+    return {
+      tokens: [
+        ...prefix,
+        ...relexed,
+        ...(reachesEnd ? [] : suffix.map((token) => shiftToken(token, shift)))
+      ],
+      window: { start, oldEnd, shift }
+    };
+  }
+}
+
+function isPosition(value: object): value is SourcePosition {
+  const keys = Object.keys(value);
+  return (
+    keys.length === 3 &&
+    typeof (value as Partial<SourcePosition>).offset === "number" &&
+    typeof (value as Partial<SourcePosition>).line === "number" &&
+    typeof (value as Partial<SourcePosition>).column === "number"
+  );
+}
+
+function matchesShifted(previous: unknown, next: unknown, shift: Shift): boolean {
+  if (typeof previous !== "object" || previous === null) {
+    return Object.is(previous, next);
+  }
+  if (
+    typeof next !== "object" ||
+    next === null ||
+    Array.isArray(previous) !== Array.isArray(next)
+  ) {
+    return false;
+  }
+  if (isPosition(previous)) {
+    return (
+      isPosition(next) &&
+      previous.offset + shift.offset === next.offset &&
+      previous.line + shift.line === next.line &&
+      previous.column === next.column
+    );
+  }
+
+  const previousRecord = previous as Record<string, unknown>;
+  const nextRecord = next as Record<string, unknown>;
+  const keys = Object.keys(previousRecord);
+  return (
+    keys.length === Object.keys(nextRecord).length &&
+    keys.every(
+      (key) =>
+        Object.prototype.hasOwnProperty.call(nextRecord, key) &&
+        matchesShifted(previousRecord[key], nextRecord[key], shift)
+    )
+  );
+}
+
+function shiftInPlace(value: unknown, shift: Shift, seen: Set<object>): void {
+  if (typeof value !== "object" || value === null || seen.has(value)) {
+    return;
+  }
+  seen.add(value);
+  if (isPosition(value)) {
+    value.offset += shift.offset;
+    value.line += shift.line;
+    return;
+  }
+
+  for (const child of Object.values(value)) {
+    shiftInPlace(child, shift, seen);
+  }
+}
+
+interface RangedNode {
+  range: SourceRange;
+}
+
+// Swaps freshly parsed declarations for their previous objects when those lie outside the
+// re-lexed window and are unchanged apart from the shift, so callers can key caches on node
+// identity. The result stays structurally identical to a full reparse.
+function reuseDeclarations(
+  previous: DocumentAstNode,
+  next: DocumentAstNode,
+  window: RelexWindow
+): DocumentAstNode {
+  const seen = new Set<object>();
+  const shiftFor = (node: RangedNode): Shift | null =>
+    node.range.end.offset <= window.start
+      ? NO_SHIFT
+      : node.range.start.offset >= window.oldEnd
+        ? window.shift
+        : null;
+  const reuse = <T extends RangedNode>(candidates: readonly T[], node: T): T => {
+    for (const candidate of candidates) {
+      const shift = shiftFor(candidate);
+      if (
+        shift !== null &&
+        !seen.has(candidate) &&
+        candidate.range.start.offset + shift.offset === node.range.start.offset &&
+        matchesShifted(candidate, node, shift)
+      ) {
+        shiftInPlace(candidate, shift, seen);
+        return candidate;
+      }
+    }
+    return node;
+  };
+  const reuseAll = <T extends RangedNode>(
+    candidates: readonly T[] | undefined,
+    nodes: readonly T[] | undefined
+  ): T[] | undefined => nodes?.map((node) => reuse(candidates ?? [], node));
+  const reuseOne = <T extends RangedNode>(candidate: T | undefined, node: T | undefined) =>
+    node === undefined ? undefined : reuse(candidate !== undefined ? [candidate] : [], node);
+
+  const { inferences, steps, budget, outcomes, policy, verify } = next;
+  return {
+    ...next,
+    imports: reuseAll(previous.imports, next.imports) ?? [],
+    goal: reuse([previous.goal], next.goal),
+    capabilities: reuseAll(previous.capabilities, next.capabilities) ?? [],
+    ...(inferences !== undefined ? { inferences: reuseAll(previous.inferences, inferences) } : {}),
+    ...(steps !== undefined ? { steps: reuseAll(previous.steps, steps) } : {}),
+    checks: reuseAll(previous.checks, next.checks) ?? [],
+    ...(budget !== undefined ? { budget: reuseOne(previous.budget, budget) } : {}),
+    ...(outcomes !== undefined ? { outcomes: reuseAll(previous.outcomes, outcomes) } : {}),
+    ...(policy !== undefined ? { policy: reuseOne(previous.policy, policy) } : {}),
+    ...(verify !== undefined ? { verify: reuseOne(previous.verify, verify) } : {})
+  };
+}
+
+export function parseLsDocumentIncremental(
+  input: string,
+  options: ParseLsDocumentOptions = {}
+): IncrementalParseResult {
+  const file = options.file ?? DEFAULT_DIAGNOSTIC_FILE;
+  const lexResult = lex(input, { file });
+  if (lexResult.diagnostics.length > 0) {
+    return { ast: null, diagnostics: lexResult.diagnostics, source: input, file, tokens: null };
+  }
+
+  return {
+    ...parseLsDocumentTokens(lexResult.tokens, input, { file }),
+    source: input,
+    file,
+    tokens: lexResult.tokens
+  };
+}
+
+// Applies `edits` in order (each against the text left by the previous one) and reparses. The
+// result is deep-equal to `parseLsDocumentIncremental` on the edited text. The previous result
+// is consumed: declarations after the edit are reused with their ranges shifted in place.
+export function reparseLsDocument(
+  previous: IncrementalParseResult,
+  edits: readonly LsTextEdit[]
+): IncrementalParseResult {
+  if (edits.length === 0) {
+    return previous;
+  }
+
+  const edited = applyTextEdits(previous.source, edits);
+  const relexed =
+    previous.tokens !== null ? relexTokens(previous.source, previous.tokens, edited) : null;
+  if (relexed === null) {
+    return parseLsDocumentIncremental(edited.source, { file: previous.file });
+  }
+
+  const parsed = parseLsDocumentTokens(relexed.tokens, edited.source, { file: previous.file });
+  return {
+    ast:
+      parsed.ast !== null && previous.ast !== null
+        ? reuseDeclarations(previous.ast, parsed.ast, relexed.window)
+        : parsed.ast,
+    diagnostics: parsed.diagnostics,
+    source: edited.source,
+    file: previous.file,
+    tokens: relexed.tokens
+  };
+}
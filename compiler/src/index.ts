@@ -16,14 +16,138 @@ export function parseGoalDeclaration(input: string): GoalAstNode {
 }
 
 export { lex } from "./lexer.ts";
-export { parseLsDocument } from "./parser.ts";
+export { parseLsDocument, parseLsModule } from "./parser.ts";
+export { parseLsDocumentIncremental, reparseLsDocument } from "./incremental-parser.ts";
+export { resolveLsProgram } from "./module-resolver.ts";
+export { formatLsDocument } from "./formatter.ts";
+export { astChildren, isAstNode, transformAst, visitAst } from "./ast-visitor.ts";
+export { LS_AST_SCHEMA_VERSION, deserializeAst, serializeAst } from "./ast-json.ts";
+export { astToSource } from "./ast-printer.ts";
+export { formatDiagnostics } from "./diagnostic-format.ts";
+export { applyFixes } from "./fixes.ts";
+export { LSC_EXIT_FAILURE, LSC_EXIT_OK, LSC_EXIT_USAGE, runLsc } from "./cli.ts";
+export { lowerToPolicyProfile } from "./policy-profile.ts";
+export {
+  DEFAULT_CAPABILITY_CATALOG,
+  expandCapabilityReference,
+  validateCapabilityNamespaces
+} from "./capability-catalog.ts";
+export { checkStepEffects } from "./effect-checker.ts";
+export { analyzeLeastPrivilege } from "./least-privilege.ts";
+export { DEFAULT_MAX_GOAL_LENGTH, analyzeLsDocument } from "./semantic-analysis.ts";
+export {
+  SEMANTIC_IR_DEFAULT_TEMPERATURE,
+  SEMANTIC_IR_GOAL_NODE_ID,
+  SEMANTIC_IR_GOAL_OUTPUT,
+  SEMANTIC_IR_SCHEMA_VERSION,
+  lowerToSemanticIr
+} from "./semantic-ir.ts";
+export {
+  VERIFICATION_REQUIRED_FEEDBACK_TENSOR_FIELDS,
+  lowerToVerificationContract
+} from "./verification-contract.ts";
 export {
   createDiagnostic,
+  createDiagnosticFix,
   createDiagnosticSpan,
   createDiagnosticSpanFromRange,
-  emitDiagnostic
+  emitDiagnostic,
+  filterDiagnosticsBySeverity,
+  hasErrorDiagnostics
+} from "./diagnostics.ts";
+export type {
+  DocumentAstNode,
+  GoalDeclarationAstNode,
+  CapabilityDeclarationAstNode,
+  CapabilityEffect,
+  CapabilityEffectAstNode,
+  CapabilityParameterAstNode,
+  CapabilityTypeAstNode,
+  CapabilityValueType,
+  BudgetConditionAstNode,
+  BudgetDeclarationAstNode,
+  BudgetLimitAstNode,
+  BudgetLimitName,
+  CheckConditionAstNode,
+  CheckDeclarationAstNode,
+  IdentifierAstNode,
+  ImportDeclarationAstNode,
+  InferDeclarationAstNode,
+  ModuleAstNode,
+  NumberLiteralAstNode,
+  OutcomeBudgetName,
+  OutcomeConditionAstNode,
+  OutcomeDeclarationAstNode,
+  OutcomeKind,
+  PolicyDeclarationAstNode,
+  PolicyEscalationAstNode,
+  PolicySettingAstNode,
+  PolicySettingName,
+  SourcePosition,
+  StepDeclarationAstNode,
+  SourceRange,
+  StringLiteralAstNode,
+  VerificationRequirementKind,
+  VerifyDeclarationAstNode,
+  VerifyPolicyAssertionAstNode,
+  VerifyRequirementAstNode,
+  VerifySettingAstNode,
+  VerifySettingName
+} from "./ast.ts";
+export type {
+  Diagnostic,
+  DiagnosticCode,
+  DiagnosticFix,
+  DiagnosticSeverity,
+  DiagnosticSpan
 } from "./diagnostics.ts";
-export type { DocumentAstNode, GoalDeclarationAstNode, CapabilityDeclarationAstNode, CheckDeclarationAstNode, SourcePosition, SourceRange } from "./ast.ts";
-export type { Diagnostic, DiagnosticCode, DiagnosticSeverity, DiagnosticSpan } from "./diagnostics.ts";
-export type { LexResult, Token, TokenKind } from "./lexer.ts";
-export type { ParseResult } from "./parser.ts";
+export type { LexOptions, LexResult, Token, TokenKind, Trivia, TriviaKind } from "./lexer.ts";
+export type { ModuleParseResult, ParseLsDocumentOptions, ParseResult } from "./parser.ts";
+export type { IncrementalParseResult, LsTextEdit } from "./incremental-parser.ts";
+export type { FormatLsDocumentOptions, FormatLsDocumentResult } from "./formatter.ts";
+export type {
+  AstNode,
+  AstNodeKind,
+  AstNodeOfKind,
+  AstTransformer,
+  AstVisitor
+} from "./ast-visitor.ts";
+export type { LsAstJson } from "./ast-json.ts";
+export type { FormatDiagnosticsOptions } from "./diagnostic-format.ts";
+export type { ApplyFixesOptions, ApplyFixesResult } from "./fixes.ts";
+export type {
+  LscNodeHandler,
+  LscRunSemanticIr,
+  LscRunSemanticIrOptions,
+  LscStochasticProvider,
+  RunLscOptions
+} from "./cli.ts";
+export type {
+  LsModuleGraph,
+  LsModuleGraphNode,
+  ResolveLsProgramOptions,
+  ResolveLsProgramResult
+} from "./module-resolver.ts";
+export type { LowerToPolicyProfileOptions, PolicyProfileLoweringResult } from "./policy-profile.ts";
+export type {
+  CapabilityCatalog,
+  ValidateCapabilityNamespacesOptions
+} from "./capability-catalog.ts";
+export type { CheckStepEffectsOptions } from "./effect-checker.ts";
+export type { LeastPrivilegeReport } from "./least-privilege.ts";
+export type { AnalyzeLsDocumentOptions } from "./semantic-analysis.ts";
+export type {
+  LowerToSemanticIrOptions,
+  SemanticIrBudget,
+  SemanticIrCapabilityParameter,
+  SemanticIrContract,
+  SemanticIrDeterministicNode,
+  SemanticIrOutcomeCondition,
+  SemanticIrSourceMap,
+  SemanticIrSourceSpan,
+  SemanticIrStochasticNode
+} from "./semantic-ir.ts";
+export type {
+  LowerToVerificationContractOptions,
+  VerificationContractLoweringResult
+} from "./verification-contract.ts";
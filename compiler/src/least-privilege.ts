@@ -0,0 +1,92 @@
+import type {
+  PolicyProfileContract,
+  PolicyProfileEscalationRule
+} from "../../contracts/src/index.ts";
+import type { CapabilityEffect } from "./ast.ts";
+import type { SemanticIrContract, SemanticIrDeterministicNode } from "./semantic-ir.ts";
+
+const CAPABILITY_OUTPUT_PREFIX = "capability.";
+
+export interface LeastPrivilegeReport {
+  // Capabilities the program uses, in declaration order: those named by step `uses` clauses, or
+  // every declared capability when the program has no steps.
+  used_capabilities: string[];
+  allowed_unused: string[];
+  used_not_allowed: string[];
+  used_denied: string[];
+  used_escalated: PolicyProfileEscalationRule[];
+  // `null` when no used capability may be allowed; see analyzeLeastPrivilege.
+  suggested_policy: PolicyProfileContract | null;
+}
+
+function capabilityName(node: SemanticIrDeterministicNode): string | undefined {
+  return node.outputs
+    .find((output) => output.startsWith(CAPABILITY_OUTPUT_PREFIX))
+    ?.slice(CAPABILITY_OUTPUT_PREFIX.length);
+}
+
+function collectUsedCapabilities(
+  capabilities: SemanticIrDeterministicNode[],
+  steps: SemanticIrDeterministicNode[]
+): SemanticIrDeterministicNode[] {
+  if (steps.length === 0) {
+    return capabilities;
+  }
+
+  const inputs = new Set(steps.flatMap((step) => step.inputs));
+  return capabilities.filter((node) => node.outputs.some((output) => inputs.has(output)));
+}
+
+function collectUsedEffects(used: SemanticIrDeterministicNode[]): CapabilityEffect[] {
+  return [...new Set(used.flatMap((node) => node.effects ?? []))];
+}
+
+// The suggested policy is the smallest one that still runs the program: `allow` becomes exactly
+// the used capabilities that are not denied (explicit denials are never lifted), and a restricted
+// `allowed_effects` becomes the effects of those capabilities. `deny`, the escalation rules, and
+// the constraints are kept as they are. An empty `allow` list leaves the profile deny-only, so
+// nothing counts as "not allowed"; for the same reason no policy is suggested when no used
+// capability is permitted, since an empty `allow` would grant everything not denied.
+export function analyzeLeastPrivilege(
+  ir: SemanticIrContract,
+  policyProfile: PolicyProfileContract
+): LeastPrivilegeReport {
+  const { allow, deny } = policyProfile.capability_policy;
+  const capabilities = ir.deterministic_nodes.filter((node) => node.kind === "capability");
+  const steps = ir.deterministic_nodes.filter((node) => node.kind === "step");
+  const usedNodes = collectUsedCapabilities(capabilities, steps);
+  const used = [
+    ...new Set(
+      usedNodes.map(capabilityName).filter((name): name is string => name !== undefined)
+    )
+  ];
+
+  const usedSet = new Set(used);
+  const allowSet = new Set(allow);
+  const denySet = new Set(deny);
+  const permitted = used.filter((name) => !denySet.has(name));
+  const permittedNodes = usedNodes.filter((node) => !denySet.has(capabilityName(node) ?? ""));
+
+  return {
+    used_capabilities: used,
+    allowed_unused: allow.filter((name) => !usedSet.has(name)),
+    used_not_allowed: allow.length === 0 ? [] : permitted.filter((name) => !allowSet.has(name)),
+    used_denied: used.filter((name) => denySet.has(name)),
+    used_escalated: policyProfile.capability_policy.escalation_requirements.rules.filter((rule) =>
+      usedSet.has(rule.capability)
+    ),
+    suggested_policy:
+      permitted.length === 0
+        ? null
+        : {
+            ...policyProfile,
+            capability_policy: {
+              ...policyProfile.capability_policy,
+              allow: permitted,
+              ...(policyProfile.capability_policy.allowed_effects !== undefined
+                ? { allowed_effects: collectUsedEffects(permittedNodes) }
+                : {})
+            }
+          }
+  };
+}
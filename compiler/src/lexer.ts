@@ -1,26 +1,50 @@
 import type { SourcePosition, SourceRange } from "./ast.ts";
 import {
+  DEFAULT_DIAGNOSTIC_FILE,
   createDiagnostic,
+  createDiagnosticFix,
   createDiagnosticSpan,
   emitDiagnostic,
   type Diagnostic,
-  type DiagnosticCode
+  type DiagnosticCode,
+  type DiagnosticFix
 } from "./diagnostics.ts";
 
 export type TokenKind =
   | "GoalKeyword"
   | "CapabilityKeyword"
   | "CheckKeyword"
+  | "InferKeyword"
+  | "StepKeyword"
+  | "BudgetKeyword"
+  | "PolicyKeyword"
+  | "AllowKeyword"
+  | "DenyKeyword"
+  | "EscalateKeyword"
+  | "VerifyKeyword"
+  | "ImportKeyword"
   | "Identifier"
+  | "WildcardIdentifier"
   | "StringLiteral"
+  | "NumberLiteral"
   | "Newline"
   | "EOF";
 
+export type TriviaKind = "LineComment" | "DocComment";
+
+export interface Trivia {
+  kind: TriviaKind;
+  lexeme: string;
+  value: string;
+  range: SourceRange;
+}
+
 export interface Token {
   kind: TokenKind;
   lexeme: string;
   value?: string;
   range: SourceRange;
+  leadingTrivia?: Trivia[];
 }
 
 export interface LexResult {
@@ -31,7 +55,16 @@ export interface LexResult {
 const KEYWORD_KINDS: Record<string, TokenKind> = {
   goal: "GoalKeyword",
   capability: "CapabilityKeyword",
-  check: "CheckKeyword"
+  check: "CheckKeyword",
+  infer: "InferKeyword",
+  step: "StepKeyword",
+  budget: "BudgetKeyword",
+  policy: "PolicyKeyword",
+  allow: "AllowKeyword",
+  deny: "DenyKeyword",
+  escalate: "EscalateKeyword",
+  verify: "VerifyKeyword",
+  import: "ImportKeyword"
 };
 
 function createPosition(offset: number, line: number, column: number): SourcePosition {
@@ -53,6 +86,10 @@ function isLetter(value: string): boolean {
   return /[A-Za-z]/.test(value);
 }
 
+function isDigit(value: string): boolean {
+  return /[0-9]/.test(value);
+}
+
 function isIdentifierPart(value: string): boolean {
   return /[A-Za-z0-9_-]/.test(value);
 }
@@ -77,14 +114,22 @@ function decodeEscape(value: string): string | null {
   return null;
 }
 
-export function lex(input: string): LexResult {
+export interface LexOptions {
+  file?: string;
+}
+
+export function lex(input: string, options: LexOptions = {}): LexResult {
   const diagnostics: Diagnostic[] = [];
   const tokens: Token[] = [];
   const source = input;
+  const file = options.file ?? DEFAULT_DIAGNOSTIC_FILE;
 
   let index = 0;
   let line = 1;
   let column = 1;
+  // Own-line comments attach to the next significant token; trailing ones to the line's Newline.
+  let pendingLeadingTrivia: Trivia[] = [];
+  let pendingTrailingTrivia: Trivia[] = [];
 
   function currentPosition(): SourcePosition {
     return createPosition(index, line, column);
@@ -110,22 +155,71 @@ export function lex(input: string): LexResult {
     return value;
   }
 
+  function takeTrivia(kind: TokenKind): Trivia[] {
+    if (kind === "Newline") {
+      const trailing = pendingTrailingTrivia;
+      pendingTrailingTrivia = [];
+      return trailing;
+    }
+
+    const trivia = [...pendingTrailingTrivia, ...pendingLeadingTrivia];
+    pendingTrailingTrivia = [];
+    pendingLeadingTrivia = [];
+    return trivia;
+  }
+
   function addToken(kind: TokenKind, start: SourcePosition, end: SourcePosition, lexeme: string, value?: string): void {
+    const leadingTrivia = takeTrivia(kind);
     tokens.push({
       kind,
       lexeme,
       value,
-      range: createRange(start, end)
+      range: createRange(start, end),
+      ...(leadingTrivia.length > 0 ? { leadingTrivia } : {})
     });
   }
 
-  function addDiagnostic(code: DiagnosticCode, message: string, start: SourcePosition, end: SourcePosition): void {
+  function isTrailingPosition(position: SourcePosition): boolean {
+    const previous = tokens[tokens.length - 1];
+    return (
+      previous !== undefined &&
+      previous.kind !== "Newline" &&
+      previous.range.end.line === position.line
+    );
+  }
+
+  function addDiagnostic(
+    code: DiagnosticCode,
+    message: string,
+    start: SourcePosition,
+    end: SourcePosition,
+    fixes: DiagnosticFix[] = []
+  ): void {
     emitDiagnostic(
       diagnostics,
-      createDiagnostic(code, message, createDiagnosticSpan(start, end))
+      createDiagnostic(code, message, createDiagnosticSpan(start, end, file), fixes)
     );
   }
 
+  // Closes the literal after its last non-blank character. Empty literals and literals cut off
+  // inside an escape are left alone: there is no reliable place to put the quote.
+  function closingQuoteFixes(lexeme: string, danglingEscape: boolean): DiagnosticFix[] {
+    const content = lexeme.replace(/[ \t]+$/, "");
+    if (content.length <= 1 || danglingEscape) {
+      return [];
+    }
+
+    const trailing = lexeme.length - content.length;
+    const position = createPosition(index - trailing, line, column - trailing);
+    return [
+      createDiagnosticFix(
+        "Insert closing quote",
+        createDiagnosticSpan(position, position, file),
+        "\""
+      )
+    ];
+  }
+
   while (index < source.length) {
     const value = currentChar();
     if (value === undefined) {
@@ -154,6 +248,33 @@ export function lex(input: string): LexResult {
       continue;
     }
 
+    if (value === "#") {
+      const start = currentPosition();
+      let lexeme = "";
+      while (index < source.length) {
+        const char = currentChar();
+        if (char === undefined || char === "\n" || (char === "\r" && nextChar() === "\n")) {
+          break;
+        }
+        lexeme += advance();
+      }
+
+      const kind: TriviaKind = lexeme.startsWith("##") ? "DocComment" : "LineComment";
+      const marker = kind === "DocComment" ? "##" : "#";
+      const trivia: Trivia = {
+        kind,
+        lexeme: lexeme.trimEnd(),
+        value: lexeme.slice(marker.length).trim(),
+        range: createRange(start, currentPosition())
+      };
+      if (isTrailingPosition(start)) {
+        pendingTrailingTrivia.push(trivia);
+      } else {
+        pendingLeadingTrivia.push(trivia);
+      }
+      continue;
+    }
+
     if (value === "\"") {
       const start = currentPosition();
       let lexeme = "";
@@ -162,6 +283,7 @@ export function lex(input: string): LexResult {
       lexeme += advance();
 
       let terminated = false;
+      let danglingEscape = false;
       while (index < source.length) {
         const char = currentChar();
         if (char === undefined) {
@@ -182,11 +304,8 @@ export function lex(input: string): LexResult {
           const escapeStart = currentPosition();
           lexeme += advance();
           const escaped = currentChar();
-          if (escaped === undefined) {
-            break;
-          }
-
-          if (escaped === "\n" || escaped === "\r") {
+          if (escaped === undefined || escaped === "\n" || escaped === "\r") {
+            danglingEscape = true;
             break;
           }
 
@@ -215,7 +334,8 @@ export function lex(input: string): LexResult {
           "LEX_UNTERMINATED_STRING",
           "Unterminated string literal",
           start,
-          currentPosition()
+          currentPosition(),
+          closingQuoteFixes(lexeme, danglingEscape)
         );
       } else {
         addToken("StringLiteral", start, currentPosition(), lexeme, parsedValue);
@@ -226,8 +346,21 @@ export function lex(input: string): LexResult {
     if (isLetter(value)) {
       const start = currentPosition();
       let lexeme = "";
+      let wildcard = false;
       while (index < source.length) {
         const part = currentChar();
+        if (part === "." && isLetter(nextChar() ?? "")) {
+          lexeme += advance();
+          continue;
+        }
+
+        if (part === "." && nextChar() === "*") {
+          lexeme += advance();
+          lexeme += advance();
+          wildcard = true;
+          break;
+        }
+
         if (part === undefined || !isIdentifierPart(part)) {
           break;
         }
@@ -237,7 +370,26 @@ export function lex(input: string): LexResult {
       const keywordKind = Object.prototype.hasOwnProperty.call(KEYWORD_KINDS, lexeme)
         ? KEYWORD_KINDS[lexeme]
         : undefined;
-      addToken(keywordKind ?? "Identifier", start, currentPosition(), lexeme, lexeme);
+      const identifierKind = wildcard ? "WildcardIdentifier" : "Identifier";
+      addToken(keywordKind ?? identifierKind, start, currentPosition(), lexeme, lexeme);
+      continue;
+    }
+
+    if (isDigit(value)) {
+      const start = currentPosition();
+      let lexeme = "";
+      while (index < source.length && isDigit(currentChar() ?? "")) {
+        lexeme += advance();
+      }
+
+      if (currentChar() === "." && isDigit(nextChar() ?? "")) {
+        lexeme += advance();
+        while (index < source.length && isDigit(currentChar() ?? "")) {
+          lexeme += advance();
+        }
+      }
+
+      addToken("NumberLiteral", start, currentPosition(), lexeme, lexeme);
       continue;
     }
 
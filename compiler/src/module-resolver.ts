@@ -0,0 +1,281 @@
+import { readFileSync } from "node:fs";
+import path from "node:path";
+
+import type {
+  CapabilityDeclarationAstNode,
+  CheckDeclarationAstNode,
+  DocumentAstNode,
+  ImportDeclarationAstNode,
+  SourceRange
+} from "./ast.ts";
+import {
+  createDiagnostic,
+  createDiagnosticSpanFromRange,
+  emitDiagnostic,
+  type Diagnostic,
+  type DiagnosticCode
+} from "./diagnostics.ts";
+import { parseLsDocument, parseLsModule } from "./parser.ts";
+
+export interface LsModuleGraphNode {
+  file: string;
+  imports: string[];
+}
+
+export interface LsModuleGraph {
+  entry: string;
+  modules: LsModuleGraphNode[];
+}
+
+export interface ResolveLsProgramOptions {
+  readFile?: (file: string) => string;
+}
+
+export interface ResolveLsProgramResult {
+  ast: DocumentAstNode | null;
+  graph: LsModuleGraph;
+  diagnostics: Diagnostic[];
+}
+
+interface ResolvedModule {
+  file: string;
+  imports: string[];
+  capabilities: CapabilityDeclarationAstNode[];
+  checks: CheckDeclarationAstNode[];
+}
+
+interface ResolutionContext {
+  readFile: (file: string) => string;
+  diagnostics: Diagnostic[];
+  visited: Set<string>;
+  stack: Array<{ key: string; file: string }>;
+  order: ResolvedModule[];
+}
+
+const START_OF_FILE_RANGE: SourceRange = {
+  start: { offset: 0, line: 1, column: 1 },
+  end: { offset: 0, line: 1, column: 1 }
+};
+
+function defaultReadFile(file: string): string {
+  return readFileSync(file, "utf8");
+}
+
+function resolveImportPath(importerFile: string, specifier: string): string {
+  if (path.isAbsolute(specifier)) {
+    return path.normalize(specifier);
+  }
+
+  return path.normalize(path.join(path.dirname(importerFile), specifier));
+}
+
+function formatLocation(file: string, range: SourceRange): string {
+  return `${file}:${range.start.line}:${range.start.column}`;
+}
+
+function report(
+  context: ResolutionContext,
+  code: DiagnosticCode,
+  message: string,
+  range: SourceRange,
+  file: string
+): void {
+  emitDiagnostic(
+    context.diagnostics,
+    createDiagnostic(code, message, createDiagnosticSpanFromRange(range, file))
+  );
+}
+
+function readModuleSource(context: ResolutionContext, file: string): string | null {
+  try {
+    return context.readFile(file);
+  } catch {
+    return null;
+  }
+}
+
+function withSourceFile<T extends CapabilityDeclarationAstNode | CheckDeclarationAstNode>(
+  declarations: T[],
+  file: string
+): T[] {
+  return declarations.map((declaration) => ({ ...declaration, file }));
+}
+
+function resolveImports(
+  context: ResolutionContext,
+  importerFile: string,
+  imports: ImportDeclarationAstNode[]
+): string[] {
+  const resolved: string[] = [];
+
+  for (const declaration of imports) {
+    const file = resolveImportPath(importerFile, declaration.path.value);
+    const key = path.resolve(file);
+    resolved.push(file);
+
+    const cycleStart = context.stack.findIndex((entry) => entry.key === key);
+    if (cycleStart !== -1) {
+      const chain = [...context.stack.slice(cycleStart).map((entry) => entry.file), file];
+      report(
+        context,
+        "RESOLVE_IMPORT_CYCLE",
+        `Import cycle detected: ${chain.join(" -> ")}`,
+        declaration.path.range,
+        importerFile
+      );
+      continue;
+    }
+
+    if (context.visited.has(key)) {
+      continue;
+    }
+    context.visited.add(key);
+
+    const source = readModuleSource(context, file);
+    if (source === null) {
+      report(
+        context,
+        "RESOLVE_MODULE_NOT_FOUND",
+        `Imported module '${declaration.path.value}' was not found at ${file}`,
+        declaration.path.range,
+        importerFile
+      );
+      continue;
+    }
+
+    const parsed = parseLsModule(source, { file });
+    for (const diagnostic of parsed.diagnostics) {
+      emitDiagnostic(context.diagnostics, diagnostic);
+    }
+    if (parsed.ast === null) {
+      continue;
+    }
+
+    context.stack.push({ key, file });
+    const moduleImports = resolveImports(context, file, parsed.ast.imports);
+    context.stack.pop();
+
+    context.order.push({
+      file,
+      imports: moduleImports,
+      capabilities: withSourceFile(parsed.ast.capabilities, file),
+      checks: withSourceFile(parsed.ast.checks, file)
+    });
+  }
+
+  return resolved;
+}
+
+function reportDuplicateSymbols(
+  context: ResolutionContext,
+  symbolKind: "capability" | "check",
+  declarations: Array<CapabilityDeclarationAstNode | CheckDeclarationAstNode>,
+  entryFile: string
+): void {
+  const firstByName = new Map<string, CapabilityDeclarationAstNode | CheckDeclarationAstNode>();
+
+  for (const declaration of declarations) {
+    const first = firstByName.get(declaration.name);
+    if (first === undefined) {
+      firstByName.set(declaration.name, declaration);
+      continue;
+    }
+
+    // Repeats inside the entry file are not import collisions; only merged symbols are reported.
+    if (first.file === undefined && declaration.file === undefined) {
+      continue;
+    }
+
+    report(
+      context,
+      "RESOLVE_DUPLICATE_SYMBOL",
+      `Duplicate ${symbolKind} '${declaration.name}'; first declared at ${formatLocation(
+        first.file ?? entryFile,
+        first.range
+      )}`,
+      declaration.range,
+      declaration.file ?? entryFile
+    );
+  }
+}
+
+export function resolveLsProgram(
+  entryFile: string,
+  options: ResolveLsProgramOptions = {}
+): ResolveLsProgramResult {
+  const context: ResolutionContext = {
+    readFile: options.readFile ?? defaultReadFile,
+    diagnostics: [],
+    visited: new Set(),
+    stack: [],
+    order: []
+  };
+  const graph: LsModuleGraph = { entry: entryFile, modules: [] };
+
+  const source = readModuleSource(context, entryFile);
+  if (source === null) {
+    report(
+      context,
+      "RESOLVE_MODULE_NOT_FOUND",
+      `Entry module was not found at ${entryFile}`,
+      START_OF_FILE_RANGE,
+      entryFile
+    );
+    return { ast: null, graph, diagnostics: context.diagnostics };
+  }
+
+  const parsed = parseLsDocument(source, { file: entryFile });
+  if (parsed.ast === null) {
+    return { ast: null, graph, diagnostics: parsed.diagnostics };
+  }
+
+  const entryKey = path.resolve(entryFile);
+  context.visited.add(entryKey);
+  context.stack.push({ key: entryKey, file: entryFile });
+  const entryImports = resolveImports(context, entryFile, parsed.ast.imports);
+  context.stack.pop();
+
+  graph.modules = [
+    ...context.order.map((module) => ({ file: module.file, imports: module.imports })),
+    { file: entryFile, imports: entryImports }
+  ];
+
+  const capabilities = [
+    ...context.order.flatMap((module) => module.capabilities),
+    ...parsed.ast.capabilities
+  ];
+  const checks = [...context.order.flatMap((module) => module.checks), ...parsed.ast.checks];
+  reportDuplicateSymbols(context, "capability", capabilities, entryFile);
+  reportDuplicateSymbols(context, "check", checks, entryFile);
+
+  const goalEnd = { start: parsed.ast.goal.range.end, end: parsed.ast.goal.range.end };
+  const resolvedCleanly = context.diagnostics.length === 0;
+  if (resolvedCleanly && capabilities.length === 0) {
+    report(
+      context,
+      "PARSE_MISSING_REQUIRED_DECLARATION",
+      "Document must contain at least one capability declaration, directly or through imports",
+      goalEnd,
+      entryFile
+    );
+  }
+  if (resolvedCleanly && checks.length === 0) {
+    report(
+      context,
+      "PARSE_MISSING_REQUIRED_DECLARATION",
+      "Document must contain at least one check declaration, directly or through imports",
+      goalEnd,
+      entryFile
+    );
+  }
+
+  if (context.diagnostics.length > 0) {
+    return { ast: null, graph, diagnostics: context.diagnostics };
+  }
+
+  return {
+    ast: { ...parsed.ast, capabilities, checks },
+    graph,
+    diagnostics: context.diagnostics
+  };
+}
@@ -1,17 +1,50 @@
 import type {
+  BudgetDeclarationAstNode,
+  BudgetLimitAstNode,
+  BudgetLimitName,
   CapabilityDeclarationAstNode,
+  CapabilityEffect,
+  CapabilityEffectAstNode,
+  CapabilityParameterAstNode,
+  CapabilityTypeAstNode,
+  CapabilityValueType,
   CheckDeclarationAstNode,
   DocumentAstNode,
   GoalDeclarationAstNode,
+  IdentifierAstNode,
+  ImportDeclarationAstNode,
+  InferDeclarationAstNode,
+  ModuleAstNode,
+  NumberLiteralAstNode,
+  OutcomeBudgetName,
+  OutcomeConditionAstNode,
+  OutcomeDeclarationAstNode,
+  OutcomeKind,
+  PolicyDeclarationAstNode,
+  PolicyEscalationAstNode,
+  PolicySettingAstNode,
+  PolicySettingName,
   SourcePosition,
-  SourceRange
+  SourceRange,
+  StepDeclarationAstNode,
+  StringLiteralAstNode,
+  VerificationRequirementKind,
+  VerifyDeclarationAstNode,
+  VerifyPolicyAssertionAstNode,
+  VerifyRequirementAstNode,
+  VerifySettingAstNode,
+  VerifySettingName
 } from "./ast.ts";
 import {
+  DEFAULT_DIAGNOSTIC_FILE,
   createDiagnostic,
+  createDiagnosticFix,
+  createDiagnosticSpan,
   createDiagnosticSpanFromRange,
   emitDiagnostic,
   type Diagnostic,
-  type DiagnosticCode
+  type DiagnosticCode,
+  type DiagnosticFix
 } from "./diagnostics.ts";
 import { lex, type Token } from "./lexer.ts";
 
@@ -20,6 +53,31 @@ export interface ParseResult {
   diagnostics: Diagnostic[];
 }
 
+export interface ModuleParseResult {
+  ast: ModuleAstNode | null;
+  diagnostics: Diagnostic[];
+}
+
+export interface ParseLsDocumentOptions {
+  file?: string;
+}
+
+type ParseMode = "document" | "module";
+
+interface ParsedDeclarations {
+  startToken: Token;
+  imports: ImportDeclarationAstNode[];
+  goal: GoalDeclarationAstNode | null;
+  capabilities: CapabilityDeclarationAstNode[];
+  inferences: InferDeclarationAstNode[];
+  steps: StepDeclarationAstNode[];
+  checks: CheckDeclarationAstNode[];
+  budget: BudgetDeclarationAstNode | null;
+  outcomes: OutcomeDeclarationAstNode[];
+  policySection: PolicySectionBuilder | null;
+  verifySection: VerifySectionBuilder | null;
+}
+
 function clonePosition(position: SourcePosition): SourcePosition {
   return {
     offset: position.offset,
@@ -35,26 +93,225 @@ function createRange(start: SourcePosition, end: SourcePosition): SourceRange {
   };
 }
 
+type SettingValueKind = "number" | "boolean" | "identifier";
+
+const POLICY_SETTING_VALUE_KINDS: Record<PolicySettingName, SettingValueKind> = {
+  max_autonomous_steps: "number",
+  max_runtime_seconds: "number",
+  require_human_review_on_policy_violation: "boolean",
+  escalation_default: "identifier"
+};
+
+const VERIFY_SETTING_VALUE_KINDS: Record<VerifySettingName, SettingValueKind> = {
+  min_pass_ratio: "number",
+  max_warnings: "number",
+  on_failure: "identifier"
+};
+
+const VERIFY_REQUIREMENT_KINDS: ReadonlySet<string> = new Set<VerificationRequirementKind>([
+  "test",
+  "static_analysis"
+]);
+
+const INFER_SETTING_NAMES: ReadonlySet<string> = new Set(["temperature", "min_confidence"]);
+
+const STEP_CLAUSES: ReadonlySet<string> = new Set(["after", "uses"]);
+
+const CAPABILITY_CLAUSES: ReadonlySet<string> = new Set(["takes", "returns", "effects"]);
+
+const CAPABILITY_VALUE_TYPES: ReadonlySet<string> = new Set<CapabilityValueType>([
+  "string",
+  "number",
+  "boolean",
+  "json"
+]);
+
+const CAPABILITY_EFFECTS: ReadonlySet<string> = new Set<CapabilityEffect>([
+  "fs.read",
+  "fs.write",
+  "net",
+  "exec"
+]);
+
+const OUTCOME_KINDS: ReadonlySet<string> = new Set<OutcomeKind>(["succeed", "fail", "stop"]);
+
+const BUDGET_LIMIT_NAMES: ReadonlySet<string> = new Set<BudgetLimitName>([
+  "max_tokens",
+  "max_autonomous_steps",
+  "max_runtime_seconds",
+  "max_cost_usd"
+]);
+
+const CHECK_CONDITION_STATUS: Record<string, "passed" | "failed"> = {
+  passes: "passed",
+  fails: "failed"
+};
+
+interface VerifySectionBuilder {
+  start: SourcePosition;
+  docs?: string;
+  requirements: VerifyRequirementAstNode[];
+  assertions: VerifyPolicyAssertionAstNode[];
+  settings: VerifySettingAstNode[];
+  end: SourcePosition;
+}
+
+interface PolicySectionBuilder {
+  header: { environment: IdentifierAstNode; start: SourcePosition; docs?: string } | null;
+  allow: IdentifierAstNode[];
+  deny: IdentifierAstNode[];
+  escalations: PolicyEscalationAstNode[];
+  settings: PolicySettingAstNode[];
+  effects: CapabilityEffectAstNode[] | null;
+  end: SourcePosition | null;
+}
+
+function splitQualifiedName(name: string): { namespace: string[]; wildcard: boolean } {
+  const segments = name.split(".");
+  return {
+    namespace: segments.slice(0, -1),
+    wildcard: segments[segments.length - 1] === "*"
+  };
+}
+
+function docsFromTrivia(token: Token): { docs?: string } {
+  const docs = (token.leadingTrivia ?? [])
+    .filter((trivia) => trivia.kind === "DocComment")
+    .map((trivia) => trivia.value);
+  return docs.length > 0 ? { docs: docs.join("\n") } : {};
+}
+
+// Own-line comments above a declaration belong to it, so edits that move the line start there.
+function declarationStart(token: Token): SourcePosition {
+  return token.leadingTrivia?.[0]?.range.start ?? token.range.start;
+}
+
+function quoteStringValue(value: string): string {
+  return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+function isPolicySettingName(value: string): value is PolicySettingName {
+  return Object.prototype.hasOwnProperty.call(POLICY_SETTING_VALUE_KINDS, value);
+}
+
+function isVerifySettingName(value: string): value is VerifySettingName {
+  return Object.prototype.hasOwnProperty.call(VERIFY_SETTING_VALUE_KINDS, value);
+}
+
 class Parser {
   private readonly tokens: Token[];
+  private readonly file: string;
+  private readonly source: string;
   private readonly diagnostics: Diagnostic[] = [];
   private index = 0;
 
-  constructor(tokens: Token[]) {
+  constructor(tokens: Token[], file: string, source: string) {
     this.tokens = tokens;
+    this.file = file;
+    this.source = source;
   }
 
   parse(): ParseResult {
+    const declarations = this.parseDeclarations("document");
+    const { imports, goal, capabilities, inferences, steps, checks, budget, outcomes } =
+      declarations;
+    const hasRequiredDeclarations =
+      imports.length > 0 || (capabilities.length > 0 && checks.length > 0);
+
+    if (goal === null || !hasRequiredDeclarations || this.diagnostics.length > 0) {
+      return {
+        ast: null,
+        diagnostics: this.diagnostics
+      };
+    }
+
+    const policy =
+      declarations.policySection !== null
+        ? this.buildPolicyDeclaration(declarations.policySection)
+        : null;
+    const verify =
+      declarations.verifySection !== null
+        ? this.buildVerifyDeclaration(declarations.verifySection)
+        : null;
+    const documentEnd = [
+      capabilities.at(-1)?.range.end,
+      inferences.at(-1)?.range.end,
+      steps.at(-1)?.range.end,
+      checks.at(-1)?.range.end,
+      budget?.range.end,
+      outcomes.at(-1)?.range.end,
+      policy?.range.end,
+      verify?.range.end
+    ].reduce<SourcePosition>(
+      (latest, candidate) =>
+        candidate !== undefined && candidate.offset > latest.offset ? candidate : latest,
+      goal.range.end
+    );
+    const range = createRange(imports[0]?.range.start ?? goal.range.start, documentEnd);
+
+    return {
+      ast: {
+        kind: "Document",
+        imports,
+        goal,
+        capabilities,
+        ...(inferences.length > 0 ? { inferences } : {}),
+        ...(steps.length > 0 ? { steps } : {}),
+        checks,
+        ...(budget !== null ? { budget } : {}),
+        ...(outcomes.length > 0 ? { outcomes } : {}),
+        ...(policy !== null ? { policy } : {}),
+        ...(verify !== null ? { verify } : {}),
+        range
+      },
+      diagnostics: this.diagnostics
+    };
+  }
+
+  parseModule(): ModuleParseResult {
+    const { startToken, imports, capabilities, checks } = this.parseDeclarations("module");
+    if (this.diagnostics.length > 0) {
+      return {
+        ast: null,
+        diagnostics: this.diagnostics
+      };
+    }
+
+    const lastDeclaration = checks.at(-1) ?? capabilities.at(-1) ?? imports.at(-1);
+    const start = imports[0]?.range.start ?? capabilities[0]?.range.start ?? startToken.range.start;
+
+    return {
+      ast: {
+        kind: "Module",
+        imports,
+        capabilities,
+        checks,
+        range: createRange(start, lastDeclaration?.range.end ?? start)
+      },
+      diagnostics: this.diagnostics
+    };
+  }
+
+  private parseDeclarations(mode: ParseMode): ParsedDeclarations {
     this.skipNewlines();
     const documentStartToken = this.current();
 
-    const goal = this.parseGoalSection();
+    const imports = this.parseImportDeclarations();
+    const goal = mode === "document" ? this.parseGoalSection() : null;
     const capabilities: CapabilityDeclarationAstNode[] = [];
+    const inferences: InferDeclarationAstNode[] = [];
+    const steps: StepDeclarationAstNode[] = [];
     const checks: CheckDeclarationAstNode[] = [];
+    const outcomes: OutcomeDeclarationAstNode[] = [];
+    let budget: BudgetDeclarationAstNode | null = null;
+    let sawBudgetKeyword = false;
     let sawCapabilityKeyword = false;
     let sawCheckKeyword = false;
+    let checkSectionStart: SourcePosition | null = null;
+    let policySection: PolicySectionBuilder | null = null;
+    let verifySection: VerifySectionBuilder | null = null;
 
-    let section: "capability" | "check" = "capability";
+    let section: "capability" | "check" | "outcome" | "policy" | "verify" = "capability";
 
     while (!this.isAt("EOF")) {
       this.skipNewlines();
@@ -65,7 +322,123 @@ class Parser {
 
       const startIndex = this.index;
 
-      if (section === "capability") {
+      if (token.kind === "ImportKeyword") {
+        this.addDiagnostic(
+          "PARSE_UNEXPECTED_TOKEN",
+          "Import declarations must appear before all other declarations",
+          token
+        );
+        this.skipInvalidDeclarationLine();
+      } else if (mode === "module" && token.kind === "GoalKeyword") {
+        this.addDiagnostic(
+          "PARSE_UNEXPECTED_TOKEN",
+          "Imported modules cannot declare a goal",
+          token
+        );
+        this.skipInvalidDeclarationLine();
+      } else if (this.isOutcomeStart()) {
+        if (mode === "module") {
+          this.addDiagnostic(
+            "PARSE_UNEXPECTED_TOKEN",
+            "Imported modules cannot declare outcome conditions",
+            token
+          );
+          this.skipInvalidDeclarationLine();
+        } else if (section === "policy" || section === "verify") {
+          this.addDiagnostic(
+            "PARSE_UNEXPECTED_TOKEN",
+            "Outcome declarations must appear before the policy and verify sections",
+            token
+          );
+          this.skipInvalidDeclarationLine();
+        } else {
+          section = "outcome";
+          const declaration = this.parseOutcomeDeclaration();
+          if (declaration !== null) {
+            outcomes.push(declaration);
+          }
+        }
+      } else if (token.kind === "BudgetKeyword") {
+        if (mode === "module") {
+          this.addDiagnostic(
+            "PARSE_UNEXPECTED_TOKEN",
+            "Imported modules cannot declare a budget",
+            token
+          );
+          this.skipInvalidDeclarationLine();
+        } else if (sawBudgetKeyword) {
+          this.addDiagnostic(
+            "PARSE_UNEXPECTED_TOKEN",
+            "Only one budget declaration is allowed",
+            token
+          );
+          this.skipInvalidDeclarationLine();
+        } else if (section === "policy" || section === "verify") {
+          this.addDiagnostic(
+            "PARSE_UNEXPECTED_TOKEN",
+            "Budget declarations must appear before the policy and verify sections",
+            token
+          );
+          this.skipInvalidDeclarationLine();
+        } else {
+          // The budget opens the outcome section, which outcome conditions can reference.
+          section = "outcome";
+          sawBudgetKeyword = true;
+          budget = this.parseBudgetDeclaration();
+        }
+      } else if (token.kind === "InferKeyword" || token.kind === "StepKeyword") {
+        const isInfer = token.kind === "InferKeyword";
+        if (mode === "module") {
+          this.addDiagnostic(
+            "PARSE_UNEXPECTED_TOKEN",
+            `Imported modules cannot declare ${isInfer ? "infer steps" : "steps"}`,
+            token
+          );
+          this.skipInvalidDeclarationLine();
+        } else if (section !== "capability") {
+          this.addDiagnostic(
+            "PARSE_UNEXPECTED_TOKEN",
+            `${isInfer ? "Infer" : "Step"} declarations must appear before check declarations`,
+            token
+          );
+          this.skipInvalidDeclarationLine();
+        } else if (isInfer) {
+          const declaration = this.parseInferDeclaration();
+          if (declaration !== null) {
+            inferences.push(declaration);
+          }
+        } else {
+          const declaration = this.parseStepDeclaration();
+          if (declaration !== null) {
+            steps.push(declaration);
+          }
+        }
+      } else if (token.kind === "PolicyKeyword" || token.kind === "VerifyKeyword") {
+        const sectionName = token.kind === "PolicyKeyword" ? "policy" : "verify";
+        const alreadyDeclared =
+          sectionName === "policy" ? policySection !== null : verifySection !== null;
+        if (mode === "module") {
+          this.addDiagnostic(
+            "PARSE_UNEXPECTED_TOKEN",
+            `Imported modules cannot declare a ${sectionName} section`,
+            token
+          );
+          this.skipInvalidDeclarationLine();
+        } else if (alreadyDeclared) {
+          this.addDiagnostic(
+            "PARSE_UNEXPECTED_TOKEN",
+            `Only one ${sectionName} section is allowed`,
+            token
+          );
+          this.skipInvalidDeclarationLine();
+        } else if (sectionName === "policy") {
+          section = "policy";
+          policySection = this.parsePolicyHeader();
+        } else {
+          section = "verify";
+          verifySection = this.parseVerifyHeader();
+        }
+      } else if (section === "capability") {
         if (token.kind === "CapabilityKeyword") {
           sawCapabilityKeyword = true;
           const declaration = this.parseCapabilityDeclaration();
@@ -75,6 +448,7 @@ class Parser {
         } else if (token.kind === "CheckKeyword") {
           section = "check";
           sawCheckKeyword = true;
+          checkSectionStart = declarationStart(token);
           const declaration = this.parseCheckDeclaration();
           if (declaration !== null) {
             checks.push(declaration);
@@ -89,11 +463,36 @@ class Parser {
         } else {
           this.addDiagnostic(
             "PARSE_EXPECTED_DECLARATION",
-            "Expected a capability declaration after the goal declaration",
+            mode === "document"
+              ? "Expected a capability declaration after the goal declaration"
+              : "Expected a capability or check declaration",
             token
           );
           this.skipInvalidDeclarationLine();
         }
+      } else if (section === "outcome") {
+        if (
+          token.kind === "GoalKeyword" ||
+          token.kind === "CapabilityKeyword" ||
+          token.kind === "CheckKeyword"
+        ) {
+          this.addDiagnostic(
+            "PARSE_UNEXPECTED_TOKEN",
+            `Unexpected '${token.lexeme}' declaration after outcome declarations`,
+            token
+          );
+        } else {
+          this.addDiagnostic(
+            "PARSE_EXPECTED_DECLARATION",
+            "Expected an outcome declaration ('succeed when', 'fail when', or 'stop when')",
+            token
+          );
+        }
+        this.skipInvalidDeclarationLine();
+      } else if (section === "policy" && policySection !== null) {
+        this.parsePolicyClause(token, policySection);
+      } else if (section === "verify" && verifySection !== null) {
+        this.parseVerifyClause(token, verifySection);
       } else if (token.kind === "CheckKeyword") {
         sawCheckKeyword = true;
         const declaration = this.parseCheckDeclaration();
@@ -105,7 +504,8 @@ class Parser {
         this.addDiagnostic(
           "PARSE_UNEXPECTED_TOKEN",
           "Capability declarations are not allowed after check declarations begin",
-          token
+          token,
+          checkSectionStart !== null ? this.moveLineFixes(token, checkSectionStart) : []
         );
         this.skipInvalidDeclarationLine();
       } else if (token.kind === "GoalKeyword") {
@@ -129,7 +529,7 @@ class Parser {
       }
     }
 
-    if (goal === null) {
+    if (mode === "document" && goal === null) {
       const hasStartGoalDiagnostic = this.diagnostics.some(
         (diagnostic) =>
           diagnostic.code === "PARSE_EXPECTED_DECLARATION" &&
@@ -151,7 +551,8 @@ class Parser {
       }
     }
 
-    if (capabilities.length === 0 && !sawCapabilityKeyword) {
+    const requiresDeclarations = mode === "document" && imports.length === 0;
+    if (requiresDeclarations && capabilities.length === 0 && !sawCapabilityKeyword) {
       const capabilityAnchorRange =
         goal !== null
           ? createRange(goal.range.end, goal.range.end)
@@ -164,7 +565,7 @@ class Parser {
       );
     }
 
-    if (checks.length === 0 && !sawCheckKeyword) {
+    if (requiresDeclarations && checks.length === 0 && !sawCheckKeyword) {
       const checkAnchorPosition =
         capabilities.length > 0
           ? capabilities[capabilities.length - 1].range.end
@@ -180,24 +581,55 @@ class Parser {
       );
     }
 
-    if (goal === null || capabilities.length === 0 || checks.length === 0 || this.diagnostics.length > 0) {
-      return {
-        ast: null,
-        diagnostics: this.diagnostics
-      };
+    return {
+      startToken: documentStartToken,
+      imports,
+      goal,
+      capabilities,
+      inferences,
+      steps,
+      checks,
+      budget,
+      outcomes,
+      policySection,
+      verifySection
+    };
+  }
+
+  private parseImportDeclarations(): ImportDeclarationAstNode[] {
+    const imports: ImportDeclarationAstNode[] = [];
+    while (this.isAt("ImportKeyword")) {
+      const declaration = this.parseImportDeclaration();
+      if (declaration !== null) {
+        imports.push(declaration);
+      }
+      this.skipNewlines();
+    }
+
+    return imports;
+  }
+
+  private parseImportDeclaration(): ImportDeclarationAstNode | null {
+    const keywordToken = this.advance();
+    const pathToken = this.expect("StringLiteral", "Expected a quoted module path after 'import'");
+    if (pathToken === null || pathToken.value === undefined) {
+      this.consumeUntilLineBoundary();
+      return null;
+    }
+
+    if (pathToken.value.trim().length === 0) {
+      this.addDiagnostic("PARSE_EXPECTED_TOKEN", "Import path cannot be empty", pathToken);
+      this.consumeUntilLineBoundary();
+      return null;
     }
 
-    const range = createRange(goal.range.start, checks[checks.length - 1].range.end);
+    this.validateLineEnding("import declaration");
 
     return {
-      ast: {
-        kind: "Document",
-        goal,
-        capabilities,
-        checks,
-        range
-      },
-      diagnostics: this.diagnostics
+      kind: "ImportDeclaration",
+      path: this.toStringLiteral(pathToken),
+      ...docsFromTrivia(keywordToken),
+      range: createRange(keywordToken.range.start, pathToken.range.end)
     };
   }
 
@@ -221,8 +653,19 @@ class Parser {
       return null;
     }
 
-    const valueToken = this.expect("StringLiteral", "Expected a quoted string after 'goal'");
-    if (valueToken === null || valueToken.value === undefined) {
+    if (!this.isAt("StringLiteral")) {
+      this.addDiagnostic(
+        "PARSE_EXPECTED_TOKEN",
+        "Expected a quoted string after 'goal'",
+        this.current(),
+        this.quoteRestOfLineFixes()
+      );
+      this.consumeUntilLineBoundary();
+      return null;
+    }
+
+    const valueToken = this.advance();
+    if (valueToken.value === undefined) {
       this.consumeUntilLineBoundary();
       return null;
     }
@@ -232,6 +675,7 @@ class Parser {
     return {
       kind: "GoalDeclaration",
       value: valueToken.value,
+      ...docsFromTrivia(keywordToken),
       range: createRange(keywordToken.range.start, valueToken.range.end)
     };
   }
@@ -242,6 +686,16 @@ class Parser {
       return null;
     }
 
+    if (this.isAt("WildcardIdentifier")) {
+      this.addDiagnostic(
+        "PARSE_UNEXPECTED_TOKEN",
+        "Capability declarations cannot use wildcard names",
+        this.current()
+      );
+      this.consumeUntilLineBoundary();
+      return null;
+    }
+
     const nameToken = this.expect("Identifier", "Expected capability identifier after 'capability'");
     if (nameToken === null || nameToken.value === undefined) {
       this.consumeUntilLineBoundary();
@@ -254,56 +708,1000 @@ class Parser {
       return null;
     }
 
+    let parameters: CapabilityParameterAstNode[] | undefined;
+    let returns: CapabilityTypeAstNode | undefined;
+    let effects: CapabilityEffectAstNode[] | undefined;
+    let end = descriptionToken.range.end;
+    while (this.isAt("Identifier")) {
+      const clauseToken = this.advance();
+      const clause = clauseToken.lexeme;
+      if (!CAPABILITY_CLAUSES.has(clause)) {
+        this.addDiagnostic(
+          "PARSE_UNEXPECTED_TOKEN",
+          `Unknown capability clause '${clause}'; expected 'takes', 'returns', or 'effects'`,
+          clauseToken
+        );
+        this.consumeUntilLineBoundary();
+        return null;
+      }
+
+      const alreadyDeclared =
+        clause === "takes"
+          ? parameters !== undefined
+          : clause === "returns"
+            ? returns !== undefined
+            : effects !== undefined;
+      if (alreadyDeclared) {
+        this.addDiagnostic(
+          "PARSE_UNEXPECTED_TOKEN",
+          `Duplicate '${clause}' clause in capability declaration`,
+          clauseToken
+        );
+        this.consumeUntilLineBoundary();
+        return null;
+      }
+
+      if (clause === "takes") {
+        parameters = this.parseCapabilityParameters() ?? undefined;
+      } else if (clause === "returns") {
+        returns = this.parseCapabilityType("Expected a type after 'returns'") ?? undefined;
+      } else {
+        effects = this.parseEffectList() ?? undefined;
+      }
+
+      const clauseEnd =
+        clause === "takes"
+          ? parameters?.at(-1)?.range.end
+          : clause === "returns"
+            ? returns?.range.end
+            : effects?.at(-1)?.range.end;
+      if (clauseEnd === undefined) {
+        this.consumeUntilLineBoundary();
+        return null;
+      }
+      end = clauseEnd;
+    }
+
     this.validateLineEnding("capability declaration");
 
     return {
       kind: "CapabilityDeclaration",
       name: nameToken.value,
+      namespace: splitQualifiedName(nameToken.value).namespace,
       description: descriptionToken.value,
-      range: createRange(keywordToken.range.start, descriptionToken.range.end)
+      ...(parameters !== undefined ? { parameters } : {}),
+      ...(returns !== undefined ? { returns } : {}),
+      ...(effects !== undefined ? { effects } : {}),
+      ...docsFromTrivia(keywordToken),
+      range: createRange(keywordToken.range.start, end)
     };
   }
 
-  private parseCheckDeclaration(): CheckDeclarationAstNode | null {
-    const keywordToken = this.consume("CheckKeyword");
-    if (keywordToken === null) {
-      return null;
-    }
+  private parseCapabilityParameters(): CapabilityParameterAstNode[] | null {
+    const parameters: CapabilityParameterAstNode[] = [];
+    while (this.isAt("Identifier") && !CAPABILITY_CLAUSES.has(this.current().lexeme)) {
+      const nameToken = this.advance();
+      if (parameters.some((parameter) => parameter.name.name === nameToken.lexeme)) {
+        this.addDiagnostic(
+          "PARSE_UNEXPECTED_TOKEN",
+          `Duplicate parameter '${nameToken.lexeme}'`,
+          nameToken
+        );
+        return null;
+      }
 
-    const nameToken = this.expect("Identifier", "Expected check identifier after 'check'");
-    if (nameToken === null || nameToken.value === undefined) {
-      this.consumeUntilLineBoundary();
-      return null;
+      const type = this.parseCapabilityType(
+        `Expected a type after parameter '${nameToken.lexeme}'`
+      );
+      if (type === null) {
+        return null;
+      }
+
+      parameters.push({
+        kind: "CapabilityParameter",
+        name: this.toIdentifier(nameToken),
+        type,
+        range: createRange(nameToken.range.start, type.range.end)
+      });
     }
 
-    const descriptionToken = this.expect("StringLiteral", "Expected a quoted string after check identifier");
-    if (descriptionToken === null || descriptionToken.value === undefined) {
-      this.consumeUntilLineBoundary();
+    if (parameters.length === 0) {
+      this.addDiagnostic(
+        "PARSE_EXPECTED_TOKEN",
+        "Expected at least one parameter after 'takes'",
+        this.current()
+      );
       return null;
     }
 
-    this.validateLineEnding("check declaration");
-
-    return {
-      kind: "CheckDeclaration",
-      name: nameToken.value,
-      description: descriptionToken.value,
-      range: createRange(keywordToken.range.start, descriptionToken.range.end)
-    };
+    return parameters;
   }
 
-  private expect(kind: Token["kind"], message: string): Token | null {
-    const token = this.current();
-    if (token.kind === kind) {
-      return this.advance();
+  private parseCapabilityType(message: string): CapabilityTypeAstNode | null {
+    const typeToken = this.expect("Identifier", message);
+    if (typeToken === null) {
+      return null;
     }
 
-    this.addDiagnostic("PARSE_EXPECTED_TOKEN", message, token);
-    return null;
+    if (!CAPABILITY_VALUE_TYPES.has(typeToken.lexeme)) {
+      this.addDiagnostic(
+        "PARSE_UNEXPECTED_TOKEN",
+        `Unknown type '${typeToken.lexeme}'; expected 'string', 'number', 'boolean', or 'json'`,
+        typeToken
+      );
+      return null;
+    }
+
+    return { ...this.toIdentifier(typeToken), name: typeToken.lexeme as CapabilityValueType };
   }
 
-  private validateLineEnding(context: string): void {
-    if (this.isAt("Newline") || this.isAt("EOF")) {
+  // Shared by capability `effects` clauses and the policy section's allowed-effects clause.
+  private parseEffectList(): CapabilityEffectAstNode[] | null {
+    const effects: CapabilityEffectAstNode[] = [];
+    while (this.isAt("Identifier") && !CAPABILITY_CLAUSES.has(this.current().lexeme)) {
+      const effectToken = this.advance();
+      if (!CAPABILITY_EFFECTS.has(effectToken.lexeme)) {
+        this.addDiagnostic(
+          "PARSE_UNEXPECTED_TOKEN",
+          `Unknown effect '${effectToken.lexeme}'; ` +
+            "expected 'fs.read', 'fs.write', 'net', or 'exec'",
+          effectToken
+        );
+        return null;
+      }
+
+      if (effects.some((effect) => effect.name === effectToken.lexeme)) {
+        this.addDiagnostic(
+          "PARSE_UNEXPECTED_TOKEN",
+          `Duplicate effect '${effectToken.lexeme}'`,
+          effectToken
+        );
+        return null;
+      }
+
+      effects.push({
+        ...this.toIdentifier(effectToken),
+        name: effectToken.lexeme as CapabilityEffect
+      });
+    }
+
+    if (effects.length === 0) {
+      this.addDiagnostic(
+        "PARSE_EXPECTED_TOKEN",
+        "Expected at least one effect after 'effects'",
+        this.current()
+      );
+      return null;
+    }
+
+    return effects;
+  }
+
+  private parseCheckDeclaration(): CheckDeclarationAstNode | null {
+    const keywordToken = this.consume("CheckKeyword");
+    if (keywordToken === null) {
+      return null;
+    }
+
+    const nameToken = this.expect("Identifier", "Expected check identifier after 'check'");
+    if (nameToken === null || nameToken.value === undefined) {
+      this.consumeUntilLineBoundary();
+      return null;
+    }
+
+    const descriptionToken = this.expect("StringLiteral", "Expected a quoted string after check identifier");
+    if (descriptionToken === null || descriptionToken.value === undefined) {
+      this.consumeUntilLineBoundary();
+      return null;
+    }
+
+    this.validateLineEnding("check declaration");
+
+    return {
+      kind: "CheckDeclaration",
+      name: nameToken.value,
+      description: descriptionToken.value,
+      ...docsFromTrivia(keywordToken),
+      range: createRange(keywordToken.range.start, descriptionToken.range.end)
+    };
+  }
+
+  private parseInferDeclaration(): InferDeclarationAstNode | null {
+    const keywordToken = this.advance();
+    const nameToken = this.expect("Identifier", "Expected infer step identifier after 'infer'");
+    if (nameToken === null || nameToken.value === undefined) {
+      this.consumeUntilLineBoundary();
+      return null;
+    }
+
+    const promptToken = this.expect(
+      "StringLiteral",
+      "Expected a quoted prompt after infer step identifier"
+    );
+    if (
+      promptToken === null ||
+      promptToken.value === undefined ||
+      !this.expectContextualKeyword("using", "Expected 'using' after the infer prompt")
+    ) {
+      this.consumeUntilLineBoundary();
+      return null;
+    }
+
+    const providerToken = this.expect("Identifier", "Expected provider identifier after 'using'");
+    if (providerToken === null) {
+      this.consumeUntilLineBoundary();
+      return null;
+    }
+
+    const settings: Partial<Record<string, NumberLiteralAstNode>> = {};
+    let end = providerToken.range.end;
+    while (this.isAt("Identifier")) {
+      const settingToken = this.current();
+      if (!INFER_SETTING_NAMES.has(settingToken.lexeme)) {
+        this.addDiagnostic(
+          "PARSE_UNEXPECTED_TOKEN",
+          `Unknown infer setting '${settingToken.lexeme}'; ` +
+            "expected 'temperature' or 'min_confidence'",
+          settingToken
+        );
+        this.consumeUntilLineBoundary();
+        return null;
+      }
+
+      if (settings[settingToken.lexeme] !== undefined) {
+        this.addDiagnostic(
+          "PARSE_UNEXPECTED_TOKEN",
+          `Duplicate infer setting '${settingToken.lexeme}'`,
+          settingToken
+        );
+        this.consumeUntilLineBoundary();
+        return null;
+      }
+
+      this.advance();
+      const valueToken = this.expect(
+        "NumberLiteral",
+        `Expected a number after '${settingToken.lexeme}'`
+      );
+      if (valueToken === null) {
+        this.consumeUntilLineBoundary();
+        return null;
+      }
+
+      settings[settingToken.lexeme] = this.toNumberLiteral(valueToken);
+      end = valueToken.range.end;
+    }
+
+    this.validateLineEnding("infer declaration");
+
+    return {
+      kind: "InferDeclaration",
+      name: nameToken.value,
+      prompt: this.toStringLiteral(promptToken),
+      provider: this.toIdentifier(providerToken),
+      ...(settings.temperature !== undefined ? { temperature: settings.temperature } : {}),
+      ...(settings.min_confidence !== undefined
+        ? { minConfidence: settings.min_confidence }
+        : {}),
+      ...docsFromTrivia(keywordToken),
+      range: createRange(keywordToken.range.start, end)
+    };
+  }
+
+  private parseStepDeclaration(): StepDeclarationAstNode | null {
+    const keywordToken = this.advance();
+    const nameToken = this.expect("Identifier", "Expected step identifier after 'step'");
+    if (nameToken === null || nameToken.value === undefined) {
+      this.consumeUntilLineBoundary();
+      return null;
+    }
+
+    const descriptionToken = this.expect(
+      "StringLiteral",
+      "Expected a quoted string after step identifier"
+    );
+    if (descriptionToken === null || descriptionToken.value === undefined) {
+      this.consumeUntilLineBoundary();
+      return null;
+    }
+
+    const clauses: Partial<Record<string, IdentifierAstNode[]>> = {};
+    let end = descriptionToken.range.end;
+    while (this.isAt("Identifier")) {
+      const clauseToken = this.advance();
+      if (!STEP_CLAUSES.has(clauseToken.lexeme)) {
+        this.addDiagnostic(
+          "PARSE_UNEXPECTED_TOKEN",
+          `Unknown step clause '${clauseToken.lexeme}'; expected 'after' or 'uses'`,
+          clauseToken
+        );
+        this.consumeUntilLineBoundary();
+        return null;
+      }
+
+      if (clauses[clauseToken.lexeme] !== undefined) {
+        this.addDiagnostic(
+          "PARSE_UNEXPECTED_TOKEN",
+          `Duplicate '${clauseToken.lexeme}' clause in step declaration`,
+          clauseToken
+        );
+        this.consumeUntilLineBoundary();
+        return null;
+      }
+
+      const references: IdentifierAstNode[] = [];
+      while (this.isAt("Identifier") && !STEP_CLAUSES.has(this.current().lexeme)) {
+        references.push(this.toIdentifier(this.advance()));
+      }
+      if (references.length === 0) {
+        const target = clauseToken.lexeme === "after" ? "step" : "capability";
+        this.addDiagnostic(
+          "PARSE_EXPECTED_TOKEN",
+          `Expected at least one ${target} identifier after '${clauseToken.lexeme}'`,
+          this.current()
+        );
+        this.consumeUntilLineBoundary();
+        return null;
+      }
+
+      clauses[clauseToken.lexeme] = references;
+      end = references[references.length - 1].range.end;
+    }
+
+    this.validateLineEnding("step declaration");
+
+    return {
+      kind: "StepDeclaration",
+      name: nameToken.value,
+      description: descriptionToken.value,
+      after: clauses.after ?? [],
+      uses: clauses.uses ?? [],
+      ...docsFromTrivia(keywordToken),
+      range: createRange(keywordToken.range.start, end)
+    };
+  }
+
+  private parseBudgetDeclaration(): BudgetDeclarationAstNode | null {
+    const keywordToken = this.advance();
+    const limits: BudgetLimitAstNode[] = [];
+    while (this.isAt("Identifier")) {
+      const limitToken = this.current();
+      if (!BUDGET_LIMIT_NAMES.has(limitToken.lexeme)) {
+        this.addDiagnostic(
+          "PARSE_UNEXPECTED_TOKEN",
+          `Unknown budget limit '${limitToken.lexeme}'; expected 'max_tokens', ` +
+            "'max_autonomous_steps', 'max_runtime_seconds', or 'max_cost_usd'",
+          limitToken
+        );
+        this.consumeUntilLineBoundary();
+        return null;
+      }
+
+      if (limits.some((limit) => limit.name === limitToken.lexeme)) {
+        this.addDiagnostic(
+          "PARSE_UNEXPECTED_TOKEN",
+          `Duplicate budget limit '${limitToken.lexeme}'`,
+          limitToken
+        );
+        this.consumeUntilLineBoundary();
+        return null;
+      }
+
+      this.advance();
+      const valueToken = this.expect(
+        "NumberLiteral",
+        `Expected a number after '${limitToken.lexeme}'`
+      );
+      if (valueToken === null) {
+        this.consumeUntilLineBoundary();
+        return null;
+      }
+
+      limits.push({
+        kind: "BudgetLimit",
+        name: limitToken.lexeme as BudgetLimitName,
+        value: this.toNumberLiteral(valueToken),
+        range: createRange(limitToken.range.start, valueToken.range.end)
+      });
+    }
+
+    if (limits.length === 0) {
+      this.addDiagnostic(
+        "PARSE_EXPECTED_TOKEN",
+        "Expected at least one budget limit after 'budget'",
+        this.current()
+      );
+      this.consumeUntilLineBoundary();
+      return null;
+    }
+
+    this.validateLineEnding("budget declaration");
+
+    return {
+      kind: "BudgetDeclaration",
+      limits,
+      ...docsFromTrivia(keywordToken),
+      range: createRange(keywordToken.range.start, limits[limits.length - 1].range.end)
+    };
+  }
+
+  private isOutcomeStart(): boolean {
+    const token = this.current();
+    const next = this.tokens[this.index + 1];
+    return (
+      token.kind === "Identifier" &&
+      OUTCOME_KINDS.has(token.lexeme) &&
+      next?.kind === "Identifier" &&
+      next.lexeme === "when"
+    );
+  }
+
+  private parseOutcomeDeclaration(): OutcomeDeclarationAstNode | null {
+    const keywordToken = this.advance();
+    this.advance();
+
+    const conditions: OutcomeConditionAstNode[] = [];
+    while (true) {
+      const condition = this.parseOutcomeCondition();
+      if (condition === null) {
+        this.consumeUntilLineBoundary();
+        return null;
+      }
+
+      conditions.push(condition);
+      if (!(this.isAt("Identifier") && this.current().lexeme === "and")) {
+        break;
+      }
+      this.advance();
+    }
+
+    this.validateLineEnding("outcome declaration");
+
+    return {
+      kind: "OutcomeDeclaration",
+      outcome: keywordToken.lexeme as OutcomeKind,
+      conditions,
+      ...docsFromTrivia(keywordToken),
+      range: createRange(keywordToken.range.start, conditions[conditions.length - 1].range.end)
+    };
+  }
+
+  private parseOutcomeCondition(): OutcomeConditionAstNode | null {
+    const nameToken = this.expect(
+      "Identifier",
+      "Expected a check or budget name in the outcome condition"
+    );
+    if (nameToken === null) {
+      return null;
+    }
+
+    const statusToken = this.current();
+    const checkStatus =
+      statusToken.kind === "Identifier" ? CHECK_CONDITION_STATUS[statusToken.lexeme] : undefined;
+    if (checkStatus !== undefined) {
+      this.advance();
+      return {
+        kind: "CheckCondition",
+        check: this.toIdentifier(nameToken),
+        status: checkStatus,
+        range: createRange(nameToken.range.start, statusToken.range.end)
+      };
+    }
+
+    if (statusToken.kind !== "Identifier" || statusToken.lexeme !== "exhausted") {
+      this.addDiagnostic(
+        "PARSE_EXPECTED_TOKEN",
+        `Expected 'passes', 'fails', or 'exhausted' after '${nameToken.lexeme}'`,
+        statusToken
+      );
+      return null;
+    }
+
+    if (!BUDGET_LIMIT_NAMES.has(nameToken.lexeme)) {
+      this.addDiagnostic(
+        "PARSE_UNEXPECTED_TOKEN",
+        `Unknown budget '${nameToken.lexeme}'; expected 'max_tokens', ` +
+          "'max_autonomous_steps', 'max_runtime_seconds', or 'max_cost_usd'",
+        nameToken
+      );
+      return null;
+    }
+
+    this.advance();
+    return {
+      kind: "BudgetCondition",
+      budget: { ...this.toIdentifier(nameToken), name: nameToken.lexeme as OutcomeBudgetName },
+      range: createRange(nameToken.range.start, statusToken.range.end)
+    };
+  }
+
+  private parsePolicyHeader(): PolicySectionBuilder {
+    const builder: PolicySectionBuilder = {
+      header: null,
+      allow: [],
+      deny: [],
+      escalations: [],
+      settings: [],
+      effects: null,
+      end: null
+    };
+
+    const keywordToken = this.consume("PolicyKeyword");
+    if (keywordToken === null) {
+      return builder;
+    }
+
+    const environmentToken = this.expect(
+      "Identifier",
+      "Expected policy environment identifier after 'policy'"
+    );
+    if (environmentToken === null || environmentToken.value === undefined) {
+      this.consumeUntilLineBoundary();
+      return builder;
+    }
+
+    this.validateLineEnding("policy declaration");
+
+    builder.header = {
+      environment: this.toIdentifier(environmentToken),
+      start: keywordToken.range.start,
+      ...docsFromTrivia(keywordToken)
+    };
+    builder.end = environmentToken.range.end;
+    return builder;
+  }
+
+  private parsePolicyClause(token: Token, builder: PolicySectionBuilder): void {
+    if (token.kind === "AllowKeyword" || token.kind === "DenyKeyword") {
+      const list = this.parsePolicyCapabilityList(token.kind === "AllowKeyword" ? "allow" : "deny");
+      if (list !== null) {
+        builder[token.kind === "AllowKeyword" ? "allow" : "deny"].push(...list);
+        builder.end = list[list.length - 1].range.end;
+      }
+      return;
+    }
+
+    if (token.kind === "EscalateKeyword") {
+      const escalation = this.parsePolicyEscalation();
+      if (escalation !== null) {
+        builder.escalations.push(escalation);
+        builder.end = escalation.range.end;
+      }
+      return;
+    }
+
+    if (token.kind === "Identifier" && token.lexeme === "effects") {
+      this.advance();
+      const effects = this.parseEffectList();
+      if (effects === null) {
+        this.consumeUntilLineBoundary();
+        return;
+      }
+
+      this.validateLineEnding("'effects' clause");
+      builder.effects = [...(builder.effects ?? []), ...effects];
+      builder.end = effects[effects.length - 1].range.end;
+      return;
+    }
+
+    if (token.kind === "Identifier") {
+      const setting = this.parsePolicySetting();
+      if (setting !== null) {
+        builder.settings.push(setting);
+        builder.end = setting.range.end;
+      }
+      return;
+    }
+
+    if (
+      token.kind === "GoalKeyword" ||
+      token.kind === "CapabilityKeyword" ||
+      token.kind === "CheckKeyword"
+    ) {
+      this.addDiagnostic(
+        "PARSE_UNEXPECTED_TOKEN",
+        `Unexpected '${token.lexeme}' declaration after the policy section begins`,
+        token
+      );
+    } else {
+      this.addDiagnostic(
+        "PARSE_EXPECTED_DECLARATION",
+        "Expected a policy clause ('allow', 'deny', 'escalate', 'effects', or a policy setting)",
+        token
+      );
+    }
+    this.skipInvalidDeclarationLine();
+  }
+
+  private parsePolicyCapabilityList(list: "allow" | "deny"): IdentifierAstNode[] | null {
+    this.advance();
+
+    const capabilities: IdentifierAstNode[] = [];
+    while (this.isAt("Identifier") || this.isAt("WildcardIdentifier")) {
+      capabilities.push(this.toIdentifier(this.advance()));
+    }
+
+    if (capabilities.length === 0) {
+      this.addDiagnostic(
+        "PARSE_EXPECTED_TOKEN",
+        `Expected capability identifier after '${list}'`,
+        this.current()
+      );
+      this.consumeUntilLineBoundary();
+      return null;
+    }
+
+    this.validateLineEnding(`'${list}' clause`);
+    return capabilities;
+  }
+
+  private parsePolicyEscalation(): PolicyEscalationAstNode | null {
+    const keywordToken = this.advance();
+
+    const capabilityToken = this.expect("Identifier", "Expected capability identifier after 'escalate'");
+    if (
+      capabilityToken === null ||
+      !this.expectContextualKeyword("to", "Expected 'to' after escalated capability identifier")
+    ) {
+      this.consumeUntilLineBoundary();
+      return null;
+    }
+
+    const levelToken = this.expect("Identifier", "Expected escalation level after 'to'");
+    if (
+      levelToken === null ||
+      !this.expectContextualKeyword("approvals", "Expected 'approvals' after escalation level")
+    ) {
+      this.consumeUntilLineBoundary();
+      return null;
+    }
+
+    const approvalsToken = this.expect("NumberLiteral", "Expected approval count after 'approvals'");
+    if (approvalsToken === null) {
+      this.consumeUntilLineBoundary();
+      return null;
+    }
+
+    let end = approvalsToken.range.end;
+    let reasonRequired = false;
+    if (this.isAt("Identifier") && this.current().lexeme === "reason_required") {
+      end = this.advance().range.end;
+      reasonRequired = true;
+    }
+
+    this.validateLineEnding("escalation rule");
+
+    return {
+      kind: "PolicyEscalation",
+      capability: this.toIdentifier(capabilityToken),
+      level: this.toIdentifier(levelToken),
+      approvals: this.toNumberLiteral(approvalsToken),
+      reasonRequired,
+      range: createRange(keywordToken.range.start, end)
+    };
+  }
+
+  private parsePolicySetting(): PolicySettingAstNode | null {
+    const nameToken = this.advance();
+    const name = nameToken.lexeme;
+    if (!isPolicySettingName(name)) {
+      this.addDiagnostic("PARSE_UNEXPECTED_TOKEN", `Unknown policy setting '${name}'`, nameToken);
+      this.consumeUntilLineBoundary();
+      return null;
+    }
+
+    const value = this.parseSettingValue(name, POLICY_SETTING_VALUE_KINDS[name]);
+    if (value === null) {
+      this.consumeUntilLineBoundary();
+      return null;
+    }
+
+    this.validateLineEnding("policy setting");
+
+    return {
+      kind: "PolicySetting",
+      name,
+      value,
+      range: createRange(nameToken.range.start, value.range.end)
+    };
+  }
+
+  private parseSettingValue(
+    name: string,
+    valueKind: SettingValueKind
+  ): IdentifierAstNode | NumberLiteralAstNode | null {
+    if (valueKind === "number") {
+      const valueToken = this.expect("NumberLiteral", `Expected a number after '${name}'`);
+      return valueToken !== null ? this.toNumberLiteral(valueToken) : null;
+    }
+
+    const message =
+      valueKind === "boolean"
+        ? `Expected 'true' or 'false' after '${name}'`
+        : `Expected an identifier after '${name}'`;
+    // `on_failure escalate` reuses the policy keyword as a plain value.
+    if (valueKind === "identifier" && this.isAt("EscalateKeyword")) {
+      return this.toIdentifier(this.advance());
+    }
+
+    const valueToken = this.expect("Identifier", message);
+    if (valueToken === null) {
+      return null;
+    }
+
+    if (valueKind === "boolean" && valueToken.lexeme !== "true" && valueToken.lexeme !== "false") {
+      this.addDiagnostic("PARSE_EXPECTED_TOKEN", message, valueToken);
+      return null;
+    }
+
+    return this.toIdentifier(valueToken);
+  }
+
+  private buildPolicyDeclaration(builder: PolicySectionBuilder): PolicyDeclarationAstNode | null {
+    if (builder.header === null || builder.end === null) {
+      return null;
+    }
+
+    return {
+      kind: "PolicyDeclaration",
+      environment: builder.header.environment,
+      allow: builder.allow,
+      deny: builder.deny,
+      escalations: builder.escalations,
+      settings: builder.settings,
+      ...(builder.effects !== null ? { effects: builder.effects } : {}),
+      ...(builder.header.docs !== undefined ? { docs: builder.header.docs } : {}),
+      range: createRange(builder.header.start, builder.end)
+    };
+  }
+
+  private parseVerifyHeader(): VerifySectionBuilder {
+    const keywordToken = this.advance();
+    this.validateLineEnding("verify declaration");
+
+    return {
+      start: keywordToken.range.start,
+      ...docsFromTrivia(keywordToken),
+      requirements: [],
+      assertions: [],
+      settings: [],
+      end: keywordToken.range.end
+    };
+  }
+
+  private parseVerifyClause(token: Token, builder: VerifySectionBuilder): void {
+    if (token.kind === "Identifier" && VERIFY_REQUIREMENT_KINDS.has(token.lexeme)) {
+      const requirement = this.parseVerifyRequirement();
+      if (requirement !== null) {
+        builder.requirements.push(requirement);
+        builder.end = requirement.range.end;
+      }
+      return;
+    }
+
+    if (token.kind === "Identifier" && token.lexeme === "assert") {
+      const assertion = this.parseVerifyPolicyAssertion();
+      if (assertion !== null) {
+        builder.assertions.push(assertion);
+        builder.end = assertion.range.end;
+      }
+      return;
+    }
+
+    if (token.kind === "Identifier") {
+      const setting = this.parseVerifySetting();
+      if (setting !== null) {
+        builder.settings.push(setting);
+        builder.end = setting.range.end;
+      }
+      return;
+    }
+
+    if (
+      token.kind === "GoalKeyword" ||
+      token.kind === "CapabilityKeyword" ||
+      token.kind === "CheckKeyword"
+    ) {
+      this.addDiagnostic(
+        "PARSE_UNEXPECTED_TOKEN",
+        `Unexpected '${token.lexeme}' declaration after the verify section begins`,
+        token
+      );
+    } else {
+      this.addDiagnostic(
+        "PARSE_EXPECTED_DECLARATION",
+        "Expected a verify clause ('test', 'static_analysis', 'assert', or a verify setting)",
+        token
+      );
+    }
+    this.skipInvalidDeclarationLine();
+  }
+
+  private parseVerifyRequirement(): VerifyRequirementAstNode | null {
+    const kindToken = this.advance();
+    const checkToken = this.expect(
+      "Identifier",
+      `Expected check identifier after '${kindToken.lexeme}'`
+    );
+    if (checkToken === null) {
+      this.consumeUntilLineBoundary();
+      return null;
+    }
+
+    const required = this.parseOptionalRequirementFlag();
+    if (required === null) {
+      this.consumeUntilLineBoundary();
+      return null;
+    }
+
+    const end = this.tokens[this.index - 1].range.end;
+    this.validateLineEnding("verify requirement");
+
+    return {
+      kind: "VerifyRequirement",
+      requirementKind: kindToken.lexeme as VerificationRequirementKind,
+      check: this.toIdentifier(checkToken),
+      required,
+      range: createRange(kindToken.range.start, end)
+    };
+  }
+
+  private parseVerifyPolicyAssertion(): VerifyPolicyAssertionAstNode | null {
+    const keywordToken = this.advance();
+    const idToken = this.expect("Identifier", "Expected assertion identifier after 'assert'");
+    if (idToken === null) {
+      this.consumeUntilLineBoundary();
+      return null;
+    }
+
+    const pathToken = this.expect(
+      "StringLiteral",
+      "Expected a quoted policy path after assertion identifier"
+    );
+    if (pathToken === null || pathToken.value === undefined) {
+      this.consumeUntilLineBoundary();
+      return null;
+    }
+
+    const expectedToken = this.current();
+    let expected: VerifyPolicyAssertionAstNode["expected"] | null = null;
+    if (expectedToken.kind === "StringLiteral" && expectedToken.value !== undefined) {
+      expected = this.toStringLiteral(this.advance());
+    } else if (expectedToken.kind === "NumberLiteral") {
+      expected = this.toNumberLiteral(this.advance());
+    } else if (
+      expectedToken.kind === "Identifier" &&
+      (expectedToken.lexeme === "true" || expectedToken.lexeme === "false")
+    ) {
+      expected = this.toIdentifier(this.advance());
+    } else {
+      this.addDiagnostic(
+        "PARSE_EXPECTED_TOKEN",
+        "Expected a quoted string, number, 'true', or 'false' as the asserted policy value",
+        expectedToken
+      );
+    }
+
+    const required = expected !== null ? this.parseOptionalRequirementFlag() : null;
+    if (expected === null || required === null) {
+      this.consumeUntilLineBoundary();
+      return null;
+    }
+
+    const end = this.tokens[this.index - 1].range.end;
+    this.validateLineEnding("policy assertion");
+
+    return {
+      kind: "VerifyPolicyAssertion",
+      id: this.toIdentifier(idToken),
+      policyPath: this.toStringLiteral(pathToken),
+      expected,
+      required,
+      range: createRange(keywordToken.range.start, end)
+    };
+  }
+
+  private parseOptionalRequirementFlag(): boolean | null {
+    const token = this.current();
+    if (token.kind !== "Identifier") {
+      return true;
+    }
+
+    if (token.lexeme === "required" || token.lexeme === "optional") {
+      this.advance();
+      return token.lexeme === "required";
+    }
+
+    this.addDiagnostic("PARSE_EXPECTED_TOKEN", "Expected 'required' or 'optional'", token);
+    return null;
+  }
+
+  private parseVerifySetting(): VerifySettingAstNode | null {
+    const nameToken = this.advance();
+    const name = nameToken.lexeme;
+    if (!isVerifySettingName(name)) {
+      this.addDiagnostic("PARSE_UNEXPECTED_TOKEN", `Unknown verify clause '${name}'`, nameToken);
+      this.consumeUntilLineBoundary();
+      return null;
+    }
+
+    const value = this.parseSettingValue(name, VERIFY_SETTING_VALUE_KINDS[name]);
+    if (value === null) {
+      this.consumeUntilLineBoundary();
+      return null;
+    }
+
+    this.validateLineEnding("verify setting");
+
+    return {
+      kind: "VerifySetting",
+      name,
+      value,
+      range: createRange(nameToken.range.start, value.range.end)
+    };
+  }
+
+  private buildVerifyDeclaration(builder: VerifySectionBuilder): VerifyDeclarationAstNode {
+    return {
+      kind: "VerifyDeclaration",
+      requirements: builder.requirements,
+      assertions: builder.assertions,
+      settings: builder.settings,
+      ...(builder.docs !== undefined ? { docs: builder.docs } : {}),
+      range: createRange(builder.start, builder.end)
+    };
+  }
+
+  private toStringLiteral(token: Token): StringLiteralAstNode {
+    return {
+      kind: "StringLiteral",
+      value: token.value ?? "",
+      range: createRange(token.range.start, token.range.end)
+    };
+  }
+
+  private toIdentifier(token: Token): IdentifierAstNode {
+    const name = token.value ?? token.lexeme;
+    return {
+      kind: "Identifier",
+      name,
+      ...splitQualifiedName(name),
+      range: createRange(token.range.start, token.range.end)
+    };
+  }
+
+  private toNumberLiteral(token: Token): NumberLiteralAstNode {
+    return {
+      kind: "NumberLiteral",
+      value: Number(token.lexeme),
+      raw: token.lexeme,
+      range: createRange(token.range.start, token.range.end)
+    };
+  }
+
+  private expectContextualKeyword(lexeme: string, message: string): boolean {
+    const token = this.current();
+    if (token.kind === "Identifier" && token.lexeme === lexeme) {
+      this.advance();
+      return true;
+    }
+
+    this.addDiagnostic("PARSE_EXPECTED_TOKEN", message, token);
+    return false;
+  }
+
+  private expect(kind: Token["kind"], message: string): Token | null {
+    const token = this.current();
+    if (token.kind === kind) {
+      return this.advance();
+    }
+
+    this.addDiagnostic("PARSE_EXPECTED_TOKEN", message, token);
+    return null;
+  }
+
+  private validateLineEnding(context: string): void {
+    if (this.isAt("Newline") || this.isAt("EOF")) {
       return;
     }
 
@@ -315,6 +1713,59 @@ class Parser {
     this.consumeUntilLineBoundary();
   }
 
+  private lineTokens(): Token[] {
+    const tokens: Token[] = [];
+    for (let index = this.index; index < this.tokens.length; index += 1) {
+      const token = this.tokens[index];
+      if (token.kind === "Newline" || token.kind === "EOF") {
+        break;
+      }
+      tokens.push(token);
+    }
+
+    return tokens;
+  }
+
+  private lineTerminator(): Token {
+    return this.tokens.slice(this.index).find(
+      (token) => token.kind === "Newline" || token.kind === "EOF"
+    ) ?? this.tokens[this.tokens.length - 1];
+  }
+
+  private quoteRestOfLineFixes(): DiagnosticFix[] {
+    const tokens = this.lineTokens();
+    const first = tokens[0];
+    const last = tokens[tokens.length - 1];
+    if (first === undefined || last === undefined) {
+      return [];
+    }
+
+    const text = this.source.slice(first.range.start.offset, last.range.end.offset);
+    return [
+      createDiagnosticFix(
+        "Quote the goal text",
+        createDiagnosticSpan(first.range.start, last.range.end, this.file),
+        quoteStringValue(text)
+      )
+    ];
+  }
+
+  // A single edit that spans from the insertion point to the end of the moved line.
+  private moveLineFixes(token: Token, target: SourcePosition): DiagnosticFix[] {
+    const lineStart = declarationStart(token);
+    const terminator = this.lineTerminator();
+    const lineEnd = terminator.kind === "Newline" ? terminator.range.end : terminator.range.start;
+    const line = this.source.slice(lineStart.offset, lineEnd.offset);
+    const between = this.source.slice(target.offset, lineStart.offset);
+    return [
+      createDiagnosticFix(
+        "Move the capability declaration before the first check",
+        createDiagnosticSpan(target, lineEnd, this.file),
+        `${terminator.kind === "Newline" ? line : `${line}\n`}${between}`
+      )
+    ];
+  }
+
   private consume(kind: Token["kind"]): Token | null {
     if (!this.isAt(kind)) {
       return null;
@@ -357,13 +1808,19 @@ class Parser {
     return token;
   }
 
-  private addDiagnostic(code: DiagnosticCode, message: string, token: Token): void {
+  private addDiagnostic(
+    code: DiagnosticCode,
+    message: string,
+    token: Token,
+    fixes: DiagnosticFix[] = []
+  ): void {
     emitDiagnostic(
       this.diagnostics,
       createDiagnostic(
         code,
         message,
-        createDiagnosticSpanFromRange(createRange(token.range.start, token.range.end))
+        createDiagnosticSpanFromRange(createRange(token.range.start, token.range.end), this.file),
+        fixes
       )
     );
   }
@@ -374,14 +1831,15 @@ class Parser {
       createDiagnostic(
         code,
         message,
-        createDiagnosticSpanFromRange(createRange(range.start, range.end))
+        createDiagnosticSpanFromRange(createRange(range.start, range.end), this.file)
       )
     );
   }
 }
 
-export function parseLsDocument(input: string): ParseResult {
-  const lexResult = lex(input);
+export function parseLsDocument(input: string, options: ParseLsDocumentOptions = {}): ParseResult {
+  const file = options.file ?? DEFAULT_DIAGNOSTIC_FILE;
+  const lexResult = lex(input, { file });
   if (lexResult.diagnostics.length > 0) {
     return {
       ast: null,
@@ -389,6 +1847,29 @@ export function parseLsDocument(input: string): ParseResult {
     };
   }
 
-  const parser = new Parser(lexResult.tokens);
+  return parseLsDocumentTokens(lexResult.tokens, input, { file });
+}
+
+// Parses a document that has already been lexed; `tokens` must be the lexed form of `input`.
+export function parseLsDocumentTokens(
+  tokens: Token[],
+  input: string,
+  options: ParseLsDocumentOptions = {}
+): ParseResult {
+  const parser = new Parser(tokens, options.file ?? DEFAULT_DIAGNOSTIC_FILE, input);
   return parser.parse();
 }
+
+export function parseLsModule(input: string, options: ParseLsDocumentOptions = {}): ModuleParseResult {
+  const file = options.file ?? DEFAULT_DIAGNOSTIC_FILE;
+  const lexResult = lex(input, { file });
+  if (lexResult.diagnostics.length > 0) {
+    return {
+      ast: null,
+      diagnostics: lexResult.diagnostics
+    };
+  }
+
+  const parser = new Parser(lexResult.tokens, file, input);
+  return parser.parseModule();
+}
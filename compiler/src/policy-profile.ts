@@ -0,0 +1,270 @@
+import {
+  ContractValidationError,
+  SUPPORTED_POLICY_PROFILE_SCHEMA_VERSION,
+  loadPolicyProfileContract,
+  type PolicyProfileContract
+} from "../../contracts/src/index.ts";
+import type {
+  CapabilityEffect,
+  CapabilityEffectAstNode,
+  DocumentAstNode,
+  IdentifierAstNode,
+  PolicyDeclarationAstNode,
+  PolicySettingAstNode,
+  PolicySettingName,
+  SourceRange
+} from "./ast.ts";
+import {
+  DEFAULT_CAPABILITY_CATALOG,
+  expandCapabilityReference,
+  validateCapabilityNamespaces,
+  type CapabilityCatalog
+} from "./capability-catalog.ts";
+import {
+  createContentId,
+  emitContractValidationDiagnostics,
+  resolveCreatedAt,
+  resolveOptionalId,
+  type InstancePathRanges
+} from "./contract-lowering.ts";
+import {
+  DEFAULT_DIAGNOSTIC_FILE,
+  createDiagnostic,
+  createDiagnosticSpanFromRange,
+  emitDiagnostic,
+  type Diagnostic
+} from "./diagnostics.ts";
+
+export interface LowerToPolicyProfileOptions {
+  file?: string;
+  profileId?: string;
+  now?: () => Date;
+  catalog?: CapabilityCatalog;
+}
+
+export interface PolicyProfileLoweringResult {
+  policyProfile: PolicyProfileContract | null;
+  diagnostics: Diagnostic[];
+}
+
+function createProfileId(policy: PolicyDeclarationAstNode): string {
+  return createContentId("policy", {
+    environment: policy.environment.name,
+    allow: policy.allow.map((capability) => capability.name),
+    deny: policy.deny.map((capability) => capability.name),
+    escalations: policy.escalations.map((escalation) => [
+      escalation.capability.name,
+      escalation.level.name,
+      escalation.approvals.raw,
+      escalation.reasonRequired
+    ]),
+    settings: policy.settings.map((setting) => [
+      setting.name,
+      setting.value.kind === "NumberLiteral" ? setting.value.raw : setting.value.name
+    ]),
+    ...(policy.effects !== undefined
+      ? { effects: policy.effects.map((effect) => effect.name) }
+      : {})
+  });
+}
+
+function spanningRange(nodes: IdentifierAstNode[], fallback: SourceRange): SourceRange {
+  if (nodes.length === 0) {
+    return fallback;
+  }
+
+  return {
+    start: nodes[0].range.start,
+    end: nodes[nodes.length - 1].range.end
+  };
+}
+
+function headerRange(policy: PolicyDeclarationAstNode): SourceRange {
+  return { start: policy.range.start, end: policy.environment.range.end };
+}
+
+function findSetting(
+  policy: PolicyDeclarationAstNode,
+  name: PolicySettingName
+): PolicySettingAstNode | undefined {
+  return policy.settings.filter((setting) => setting.name === name).at(-1);
+}
+
+function lowerCapabilityList(
+  references: IdentifierAstNode[],
+  expand: (reference: IdentifierAstNode) => string[],
+  listPath: string,
+  ranges: InstancePathRanges
+): string[] {
+  const names: string[] = [];
+  for (const reference of references) {
+    for (const name of expand(reference)) {
+      if (names.includes(name)) {
+        continue;
+      }
+
+      ranges.set(`${listPath}/${names.length}`, reference.range);
+      names.push(name);
+    }
+  }
+
+  return names;
+}
+
+function lowerAllowedEffects(
+  effects: CapabilityEffectAstNode[],
+  ranges: InstancePathRanges
+): CapabilityEffect[] {
+  const names: CapabilityEffect[] = [];
+  for (const effect of effects) {
+    if (names.includes(effect.name)) {
+      continue;
+    }
+
+    ranges.set(`/capability_policy/allowed_effects/${names.length}`, effect.range);
+    names.push(effect.name);
+  }
+
+  return names;
+}
+
+function buildPolicyProfile(
+  policy: PolicyDeclarationAstNode,
+  metadata: PolicyProfileContract["metadata"],
+  expand: (reference: IdentifierAstNode) => string[],
+  ranges: InstancePathRanges
+): Record<string, unknown> {
+  const header = headerRange(policy);
+  ranges.set("/metadata/environment", policy.environment.range);
+  ranges.set("/capability_policy/allow", spanningRange(policy.allow, header));
+  ranges.set("/capability_policy/deny", spanningRange(policy.deny, header));
+  const allow = lowerCapabilityList(policy.allow, expand, "/capability_policy/allow", ranges);
+  const deny = lowerCapabilityList(policy.deny, expand, "/capability_policy/deny", ranges);
+  if (policy.effects !== undefined) {
+    ranges.set("/capability_policy/allowed_effects", spanningRange(policy.effects, header));
+  }
+
+  const rules = policy.escalations.map((escalation, index) => {
+    const rulePath = `/capability_policy/escalation_requirements/rules/${index}`;
+    ranges.set(rulePath, escalation.range);
+    ranges.set(`${rulePath}/capability`, escalation.capability.range);
+    ranges.set(`${rulePath}/escalation_level`, escalation.level.range);
+    ranges.set(`${rulePath}/min_approvals`, escalation.approvals.range);
+
+    return {
+      capability: escalation.capability.name,
+      escalation_level: escalation.level.name,
+      min_approvals: escalation.approvals.value,
+      reason_required: escalation.reasonRequired
+    };
+  });
+
+  const escalationDefaultSetting = findSetting(policy, "escalation_default");
+  const escalationDefault =
+    escalationDefaultSetting !== undefined && escalationDefaultSetting.value.kind === "Identifier"
+      ? escalationDefaultSetting.value.name
+      : rules.length > 0
+        ? "manual_approval"
+        : "none";
+  ranges.set(
+    "/capability_policy/escalation_requirements/default",
+    escalationDefaultSetting?.value.range ?? policy.environment.range
+  );
+
+  const constraints: Record<string, unknown> = {
+    require_human_review_on_policy_violation: true
+  };
+  for (const name of [
+    "max_autonomous_steps",
+    "max_runtime_seconds",
+    "require_human_review_on_policy_violation"
+  ] as const) {
+    const setting = findSetting(policy, name);
+    if (setting === undefined) {
+      continue;
+    }
+
+    ranges.set(`/constraints/${name}`, setting.value.range);
+    constraints[name] =
+      setting.value.kind === "NumberLiteral" ? setting.value.value : setting.value.name === "true";
+  }
+
+  return {
+    schema_version: SUPPORTED_POLICY_PROFILE_SCHEMA_VERSION,
+    metadata,
+    capability_policy: {
+      allow,
+      deny,
+      ...(policy.effects !== undefined
+        ? { allowed_effects: lowerAllowedEffects(policy.effects, ranges) }
+        : {}),
+      escalation_requirements: {
+        default: escalationDefault,
+        rules
+      }
+    },
+    constraints
+  };
+}
+
+export function lowerToPolicyProfile(
+  ast: DocumentAstNode,
+  options: LowerToPolicyProfileOptions = {}
+): PolicyProfileLoweringResult {
+  const file = options.file ?? DEFAULT_DIAGNOSTIC_FILE;
+  const diagnostics: Diagnostic[] = [];
+  const policy = ast.policy;
+
+  if (policy === undefined) {
+    emitDiagnostic(
+      diagnostics,
+      createDiagnostic(
+        "LOWER_POLICY_MISSING",
+        "Document has no policy section to lower into a PolicyProfile",
+        createDiagnosticSpanFromRange({ start: ast.range.end, end: ast.range.end }, file)
+      )
+    );
+    return { policyProfile: null, diagnostics };
+  }
+
+  const catalog = options.catalog ?? DEFAULT_CAPABILITY_CATALOG;
+  for (const diagnostic of validateCapabilityNamespaces(ast, { catalog, file })) {
+    emitDiagnostic(diagnostics, diagnostic);
+  }
+  if (diagnostics.length > 0) {
+    return { policyProfile: null, diagnostics };
+  }
+
+  const now = options.now ?? (() => new Date());
+  const profileId = resolveOptionalId(options.profileId, () => createProfileId(policy));
+  const ranges: InstancePathRanges = new Map();
+  const candidate = buildPolicyProfile(
+    policy,
+    {
+      profile_id: profileId,
+      environment: policy.environment.name as PolicyProfileContract["metadata"]["environment"],
+      created_at: resolveCreatedAt(now),
+      source: file
+    },
+    (reference) => expandCapabilityReference(reference, ast.capabilities, catalog),
+    ranges
+  );
+
+  try {
+    return { policyProfile: loadPolicyProfileContract(candidate), diagnostics };
+  } catch (error) {
+    if (!(error instanceof ContractValidationError)) {
+      throw error;
+    }
+
+    emitContractValidationDiagnostics({
+      diagnostics,
+      error,
+      code: "LOWER_POLICY_SCHEMA_VIOLATION",
+      ranges,
+      fallback: headerRange(policy),
+      file
+    });
+    return { policyProfile: null, diagnostics };
+  }
+}
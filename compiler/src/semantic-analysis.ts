@@ -0,0 +1,413 @@
+import type {
+  BudgetDeclarationAstNode,
+  CapabilityDeclarationAstNode,
+  CheckDeclarationAstNode,
+  DocumentAstNode,
+  InferDeclarationAstNode,
+  OutcomeDeclarationAstNode,
+  PolicyDeclarationAstNode,
+  SourceRange,
+  StepDeclarationAstNode
+} from "./ast.ts";
+import {
+  DEFAULT_DIAGNOSTIC_FILE,
+  createDiagnostic,
+  createDiagnosticSpanFromRange,
+  emitDiagnostic,
+  type Diagnostic,
+  type DiagnosticCode
+} from "./diagnostics.ts";
+
+export const DEFAULT_MAX_GOAL_LENGTH = 160;
+
+export interface AnalyzeLsDocumentOptions {
+  file?: string;
+  maxGoalLength?: number;
+}
+
+type Declaration = CapabilityDeclarationAstNode | CheckDeclarationAstNode;
+type NamedDeclaration = Pick<Declaration, "name" | "range" | "file">;
+
+interface AnalysisContext {
+  diagnostics: Diagnostic[];
+  file: string;
+}
+
+function report(
+  context: AnalysisContext,
+  code: DiagnosticCode,
+  message: string,
+  range: SourceRange,
+  file = context.file
+): void {
+  emitDiagnostic(
+    context.diagnostics,
+    createDiagnostic(code, message, createDiagnosticSpanFromRange(range, file))
+  );
+}
+
+function formatLocation(context: AnalysisContext, declaration: NamedDeclaration): string {
+  const file = declaration.file ?? context.file;
+  return `${file}:${declaration.range.start.line}:${declaration.range.start.column}`;
+}
+
+function reportDuplicates(
+  context: AnalysisContext,
+  code:
+    | "SEMA_DUPLICATE_CAPABILITY"
+    | "SEMA_DUPLICATE_CHECK"
+    | "SEMA_DUPLICATE_INFERENCE"
+    | "SEMA_DUPLICATE_STEP",
+  symbolKind: "capability" | "check" | "infer step" | "step",
+  declarations: NamedDeclaration[]
+): void {
+  const firstByName = new Map<string, NamedDeclaration>();
+
+  for (const declaration of declarations) {
+    const first = firstByName.get(declaration.name);
+    if (first === undefined) {
+      firstByName.set(declaration.name, declaration);
+      continue;
+    }
+
+    report(
+      context,
+      code,
+      `Duplicate ${symbolKind} '${declaration.name}'; first declared at ${formatLocation(
+        context,
+        first
+      )}`,
+      declaration.range,
+      declaration.file
+    );
+  }
+}
+
+function reportEmptyDescriptions(
+  context: AnalysisContext,
+  symbolKind: "capability" | "check",
+  declarations: Declaration[]
+): void {
+  for (const declaration of declarations) {
+    if (declaration.description.trim().length > 0) {
+      continue;
+    }
+
+    report(
+      context,
+      "SEMA_EMPTY_DESCRIPTION",
+      `The ${symbolKind} '${declaration.name}' has an empty description`,
+      declaration.range,
+      declaration.file
+    );
+  }
+}
+
+// Identifiers written in a check's name or description, such as `read_logs` or `workspace.read`.
+function identifierTokens(text: string): string[] {
+  return (text.match(/[A-Za-z0-9_.]+/g) ?? []).map((token) => token.replace(/\.+$/, ""));
+}
+
+function referencesCapability(check: CheckDeclarationAstNode, names: Set<string>): boolean {
+  return [check.name, ...identifierTokens(check.description)].some((token) => names.has(token));
+}
+
+// A check references a capability by naming its identifier. Like unused capabilities, this is
+// only reported once the program uses such references, so checks written as prose stay quiet.
+function reportChecksWithoutCapability(
+  context: AnalysisContext,
+  capabilities: CapabilityDeclarationAstNode[],
+  checks: CheckDeclarationAstNode[]
+): void {
+  const names = new Set(capabilities.map((capability) => capability.name));
+  if (!checks.some((check) => referencesCapability(check, names))) {
+    return;
+  }
+
+  for (const check of checks) {
+    if (referencesCapability(check, names)) {
+      continue;
+    }
+
+    report(
+      context,
+      "SEMA_CHECK_WITHOUT_CAPABILITY",
+      `Check '${check.name}' does not reference any declared capability`,
+      check.range,
+      check.file
+    );
+  }
+}
+
+// Every check consumes every infer output, so a stochastic step without a confidence floor would
+// let unvetted model output decide check results.
+function reportInferencesWithoutConfidence(
+  context: AnalysisContext,
+  inferences: InferDeclarationAstNode[],
+  checks: CheckDeclarationAstNode[]
+): void {
+  for (const inference of inferences) {
+    const minConfidence = inference.minConfidence;
+    if (minConfidence === undefined) {
+      if (checks.length > 0) {
+        report(
+          context,
+          "SEMA_INFERENCE_WITHOUT_CONFIDENCE",
+          `Infer step '${inference.name}' feeds checks but declares no min_confidence floor`,
+          inference.range
+        );
+      }
+      continue;
+    }
+
+    if (minConfidence.value > 1) {
+      report(
+        context,
+        "SEMA_CONFIDENCE_OUT_OF_RANGE",
+        `Infer step '${inference.name}' has min_confidence ${minConfidence.raw}; ` +
+          "confidence floors must be between 0 and 1",
+        minConfidence.range
+      );
+    }
+  }
+}
+
+function reportUnknownStepReferences(
+  context: AnalysisContext,
+  capabilities: CapabilityDeclarationAstNode[],
+  steps: StepDeclarationAstNode[]
+): void {
+  const capabilityNames = new Set(capabilities.map((capability) => capability.name));
+  const stepNames = new Set(steps.map((step) => step.name));
+
+  for (const step of steps) {
+    for (const dependency of step.after) {
+      if (!stepNames.has(dependency.name)) {
+        report(
+          context,
+          "SEMA_UNKNOWN_STEP",
+          `Step '${step.name}' runs after unknown step '${dependency.name}'`,
+          dependency.range
+        );
+      }
+    }
+
+    for (const capability of step.uses) {
+      if (!capabilityNames.has(capability.name)) {
+        report(
+          context,
+          "SEMA_UNKNOWN_STEP_CAPABILITY",
+          `Step '${step.name}' uses unknown capability '${capability.name}'`,
+          capability.range
+        );
+      }
+    }
+  }
+}
+
+function reportStepCycles(context: AnalysisContext, steps: StepDeclarationAstNode[]): void {
+  const stepsByName = new Map<string, StepDeclarationAstNode>();
+  for (const step of steps) {
+    if (!stepsByName.has(step.name)) {
+      stepsByName.set(step.name, step);
+    }
+  }
+
+  const visited = new Set<string>();
+  const path: string[] = [];
+  const visit = (step: StepDeclarationAstNode): void => {
+    visited.add(step.name);
+    path.push(step.name);
+
+    for (const dependency of step.after) {
+      const target = stepsByName.get(dependency.name);
+      if (target === undefined) {
+        continue;
+      }
+
+      const cycleStart = path.indexOf(target.name);
+      if (cycleStart !== -1) {
+        const cycle = [...path.slice(cycleStart), target.name].join(" -> ");
+        report(context, "SEMA_STEP_CYCLE", `Step dependency cycle: ${cycle}`, dependency.range);
+      } else if (!visited.has(target.name)) {
+        visit(target);
+      }
+    }
+
+    path.pop();
+  };
+
+  for (const step of stepsByName.values()) {
+    if (!visited.has(step.name)) {
+      visit(step);
+    }
+  }
+}
+
+// Only programs that declare steps say which capabilities their work needs.
+function reportUnusedCapabilities(
+  context: AnalysisContext,
+  capabilities: CapabilityDeclarationAstNode[],
+  steps: StepDeclarationAstNode[]
+): void {
+  if (steps.length === 0) {
+    return;
+  }
+
+  const used = new Set(steps.flatMap((step) => step.uses.map((capability) => capability.name)));
+  for (const capability of capabilities) {
+    if (used.has(capability.name)) {
+      continue;
+    }
+
+    report(
+      context,
+      "SEMA_UNUSED_CAPABILITY",
+      `Capability '${capability.name}' is not used by any step`,
+      capability.range,
+      capability.file
+    );
+  }
+}
+
+function reportUnknownConditionChecks(
+  context: AnalysisContext,
+  checks: CheckDeclarationAstNode[],
+  outcomes: OutcomeDeclarationAstNode[]
+): void {
+  const checkNames = new Set(checks.map((check) => check.name));
+
+  for (const outcome of outcomes) {
+    for (const condition of outcome.conditions) {
+      if (condition.kind !== "CheckCondition" || checkNames.has(condition.check.name)) {
+        continue;
+      }
+
+      report(
+        context,
+        "SEMA_UNKNOWN_CONDITION_CHECK",
+        `The ${outcome.outcome} condition references unknown check '${condition.check.name}'`,
+        condition.check.range
+      );
+    }
+  }
+}
+
+// Token, step, and second budgets count whole units; only the cost budget may be fractional.
+function reportInvalidBudgetLimits(
+  context: AnalysisContext,
+  budget: BudgetDeclarationAstNode
+): void {
+  for (const limit of budget.limits) {
+    const requiresInteger = limit.name !== "max_cost_usd";
+    if (limit.value.value > 0 && (!requiresInteger || Number.isInteger(limit.value.value))) {
+      continue;
+    }
+
+    report(
+      context,
+      "SEMA_INVALID_BUDGET_LIMIT",
+      `Budget limit '${limit.name}' is ${limit.value.raw}; ` +
+        `expected a positive ${requiresInteger ? "integer" : "number"}`,
+      limit.value.range
+    );
+  }
+}
+
+// The runtime enforces the stricter of the program and policy budgets, so a looser program limit
+// never takes effect.
+function reportBudgetsExceedingPolicy(
+  context: AnalysisContext,
+  budget: BudgetDeclarationAstNode,
+  policy: PolicyDeclarationAstNode
+): void {
+  for (const limit of budget.limits) {
+    const setting = policy.settings.find((candidate) => candidate.name === limit.name);
+    if (setting?.value.kind !== "NumberLiteral" || limit.value.value <= setting.value.value) {
+      continue;
+    }
+
+    report(
+      context,
+      "SEMA_BUDGET_EXCEEDS_POLICY",
+      `Budget limit '${limit.name}' ${limit.value.raw} exceeds the policy limit ` +
+        `${setting.value.raw}; the policy limit applies`,
+      limit.value.range
+    );
+  }
+}
+
+// A budget term holds once usage reaches the effective limit, so without a limit from the budget
+// or the policy it never holds.
+function reportConditionBudgetsWithoutLimit(
+  context: AnalysisContext,
+  outcomes: OutcomeDeclarationAstNode[],
+  budget: BudgetDeclarationAstNode | undefined,
+  policy: PolicyDeclarationAstNode | undefined
+): void {
+  for (const outcome of outcomes) {
+    for (const condition of outcome.conditions) {
+      if (condition.kind !== "BudgetCondition") {
+        continue;
+      }
+
+      const name = condition.budget.name;
+      if (
+        budget?.limits.some((limit) => limit.name === name) ||
+        policy?.settings.some((setting) => setting.name === name)
+      ) {
+        continue;
+      }
+
+      report(
+        context,
+        "SEMA_CONDITION_BUDGET_WITHOUT_LIMIT",
+        `The ${outcome.outcome} condition uses '${name}', but neither the budget nor the ` +
+          "policy sets that limit; the condition never holds",
+        condition.budget.range
+      );
+    }
+  }
+}
+
+export function analyzeLsDocument(
+  ast: DocumentAstNode,
+  options: AnalyzeLsDocumentOptions = {}
+): Diagnostic[] {
+  const context: AnalysisContext = {
+    diagnostics: [],
+    file: options.file ?? DEFAULT_DIAGNOSTIC_FILE
+  };
+  const maxGoalLength = options.maxGoalLength ?? DEFAULT_MAX_GOAL_LENGTH;
+
+  if (ast.goal.value.length > maxGoalLength) {
+    report(
+      context,
+      "SEMA_GOAL_TOO_LONG",
+      `Goal is ${ast.goal.value.length} characters long; keep goals to at most ${maxGoalLength}`,
+      ast.goal.range
+    );
+  }
+
+  reportDuplicates(context, "SEMA_DUPLICATE_CAPABILITY", "capability", ast.capabilities);
+  reportDuplicates(context, "SEMA_DUPLICATE_CHECK", "check", ast.checks);
+  reportDuplicates(context, "SEMA_DUPLICATE_INFERENCE", "infer step", ast.inferences ?? []);
+  reportDuplicates(context, "SEMA_DUPLICATE_STEP", "step", ast.steps ?? []);
+  reportEmptyDescriptions(context, "capability", ast.capabilities);
+  reportEmptyDescriptions(context, "check", ast.checks);
+  reportChecksWithoutCapability(context, ast.capabilities, ast.checks);
+  reportInferencesWithoutConfidence(context, ast.inferences ?? [], ast.checks);
+  reportUnknownStepReferences(context, ast.capabilities, ast.steps ?? []);
+  reportStepCycles(context, ast.steps ?? []);
+  reportUnusedCapabilities(context, ast.capabilities, ast.steps ?? []);
+  reportUnknownConditionChecks(context, ast.checks, ast.outcomes ?? []);
+  reportConditionBudgetsWithoutLimit(context, ast.outcomes ?? [], ast.budget, ast.policy);
+  if (ast.budget !== undefined) {
+    reportInvalidBudgetLimits(context, ast.budget);
+    if (ast.policy !== undefined) {
+      reportBudgetsExceedingPolicy(context, ast.budget, ast.policy);
+    }
+  }
+
+  return context.diagnostics;
+}
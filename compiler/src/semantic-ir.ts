@@ -0,0 +1,380 @@
+import type {
+  BudgetDeclarationAstNode,
+  CapabilityDeclarationAstNode,
+  CapabilityEffect,
+  CapabilityValueType,
+  CheckDeclarationAstNode,
+  DocumentAstNode,
+  InferDeclarationAstNode,
+  OutcomeConditionAstNode,
+  OutcomeDeclarationAstNode,
+  SourceRange,
+  StepDeclarationAstNode
+} from "./ast.ts";
+import type {
+  SemanticIrBudget as RuntimeSemanticIrBudget,
+  SemanticIrConditionTerm,
+  SemanticIrOutcomeCondition as RuntimeSemanticIrOutcomeCondition
+} from "../../contracts/src/index.ts";
+import { createContentId, resolveCreatedAt, resolveOptionalId } from "./contract-lowering.ts";
+import {
+  DEFAULT_DIAGNOSTIC_FILE,
+  createDiagnosticSpanFromRange,
+  type DiagnosticSpan
+} from "./diagnostics.ts";
+
+export const SEMANTIC_IR_SCHEMA_VERSION = "0.1.0";
+export const SEMANTIC_IR_GOAL_NODE_ID = "det-goal";
+export const SEMANTIC_IR_GOAL_OUTPUT = "ir.goal";
+export const SEMANTIC_IR_DEFAULT_TEMPERATURE = 0;
+
+export type SemanticIrSourceSpan = DiagnosticSpan;
+
+// Node and outcome-condition ids mapped to the `.ls` spans they were lowered from.
+export type SemanticIrSourceMap = Record<string, SemanticIrSourceSpan>;
+
+export interface SemanticIrCapabilityParameter {
+  name: string;
+  type: CapabilityValueType;
+}
+
+export interface SemanticIrDeterministicNode {
+  id: string;
+  node_class: "deterministic";
+  kind: string;
+  inputs: string[];
+  outputs: string[];
+  // Capability signatures and effects, present only when the declaration has them.
+  parameters?: SemanticIrCapabilityParameter[];
+  returns?: CapabilityValueType;
+  effects?: CapabilityEffect[];
+  source_span?: SemanticIrSourceSpan;
+}
+
+export interface SemanticIrStochasticNode {
+  id: string;
+  node_class: "stochastic";
+  provider: string;
+  prompt: string;
+  temperature: number;
+  min_confidence?: number;
+  inputs?: string[];
+  outputs?: string[];
+  source_span?: SemanticIrSourceSpan;
+}
+
+export interface SemanticIrOutcomeCondition extends RuntimeSemanticIrOutcomeCondition {
+  source_span?: SemanticIrSourceSpan;
+}
+
+export interface SemanticIrBudget extends RuntimeSemanticIrBudget {
+  source_span?: SemanticIrSourceSpan;
+}
+
+export interface SemanticIrContract {
+  schema_version: typeof SEMANTIC_IR_SCHEMA_VERSION;
+  metadata: {
+    ir_id: string;
+    created_at: string;
+    source: string;
+  };
+  goal: string;
+  deterministic_nodes: SemanticIrDeterministicNode[];
+  stochastic_nodes: SemanticIrStochasticNode[];
+  budget?: SemanticIrBudget;
+  outcome_conditions?: SemanticIrOutcomeCondition[];
+  source_map?: SemanticIrSourceMap;
+}
+
+export interface LowerToSemanticIrOptions {
+  file?: string;
+  irId?: string;
+  now?: () => Date;
+}
+
+function createIrId(ast: DocumentAstNode): string {
+  return createContentId("ir", {
+    goal: ast.goal.value,
+    capabilities: ast.capabilities.map((capability) => [
+      capability.name,
+      capability.description,
+      ...(hasCapabilitySignature(capability) ? [lowerCapabilitySignature(capability)] : [])
+    ]),
+    checks: ast.checks.map((check) => [check.name, check.description]),
+    ...(ast.inferences !== undefined && ast.inferences.length > 0
+      ? {
+          inferences: ast.inferences.map((inference) => [
+            inference.name,
+            inference.prompt.value,
+            inference.provider.name,
+            inference.temperature?.value ?? null,
+            inference.minConfidence?.value ?? null
+          ])
+        }
+      : {}),
+    ...(ast.steps !== undefined && ast.steps.length > 0
+      ? {
+          steps: ast.steps.map((step) => [
+            step.name,
+            step.description,
+            step.after.map((dependency) => dependency.name),
+            step.uses.map((capability) => capability.name)
+          ])
+        }
+      : {}),
+    ...(ast.budget !== undefined
+      ? { budget: ast.budget.limits.map((limit) => [limit.name, limit.value.value]) }
+      : {}),
+    ...(ast.outcomes !== undefined && ast.outcomes.length > 0
+      ? {
+          outcomes: ast.outcomes.map((outcome) => [
+            outcome.outcome,
+            outcome.conditions.map(lowerConditionTerm)
+          ])
+        }
+      : {})
+  });
+}
+
+function createSourceSpan(range: SourceRange, file: string): SemanticIrSourceSpan {
+  return createDiagnosticSpanFromRange(range, file);
+}
+
+function capabilityNodeId(name: string): string {
+  return `det-capability-${name}`;
+}
+
+function capabilityOutput(name: string): string {
+  return `capability.${name}`;
+}
+
+function checkNodeId(name: string): string {
+  return `det-check-${name}`;
+}
+
+function checkOutput(name: string): string {
+  return `check.${name}`;
+}
+
+function hasCapabilitySignature(capability: CapabilityDeclarationAstNode): boolean {
+  return (
+    capability.parameters !== undefined ||
+    capability.returns !== undefined ||
+    capability.effects !== undefined
+  );
+}
+
+function lowerCapabilitySignature(
+  capability: CapabilityDeclarationAstNode
+): Pick<SemanticIrDeterministicNode, "parameters" | "returns" | "effects"> {
+  return {
+    ...(capability.parameters !== undefined
+      ? {
+          parameters: capability.parameters.map((parameter) => ({
+            name: parameter.name.name,
+            type: parameter.type.name
+          }))
+        }
+      : {}),
+    ...(capability.returns !== undefined ? { returns: capability.returns.name } : {}),
+    ...(capability.effects !== undefined
+      ? { effects: capability.effects.map((effect) => effect.name) }
+      : {})
+  };
+}
+
+function lowerCapability(
+  capability: CapabilityDeclarationAstNode,
+  file: string
+): SemanticIrDeterministicNode {
+  return {
+    id: capabilityNodeId(capability.name),
+    node_class: "deterministic",
+    kind: "capability",
+    inputs: [SEMANTIC_IR_GOAL_OUTPUT],
+    outputs: [capabilityOutput(capability.name)],
+    ...lowerCapabilitySignature(capability),
+    source_span: createSourceSpan(capability.range, capability.file ?? file)
+  };
+}
+
+function inferNodeId(name: string): string {
+  return `sto-infer-${name}`;
+}
+
+function inferOutput(name: string): string {
+  return `infer.${name}`;
+}
+
+function lowerInference(
+  inference: InferDeclarationAstNode,
+  file: string
+): SemanticIrStochasticNode {
+  return {
+    id: inferNodeId(inference.name),
+    node_class: "stochastic",
+    provider: inference.provider.name,
+    prompt: inference.prompt.value,
+    temperature: inference.temperature?.value ?? SEMANTIC_IR_DEFAULT_TEMPERATURE,
+    ...(inference.minConfidence !== undefined
+      ? { min_confidence: inference.minConfidence.value }
+      : {}),
+    inputs: [SEMANTIC_IR_GOAL_OUTPUT],
+    outputs: [inferOutput(inference.name)],
+    source_span: createSourceSpan(inference.range, file)
+  };
+}
+
+function stepNodeId(name: string): string {
+  return `det-step-${name}`;
+}
+
+function stepOutput(name: string): string {
+  return `step.${name}`;
+}
+
+// Steps without dependencies or capabilities start from the goal so every node stays reachable.
+function lowerStep(step: StepDeclarationAstNode, file: string): SemanticIrDeterministicNode {
+  const inputs = [
+    ...step.after.map((dependency) => stepOutput(dependency.name)),
+    ...step.uses.map((capability) => capabilityOutput(capability.name))
+  ];
+
+  return {
+    id: stepNodeId(step.name),
+    node_class: "deterministic",
+    kind: "step",
+    inputs: inputs.length > 0 ? inputs : [SEMANTIC_IR_GOAL_OUTPUT],
+    outputs: [stepOutput(step.name)],
+    source_span: createSourceSpan(step.range, file)
+  };
+}
+
+function lowerCheck(
+  check: CheckDeclarationAstNode,
+  inputs: string[],
+  file: string
+): SemanticIrDeterministicNode {
+  return {
+    id: checkNodeId(check.name),
+    node_class: "deterministic",
+    kind: "check",
+    inputs: [...inputs],
+    outputs: [checkOutput(check.name)],
+    source_span: createSourceSpan(check.range, check.file ?? file)
+  };
+}
+
+function lowerConditionTerm(condition: OutcomeConditionAstNode): SemanticIrConditionTerm {
+  if (condition.kind === "CheckCondition") {
+    return { kind: "check", check: condition.check.name, status: condition.status };
+  }
+
+  return { kind: "budget", budget: condition.budget.name, status: "exhausted" };
+}
+
+function lowerBudget(budget: BudgetDeclarationAstNode, file: string): SemanticIrBudget {
+  return {
+    ...Object.fromEntries(budget.limits.map((limit) => [limit.name, limit.value.value])),
+    source_span: createSourceSpan(budget.range, file)
+  };
+}
+
+function lowerOutcomes(
+  outcomes: OutcomeDeclarationAstNode[],
+  file: string
+): SemanticIrOutcomeCondition[] {
+  const counts = new Map<string, number>();
+
+  return outcomes.map((outcome) => {
+    const index = (counts.get(outcome.outcome) ?? 0) + 1;
+    counts.set(outcome.outcome, index);
+
+    return {
+      id: `outcome-${outcome.outcome}-${index}`,
+      outcome: outcome.outcome,
+      all_of: outcome.conditions.map(lowerConditionTerm),
+      source_span: createSourceSpan(outcome.range, file)
+    };
+  });
+}
+
+function buildSourceMap(
+  entries: Array<{ id: string; source_span?: SemanticIrSourceSpan }>
+): SemanticIrSourceMap {
+  const sourceMap: SemanticIrSourceMap = {};
+  for (const entry of entries) {
+    if (entry.source_span !== undefined) {
+      sourceMap[entry.id] = entry.source_span;
+    }
+  }
+
+  return sourceMap;
+}
+
+// Duplicate declarations lower to the same node id and output, which the runtime cannot schedule.
+function assertUniqueNodeIds(
+  nodes: Array<{ id: string; source_span?: SemanticIrSourceSpan }>
+): void {
+  const seen = new Set<string>();
+  for (const node of nodes) {
+    if (seen.has(node.id)) {
+      const span = node.source_span;
+      const location =
+        span !== undefined ? ` at ${span.file}:${span.start.line}:${span.start.column}` : "";
+      throw new Error(
+        `Cannot lower duplicate SemanticIR node '${node.id}'${location}; ` +
+          "resolve the duplicate declaration reported by analyzeLsDocument first"
+      );
+    }
+    seen.add(node.id);
+  }
+}
+
+export function lowerToSemanticIr(
+  ast: DocumentAstNode,
+  options: LowerToSemanticIrOptions = {}
+): SemanticIrContract {
+  const file = options.file ?? DEFAULT_DIAGNOSTIC_FILE;
+  const now = options.now ?? (() => new Date());
+  const irId = resolveOptionalId(options.irId, () => createIrId(ast));
+
+  const goalNode: SemanticIrDeterministicNode = {
+    id: SEMANTIC_IR_GOAL_NODE_ID,
+    node_class: "deterministic",
+    kind: "goal",
+    inputs: [],
+    outputs: [SEMANTIC_IR_GOAL_OUTPUT],
+    source_span: createSourceSpan(ast.goal.range, file)
+  };
+  const capabilityNodes = ast.capabilities.map((capability) => lowerCapability(capability, file));
+  const inferNodes = (ast.inferences ?? []).map((inference) => lowerInference(inference, file));
+  const stepNodes = (ast.steps ?? []).map((step) => lowerStep(step, file));
+  const checkInputs = [
+    ...capabilityNodes.flatMap((node) => node.outputs),
+    ...inferNodes.flatMap((node) => node.outputs ?? []),
+    ...stepNodes.flatMap((node) => node.outputs)
+  ];
+  const checkNodes = ast.checks.map((check) => lowerCheck(check, checkInputs, file));
+  const deterministicNodes = [goalNode, ...capabilityNodes, ...stepNodes, ...checkNodes];
+  assertUniqueNodeIds([...deterministicNodes, ...inferNodes]);
+  const outcomeConditions =
+    ast.outcomes !== undefined && ast.outcomes.length > 0
+      ? lowerOutcomes(ast.outcomes, file)
+      : undefined;
+
+  return {
+    schema_version: SEMANTIC_IR_SCHEMA_VERSION,
+    metadata: {
+      ir_id: irId,
+      created_at: resolveCreatedAt(now),
+      source: file
+    },
+    goal: ast.goal.value,
+    deterministic_nodes: deterministicNodes,
+    stochastic_nodes: inferNodes,
+    ...(ast.budget !== undefined ? { budget: lowerBudget(ast.budget, file) } : {}),
+    ...(outcomeConditions !== undefined ? { outcome_conditions: outcomeConditions } : {}),
+    source_map: buildSourceMap([...deterministicNodes, ...inferNodes, ...(outcomeConditions ?? [])])
+  };
+}
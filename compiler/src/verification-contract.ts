@@ -0,0 +1,281 @@
+import {
+  ContractValidationError,
+  SUPPORTED_VERIFICATION_CONTRACT_SCHEMA_VERSION,
+  loadVerificationContract,
+  type VerificationContract
+} from "../../contracts/src/index.ts";
+import type {
+  CheckDeclarationAstNode,
+  DocumentAstNode,
+  SourceRange,
+  VerificationRequirementKind,
+  VerifyDeclarationAstNode,
+  VerifyRequirementAstNode,
+  VerifySettingAstNode,
+  VerifySettingName
+} from "./ast.ts";
+import {
+  createContentId,
+  emitContractValidationDiagnostics,
+  resolveCreatedAt,
+  resolveOptionalId,
+  type InstancePathRanges
+} from "./contract-lowering.ts";
+import {
+  DEFAULT_DIAGNOSTIC_FILE,
+  createDiagnostic,
+  createDiagnosticSpanFromRange,
+  emitDiagnostic,
+  type Diagnostic
+} from "./diagnostics.ts";
+
+export const VERIFICATION_REQUIRED_FEEDBACK_TENSOR_FIELDS = [
+  "failure_signal",
+  "confidence",
+  "provenance"
+] as const;
+
+export interface LowerToVerificationContractOptions {
+  file?: string;
+  contractId?: string;
+  now?: () => Date;
+}
+
+export interface VerificationContractLoweringResult {
+  verificationContract: VerificationContract | null;
+  diagnostics: Diagnostic[];
+}
+
+interface LoweredRequirement {
+  check: CheckDeclarationAstNode;
+  entry: VerifyRequirementAstNode | undefined;
+}
+
+function headerRange(verify: VerifyDeclarationAstNode): SourceRange {
+  const { start } = verify.range;
+  const keywordLength = "verify".length;
+  return {
+    start,
+    end: {
+      offset: start.offset + keywordLength,
+      line: start.line,
+      column: start.column + keywordLength
+    }
+  };
+}
+
+function findSetting(
+  verify: VerifyDeclarationAstNode,
+  name: VerifySettingName
+): VerifySettingAstNode | undefined {
+  return verify.settings.filter((setting) => setting.name === name).at(-1);
+}
+
+function createContractId(ast: DocumentAstNode, verify: VerifyDeclarationAstNode): string {
+  return createContentId("verification", {
+    checks: ast.checks.map((check) => [check.name, check.description]),
+    requirements: verify.requirements.map((requirement) => [
+      requirement.requirementKind,
+      requirement.check.name,
+      requirement.required
+    ]),
+    assertions: verify.assertions.map((assertion) => [
+      assertion.id.name,
+      assertion.policyPath.value,
+      assertion.expected.kind === "NumberLiteral"
+        ? assertion.expected.raw
+        : assertion.expected.kind === "Identifier"
+          ? assertion.expected.name
+          : assertion.expected.value,
+      assertion.required
+    ]),
+    settings: verify.settings.map((setting) => [
+      setting.name,
+      setting.value.kind === "NumberLiteral" ? setting.value.raw : setting.value.name
+    ])
+  });
+}
+
+function resolveRequirements(
+  ast: DocumentAstNode,
+  verify: VerifyDeclarationAstNode,
+  diagnostics: Diagnostic[],
+  file: string
+): LoweredRequirement[] {
+  const checksByName = new Map(ast.checks.map((check) => [check.name, check]));
+  const entriesByCheck = new Map<string, VerifyRequirementAstNode>();
+
+  for (const requirement of verify.requirements) {
+    const name = requirement.check.name;
+    if (!checksByName.has(name)) {
+      emitDiagnostic(
+        diagnostics,
+        createDiagnostic(
+          "LOWER_VERIFY_UNKNOWN_CHECK",
+          `Verify requirement references undeclared check '${name}'`,
+          createDiagnosticSpanFromRange(requirement.check.range, file)
+        )
+      );
+      continue;
+    }
+
+    if (entriesByCheck.has(name)) {
+      emitDiagnostic(
+        diagnostics,
+        createDiagnostic(
+          "LOWER_VERIFY_DUPLICATE_CHECK",
+          `Check '${name}' is already listed in the verify section`,
+          createDiagnosticSpanFromRange(requirement.check.range, file)
+        )
+      );
+      continue;
+    }
+
+    entriesByCheck.set(name, requirement);
+  }
+
+  return ast.checks.map((check) => ({ check, entry: entriesByCheck.get(check.name) }));
+}
+
+function buildVerificationContract(
+  verify: VerifyDeclarationAstNode,
+  requirements: LoweredRequirement[],
+  header: { contract_id: string; generated_at: string },
+  ranges: InstancePathRanges
+): Record<string, unknown> {
+  const fallback = headerRange(verify);
+  const grouped: Record<VerificationRequirementKind, Record<string, unknown>[]> = {
+    test: [],
+    static_analysis: []
+  };
+  const groupPaths: Record<VerificationRequirementKind, string> = {
+    test: "/requirements/tests",
+    static_analysis: "/requirements/static_analysis"
+  };
+
+  for (const { check, entry } of requirements) {
+    const requirementKind = entry?.requirementKind ?? "test";
+    const group = grouped[requirementKind];
+    const requirementPath = `${groupPaths[requirementKind]}/${group.length}`;
+    ranges.set(requirementPath, entry?.range ?? check.range);
+    ranges.set(`${requirementPath}/description`, check.range);
+
+    group.push({
+      id: check.name,
+      description: check.description,
+      required: entry?.required ?? true
+    });
+  }
+  ranges.set(groupPaths.test, fallback);
+  ranges.set(groupPaths.static_analysis, fallback);
+  ranges.set("/requirements/policy_assertions", fallback);
+
+  const policyAssertions = verify.assertions.map((assertion, index) => {
+    const assertionPath = `/requirements/policy_assertions/${index}`;
+    ranges.set(assertionPath, assertion.range);
+    ranges.set(`${assertionPath}/id`, assertion.id.range);
+    ranges.set(`${assertionPath}/policy_path`, assertion.policyPath.range);
+    ranges.set(`${assertionPath}/expected`, assertion.expected.range);
+
+    return {
+      id: assertion.id.name,
+      policy_path: assertion.policyPath.value,
+      expected:
+        assertion.expected.kind === "Identifier"
+          ? assertion.expected.name === "true"
+          : assertion.expected.value,
+      required: assertion.required
+    };
+  });
+
+  const minPassRatio = findSetting(verify, "min_pass_ratio");
+  const maxWarnings = findSetting(verify, "max_warnings");
+  const onFailure = findSetting(verify, "on_failure");
+  if (minPassRatio !== undefined) {
+    ranges.set("/pass_criteria/minimum_required_checks_pass_ratio", minPassRatio.value.range);
+  }
+  if (maxWarnings !== undefined) {
+    ranges.set("/pass_criteria/max_warning_count", maxWarnings.value.range);
+  }
+  if (onFailure !== undefined) {
+    ranges.set("/continuation/on_failure", onFailure.value.range);
+  }
+
+  return {
+    schema_version: SUPPORTED_VERIFICATION_CONTRACT_SCHEMA_VERSION,
+    ...header,
+    requirements: {
+      tests: grouped.test,
+      static_analysis: grouped.static_analysis,
+      policy_assertions: policyAssertions
+    },
+    pass_criteria: {
+      minimum_required_checks_pass_ratio:
+        minPassRatio?.value.kind === "NumberLiteral" ? minPassRatio.value.value : 1,
+      require_all_policy_assertions: true,
+      max_warning_count: maxWarnings?.value.kind === "NumberLiteral" ? maxWarnings.value.value : 0
+    },
+    continuation: {
+      on_success: "continue",
+      on_failure: onFailure?.value.kind === "Identifier" ? onFailure.value.name : "stop",
+      require_policy_profile: true,
+      required_feedback_tensor_fields: [...VERIFICATION_REQUIRED_FEEDBACK_TENSOR_FIELDS]
+    }
+  };
+}
+
+export function lowerToVerificationContract(
+  ast: DocumentAstNode,
+  options: LowerToVerificationContractOptions = {}
+): VerificationContractLoweringResult {
+  const file = options.file ?? DEFAULT_DIAGNOSTIC_FILE;
+  const diagnostics: Diagnostic[] = [];
+  const verify = ast.verify;
+
+  if (verify === undefined) {
+    emitDiagnostic(
+      diagnostics,
+      createDiagnostic(
+        "LOWER_VERIFY_MISSING",
+        "Document has no verify section to lower into a VerificationContract",
+        createDiagnosticSpanFromRange({ start: ast.range.end, end: ast.range.end }, file)
+      )
+    );
+    return { verificationContract: null, diagnostics };
+  }
+
+  const requirements = resolveRequirements(ast, verify, diagnostics, file);
+  if (diagnostics.length > 0) {
+    return { verificationContract: null, diagnostics };
+  }
+
+  const now = options.now ?? (() => new Date());
+  const ranges: InstancePathRanges = new Map();
+  const candidate = buildVerificationContract(
+    verify,
+    requirements,
+    {
+      contract_id: resolveOptionalId(options.contractId, () => createContractId(ast, verify)),
+      generated_at: resolveCreatedAt(now)
+    },
+    ranges
+  );
+
+  try {
+    return { verificationContract: loadVerificationContract(candidate), diagnostics };
+  } catch (error) {
+    if (!(error instanceof ContractValidationError)) {
+      throw error;
+    }
+
+    emitContractValidationDiagnostics({
+      diagnostics,
+      error,
+      code: "LOWER_VERIFY_SCHEMA_VIOLATION",
+      ranges,
+      fallback: headerRange(verify),
+      file
+    });
+    return { verificationContract: null, diagnostics };
+  }
+}
@@ -0,0 +1,67 @@
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import test from "node:test";
+import { fileURLToPath } from "node:url";
+
+import {
+  LS_AST_SCHEMA_VERSION,
+  deserializeAst,
+  parseLsDocument,
+  parseLsModule,
+  serializeAst,
+  type DocumentAstNode
+} from "../src/index.ts";
+
+const testDirectory = path.dirname(fileURLToPath(import.meta.url));
+
+function loadSpecExample(relativePath: string): string {
+  return readFileSync(path.resolve(testDirectory, "../../docs/spec/examples", relativePath), "utf8");
+}
+
+test("serializeAst writes versioned JSON with a stable key order that deserializes back", () => {
+  const ast = parseLsDocument(loadSpecExample("valid/effects.ls")).ast as DocumentAstNode;
+  const json = serializeAst(ast);
+
+  const payload = JSON.parse(json) as { schema_version: string; ast: Record<string, unknown> };
+  assert.equal(payload.schema_version, LS_AST_SCHEMA_VERSION);
+  assert.deepEqual(Object.keys(payload.ast).slice(0, 3), ["kind", "capabilities", "checks"]);
+  assert.deepEqual(deserializeAst(json), ast);
+
+  const reordered = JSON.parse(JSON.stringify(ast, (_key, value: unknown) =>
+    typeof value === "object" && value !== null && !Array.isArray(value)
+      ? Object.fromEntries(Object.entries(value).reverse())
+      : value
+  )) as DocumentAstNode;
+  assert.equal(serializeAst(reordered), json);
+
+  const module = parseLsModule('capability read_logs "read CI build logs"\n').ast;
+  assert.notEqual(module, null);
+  if (module !== null) {
+    assert.deepEqual(deserializeAst(serializeAst(module)), module);
+  }
+});
+
+test("deserializeAst rejects other schema versions and malformed nodes", () => {
+  const ast = parseLsDocument(loadSpecExample("valid/steps.ls")).ast as DocumentAstNode;
+  const payload = JSON.parse(serializeAst(ast)) as {
+    schema_version: string;
+    ast: { steps: Array<{ uses: Array<{ kind: string }> }> };
+  };
+
+  assert.throws(
+    () => deserializeAst(JSON.stringify({ ...payload, schema_version: "9.9.9" })),
+    /Unsupported serialized AST schema_version '9.9.9'/
+  );
+  assert.throws(
+    () => deserializeAst(JSON.stringify({ ...payload, ast: { kind: "Program" } })),
+    /root must be a Document or Module node/
+  );
+  assert.throws(() => deserializeAst("null"), /must be a JSON object/);
+
+  payload.ast.steps[0].uses[0].kind = "Reference";
+  assert.throws(
+    () => deserializeAst(JSON.stringify(payload)),
+    /malformed node under StepDeclaration/
+  );
+});
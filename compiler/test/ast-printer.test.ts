@@ -0,0 +1,91 @@
+import assert from "node:assert/strict";
+import { readdirSync, readFileSync } from "node:fs";
+import path from "node:path";
+import test from "node:test";
+import { fileURLToPath } from "node:url";
+
+import {
+  astToSource,
+  parseLsDocument,
+  parseLsModule,
+  transformAst,
+  type DocumentAstNode
+} from "../src/index.ts";
+
+const testDirectory = path.dirname(fileURLToPath(import.meta.url));
+const validExamplesDirectory = path.resolve(testDirectory, "../../docs/spec/examples/valid");
+
+function loadValidExample(name: string): string {
+  return readFileSync(path.join(validExamplesDirectory, name), "utf8");
+}
+
+function parseOrFail(source: string): DocumentAstNode {
+  const result = parseLsDocument(source);
+  assert.deepEqual(result.diagnostics, []);
+  assert.notEqual(result.ast, null);
+  return result.ast as DocumentAstNode;
+}
+
+function withoutRanges(value: unknown): unknown {
+  return JSON.parse(
+    JSON.stringify(value, (key, entry: unknown) => (key === "range" ? undefined : entry))
+  );
+}
+
+test("astToSource reprints canonical examples verbatim and every example equivalently", () => {
+  const examples = readdirSync(validExamplesDirectory).filter((name) => name.endsWith(".ls"));
+  // These keep `#` comments, a doc comment on a policy clause, or an explicit `required` flag.
+  const lossy = new Set(["doc-comments.ls", "effects.ls", "verify-section.ls"]);
+  assert.ok(examples.length > lossy.size);
+
+  for (const example of examples) {
+    const source = loadValidExample(example);
+    const ast = parseOrFail(source);
+    const printed = astToSource(ast);
+
+    if (!lossy.has(example)) {
+      assert.equal(printed, source, example);
+    }
+    assert.deepEqual(withoutRanges(parseOrFail(printed)), withoutRanges(ast), example);
+  }
+
+  const moduleSource = 'capability read_logs "read"\ncheck cites_log_lines "cites"\n';
+  const module = parseLsModule(moduleSource.replace(" ", "   ").replace("\n", "\n\n\n"));
+  assert.notEqual(module.ast, null);
+  if (module.ast !== null) {
+    assert.equal(astToSource(module.ast), moduleSource);
+  }
+});
+
+test("astToSource prints transformed ASTs without string munging", () => {
+  const ast = parseOrFail(loadValidExample("policy-section.ls"));
+  const rewritten = transformAst(ast, {
+    Document: (node) => ({
+      ...node,
+      checks: [
+        ...node.checks,
+        { ...node.checks[0], name: "no_secret_leak", description: "no \"secrets\" leak" }
+      ]
+    }),
+    PolicyDeclaration: (node) => ({ ...node, deny: [], docs: "Reviewed quarterly." })
+  });
+
+  assert.equal(
+    astToSource(rewritten),
+    [
+      'goal "triage failing builds with bounded autonomy"',
+      'capability read_logs  "read CI build logs"',
+      'capability open_issue "file an issue for the failing build"',
+      'check cites_log_lines "response cites failing log lines"',
+      'check no_secret_leak  "no \\"secrets\\" leak"',
+      "",
+      "## Reviewed quarterly.",
+      "policy production",
+      "allow read_logs open_issue",
+      "escalate open_issue to team_lead approvals 1 reason_required",
+      "max_autonomous_steps 25",
+      "max_runtime_seconds 300",
+      ""
+    ].join("\n")
+  );
+});
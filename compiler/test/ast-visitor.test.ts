@@ -0,0 +1,109 @@
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import test from "node:test";
+import { fileURLToPath } from "node:url";
+
+import {
+  parseLsDocument,
+  transformAst,
+  visitAst,
+  type AstNode,
+  type DocumentAstNode
+} from "../src/index.ts";
+
+const testDirectory = path.dirname(fileURLToPath(import.meta.url));
+
+function loadSpecExample(relativePath: string): string {
+  return readFileSync(path.resolve(testDirectory, "../../docs/spec/examples", relativePath), "utf8");
+}
+
+function parseOrFail(source: string): DocumentAstNode {
+  const result = parseLsDocument(source);
+  assert.deepEqual(result.diagnostics, []);
+  assert.notEqual(result.ast, null);
+  return result.ast as DocumentAstNode;
+}
+
+test("visitAst walks every node kind depth-first with parents and can skip subtrees", () => {
+  const ast = parseOrFail(loadSpecExample("valid/outcome-conditions.ls"));
+  const kinds: string[] = [];
+  const identifiers: string[] = [];
+  const conditionParents = new Set<AstNode | null>();
+  visitAst(ast, {
+    Document: (node) => {
+      kinds.push(node.kind);
+    },
+    OutcomeDeclaration: (node) => {
+      kinds.push(`${node.kind}:${node.outcome}`);
+    },
+    CheckCondition: (_node, parent) => {
+      conditionParents.add(parent);
+    },
+    Identifier: (node) => {
+      identifiers.push(node.name);
+    },
+    VerifyDeclaration: () => false
+  });
+
+  assert.deepEqual(kinds, [
+    "Document",
+    "OutcomeDeclaration:succeed",
+    "OutcomeDeclaration:fail",
+    "OutcomeDeclaration:stop",
+    "OutcomeDeclaration:stop"
+  ]);
+  assert.deepEqual([...conditionParents].map((parent) => parent?.kind), [
+    "OutcomeDeclaration",
+    "OutcomeDeclaration"
+  ]);
+  assert.deepEqual(identifiers, [
+    "cites_log_lines",
+    "issue_links_build",
+    "no_secret_leak",
+    "max_autonomous_steps",
+    "max_runtime_seconds",
+    "production",
+    "read_logs",
+    "open_issue",
+    "open_issue",
+    "team_lead"
+  ]);
+});
+
+test("transformAst rewrites bottom-up, removes nodes, and leaves the input untouched", () => {
+  const source = loadSpecExample("valid/steps.ls");
+  const ast = parseOrFail(source);
+  const snapshot = structuredClone(ast);
+
+  const renamed = transformAst(ast, {
+    CapabilityDeclaration: (node) =>
+      node.name === "read_logs" ? { ...node, name: "fetch_logs" } : node,
+    Identifier: (node) => (node.name === "read_logs" ? { ...node, name: "fetch_logs" } : node),
+    StepDeclaration: (node) => (node.name === "notify" ? null : node)
+  });
+
+  assert.deepEqual(ast, snapshot);
+  assert.deepEqual(
+    renamed.capabilities.map((capability) => capability.name),
+    ["fetch_logs", "open_issue"]
+  );
+  assert.deepEqual(
+    renamed.steps?.map((step) => [step.name, step.uses.map((use) => use.name)]),
+    [
+      ["collect_logs", ["fetch_logs"]],
+      ["file_issue", ["open_issue"]]
+    ]
+  );
+  assert.equal(renamed.goal, ast.goal);
+  assert.equal(renamed.checks, ast.checks);
+  assert.equal(renamed.capabilities[1], ast.capabilities[1]);
+  assert.equal(transformAst(ast, {}), ast);
+
+  const withoutSteps = transformAst(ast, { StepDeclaration: () => null });
+  assert.equal("steps" in withoutSteps, false);
+  assert.throws(
+    () => transformAst(ast, { GoalDeclaration: () => null }),
+    /Cannot remove required field 'goal' of Document/
+  );
+});
@@ -0,0 +1,147 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  DEFAULT_APPLY_REQUIRED_CAPABILITY,
+  DEFAULT_ROLLBACK_REQUIRED_CAPABILITY,
+  loadPolicyProfileContract
+} from "../../runtime/src/index.ts";
+import {
+  DEFAULT_CAPABILITY_CATALOG,
+  lowerToPolicyProfile,
+  parseLsDocument,
+  validateCapabilityNamespaces,
+  type DocumentAstNode
+} from "../src/index.ts";
+
+function parseOrFail(source: string): DocumentAstNode {
+  const result = parseLsDocument(source);
+  if (result.ast === null) {
+    assert.fail(`Expected source to parse: ${JSON.stringify(result.diagnostics)}`);
+  }
+
+  return result.ast;
+}
+
+const NAMESPACED_PROGRAM =
+  'goal "repair failing build"\n' +
+  'capability read_logs "read logs"\n' +
+  'capability workspace.apply_patch "apply the repair patch"\n' +
+  'capability workspace.format "format touched files"\n' +
+  'check patch_applies "patch applies cleanly"\n';
+
+test("parseLsDocument records capability namespaces and wildcard references", () => {
+  const ast = parseOrFail(NAMESPACED_PROGRAM + "policy development\nallow read_logs workspace.*");
+
+  assert.deepEqual(
+    ast.capabilities.map((capability) => [capability.name, capability.namespace]),
+    [
+      ["read_logs", []],
+      ["workspace.apply_patch", ["workspace"]],
+      ["workspace.format", ["workspace"]]
+    ]
+  );
+  assert.deepEqual(
+    ast.policy?.allow.map((reference) => [reference.name, reference.namespace, reference.wildcard]),
+    [
+      ["read_logs", [], false],
+      ["workspace.*", ["workspace"], true]
+    ]
+  );
+});
+
+test("parseLsDocument rejects wildcards outside allow and deny clauses", () => {
+  const result = parseLsDocument(
+    'goal "g"\n' +
+      'capability workspace.* "everything"\n' +
+      'capability read_logs "read logs"\n' +
+      'check cites "cites"\n' +
+      "policy development\n" +
+      "allow read_logs\n" +
+      "escalate workspace.* to admin approvals 1"
+  );
+
+  assert.equal(result.ast, null);
+  assert.deepEqual(
+    result.diagnostics.map((diagnostic) => [diagnostic.span.start.line, diagnostic.message]),
+    [
+      [2, "Capability declarations cannot use wildcard names"],
+      [7, "Expected capability identifier after 'escalate'"]
+    ]
+  );
+});
+
+test("DEFAULT_CAPABILITY_CATALOG tracks the runtime's required workspace capabilities", () => {
+  assert.deepEqual(DEFAULT_CAPABILITY_CATALOG.namespaces.workspace, [
+    DEFAULT_APPLY_REQUIRED_CAPABILITY,
+    DEFAULT_ROLLBACK_REQUIRED_CAPABILITY
+  ]);
+});
+
+test("validateCapabilityNamespaces reports namespaces missing from the catalog", () => {
+  const ast = parseOrFail(
+    'goal "g"\n' +
+      'capability vcs.push "push branch"\n' +
+      'capability workspace.apply_patch "apply patch"\n' +
+      'check cites "cites"\n' +
+      "policy development\n" +
+      "allow workspace.apply_patch\n" +
+      "deny cloud.*"
+  );
+
+  const diagnostics = validateCapabilityNamespaces(ast, { file: "program.ls" });
+  assert.deepEqual(
+    diagnostics.map((diagnostic) => [
+      diagnostic.code,
+      diagnostic.span.file,
+      diagnostic.span.start.line,
+      diagnostic.span.start.column
+    ]),
+    [
+      ["CATALOG_UNKNOWN_NAMESPACE", "program.ls", 2, 1],
+      ["CATALOG_UNKNOWN_NAMESPACE", "program.ls", 7, 6]
+    ]
+  );
+  assert.equal(
+    diagnostics[0]?.message,
+    "Capability 'vcs.push' uses unknown capability namespace 'vcs' (known: 'workspace')"
+  );
+
+  const extended = validateCapabilityNamespaces(ast, {
+    catalog: { namespaces: { ...DEFAULT_CAPABILITY_CATALOG.namespaces, vcs: [], cloud: [] } }
+  });
+  assert.deepEqual(extended, []);
+});
+
+test("lowerToPolicyProfile expands namespace wildcards from declarations and the catalog", () => {
+  const ast = parseOrFail(
+    NAMESPACED_PROGRAM +
+      "policy development\n" +
+      "allow read_logs workspace.* workspace.format\n" +
+      "deny workspace.rollback_patch\n" +
+      "max_autonomous_steps 10\n" +
+      "max_runtime_seconds 120"
+  );
+  const result = lowerToPolicyProfile(ast);
+
+  assert.deepEqual(result.diagnostics, []);
+  const profile = loadPolicyProfileContract(result.policyProfile);
+  assert.deepEqual(profile.capability_policy.allow, [
+    "read_logs",
+    "workspace.apply_patch",
+    "workspace.format",
+    "workspace.rollback_patch"
+  ]);
+  assert.deepEqual(profile.capability_policy.deny, ["workspace.rollback_patch"]);
+});
+
+test("lowerToPolicyProfile rejects capability references in unknown namespaces", () => {
+  const ast = parseOrFail(NAMESPACED_PROGRAM + "policy development\nallow secrets.*");
+  const result = lowerToPolicyProfile(ast, { file: "program.ls" });
+
+  assert.equal(result.policyProfile, null);
+  assert.deepEqual(
+    result.diagnostics.map((diagnostic) => [diagnostic.code, diagnostic.span.start.line]),
+    [["CATALOG_UNKNOWN_NAMESPACE", 7]]
+  );
+});
@@ -0,0 +1,319 @@
+import assert from "node:assert/strict";
+import {
+  existsSync,
+  mkdtempSync,
+  readFileSync,
+  readdirSync,
+  rmSync,
+  writeFileSync
+} from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import test from "node:test";
+import { fileURLToPath } from "node:url";
+
+import { runSemanticIr } from "../../runtime/src/index.ts";
+import { LSC_EXIT_FAILURE, LSC_EXIT_OK, LSC_EXIT_USAGE, runLsc } from "../src/index.ts";
+
+const testDirectory = path.dirname(fileURLToPath(import.meta.url));
+const PROGRAM = readFileSync(
+  path.resolve(testDirectory, "../../docs/spec/examples/valid/verify-section.ls"),
+  "utf8"
+);
+// Escalating only the denied push_fix leaves both declared capabilities allowed.
+const RUN_PROGRAM = PROGRAM.replace("escalate open_issue", "escalate push_fix");
+const FEEDBACK_EVIDENCE = path.resolve(
+  testDirectory,
+  "../../docs/spec/examples/feedbacktensor/valid/recoverable-parse-repair.json"
+);
+
+interface LscRun {
+  status: number;
+  stdout: string;
+  stderr: string;
+}
+
+async function withWorkspace(callback: (directory: string) => Promise<void>): Promise<void> {
+  const directory = mkdtempSync(path.join(tmpdir(), "l-semantica-lsc-"));
+  try {
+    await callback(directory);
+  } finally {
+    rmSync(directory, { recursive: true, force: true });
+  }
+}
+
+async function lsc(...argv: string[]): Promise<LscRun> {
+  let stdout = "";
+  let stderr = "";
+  const status = await runLsc(argv, {
+    stdout: (text) => {
+      stdout += text;
+    },
+    stderr: (text) => {
+      stderr += text;
+    },
+    runSemanticIr
+  });
+  return { status, stdout, stderr };
+}
+
+test("lsc check reports diagnostics with exit codes and a JSON mode", async () => {
+  await withWorkspace(async (directory) => {
+    const valid = path.join(directory, "program.ls");
+    const broken = path.join(directory, "broken.ls");
+    writeFileSync(valid, PROGRAM, "utf8");
+    writeFileSync(broken, 'goal "g"\ncapability read\ncheck ok "ok"\n', "utf8");
+
+    assert.deepEqual(await lsc("check", valid), { status: LSC_EXIT_OK, stdout: "", stderr: "" });
+
+    const failed = await lsc("check", broken);
+    assert.equal(failed.status, LSC_EXIT_FAILURE);
+    assert.match(failed.stderr, /error\[PARSE_EXPECTED_TOKEN\]/);
+    assert.match(failed.stderr, /2 \| capability read/);
+
+    const json = JSON.parse((await lsc("check", broken, "--json")).stdout) as {
+      command: string;
+      ok: boolean;
+      diagnostics: Array<{ code: string }>;
+    };
+    assert.equal(json.command, "check");
+    assert.equal(json.ok, false);
+    assert.deepEqual(
+      json.diagnostics.map((diagnostic) => diagnostic.code),
+      ["PARSE_EXPECTED_TOKEN"]
+    );
+  });
+});
+
+test("lsc check accepts every valid spec example", async () => {
+  const validDirectory = path.resolve(testDirectory, "../../docs/spec/examples/valid");
+  const examples = readdirSync(validDirectory).filter((name) => name.endsWith(".ls"));
+  assert.ok(examples.length > 0);
+
+  for (const name of examples) {
+    assert.deepEqual(
+      await lsc("check", path.join(validDirectory, name)),
+      { status: LSC_EXIT_OK, stdout: "", stderr: "" },
+      name
+    );
+  }
+});
+
+test("lsc build emits SemanticIR, PolicyProfile, and VerificationContract artifacts", async () => {
+  await withWorkspace(async (directory) => {
+    const file = path.join(directory, "program.ls");
+    const outDir = path.join(directory, "out");
+    writeFileSync(file, PROGRAM, "utf8");
+
+    const built = await lsc("build", file, "--out-dir", outDir, "--json");
+    assert.equal(built.status, LSC_EXIT_OK);
+    const result = JSON.parse(built.stdout) as {
+      ok: boolean;
+      artifacts: Record<string, { schema_version: string }>;
+      written: string[];
+    };
+    assert.equal(result.ok, true);
+    assert.deepEqual(Object.keys(result.artifacts), [
+      "semantic_ir",
+      "policy_profile",
+      "verification_contract"
+    ]);
+    assert.deepEqual(
+      result.written.map((output) => path.basename(output)),
+      [
+        "program.semantic-ir.json",
+        "program.policy-profile.json",
+        "program.verification-contract.json"
+      ]
+    );
+    assert.deepEqual(
+      JSON.parse(readFileSync(path.join(outDir, "program.semantic-ir.json"), "utf8")),
+      result.artifacts.semantic_ir
+    );
+
+    const printed = await lsc("build", file);
+    assert.equal(printed.status, LSC_EXIT_OK);
+    assert.equal(
+      JSON.parse(printed.stdout).semantic_ir.goal,
+      "triage failing builds with bounded autonomy"
+    );
+  });
+});
+
+test("lsc fmt formats files and lsc run passes trace paths to the runtime", async () => {
+  await withWorkspace(async (directory) => {
+    const file = path.join(directory, "program.ls");
+    writeFileSync(file, PROGRAM.replace("capability", "  capability"), "utf8");
+
+    assert.equal((await lsc("fmt", "--check", directory)).status, LSC_EXIT_FAILURE);
+    const fmt = JSON.parse((await lsc("fmt", directory, "--json")).stdout) as {
+      ok: boolean;
+      files: Array<{ changed: boolean }>;
+    };
+    assert.equal(fmt.ok, true);
+    assert.deepEqual(fmt.files.map((entry) => entry.changed), [true]);
+    assert.equal(readFileSync(file, "utf8"), PROGRAM);
+
+    // The policy section requires escalation for open_issue, so the run ends when it is reached.
+    const traceLedger = path.join(directory, "trace.json");
+    const run = await lsc("run", file, "--trace-ledger", traceLedger, "--json");
+    assert.equal(run.status, LSC_EXIT_FAILURE);
+    const result = JSON.parse(run.stdout) as { ok: boolean; error: { code: string } };
+    assert.equal(result.ok, false);
+    assert.equal(result.error.code, "CAPABILITY_ESCALATION_REQUIRED");
+    assert.equal(existsSync(traceLedger), true);
+  });
+});
+
+test("lsc run executes the node graph with stub handlers or a --handlers module", async () => {
+  await withWorkspace(async (directory) => {
+    const file = path.join(directory, "program.ls");
+    const handlers = path.join(directory, "handlers.mjs");
+    const broken = path.join(directory, "broken.mjs");
+    // Without a verify section the run is not gated.
+    writeFileSync(file, RUN_PROGRAM.slice(0, RUN_PROGRAM.indexOf("verify")), "utf8");
+    writeFileSync(
+      handlers,
+      "export const nodeHandlers = {\n" +
+        "  capability: async (node) => ({ [node.outputs[0]]: `${node.id} ran` })\n" +
+        "};\n",
+      "utf8"
+    );
+    writeFileSync(broken, "export const nodeHandlers = 5;\n", "utf8");
+    type RunOutput = {
+      result: { outputs: Record<string, unknown>; nodeOutcomes: Array<{ status: string }> };
+    };
+
+    const stubbed = JSON.parse((await lsc("run", file, "--json")).stdout) as RunOutput;
+    assert.equal(stubbed.result.outputs["ir.goal"], "triage failing builds with bounded autonomy");
+    assert.equal(stubbed.result.outputs["capability.read_logs"], null);
+    assert.equal(stubbed.result.outputs["check.cites_log_lines"], null);
+    assert.deepEqual(
+      stubbed.result.nodeOutcomes.map((outcome) => outcome.status),
+      stubbed.result.nodeOutcomes.map(() => "succeeded")
+    );
+
+    const handled = await lsc("run", file, "--handlers", handlers, "--json");
+    assert.equal(handled.status, LSC_EXIT_OK);
+    const output = JSON.parse(handled.stdout) as RunOutput;
+    assert.equal(output.result.outputs["capability.read_logs"], "det-capability-read_logs ran");
+
+    const rejected = await lsc("run", file, "--handlers", broken);
+    assert.equal(rejected.status, LSC_EXIT_FAILURE);
+    assert.match(rejected.stderr, /must export nodeHandlers as an object/);
+  });
+});
+
+test("lsc run stops once the run's own usage passes the program budget", async () => {
+  await withWorkspace(async (directory) => {
+    const file = path.join(directory, "program.ls");
+    const budgeted = RUN_PROGRAM.replace("\npolicy", "\nbudget max_autonomous_steps 2\n\npolicy");
+    writeFileSync(file, budgeted, "utf8");
+
+    const run = await lsc("run", file, "--json");
+    assert.equal(run.status, LSC_EXIT_FAILURE);
+    const output = JSON.parse(run.stdout) as { error: { code: string; message: string } };
+    assert.equal(output.error.code, "BUDGET_EXCEEDED");
+  });
+});
+
+test("lsc run gates the run with the compiled policy and verify sections", async () => {
+  await withWorkspace(async (directory) => {
+    const file = path.join(directory, "program.ls");
+    const handlers = path.join(directory, "handlers.mjs");
+    const leaking = path.join(directory, "leaking.mjs");
+    const notObject = path.join(directory, "evidence.json");
+    writeFileSync(file, RUN_PROGRAM, "utf8");
+    const checkHandlers = (passed: string) =>
+      `export const nodeHandlers = { check: (node) => ({ [node.outputs[0]]: ${passed} }) };\n`;
+    writeFileSync(handlers, checkHandlers("true"), "utf8");
+    writeFileSync(leaking, checkHandlers('node.id !== "det-check-no_secret_leak"'), "utf8");
+    writeFileSync(notObject, "[]\n", "utf8");
+    const run = async (...argv: string[]) => {
+      const result = await lsc("run", file, "--json", ...argv);
+      const output = JSON.parse(result.stdout) as {
+        error?: { code: string; message: string };
+        result?: { continuationDecision: { reasonCode: string } };
+      };
+      return { status: result.status, ...output };
+    };
+
+    const unproven = await run("--handlers", handlers);
+    assert.equal(unproven.status, LSC_EXIT_FAILURE);
+    assert.equal(unproven.error?.code, "VERIFICATION_REQUIRED_FEEDBACK_MISSING");
+
+    const passed = await run("--handlers", handlers, "--feedback-evidence", FEEDBACK_EVIDENCE);
+    assert.equal(passed.status, LSC_EXIT_OK);
+    assert.equal(passed.result?.continuationDecision.reasonCode, "VERIFICATION_GATE_PASSED");
+
+    const leaked = await run("--handlers", leaking, "--feedback-evidence", FEEDBACK_EVIDENCE);
+    assert.equal(leaked.status, LSC_EXIT_FAILURE);
+    assert.equal(leaked.error?.code, "VERIFICATION_REQUIRED_CHECKS_BELOW_THRESHOLD");
+
+    const stubbed = await run("--feedback-evidence", FEEDBACK_EVIDENCE);
+    assert.equal(stubbed.error?.code, "VERIFICATION_STATUS_MISSING");
+
+    const rejected = await run("--feedback-evidence", notObject);
+    assert.equal(rejected.status, LSC_EXIT_FAILURE);
+    assert.match(rejected.error?.message ?? "", /must be a JSON object/);
+  });
+});
+
+test("lsc run decides with the program's outcome conditions", async () => {
+  const source = readFileSync(
+    path.resolve(testDirectory, "../../docs/spec/examples/valid/outcome-conditions.ls"),
+    "utf8"
+  );
+  await withWorkspace(async (directory) => {
+    const file = path.join(directory, "program.ls");
+    writeFileSync(file, source.replace("escalate open_issue", "escalate push_fix"), "utf8");
+    // Runs with a handlers module whose checks pass except for the failing ones.
+    const run = async (...failing: string[]) => {
+      const handlers = path.join(directory, `handlers-${failing.join("-")}.mjs`);
+      writeFileSync(
+        handlers,
+        `const failing = ${JSON.stringify(failing.map((id) => `check.${id}`))};\n` +
+          "export const nodeHandlers = {\n" +
+          "  check: (node) => ({ [node.outputs[0]]: !failing.includes(node.outputs[0]) })\n" +
+          "};\n",
+        "utf8"
+      );
+      const argv = ["--handlers", handlers, "--feedback-evidence", FEEDBACK_EVIDENCE, "--json"];
+      const result = await lsc("run", file, ...argv);
+      const output = JSON.parse(result.stdout) as {
+        error?: { code: string };
+        result?: { continuationDecision: { reasonCode: string } };
+      };
+      return { status: result.status, code: output.error?.code, result: output.result };
+    };
+
+    const succeeded = await run();
+    assert.equal(succeeded.status, LSC_EXIT_OK);
+    assert.equal(
+      succeeded.result?.continuationDecision.reasonCode,
+      "OUTCOME_SUCCESS_CONDITION_MET"
+    );
+    assert.deepEqual(await run("no_secret_leak"), {
+      status: LSC_EXIT_FAILURE,
+      code: "OUTCOME_FAILURE_CONDITION_MET",
+      result: undefined
+    });
+    // An unmet succeed condition leaves the decision to the verify section's pass ratio.
+    assert.deepEqual(await run("issue_links_build"), {
+      status: LSC_EXIT_FAILURE,
+      code: "VERIFICATION_REQUIRED_CHECKS_BELOW_THRESHOLD",
+      result: undefined
+    });
+  });
+});
+
+test("lsc rejects unknown commands and options with a usage exit code", async () => {
+  const unknown = await lsc("compile", "program.ls");
+  assert.equal(unknown.status, LSC_EXIT_USAGE);
+  assert.match(unknown.stderr, /Unknown command 'compile'/);
+
+  assert.equal((await lsc()).status, LSC_EXIT_USAGE);
+  assert.equal((await lsc("check", "a.ls", "--bogus")).status, LSC_EXIT_USAGE);
+  assert.equal((await lsc("run", "a.ls", "--trace-ledger")).status, LSC_EXIT_USAGE);
+  assert.match((await lsc("help")).stdout, /Usage: lsc <command>/);
+});
@@ -0,0 +1,99 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  analyzeLsDocument,
+  formatDiagnostics,
+  parseLsDocument,
+  type Diagnostic
+} from "../src/index.ts";
+
+function diagnosticAt(
+  code: Diagnostic["code"],
+  line: number,
+  column: number,
+  endColumn: number,
+  file = "program.ls"
+): Diagnostic {
+  return {
+    code,
+    severity: "error",
+    message: `message for ${code}`,
+    span: {
+      file,
+      start: { line, column, offset: 0 },
+      end: { line, column: endColumn, offset: 0 }
+    }
+  };
+}
+
+test("formatDiagnostics renders a code frame with gutter and caret underline", () => {
+  const source = 'goal "g"\ncapability read_logs ""\ncheck cites_logs "cites logs"\n';
+  const parsed = parseLsDocument(source, { file: "program.ls" });
+  assert.ok(parsed.ast);
+
+  const output = formatDiagnostics(source, analyzeLsDocument(parsed.ast, { file: "program.ls" }));
+
+  assert.equal(
+    output,
+    [
+      "warning[SEMA_EMPTY_DESCRIPTION]: The capability 'read_logs' has an empty description",
+      " --> program.ls:2:1",
+      "  |",
+      '2 | capability read_logs ""',
+      "  | ^^^^^^^^^^^^^^^^^^^^^^^",
+      "",
+      "warning: 1 warning emitted"
+    ].join("\n")
+  );
+});
+
+test("formatDiagnostics groups diagnostics on one line and labels each underline", () => {
+  const source = ["goal \"g\"", ...Array.from({ length: 9 }, () => ""), "capability\tbad x"].join(
+    "\n"
+  );
+  const output = formatDiagnostics(source, [
+    diagnosticAt("PARSE_UNEXPECTED_TOKEN", 11, 16, 17),
+    diagnosticAt("PARSE_EXPECTED_TOKEN", 11, 12, 15),
+    diagnosticAt("LEX_UNEXPECTED_CHARACTER", 1, 6, 6)
+  ]);
+
+  assert.equal(
+    output,
+    [
+      "error[LEX_UNEXPECTED_CHARACTER]: message for LEX_UNEXPECTED_CHARACTER",
+      " --> program.ls:1:6",
+      "  |",
+      '1 | goal "g"',
+      "  |      ^",
+      "",
+      "error[PARSE_EXPECTED_TOKEN]: message for PARSE_EXPECTED_TOKEN",
+      "error[PARSE_UNEXPECTED_TOKEN]: message for PARSE_UNEXPECTED_TOKEN",
+      "  --> program.ls:11:12",
+      "   |",
+      "11 | capability    bad x",
+      "   |               ^^^ PARSE_EXPECTED_TOKEN",
+      "   |                   ^ PARSE_UNEXPECTED_TOKEN",
+      "",
+      "error: 3 errors emitted"
+    ].join("\n")
+  );
+});
+
+test("formatDiagnostics skips frames for other files and colors output on request", () => {
+  const source = 'goal "g"\n';
+  const diagnostics = [
+    diagnosticAt("RESOLVE_MODULE_NOT_FOUND", 1, 1, 5, "shared.ls"),
+    diagnosticAt("PARSE_EXPECTED_TOKEN", 1, 1, 5)
+  ];
+
+  const plain = formatDiagnostics(source, diagnostics, { file: "program.ls" });
+  assert.match(plain, /--> shared\.ls:1:1\n\nerror: 2 errors emitted$/);
+  assert.match(plain, /--> program\.ls:1:1\n  \|\n1 \| goal "g"\n  \| \^\^\^\^/);
+
+  const colored = formatDiagnostics(source, diagnostics, { file: "program.ls", color: true });
+  assert.match(colored, /\u001b\[1;31merror\[PARSE_EXPECTED_TOKEN\]\u001b\[0m/);
+  assert.equal(colored.replace(/\u001b\[[0-9;]*m/g, ""), plain);
+
+  assert.equal(formatDiagnostics(source, []), "");
+});
@@ -0,0 +1,124 @@
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import test from "node:test";
+import { fileURLToPath } from "node:url";
+
+import { loadPolicyProfileContract } from "../../contracts/src/index.ts";
+import {
+  checkStepEffects,
+  lowerToPolicyProfile,
+  parseLsDocument,
+  type DocumentAstNode
+} from "../src/index.ts";
+
+const testDirectory = path.dirname(fileURLToPath(import.meta.url));
+const EFFECTS_PROGRAM = readFileSync(
+  path.resolve(testDirectory, "../../docs/spec/examples/valid/effects.ls"),
+  "utf8"
+);
+
+function parseOrFail(source: string): DocumentAstNode {
+  const result = parseLsDocument(source);
+  if (result.ast === null) {
+    assert.fail(`Expected source to parse: ${JSON.stringify(result.diagnostics)}`);
+  }
+
+  return result.ast;
+}
+
+test("lowerToPolicyProfile lowers the policy effects clause to allowed_effects", () => {
+  const { policyProfile, diagnostics } = lowerToPolicyProfile(parseOrFail(EFFECTS_PROGRAM));
+
+  assert.deepEqual(diagnostics, []);
+  assert.deepEqual(policyProfile?.capability_policy.allowed_effects, ["fs.read", "net"]);
+  assert.deepEqual(loadPolicyProfileContract(policyProfile), policyProfile);
+
+  const repeated = lowerToPolicyProfile(
+    parseOrFail(EFFECTS_PROGRAM.replace("effects fs.read net\n", "effects net\neffects net exec\n"))
+  );
+  assert.deepEqual(repeated.policyProfile?.capability_policy.allowed_effects, ["net", "exec"]);
+  assert.notEqual(repeated.policyProfile?.metadata.profile_id, policyProfile?.metadata.profile_id);
+
+  const unrestricted = lowerToPolicyProfile(
+    parseOrFail(EFFECTS_PROGRAM.replace("effects fs.read net\n", ""))
+  );
+  assert.equal("allowed_effects" in (unrestricted.policyProfile?.capability_policy ?? {}), false);
+});
+
+test("checkStepEffects flags steps whose capabilities have effects the policy disallows", () => {
+  const ast = parseOrFail(EFFECTS_PROGRAM.replace("effects fs.read net\n", "effects fs.read\n"));
+  const { policyProfile } = lowerToPolicyProfile(ast);
+  assert.ok(policyProfile);
+
+  const diagnostics = checkStepEffects(ast, policyProfile, { file: "effects.ls" });
+  assert.deepEqual(
+    diagnostics.map((diagnostic) => [
+      diagnostic.code,
+      diagnostic.severity,
+      diagnostic.message,
+      diagnostic.span.file,
+      diagnostic.span.start.line
+    ]),
+    [
+      [
+        "EFFECT_NOT_ALLOWED",
+        "error",
+        "Step 'file_issue' uses capability 'open_issue' with effect 'net' not allowed by the " +
+          "policy (allowed: 'fs.read')",
+        "effects.ls",
+        5
+      ]
+    ]
+  );
+});
+
+test("checkStepEffects checks every declared capability in programs without steps", () => {
+  const source = EFFECTS_PROGRAM.replace("effects fs.read net\n", "effects fs.read\n")
+    .split("\n")
+    .filter((line) => !line.startsWith("step "))
+    .join("\n");
+  const ast = parseOrFail(source);
+  const { policyProfile } = lowerToPolicyProfile(ast);
+  assert.ok(policyProfile);
+
+  assert.deepEqual(
+    checkStepEffects(ast, policyProfile, { file: "effects.ls" }).map((diagnostic) => [
+      diagnostic.code,
+      diagnostic.message,
+      diagnostic.span.start.line
+    ]),
+    [
+      [
+        "EFFECT_NOT_ALLOWED",
+        "Capability 'open_issue' has effect 'net' not allowed by the policy (allowed: 'fs.read')",
+        3
+      ]
+    ]
+  );
+});
+
+test("checkStepEffects leaves effects unrestricted without an allowed_effects list", () => {
+  const permitted = parseOrFail(EFFECTS_PROGRAM);
+  const permittedProfile = lowerToPolicyProfile(permitted).policyProfile;
+  assert.ok(permittedProfile);
+  assert.deepEqual(checkStepEffects(permitted, permittedProfile), []);
+
+  const unrestricted = parseOrFail(EFFECTS_PROGRAM.replace("effects fs.read net\n", ""));
+  const unrestrictedProfile = lowerToPolicyProfile(unrestricted).policyProfile;
+  assert.ok(unrestrictedProfile);
+  assert.deepEqual(checkStepEffects(unrestricted, unrestrictedProfile), []);
+
+  const execOnly = parseOrFail(EFFECTS_PROGRAM.replace("effects fs.read net\n", "effects exec\n"));
+  const execOnlyProfile = lowerToPolicyProfile(execOnly).policyProfile;
+  assert.ok(execOnlyProfile);
+  assert.deepEqual(
+    checkStepEffects(execOnly, execOnlyProfile).map(
+      (diagnostic) => diagnostic.message.split(" with ")[1]
+    ),
+    [
+      "effect 'fs.read' not allowed by the policy (allowed: 'exec')",
+      "effect 'net' not allowed by the policy (allowed: 'exec')"
+    ]
+  );
+});
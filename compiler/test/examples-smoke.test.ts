@@ -2,45 +2,51 @@ import assert from "node:assert/strict";
 import { readFileSync } from "node:fs";
 import test from "node:test";
 
-import { runSemanticIr } from "../../runtime/src/index.ts";
-import { parseLsDocument } from "../src/index.ts";
+import { runSemanticIr, type SemanticIrNodeHandlers } from "../../runtime/src/index.ts";
+import { analyzeLsDocument, lowerToSemanticIr, parseLsDocument } from "../src/index.ts";
 
-interface RuntimeInputArtifact {
-  version: string;
-  goal: string;
-}
+const EXAMPLE_FILE = "examples/first-executable.ls";
 
 function readText(relativePathFromTestFile: string): string {
   return readFileSync(new URL(relativePathFromTestFile, import.meta.url), "utf8");
 }
 
-function readRuntimeInputArtifact(relativePathFromTestFile: string): RuntimeInputArtifact {
-  return JSON.parse(readText(relativePathFromTestFile)) as RuntimeInputArtifact;
-}
-
-test("example smoke flow parses .ls and executes runtime against expected artifact", () => {
+test("example smoke flow compiles .ls and executes the lowered SemanticIR contract", async () => {
   const source = readText("../../examples/first-executable.ls");
-  const expectedRuntimeInput = readRuntimeInputArtifact(
-    "../../examples/first-executable.runtime-input.json"
-  );
+  const expectedSemanticIr = JSON.parse(
+    readText("../../examples/first-executable.semantic-ir.json")
+  ) as unknown;
 
-  const parseResult = parseLsDocument(source);
+  const parseResult = parseLsDocument(source, { file: EXAMPLE_FILE });
   assert.equal(parseResult.diagnostics.length, 0);
-  assert.notEqual(parseResult.ast, null);
-
   if (parseResult.ast === null) {
     assert.fail("Expected example AST to be present");
   }
-
-  const runtimeInput: RuntimeInputArtifact = {
-    version: "0.1.0",
-    goal: parseResult.ast.goal.value
+  assert.deepEqual(analyzeLsDocument(parseResult.ast, { file: EXAMPLE_FILE }), []);
+
+  const semanticIr = lowerToSemanticIr(parseResult.ast, {
+    file: EXAMPLE_FILE,
+    now: () => new Date("2026-02-22T12:00:00Z")
+  });
+  assert.deepEqual(semanticIr, expectedSemanticIr);
+
+  const nodeHandlers: SemanticIrNodeHandlers = {
+    goal: (_node, _inputs, context) => ({ "ir.goal": context.goal }),
+    capability: (node) => ({ [node.outputs[0]]: `${node.id} completed` }),
+    check: (node, inputs) => ({ [node.outputs[0]]: Object.values(inputs).every(Boolean) })
   };
-  assert.deepEqual(runtimeInput, expectedRuntimeInput);
-
-  const runtimeResult = runSemanticIr(runtimeInput);
+  const runtimeResult = await runSemanticIr(semanticIr, { nodeHandlers });
   assert.equal(runtimeResult.ok, true);
-  assert.equal(runtimeResult.traceId, `trace-${expectedRuntimeInput.version}`);
+  assert.equal(runtimeResult.traceId, "trace-0.1.0");
   assert.equal(runtimeResult.continuationDecision.decision, "continue");
   assert.equal(runtimeResult.continuationDecision.reasonCode, "CONTINUATION_GATE_NOT_CONFIGURED");
+  assert.deepEqual(
+    runtimeResult.nodeOutcomes.map((outcome) => [outcome.nodeId, outcome.status]),
+    [
+      ["det-goal", "succeeded"],
+      ["det-capability-retrieve_docs", "succeeded"],
+      ["det-check-include_references", "succeeded"]
+    ]
+  );
+  assert.equal(runtimeResult.outputs["check.include_references"], true);
 });
@@ -0,0 +1,100 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import { applyFixes, lex, parseLsDocument, type Diagnostic } from "../src/index.ts";
+
+function fixOnce(source: string): { source: string; diagnostics: Diagnostic[] } {
+  const { diagnostics } = parseLsDocument(source, { file: "program.ls" });
+  return { source: applyFixes(source, diagnostics).source, diagnostics };
+}
+
+test("lexer offers a closing quote fix for unterminated strings with content", () => {
+  const source = 'goal "Ship release  \ncapability read_logs "read logs"\ncheck cites "cites logs"\n';
+  const [diagnostic] = lex(source, { file: "program.ls" }).diagnostics;
+
+  assert.equal(diagnostic?.code, "LEX_UNTERMINATED_STRING");
+  assert.deepEqual(diagnostic?.fixes, [
+    {
+      title: "Insert closing quote",
+      span: {
+        file: "program.ls",
+        start: { offset: 18, line: 1, column: 19 },
+        end: { offset: 18, line: 1, column: 19 }
+      },
+      replacement: '"'
+    }
+  ]);
+
+  const fixed = fixOnce(source);
+  assert.equal(fixed.source.split("\n")[0], 'goal "Ship release"  ');
+  assert.deepEqual(parseLsDocument(fixed.source).diagnostics, []);
+
+  assert.equal(lex('goal "').diagnostics[0]?.fixes, undefined);
+  assert.equal(lex('goal "cut off\\').diagnostics[0]?.fixes, undefined);
+});
+
+test("parser offers to quote an unquoted goal", () => {
+  const source = 'goal Ship the "v2" release # why\ncapability deploy "deploy"\ncheck ok "deploy ok"\n';
+  const fixed = fixOnce(source);
+
+  assert.equal(fixed.diagnostics[0]?.fixes?.[0]?.title, "Quote the goal text");
+  assert.equal(fixed.source.split("\n")[0], 'goal "Ship the \\"v2\\" release" # why');
+  assert.equal(parseLsDocument(fixed.source).ast?.goal.value, 'Ship the "v2" release');
+
+  const bare = parseLsDocument('goal\ncapability deploy "deploy"\ncheck ok "deploy ok"\n');
+  assert.equal(bare.diagnostics[0]?.fixes, undefined);
+});
+
+test("parser offers to move a capability declared after checks, with its comments", () => {
+  const source = [
+    'goal "g"',
+    'capability read "read"',
+    "## Check doc.",
+    'check cites "cites read"',
+    "",
+    "# Needed by the second check.",
+    'capability write "write" # trailing',
+    'check saves "saves write"',
+    'capability delete "delete"'
+  ].join("\n");
+
+  const first = fixOnce(source);
+  assert.deepEqual(
+    first.diagnostics.map((diagnostic) => diagnostic.fixes?.[0]?.title),
+    [
+      "Move the capability declaration before the first check",
+      "Move the capability declaration before the first check"
+    ]
+  );
+  const second = fixOnce(first.source);
+  assert.equal(
+    second.source,
+    [
+      'goal "g"',
+      'capability read "read"',
+      "# Needed by the second check.",
+      'capability write "write" # trailing',
+      'capability delete "delete"',
+      "## Check doc.",
+      'check cites "cites read"',
+      "",
+      'check saves "saves write"',
+      ""
+    ].join("\n")
+  );
+  assert.deepEqual(parseLsDocument(second.source).diagnostics, []);
+});
+
+test("applyFixes skips overlapping fixes and fixes for other files", () => {
+  const source = 'goal "a\n';
+  const [diagnostic] = lex(source, { file: "program.ls" }).diagnostics;
+  assert.ok(diagnostic);
+
+  const result = applyFixes(source, [diagnostic, diagnostic]);
+  assert.equal(result.source, 'goal "a"\n');
+  assert.equal(result.applied.length, 1);
+  assert.equal(result.skipped.length, 1);
+
+  assert.equal(applyFixes(source, [diagnostic], { file: "other.ls" }).source, source);
+  assert.equal(applyFixes(source, []).applied.length, 0);
+});
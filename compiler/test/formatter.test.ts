@@ -0,0 +1,149 @@
+import assert from "node:assert/strict";
+import { spawnSync } from "node:child_process";
+import { mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import test from "node:test";
+import { fileURLToPath } from "node:url";
+
+import { formatLsDocument } from "../src/index.ts";
+
+const testDirectory = path.dirname(fileURLToPath(import.meta.url));
+const validExamplesDirectory = path.resolve(testDirectory, "../../docs/spec/examples/valid");
+const formatScript = path.resolve(testDirectory, "../scripts/format-ls.mjs");
+
+function formatOrFail(source: string): string {
+  const result = formatLsDocument(source);
+  if (result.formatted === null) {
+    assert.fail(`Expected source to format: ${JSON.stringify(result.diagnostics)}`);
+  }
+
+  return result.formatted;
+}
+
+test("formatLsDocument normalizes indentation, spacing, blank lines, and alignment", () => {
+  const source =
+    '\n\n  goal   "triage builds"\r\n' +
+    'capability read_logs "read logs"\n\n\n' +
+    '    capability open_issue\t"open an issue"   \n' +
+    'check cites_logs "cites logs"\n' +
+    "policy production\n" +
+    "  allow   read_logs open_issue\n" +
+    "  max_autonomous_steps 25\n" +
+    "\n\n" +
+    "verify\n" +
+    "   test cites_logs optional\n\n";
+
+  assert.equal(
+    formatOrFail(source),
+    'goal "triage builds"\n' +
+      'capability read_logs  "read logs"\n' +
+      'capability open_issue "open an issue"\n' +
+      'check cites_logs "cites logs"\n' +
+      "\n" +
+      "policy production\n" +
+      "allow read_logs open_issue\n" +
+      "max_autonomous_steps 25\n" +
+      "\n" +
+      "verify\n" +
+      "test cites_logs optional\n"
+  );
+});
+
+test("formatLsDocument re-emits string literals with canonical escapes", () => {
+  const formatted = formatOrFail(
+    'goal "quote \\"this\\"\\ttab"\ncapability read "line\\nbreak \\\\ slash"\ncheck ok "ok"'
+  );
+
+  assert.equal(
+    formatted,
+    'goal "quote \\"this\\"\\ttab"\n' +
+      'capability read "line\\nbreak \\\\ slash"\n' +
+      'check ok "ok"\n'
+  );
+});
+
+test("formatLsDocument is idempotent and leaves the valid spec examples unchanged", () => {
+  const files = readdirSync(validExamplesDirectory, { recursive: true, encoding: "utf8" })
+    .filter((file) => file.endsWith(".ls"))
+    .map((file) => path.join(validExamplesDirectory, file));
+  assert.ok(files.length > 0);
+
+  for (const file of files) {
+    const source = readFileSync(file, "utf8");
+    const result = formatLsDocument(source, { file });
+    assert.deepEqual(result.diagnostics, [], file);
+    assert.equal(result.changed, false, file);
+    assert.equal(formatOrFail(formatOrFail(`  ${source}\n\n`)), source, file);
+  }
+});
+
+test("formatLsDocument formats imported modules and refuses invalid sources", () => {
+  const module = formatLsDocument('import "./caps.ls"\ncapability a "a"\ncapability bb "b"');
+  assert.equal(module.formatted, 'import "./caps.ls"\n\ncapability a  "a"\ncapability bb "b"\n');
+  assert.equal(module.changed, true);
+
+  const invalid = formatLsDocument('goal "g"\ncapability read\n', { file: "broken.ls" });
+  assert.equal(invalid.formatted, null);
+  assert.equal(invalid.diagnostics[0]?.span.file, "broken.ls");
+});
+
+test("format-ls --check reports unformatted files without rewriting them", () => {
+  const directory = mkdtempSync(path.join(tmpdir(), "l-semantica-format-"));
+  const run = (args: string[]) =>
+    spawnSync(process.execPath, ["--experimental-strip-types", formatScript, ...args], {
+      encoding: "utf8"
+    });
+
+  try {
+    const file = path.join(directory, "program.ls");
+    const source = 'goal "g"\n  capability read "read"\ncheck ok "ok"\n';
+    writeFileSync(file, source, "utf8");
+
+    const checked = run(["--check", directory]);
+    assert.equal(checked.status, 1);
+    assert.match(checked.stderr, /program\.ls is not formatted/);
+    assert.equal(readFileSync(file, "utf8"), source);
+
+    assert.equal(run([file]).status, 0);
+    assert.equal(run(["--check", file]).status, 0);
+    assert.equal(readFileSync(file, "utf8"), formatOrFail(source));
+  } finally {
+    rmSync(directory, { recursive: true, force: true });
+  }
+});
+
+test("formatLsDocument preserves own-line, trailing, and end-of-file comments", () => {
+  const source =
+    "   # header\n" +
+    'goal "g"   # why this goal\n' +
+    "\n" +
+    "  ## docs for read\n" +
+    'capability read "read"\n' +
+    'capability write_all "write" #   keep\n' +
+    'check ok "ok"\n' +
+    "policy dev\n" +
+    "   # allow list\n" +
+    "allow read\n" +
+    "# trailing block   \n" +
+    "# end";
+
+  const formatted = formatOrFail(source);
+  assert.equal(
+    formatted,
+    "# header\n" +
+      'goal "g" # why this goal\n' +
+      "## docs for read\n" +
+      'capability read      "read"\n' +
+      'capability write_all "write" #   keep\n' +
+      'check ok "ok"\n' +
+      "\n" +
+      "policy dev\n" +
+      "# allow list\n" +
+      "allow read\n" +
+      "\n" +
+      "# trailing block\n" +
+      "# end\n"
+  );
+  assert.equal(formatOrFail(formatted), formatted);
+});
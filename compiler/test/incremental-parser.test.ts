@@ -0,0 +1,130 @@
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import test from "node:test";
+import { fileURLToPath } from "node:url";
+
+import {
+  lex,
+  parseLsDocument,
+  parseLsDocumentIncremental,
+  reparseLsDocument,
+  type IncrementalParseResult,
+  type LsTextEdit
+} from "../src/index.ts";
+
+const testDirectory = path.dirname(fileURLToPath(import.meta.url));
+const FILE = "program.ls";
+
+function loadSpecExample(relativePath: string): string {
+  return readFileSync(path.resolve(testDirectory, "../../docs/spec/examples", relativePath), "utf8");
+}
+
+function assertMatchesFullReparse(result: IncrementalParseResult): void {
+  const full = parseLsDocument(result.source, { file: FILE });
+  assert.deepEqual(result.ast, full.ast);
+  assert.deepEqual(result.diagnostics, full.diagnostics);
+
+  const lexed = lex(result.source, { file: FILE });
+  assert.deepEqual(result.tokens, lexed.diagnostics.length > 0 ? null : lexed.tokens);
+}
+
+function reparse(source: string, edits: LsTextEdit[]): IncrementalParseResult {
+  return reparseLsDocument(parseLsDocumentIncremental(source, { file: FILE }), edits);
+}
+
+function lineStarts(source: string): number[] {
+  return [0, ...[...source.matchAll(/\n/g)].map((match) => (match.index ?? 0) + 1)];
+}
+
+test("reparseLsDocument matches a full reparse for line-level edits across examples", () => {
+  const examples = ["outcome-conditions.ls", "doc-comments.ls", "infer-steps.ls", "effects.ls"];
+  for (const example of examples) {
+    const source = loadSpecExample(`valid/${example}`);
+    const starts = lineStarts(source);
+    starts.forEach((start, index) => {
+      const end = starts[index + 1] ?? source.length;
+      for (const edit of [
+        { start, end: start, replacement: "# note\n" },
+        { start, end: start, replacement: "## documented\n" },
+        { start, end, replacement: "" },
+        { start: end, end, replacement: "\n" },
+        { start: Math.min(start + 1, end), end: Math.min(start + 1, end), replacement: "x" },
+        { start: Math.max(start, end - 3), end, replacement: "\"\n" }
+      ]) {
+        assertMatchesFullReparse(reparse(source, [edit]));
+      }
+    });
+  }
+});
+
+test("reparseLsDocument applies edit batches in order and recovers from broken states", () => {
+  const source = loadSpecExample("valid/outcome-conditions.ls");
+  const goalEnd = source.indexOf("\n");
+
+  let result = parseLsDocumentIncremental(source, { file: FILE });
+  result = reparseLsDocument(result, [
+    { start: goalEnd, end: goalEnd, replacement: "\ncapability notify \"notify the team\"" },
+    { start: 0, end: 0, replacement: "# triage program\n" }
+  ]);
+  assert.equal(result.ast?.capabilities.length, 3);
+  assertMatchesFullReparse(result);
+
+  const quote = result.source.indexOf("\"notify");
+  result = reparseLsDocument(result, [{ start: quote, end: quote + 1, replacement: "" }]);
+  assert.equal(result.ast, null);
+  assert.equal(result.tokens, null);
+  assertMatchesFullReparse(result);
+
+  result = reparseLsDocument(result, [{ start: quote, end: quote, replacement: "\"" }]);
+  assert.notEqual(result.ast, null);
+  assertMatchesFullReparse(result);
+
+  const check = result.source.indexOf("check cites_log_lines");
+  result = reparseLsDocument(result, [{ start: check, end: check + 5, replacement: "chek" }]);
+  assert.equal(result.ast, null);
+  assertMatchesFullReparse(result);
+
+  result = reparseLsDocument(result, [{ start: check, end: check + 4, replacement: "check" }]);
+  const expected = source.replace("\n", "\ncapability notify \"notify the team\"\n");
+  assert.equal(result.source, `# triage program\n${expected}`);
+  assertMatchesFullReparse(result);
+
+  assert.throws(
+    () => reparseLsDocument(result, [{ start: 0, end: result.source.length + 1, replacement: "" }]),
+    /outside the document/
+  );
+});
+
+test("reparseLsDocument keeps the identity of unchanged tokens and declarations", () => {
+  const source = loadSpecExample("valid/outcome-conditions.ls");
+  const previous = parseLsDocumentIncremental(source, { file: FILE });
+  const previousAst = previous.ast;
+  const previousTokens = previous.tokens ?? [];
+  const [firstCapability, secondCapability] = previousAst?.capabilities ?? [];
+  const [, secondCheck, thirdCheck] = previousAst?.checks ?? [];
+  const policy = previousAst?.policy;
+
+  const edit = source.indexOf("response cites");
+  const result = reparseLsDocument(previous, [{ start: edit, end: edit, replacement: "the " }]);
+  assertMatchesFullReparse(result);
+
+  const ast = result.ast;
+  assert.equal(ast?.goal, previousAst?.goal);
+  assert.equal(ast?.capabilities[0], firstCapability);
+  assert.equal(ast?.capabilities[1], secondCapability);
+  assert.notEqual(ast?.checks[0], previousAst?.checks[0]);
+  assert.equal(ast?.checks[0]?.description, "the response cites failing log lines");
+  assert.equal(ast?.checks[1], secondCheck);
+  assert.equal(ast?.checks[2], thirdCheck);
+  assert.equal(ast?.policy, policy);
+  assert.equal(ast?.policy?.range.start.offset, source.indexOf("policy production") + 4);
+
+  assert.equal(result.tokens?.[0], previousTokens[0]);
+  const checkLine = source.split("\n").findIndex((line) => line.startsWith("check cites"));
+  const reusedPrefix = previousTokens.filter((token) => token.range.start.line <= checkLine);
+  assert.deepEqual(result.tokens?.slice(0, reusedPrefix.length), reusedPrefix);
+  reusedPrefix.forEach((token, index) => assert.equal(result.tokens?.[index], token));
+
+  assert.equal(reparseLsDocument(result, []), result);
+});
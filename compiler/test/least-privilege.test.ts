@@ -0,0 +1,133 @@
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import test from "node:test";
+import { fileURLToPath } from "node:url";
+
+import {
+  loadPolicyProfileContract,
+  type PolicyProfileContract
+} from "../../contracts/src/index.ts";
+import {
+  analyzeLeastPrivilege,
+  lowerToPolicyProfile,
+  lowerToSemanticIr,
+  parseLsDocument,
+  type DocumentAstNode,
+  type SemanticIrContract
+} from "../src/index.ts";
+
+const testDirectory = path.dirname(fileURLToPath(import.meta.url));
+const EFFECTS_PROGRAM = readFileSync(
+  path.resolve(testDirectory, "../../docs/spec/examples/valid/effects.ls"),
+  "utf8"
+);
+
+function parseOrFail(source: string): DocumentAstNode {
+  const result = parseLsDocument(source);
+  if (result.ast === null) {
+    assert.fail(`Expected source to parse: ${JSON.stringify(result.diagnostics)}`);
+  }
+
+  return result.ast;
+}
+
+function compile(source: string): { ir: SemanticIrContract; profile: PolicyProfileContract } {
+  const ast = parseOrFail(source);
+  const { policyProfile, diagnostics } = lowerToPolicyProfile(ast);
+  assert.deepEqual(diagnostics, []);
+  assert.ok(policyProfile);
+  return { ir: lowerToSemanticIr(ast), profile: policyProfile };
+}
+
+test("analyzeLeastPrivilege reports over-granted capabilities and a minimal policy", () => {
+  const { ir, profile } = compile(
+    EFFECTS_PROGRAM.replace(
+      "step collect_logs",
+      'capability purge_cache "purge the build cache" effects exec\nstep collect_logs'
+    )
+      .replace("allow read_logs open_issue", "allow read_logs open_issue purge_cache")
+      .replace("effects fs.read net\n", "effects fs.read net exec\n")
+  );
+
+  const report = analyzeLeastPrivilege(ir, profile);
+  assert.deepEqual(report.used_capabilities, ["read_logs", "open_issue"]);
+  assert.deepEqual(report.allowed_unused, ["purge_cache"]);
+  assert.deepEqual(report.used_not_allowed, []);
+  assert.deepEqual(report.used_denied, []);
+  assert.deepEqual(report.used_escalated, [
+    {
+      capability: "open_issue",
+      escalation_level: "team_lead",
+      min_approvals: 1,
+      reason_required: true
+    }
+  ]);
+  assert.deepEqual(report.suggested_policy?.capability_policy.allow, ["read_logs", "open_issue"]);
+  assert.deepEqual(report.suggested_policy?.capability_policy.allowed_effects, ["fs.read", "net"]);
+  assert.deepEqual(report.suggested_policy?.constraints, profile.constraints);
+  assert.deepEqual(loadPolicyProfileContract(report.suggested_policy), report.suggested_policy);
+  assert.deepEqual(profile.capability_policy.allow, ["read_logs", "open_issue", "purge_cache"]);
+});
+
+test("analyzeLeastPrivilege reports used capabilities missing from allow or denied", () => {
+  const { ir, profile } = compile(EFFECTS_PROGRAM);
+  const withPolicy = (allow: string[], deny: string[]): PolicyProfileContract => ({
+    ...profile,
+    capability_policy: { ...profile.capability_policy, allow, deny }
+  });
+
+  const narrow = analyzeLeastPrivilege(ir, withPolicy(["read_logs"], []));
+  assert.deepEqual(narrow.used_not_allowed, ["open_issue"]);
+  assert.deepEqual(narrow.suggested_policy?.capability_policy.allow, ["read_logs", "open_issue"]);
+
+  const denied = analyzeLeastPrivilege(ir, withPolicy([], ["open_issue"]));
+  assert.deepEqual(denied.used_not_allowed, []);
+  assert.deepEqual(denied.used_denied, ["open_issue"]);
+  assert.deepEqual(denied.suggested_policy?.capability_policy.allow, ["read_logs"]);
+  assert.deepEqual(denied.suggested_policy?.capability_policy.deny, ["open_issue"]);
+  assert.deepEqual(denied.suggested_policy?.capability_policy.allowed_effects, ["fs.read"]);
+});
+
+test("analyzeLeastPrivilege treats every declared capability as used without steps", () => {
+  const { ir, profile } = compile(
+    'goal "g"\ncapability read "read"\ncapability write "write"\ncheck c "c"\n\n' +
+      "policy development\nallow read write deploy\n" +
+      "max_autonomous_steps 5\nmax_runtime_seconds 60\n"
+  );
+
+  const report = analyzeLeastPrivilege(ir, profile);
+  assert.deepEqual(report.used_capabilities, ["read", "write"]);
+  assert.deepEqual(report.allowed_unused, ["deploy"]);
+  assert.deepEqual(report.used_escalated, []);
+  assert.ok(report.suggested_policy);
+  assert.equal("allowed_effects" in report.suggested_policy.capability_policy, false);
+});
+
+test("analyzeLeastPrivilege suggests no policy when no used capability is permitted", () => {
+  const { profile } = compile(EFFECTS_PROGRAM);
+  const restricted: PolicyProfileContract = {
+    ...profile,
+    capability_policy: { ...profile.capability_policy, allow: ["read_logs"], deny: ["push_fix"] }
+  };
+  const declaring = (capabilities: string) =>
+    compile(
+      `goal "g"\n${capabilities}check c "c"\n\n` +
+        "policy development\nallow read_logs\nmax_autonomous_steps 5\nmax_runtime_seconds 60\n"
+    ).ir;
+
+  // Allowing nothing would leave only the deny list, which grants more than the profile did.
+  const deniedOnly = analyzeLeastPrivilege(
+    declaring('capability push_fix "push a fix"\n'),
+    restricted
+  );
+  assert.deepEqual(deniedOnly.used_denied, ["push_fix"]);
+  assert.equal(deniedOnly.suggested_policy, null);
+
+  const unused = analyzeLeastPrivilege(
+    declaring('capability read_logs "read logs"\nstep idle "wait for logs"\n'),
+    { ...restricted, capability_policy: { ...restricted.capability_policy, deny: [] } }
+  );
+  assert.deepEqual(unused.used_capabilities, []);
+  assert.equal(unused.suggested_policy, null);
+});
@@ -83,3 +83,84 @@ test("lex treats backslash newline in a string as unterminated boundary", () =>
   assert.ok(!diagnosticCodes.includes("LEX_INVALID_ESCAPE"));
   assert.ok(result.tokens.some((token) => token.kind === "CapabilityKeyword"));
 });
+
+test("lex tokenizes policy keywords and number literals", () => {
+  const result = lex("policy production\nmax_runtime_seconds 300\nescalate x to y approvals 1.5");
+
+  assert.deepEqual(result.diagnostics, []);
+  assert.deepEqual(
+    result.tokens.map((token) => [token.kind, token.lexeme]),
+    [
+      ["PolicyKeyword", "policy"],
+      ["Identifier", "production"],
+      ["Newline", "\n"],
+      ["Identifier", "max_runtime_seconds"],
+      ["NumberLiteral", "300"],
+      ["Newline", "\n"],
+      ["EscalateKeyword", "escalate"],
+      ["Identifier", "x"],
+      ["Identifier", "to"],
+      ["Identifier", "y"],
+      ["Identifier", "approvals"],
+      ["NumberLiteral", "1.5"],
+      ["EOF", ""]
+    ]
+  );
+});
+
+test("lex keeps dotted capability names and namespace wildcards in one token", () => {
+  const result = lex("allow workspace.apply_patch workspace.* read.\n");
+
+  assert.deepEqual(
+    result.tokens.map((token) => [token.kind, token.lexeme]),
+    [
+      ["AllowKeyword", "allow"],
+      ["Identifier", "workspace.apply_patch"],
+      ["WildcardIdentifier", "workspace.*"],
+      ["Identifier", "read"],
+      ["Newline", "\n"],
+      ["EOF", ""]
+    ]
+  );
+  assert.deepEqual(
+    result.diagnostics.map((diagnostic) => [diagnostic.code, diagnostic.span.start.column]),
+    [["LEX_UNEXPECTED_CHARACTER", 45]]
+  );
+});
+
+test("lex attaches comments as trivia on the following token", () => {
+  const source =
+    "# file header\n" +
+    "## Triage goal docs\n" +
+    'goal "triage" # trailing note\n' +
+    "\n" +
+    '  ## Reads CI logs\n' +
+    'capability read_logs "read # not a comment"\n' +
+    "# dangling";
+  const result = lex(source);
+
+  assert.deepEqual(result.diagnostics, []);
+  const withTrivia = result.tokens
+    .filter((token) => token.leadingTrivia !== undefined)
+    .map((token) => [
+      token.kind,
+      token.leadingTrivia?.map((trivia) => [trivia.kind, trivia.value, trivia.range.start.line])
+    ]);
+  assert.deepEqual(withTrivia, [
+    [
+      "GoalKeyword",
+      [
+        ["LineComment", "file header", 1],
+        ["DocComment", "Triage goal docs", 2]
+      ]
+    ],
+    ["Newline", [["LineComment", "trailing note", 3]]],
+    ["CapabilityKeyword", [["DocComment", "Reads CI logs", 5]]],
+    ["EOF", [["LineComment", "dangling", 7]]]
+  ]);
+  assert.equal(
+    result.tokens.find((token) => token.kind === "StringLiteral" && token.range.start.line === 6)
+      ?.value,
+    "read # not a comment"
+  );
+});
@@ -0,0 +1,208 @@
+import assert from "node:assert/strict";
+import path from "node:path";
+import test from "node:test";
+import { fileURLToPath } from "node:url";
+
+import { lowerToSemanticIr, parseLsDocument, resolveLsProgram } from "../src/index.ts";
+
+const testDirectory = path.dirname(fileURLToPath(import.meta.url));
+const importsExampleDirectory = path.resolve(
+  testDirectory,
+  "../../docs/spec/examples/valid/imports"
+);
+
+function createInMemoryReader(files: Record<string, string>): (file: string) => string {
+  return (file) => {
+    const contents = files[file];
+    if (contents === undefined) {
+      throw new Error(`ENOENT: ${file}`);
+    }
+
+    return contents;
+  };
+}
+
+test("resolveLsProgram merges imported capabilities and checks into the entry document", () => {
+  const entry = path.join(importsExampleDirectory, "main.ls");
+  const caps = path.join(importsExampleDirectory, "shared/caps.ls");
+  const checks = path.join(importsExampleDirectory, "shared/checks.ls");
+  const result = resolveLsProgram(entry);
+
+  assert.deepEqual(result.diagnostics, []);
+  assert.deepEqual(result.graph, {
+    entry,
+    modules: [
+      { file: caps, imports: [] },
+      { file: checks, imports: [caps] },
+      { file: entry, imports: [caps, checks] }
+    ]
+  });
+  assert.deepEqual(
+    result.ast?.capabilities.map((capability) => [capability.name, capability.file]),
+    [
+      ["read_logs", caps],
+      ["open_issue", caps],
+      ["summarize_failure", undefined]
+    ]
+  );
+  assert.deepEqual(
+    result.ast?.checks.map((check) => [check.name, check.file]),
+    [
+      ["cites_log_lines", checks],
+      ["issue_links_build", undefined]
+    ]
+  );
+  assert.deepEqual(
+    result.ast?.imports.map((declaration) => declaration.path.value),
+    ["./shared/caps.ls", "./shared/checks.ls"]
+  );
+});
+
+test("lowerToSemanticIr keeps imported declaration spans pointed at their module file", () => {
+  const entry = path.join(importsExampleDirectory, "main.ls");
+  const result = resolveLsProgram(entry);
+  if (result.ast === null) {
+    assert.fail(`Expected program to resolve: ${JSON.stringify(result.diagnostics)}`);
+  }
+
+  const ir = lowerToSemanticIr(result.ast, { file: entry });
+  const spans = new Map(ir.deterministic_nodes.map((node) => [node.id, node.source_span]));
+  assert.equal(
+    spans.get("det-capability-read_logs")?.file,
+    path.join(importsExampleDirectory, "shared/caps.ls")
+  );
+  assert.equal(spans.get("det-capability-read_logs")?.start.line, 1);
+  assert.equal(spans.get("det-capability-summarize_failure")?.file, entry);
+  assert.equal(spans.get("det-check-cites_log_lines")?.start.line, 3);
+});
+
+test("resolveLsProgram reports missing modules at the import in the importing file", () => {
+  const result = resolveLsProgram("project/main.ls", {
+    readFile: createInMemoryReader({
+      "project/main.ls":
+        'import "./missing.ls"\ngoal "g"\ncapability read "read"\ncheck cited "cited"'
+    })
+  });
+
+  assert.equal(result.ast, null);
+  assert.equal(result.diagnostics.length, 1);
+  assert.equal(result.diagnostics[0]?.code, "RESOLVE_MODULE_NOT_FOUND");
+  assert.equal(
+    result.diagnostics[0]?.message,
+    "Imported module './missing.ls' was not found at project/missing.ls"
+  );
+  const span = result.diagnostics[0]?.span;
+  assert.deepEqual([span?.file, span?.start.line, span?.start.column], ["project/main.ls", 1, 8]);
+
+  const missingEntry = resolveLsProgram("project/absent.ls", {
+    readFile: createInMemoryReader({})
+  });
+  assert.equal(missingEntry.diagnostics[0]?.code, "RESOLVE_MODULE_NOT_FOUND");
+  assert.equal(missingEntry.diagnostics[0]?.span.file, "project/absent.ls");
+});
+
+test("resolveLsProgram reports import cycles with the full module chain", () => {
+  const result = resolveLsProgram("project/main.ls", {
+    readFile: createInMemoryReader({
+      "project/main.ls": 'import "./a.ls"\ngoal "g"\ncheck cited "cited"',
+      "project/a.ls": 'import "./lib/b.ls"\ncapability read "read"',
+      "project/lib/b.ls": 'import "../a.ls"\ncapability write "write"'
+    })
+  });
+
+  assert.equal(result.ast, null);
+  assert.deepEqual(
+    result.diagnostics.map((diagnostic) => [
+      diagnostic.code,
+      diagnostic.message,
+      diagnostic.span.file
+    ]),
+    [
+      [
+        "RESOLVE_IMPORT_CYCLE",
+        "Import cycle detected: project/a.ls -> project/lib/b.ls -> project/a.ls",
+        "project/lib/b.ls"
+      ]
+    ]
+  );
+});
+
+test("resolveLsProgram loads shared modules once and reports duplicate merged symbols", () => {
+  const files = {
+    "project/main.ls":
+      'import "./caps.ls"\nimport "./checks.ls"\ngoal "g"\ncapability read "read again"',
+    "project/caps.ls": 'capability read "read"',
+    "project/checks.ls": 'import "./caps.ls"\ncheck cited "cited"\ncheck cited "cited twice"'
+  };
+  const result = resolveLsProgram("project/main.ls", { readFile: createInMemoryReader(files) });
+
+  assert.equal(result.ast, null);
+  assert.deepEqual(
+    result.graph.modules.map((module) => module.file),
+    ["project/caps.ls", "project/checks.ls", "project/main.ls"]
+  );
+  assert.deepEqual(
+    result.diagnostics.map((diagnostic) => [
+      diagnostic.code,
+      diagnostic.message,
+      diagnostic.span.file,
+      diagnostic.span.start.line
+    ]),
+    [
+      [
+        "RESOLVE_DUPLICATE_SYMBOL",
+        "Duplicate capability 'read'; first declared at project/caps.ls:1:1",
+        "project/main.ls",
+        4
+      ],
+      [
+        "RESOLVE_DUPLICATE_SYMBOL",
+        "Duplicate check 'cited'; first declared at project/checks.ls:2:1",
+        "project/checks.ls",
+        3
+      ]
+    ]
+  );
+});
+
+test("resolveLsProgram reports imported module parse errors against the module file", () => {
+  const result = resolveLsProgram("project/main.ls", {
+    readFile: createInMemoryReader({
+      "project/main.ls": 'import "./caps.ls"\ngoal "g"\ncheck cited "cited"',
+      "project/caps.ls": 'goal "nested"\ncapability read "read"\npolicy development'
+    })
+  });
+
+  assert.equal(result.ast, null);
+  assert.deepEqual(
+    result.diagnostics.map((diagnostic) => [
+      diagnostic.message,
+      diagnostic.span.file,
+      diagnostic.span.start.line
+    ]),
+    [
+      ["Imported modules cannot declare a goal", "project/caps.ls", 1],
+      ["Imported modules cannot declare a policy section", "project/caps.ls", 3]
+    ]
+  );
+});
+
+test("parseLsDocument requires imports before other declarations", () => {
+  const withImportsOnly = parseLsDocument('import "./caps.ls"\ngoal "g"', { file: "main.ls" });
+  assert.deepEqual(withImportsOnly.diagnostics, []);
+  assert.equal(withImportsOnly.ast?.range.start.line, 1);
+
+  const misplaced = parseLsDocument(
+    'goal "g"\ncapability read "read"\nimport "./caps.ls"\ncheck cited "cited"',
+    { file: "main.ls" }
+  );
+  assert.equal(misplaced.ast, null);
+  assert.deepEqual(
+    misplaced.diagnostics.map((diagnostic) => [
+      diagnostic.message,
+      diagnostic.span.file,
+      diagnostic.span.start.line
+    ]),
+    [["Import declarations must appear before all other declarations", "main.ls", 3]]
+  );
+});
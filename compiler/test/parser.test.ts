@@ -4,7 +4,7 @@ import path from "node:path";
 import test from "node:test";
 import { fileURLToPath } from "node:url";
 
-import { parseLsDocument } from "../src/index.ts";
+import { parseLsDocument, parseLsModule } from "../src/index.ts";
 
 const testDirectory = path.dirname(fileURLToPath(import.meta.url));
 
@@ -196,3 +196,290 @@ test("parseLsDocument avoids cascading capability diagnostics when identifier is
     0
   );
 });
+
+test("parseLsDocument surfaces doc comments on declarations and ignores line comments", () => {
+  const result = parseLsDocument(loadSpecExample("valid/doc-comments.ls"));
+
+  assert.deepEqual(result.diagnostics, []);
+  const ast = result.ast;
+  assert.equal(ast?.goal.docs, "Keep triage read-only until a human approves the issue.");
+  assert.equal(ast?.goal.range.start.line, 3);
+  assert.deepEqual(
+    ast?.capabilities.map((capability) => capability.docs),
+    ["Needed to quote the failing lines back to the reporter.", undefined]
+  );
+  assert.equal(ast?.checks[0]?.docs, "Guards against uncited speculation.");
+  assert.equal(ast?.policy?.docs, "Production rules for the triage agent.");
+  assert.deepEqual(
+    ast?.policy?.allow.map((identifier) => identifier.name),
+    ["read_logs"]
+  );
+
+  const multiline = parseLsDocument(
+    '## First line.\n##\n## Third line.\ngoal "g"\ncapability a "a"\ncheck b "b"'
+  );
+  assert.equal(multiline.ast?.goal.docs, "First line.\n\nThird line.");
+});
+
+test("parseLsDocument parses succeed, fail, and stop outcome declarations", () => {
+  const result = parseLsDocument(loadSpecExample("valid/outcome-conditions.ls"));
+
+  assert.deepEqual(result.diagnostics, []);
+  const outcomes = result.ast?.outcomes ?? [];
+  assert.deepEqual(
+    outcomes.map((outcome) => [
+      outcome.outcome,
+      outcome.conditions.map((condition) =>
+        condition.kind === "CheckCondition"
+          ? `${condition.check.name}:${condition.status}`
+          : condition.budget.name
+      )
+    ]),
+    [
+      ["succeed", ["cites_log_lines:passed", "issue_links_build:passed"]],
+      ["fail", ["no_secret_leak:failed"]],
+      ["stop", ["max_autonomous_steps"]],
+      ["stop", ["max_runtime_seconds"]]
+    ]
+  );
+  assert.equal(outcomes[0]?.docs, "Done once the issue is filed with cited evidence.");
+  const withoutOutcomes = parseLsDocument(loadSpecExample("valid/verify-section.ls"));
+  assert.equal(withoutOutcomes.ast?.outcomes, undefined);
+});
+
+test("parseLsDocument reports malformed and misplaced outcome declarations", () => {
+  const messages = (source: string): string[] =>
+    parseLsDocument(`goal "g"\ncapability a "a"\ncheck c "c"\n${source}`).diagnostics.map(
+      (diagnostic) => `${diagnostic.code}: ${diagnostic.message}`
+    );
+
+  assert.deepEqual(messages("succeed when c maybe"), [
+    "PARSE_EXPECTED_TOKEN: Expected 'passes', 'fails', or 'exhausted' after 'c'"
+  ]);
+  assert.deepEqual(messages("stop when tokens exhausted"), [
+    "PARSE_UNEXPECTED_TOKEN: Unknown budget 'tokens'; expected 'max_tokens', " +
+      "'max_autonomous_steps', 'max_runtime_seconds', or 'max_cost_usd'"
+  ]);
+  assert.deepEqual(messages("stop when c passes\ncheck d \"d\""), [
+    "PARSE_UNEXPECTED_TOKEN: Unexpected 'check' declaration after outcome declarations"
+  ]);
+  assert.deepEqual(messages("verify\nstop when c passes"), [
+    "PARSE_UNEXPECTED_TOKEN: Outcome declarations must appear before the policy and verify sections"
+  ]);
+});
+
+test("parseLsDocument parses a budget declaration ahead of the outcome conditions", () => {
+  const result = parseLsDocument(loadSpecExample("valid/budget.ls"));
+
+  assert.deepEqual(result.diagnostics, []);
+  const budget = result.ast?.budget;
+  assert.deepEqual(
+    budget?.limits.map((limit) => [limit.name, limit.value.raw]),
+    [
+      ["max_tokens", "200000"],
+      ["max_autonomous_steps", "20"],
+      ["max_runtime_seconds", "240"],
+      ["max_cost_usd", "2.5"]
+    ]
+  );
+  assert.equal(
+    budget?.docs,
+    "Tighter than the production policy except where the policy is stricter."
+  );
+  assert.equal(result.ast?.outcomes?.[1]?.conditions[0]?.kind, "BudgetCondition");
+  const withoutBudget = parseLsDocument(loadSpecExample("valid/outcome-conditions.ls"));
+  assert.equal(withoutBudget.ast?.budget, undefined);
+});
+
+test("parseLsDocument reports malformed, duplicate, and misplaced budget declarations", () => {
+  const messages = (source: string): string[] =>
+    parseLsDocument(`goal "g"\ncapability a "a"\ncheck c "c"\n${source}`).diagnostics.map(
+      (diagnostic) => `${diagnostic.code}: ${diagnostic.message}`
+    );
+
+  assert.deepEqual(messages("budget"), [
+    "PARSE_EXPECTED_TOKEN: Expected at least one budget limit after 'budget'"
+  ]);
+  assert.deepEqual(messages("budget max_tokens"), [
+    "PARSE_EXPECTED_TOKEN: Expected a number after 'max_tokens'"
+  ]);
+  assert.deepEqual(messages("budget max_tokens 10 max_tokens 20"), [
+    "PARSE_UNEXPECTED_TOKEN: Duplicate budget limit 'max_tokens'"
+  ]);
+  assert.deepEqual(messages("budget tokens 10"), [
+    "PARSE_UNEXPECTED_TOKEN: Unknown budget limit 'tokens'; expected 'max_tokens', " +
+      "'max_autonomous_steps', 'max_runtime_seconds', or 'max_cost_usd'"
+  ]);
+  assert.deepEqual(messages("budget max_tokens 10\nbudget max_cost_usd 1"), [
+    "PARSE_UNEXPECTED_TOKEN: Only one budget declaration is allowed"
+  ]);
+  assert.deepEqual(messages("budget max_tokens 10\ncheck d \"d\""), [
+    "PARSE_UNEXPECTED_TOKEN: Unexpected 'check' declaration after outcome declarations"
+  ]);
+  assert.deepEqual(messages("verify\nbudget max_tokens 10"), [
+    "PARSE_UNEXPECTED_TOKEN: " +
+      "Budget declarations must appear before the policy and verify sections"
+  ]);
+  assert.deepEqual(
+    parseLsModule('capability a "a"\nbudget max_tokens 10').diagnostics.map(
+      (diagnostic) => diagnostic.message
+    ),
+    ["Imported modules cannot declare a budget"]
+  );
+});
+
+test("parseLsDocument parses infer declarations with optional temperature and confidence", () => {
+  const result = parseLsDocument(loadSpecExample("valid/infer-steps.ls"));
+
+  assert.deepEqual(result.diagnostics, []);
+  const inference = result.ast?.inferences?.[0];
+  assert.equal(inference?.name, "draft_summary");
+  assert.equal(inference?.prompt.value, "Summarize the failing build log in three sentences.");
+  assert.equal(inference?.provider.name, "openai");
+  assert.equal(inference?.temperature?.value, 0.2);
+  assert.equal(inference?.minConfidence?.raw, "0.8");
+  assert.equal(inference?.docs, "Drafts the summary that the checks grade.");
+
+  const bare = parseLsDocument(
+    'goal "g"\ncapability a "a"\ninfer draft "Draft it." using local\ncheck c "c"\n'
+  );
+  assert.deepEqual(bare.diagnostics, []);
+  assert.equal(bare.ast?.inferences?.[0]?.minConfidence, undefined);
+  const withoutInferences = parseLsDocument(loadSpecExample("valid/verify-section.ls"));
+  assert.equal(withoutInferences.ast?.inferences, undefined);
+});
+
+test("parseLsDocument reports malformed and misplaced infer declarations", () => {
+  const messages = (lines: string): string[] =>
+    parseLsDocument(`goal "g"\ncapability a "a"\n${lines}`).diagnostics.map(
+      (diagnostic) => `${diagnostic.code}: ${diagnostic.message}`
+    );
+
+  assert.deepEqual(messages('infer d "p" openai\ncheck c "c"'), [
+    "PARSE_EXPECTED_TOKEN: Expected 'using' after the infer prompt"
+  ]);
+  assert.deepEqual(messages('infer d "p" using openai top_p 1\ncheck c "c"'), [
+    "PARSE_UNEXPECTED_TOKEN: Unknown infer setting 'top_p'; " +
+      "expected 'temperature' or 'min_confidence'"
+  ]);
+  assert.deepEqual(messages('infer d "p" using x min_confidence 0.5 min_confidence 1\ncheck c "c"'), [
+    "PARSE_UNEXPECTED_TOKEN: Duplicate infer setting 'min_confidence'"
+  ]);
+  assert.deepEqual(messages('check c "c"\ninfer d "p" using openai'), [
+    "PARSE_UNEXPECTED_TOKEN: Infer declarations must appear before check declarations"
+  ]);
+});
+
+test("parseLsDocument parses step declarations with after and uses clauses", () => {
+  const result = parseLsDocument(loadSpecExample("valid/steps.ls"));
+
+  assert.deepEqual(result.diagnostics, []);
+  assert.deepEqual(
+    result.ast?.steps?.map((step) => [
+      step.name,
+      step.after.map((dependency) => dependency.name),
+      step.uses.map((capability) => capability.name)
+    ]),
+    [
+      ["collect_logs", [], ["read_logs"]],
+      ["file_issue", ["collect_logs"], ["open_issue"]],
+      ["notify", ["collect_logs", "file_issue"], []]
+    ]
+  );
+  assert.equal(
+    result.ast?.steps?.[0]?.docs,
+    "Collect the failing lines first so later steps can cite them."
+  );
+
+  const messages = (line: string): string[] =>
+    parseLsDocument(`goal "g"\ncapability a "a"\n${line}\ncheck c "c"`).diagnostics.map(
+      (diagnostic) => `${diagnostic.code}: ${diagnostic.message}`
+    );
+  assert.deepEqual(messages('step s "s" before t'), [
+    "PARSE_UNEXPECTED_TOKEN: Unknown step clause 'before'; expected 'after' or 'uses'"
+  ]);
+  assert.deepEqual(messages('step s "s" uses a uses a'), [
+    "PARSE_UNEXPECTED_TOKEN: Duplicate 'uses' clause in step declaration"
+  ]);
+  assert.deepEqual(messages('step s "s" after'), [
+    "PARSE_EXPECTED_TOKEN: Expected at least one step identifier after 'after'"
+  ]);
+});
+
+test("parseLsDocument parses typed capability signatures and effect annotations", () => {
+  const result = parseLsDocument(loadSpecExample("valid/effects.ls"));
+
+  assert.deepEqual(result.diagnostics, []);
+  assert.deepEqual(
+    result.ast?.capabilities.map((capability) => [
+      capability.name,
+      capability.parameters?.map((parameter) => [parameter.name.name, parameter.type.name]),
+      capability.returns?.name,
+      capability.effects?.map((effect) => effect.name)
+    ]),
+    [
+      ["read_logs", [["build_id", "string"]], "json", ["fs.read"]],
+      [
+        "open_issue",
+        [
+          ["title", "string"],
+          ["body", "string"]
+        ],
+        "string",
+        ["net"]
+      ]
+    ]
+  );
+  assert.deepEqual(
+    result.ast?.policy?.effects?.map((effect) => effect.name),
+    ["fs.read", "net"]
+  );
+
+  const bare = parseLsDocument('goal "g"\ncapability a "a" effects exec\ncheck c "c"\n');
+  assert.deepEqual(bare.diagnostics, []);
+  assert.equal(bare.ast?.capabilities[0]?.parameters, undefined);
+  assert.equal(bare.ast?.capabilities[0]?.range.end.column, 30);
+  assert.equal(bare.ast?.policy, undefined);
+});
+
+test("parseLsDocument reports malformed capability signatures and effect lists", () => {
+  const messages = (line: string): string[] =>
+    parseLsDocument(`goal "g"\n${line}\ncheck c "c"`).diagnostics.map(
+      (diagnostic) => `${diagnostic.code}: ${diagnostic.message}`
+    );
+
+  assert.deepEqual(messages('capability a "a" yields json'), [
+    "PARSE_UNEXPECTED_TOKEN: Unknown capability clause 'yields'; " +
+      "expected 'takes', 'returns', or 'effects'"
+  ]);
+  assert.deepEqual(messages('capability a "a" returns json returns string'), [
+    "PARSE_UNEXPECTED_TOKEN: Duplicate 'returns' clause in capability declaration"
+  ]);
+  assert.deepEqual(messages('capability a "a" takes path'), [
+    "PARSE_EXPECTED_TOKEN: Expected a type after parameter 'path'"
+  ]);
+  assert.deepEqual(messages('capability a "a" takes path text'), [
+    "PARSE_UNEXPECTED_TOKEN: Unknown type 'text'; " +
+      "expected 'string', 'number', 'boolean', or 'json'"
+  ]);
+  assert.deepEqual(messages('capability a "a" takes x string x number'), [
+    "PARSE_UNEXPECTED_TOKEN: Duplicate parameter 'x'"
+  ]);
+  assert.deepEqual(messages('capability a "a" takes effects net'), [
+    "PARSE_EXPECTED_TOKEN: Expected at least one parameter after 'takes'"
+  ]);
+  assert.deepEqual(messages('capability a "a" effects fs.delete'), [
+    "PARSE_UNEXPECTED_TOKEN: Unknown effect 'fs.delete'; " +
+      "expected 'fs.read', 'fs.write', 'net', or 'exec'"
+  ]);
+  assert.deepEqual(messages('capability a "a" effects net net'), [
+    "PARSE_UNEXPECTED_TOKEN: Duplicate effect 'net'"
+  ]);
+  const policy = parseLsDocument(
+    'goal "g"\ncapability a "a"\ncheck c "c"\npolicy staging\neffects'
+  );
+  assert.deepEqual(
+    policy.diagnostics.map((diagnostic) => `${diagnostic.code}: ${diagnostic.message}`),
+    ["PARSE_EXPECTED_TOKEN: Expected at least one effect after 'effects'"]
+  );
+});
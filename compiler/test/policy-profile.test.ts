@@ -0,0 +1,193 @@
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import test from "node:test";
+import { fileURLToPath } from "node:url";
+
+import { loadPolicyProfileContract } from "../../contracts/src/index.ts";
+import { lowerToPolicyProfile, parseLsDocument, type DocumentAstNode } from "../src/index.ts";
+
+const testDirectory = path.dirname(fileURLToPath(import.meta.url));
+
+function loadSpecExample(relativePath: string): string {
+  return readFileSync(path.resolve(testDirectory, "../../docs/spec/examples", relativePath), "utf8");
+}
+
+function parseOrFail(source: string): DocumentAstNode {
+  const result = parseLsDocument(source);
+  if (result.ast === null) {
+    assert.fail(`Expected source to parse: ${JSON.stringify(result.diagnostics)}`);
+  }
+
+  return result.ast;
+}
+
+const PROGRAM_PREFIX =
+  'goal "triage builds"\n' + 'capability read_logs "read logs"\n' + 'check cites_logs "cites logs"\n';
+
+test("parseLsDocument parses policy section clauses into the document AST", () => {
+  const ast = parseOrFail(loadSpecExample("valid/policy-section.ls"));
+  const policy = ast.policy;
+
+  assert.notEqual(policy, undefined);
+  assert.equal(policy?.environment.name, "production");
+  assert.deepEqual(
+    policy?.allow.map((capability) => capability.name),
+    ["read_logs", "open_issue"]
+  );
+  assert.deepEqual(
+    policy?.deny.map((capability) => capability.name),
+    ["push_fix"]
+  );
+  assert.equal(policy?.escalations[0]?.capability.name, "open_issue");
+  assert.equal(policy?.escalations[0]?.level.name, "team_lead");
+  assert.equal(policy?.escalations[0]?.approvals.value, 1);
+  assert.equal(policy?.escalations[0]?.reasonRequired, true);
+  assert.deepEqual(
+    policy?.settings.map((setting) => setting.name),
+    ["max_autonomous_steps", "max_runtime_seconds"]
+  );
+  assert.equal(policy?.range.start.line, 6);
+  assert.deepEqual(ast.range.end, policy?.range.end);
+});
+
+test("lowerToPolicyProfile emits a PolicyProfile accepted by the runtime loader", () => {
+  const ast = parseOrFail(loadSpecExample("valid/policy-section.ls"));
+  const result = lowerToPolicyProfile(ast, {
+    file: "policy-section.ls",
+    now: () => new Date("2026-02-22T12:00:00Z")
+  });
+
+  assert.deepEqual(result.diagnostics, []);
+  assert.notEqual(result.policyProfile, null);
+
+  const profile = loadPolicyProfileContract(result.policyProfile);
+  assert.match(profile.metadata.profile_id, /^policy-[0-9a-f]{16}$/);
+  assert.equal(profile.metadata.environment, "production");
+  assert.equal(profile.metadata.created_at, "2026-02-22T12:00:00.000Z");
+  assert.equal(profile.metadata.source, "policy-section.ls");
+  assert.deepEqual(profile.capability_policy, {
+    allow: ["read_logs", "open_issue"],
+    deny: ["push_fix"],
+    escalation_requirements: {
+      default: "manual_approval",
+      rules: [
+        {
+          capability: "open_issue",
+          escalation_level: "team_lead",
+          min_approvals: 1,
+          reason_required: true
+        }
+      ]
+    }
+  });
+  assert.deepEqual(profile.constraints, {
+    max_autonomous_steps: 25,
+    max_runtime_seconds: 300,
+    require_human_review_on_policy_violation: true
+  });
+});
+
+test("lowerToPolicyProfile honors explicit escalation_default and review settings", () => {
+  const ast = parseOrFail(
+    PROGRAM_PREFIX +
+      "policy development\n" +
+      "allow read_logs\n" +
+      "escalate read_logs to security approvals 2\n" +
+      "escalation_default none\n" +
+      "require_human_review_on_policy_violation false\n" +
+      "max_autonomous_steps 100\n" +
+      "max_runtime_seconds 900"
+  );
+  const result = lowerToPolicyProfile(ast, { profileId: "policy-dev" });
+
+  assert.deepEqual(result.diagnostics, []);
+  assert.equal(result.policyProfile?.metadata.profile_id, "policy-dev");
+  assert.equal(result.policyProfile?.capability_policy.escalation_requirements.default, "none");
+  assert.equal(result.policyProfile?.constraints.require_human_review_on_policy_violation, false);
+});
+
+test("lowerToPolicyProfile maps schema violations to the offending policy clause spans", () => {
+  const ast = parseOrFail(
+    PROGRAM_PREFIX +
+      "policy staging\n" +
+      "allow read_logs Read_Logs\n" +
+      "escalate read_logs to admin approvals 0\n" +
+      "max_autonomous_steps 2.5\n" +
+      "max_runtime_seconds 60"
+  );
+  const result = lowerToPolicyProfile(ast, { file: "program.ls" });
+
+  assert.equal(result.policyProfile, null);
+  assert.ok(result.diagnostics.every((diagnostic) => diagnostic.code === "LOWER_POLICY_SCHEMA_VIOLATION"));
+  assert.ok(result.diagnostics.every((diagnostic) => diagnostic.span.file === "program.ls"));
+
+  const locations = result.diagnostics.map((diagnostic) => [
+    diagnostic.message.split(" ")[1],
+    diagnostic.span.start.line,
+    diagnostic.span.start.column
+  ]);
+  assert.deepEqual(
+    locations.sort(),
+    [
+      ["/capability_policy/allow/1", 5, 17],
+      ["/capability_policy/escalation_requirements/rules/0/escalation_level", 6, 23],
+      ["/capability_policy/escalation_requirements/rules/0/min_approvals", 6, 39],
+      ["/constraints/max_autonomous_steps", 7, 22]
+    ].sort()
+  );
+});
+
+test("lowerToPolicyProfile anchors production escalation violations at the environment", () => {
+  const ast = parseOrFail(
+    PROGRAM_PREFIX + "policy production\n" + "allow read_logs\n" + "max_runtime_seconds 60"
+  );
+  const result = lowerToPolicyProfile(ast);
+
+  assert.equal(result.policyProfile, null);
+  const escalationDiagnostic = result.diagnostics.find((diagnostic) =>
+    diagnostic.message.includes("/capability_policy/escalation_requirements/default")
+  );
+  assert.equal(escalationDiagnostic?.span.start.line, 4);
+  assert.equal(escalationDiagnostic?.span.start.column, 8);
+
+  const missingStepsDiagnostic = result.diagnostics.find((diagnostic) =>
+    diagnostic.message.includes("max_autonomous_steps")
+  );
+  assert.equal(missingStepsDiagnostic?.span.start.line, 4);
+  assert.equal(missingStepsDiagnostic?.span.start.column, 1);
+});
+
+test("lowerToPolicyProfile reports a missing policy section", () => {
+  const result = lowerToPolicyProfile(parseOrFail(PROGRAM_PREFIX));
+
+  assert.equal(result.policyProfile, null);
+  assert.equal(result.diagnostics[0]?.code, "LOWER_POLICY_MISSING");
+  assert.equal(result.diagnostics[0]?.severity, "error");
+});
+
+test("parseLsDocument reports malformed policy clauses", () => {
+  const result = parseLsDocument(
+    PROGRAM_PREFIX +
+      "policy development\n" +
+      "allow\n" +
+      "escalate read_logs team_lead approvals 1\n" +
+      "max_retries 3\n" +
+      "require_human_review_on_policy_violation maybe\n" +
+      'check late "checks cannot follow policy"\n' +
+      "policy staging"
+  );
+
+  assert.equal(result.ast, null);
+  assert.deepEqual(
+    result.diagnostics.map((diagnostic) => [diagnostic.span.start.line, diagnostic.message]),
+    [
+      [5, "Expected capability identifier after 'allow'"],
+      [6, "Expected 'to' after escalated capability identifier"],
+      [7, "Unknown policy setting 'max_retries'"],
+      [8, "Expected 'true' or 'false' after 'require_human_review_on_policy_violation'"],
+      [9, "Unexpected 'check' declaration after the policy section begins"],
+      [10, "Only one policy section is allowed"]
+    ]
+  );
+});
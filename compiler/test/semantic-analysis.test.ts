@@ -0,0 +1,324 @@
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import test from "node:test";
+import { fileURLToPath } from "node:url";
+
+import {
+  analyzeLsDocument,
+  filterDiagnosticsBySeverity,
+  hasErrorDiagnostics,
+  parseLsDocument,
+  resolveLsProgram,
+  type DocumentAstNode
+} from "../src/index.ts";
+
+const testDirectory = path.dirname(fileURLToPath(import.meta.url));
+
+function parseOrFail(source: string): DocumentAstNode {
+  const result = parseLsDocument(source, { file: "program.ls" });
+  if (result.ast === null) {
+    assert.fail(`Expected source to parse: ${JSON.stringify(result.diagnostics)}`);
+  }
+
+  return result.ast;
+}
+
+test("analyzeLsDocument reports no diagnostics for the grounded policy example", () => {
+  const source = readFileSync(
+    path.resolve(testDirectory, "../../docs/spec/examples/valid/policy-section.ls"),
+    "utf8"
+  );
+
+  assert.deepEqual(analyzeLsDocument(parseOrFail(source)), []);
+});
+
+test("analyzeLsDocument reports duplicate capability and check names as errors", () => {
+  const ast = parseOrFail(
+    'goal "triage logs"\n' +
+      'capability read_logs "read logs"\n' +
+      'capability read_logs "read logs again"\n' +
+      'check cites_logs "cites logs"\n' +
+      'check cites_logs "cites logs twice"'
+  );
+  const diagnostics = analyzeLsDocument(ast, { file: "program.ls" });
+
+  assert.deepEqual(
+    diagnostics.map((diagnostic) => [
+      diagnostic.code,
+      diagnostic.severity,
+      diagnostic.message,
+      diagnostic.span.start.line
+    ]),
+    [
+      [
+        "SEMA_DUPLICATE_CAPABILITY",
+        "error",
+        "Duplicate capability 'read_logs'; first declared at program.ls:2:1",
+        3
+      ],
+      [
+        "SEMA_DUPLICATE_CHECK",
+        "error",
+        "Duplicate check 'cites_logs'; first declared at program.ls:4:1",
+        5
+      ]
+    ]
+  );
+  assert.equal(hasErrorDiagnostics(diagnostics), true);
+});
+
+test("analyzeLsDocument reports empty descriptions, long goals, and unreferenced checks", () => {
+  const ast = parseOrFail(
+    `goal "${"summarize the failing build ".repeat(3).trim()}"\n` +
+      'capability read_logs "   "\n' +
+      'check cites_log_lines "response cites lines returned by read_logs."\n' +
+      'check polite_tone ""'
+  );
+  const diagnostics = analyzeLsDocument(ast, { file: "program.ls", maxGoalLength: 40 });
+
+  assert.deepEqual(
+    diagnostics.map((diagnostic) => [
+      diagnostic.code,
+      diagnostic.severity,
+      diagnostic.span.start.line
+    ]),
+    [
+      ["SEMA_GOAL_TOO_LONG", "warning", 1],
+      ["SEMA_EMPTY_DESCRIPTION", "warning", 2],
+      ["SEMA_EMPTY_DESCRIPTION", "warning", 4],
+      ["SEMA_CHECK_WITHOUT_CAPABILITY", "info", 4]
+    ]
+  );
+  assert.equal(
+    diagnostics[0]?.message,
+    "Goal is 83 characters long; keep goals to at most 40"
+  );
+  assert.equal(
+    diagnostics[3]?.message,
+    "Check 'polite_tone' does not reference any declared capability"
+  );
+  assert.equal(hasErrorDiagnostics(diagnostics), false);
+});
+
+test("analyzeLsDocument only flags unreferenced checks once a check names a capability", () => {
+  const validDirectory = path.resolve(testDirectory, "../../docs/spec/examples/valid");
+  for (const name of ["minimal-goal-capability-check.ls", "multi-capability-check.ls"]) {
+    const source = readFileSync(path.join(validDirectory, name), "utf8");
+    assert.deepEqual(analyzeLsDocument(parseOrFail(source)), [], name);
+  }
+
+  const ast = parseOrFail(
+    'goal "publish the release summary"\n' +
+      'capability workspace.read "read the workspace"\n' +
+      'capability read_tests "inspect test results"\n' +
+      'check read_tests "tests were inspected"\n' +
+      'check cites_files "summary quotes workspace.read results"\n' +
+      'check summary_is_concise "summary reads well"'
+  );
+  assert.deepEqual(
+    analyzeLsDocument(ast).map((diagnostic) => [diagnostic.code, diagnostic.span.start.line]),
+    [["SEMA_CHECK_WITHOUT_CAPABILITY", 6]]
+  );
+});
+
+test("filterDiagnosticsBySeverity keeps diagnostics at or above the requested severity", () => {
+  const ast = parseOrFail(
+    'goal "g"\n' +
+      'capability read_logs ""\n' +
+      'capability read_logs "read logs"\n' +
+      'check cites_logs "cites `read_logs` output"\n' +
+      'check polite_tone "stays polite"'
+  );
+  const diagnostics = analyzeLsDocument(ast);
+  const codes = (severity: "error" | "warning" | "info"): string[] =>
+    filterDiagnosticsBySeverity(diagnostics, severity).map((diagnostic) => diagnostic.code);
+
+  assert.deepEqual(codes("error"), ["SEMA_DUPLICATE_CAPABILITY"]);
+  assert.deepEqual(codes("warning"), ["SEMA_DUPLICATE_CAPABILITY", "SEMA_EMPTY_DESCRIPTION"]);
+  assert.deepEqual(codes("info"), [
+    "SEMA_DUPLICATE_CAPABILITY",
+    "SEMA_EMPTY_DESCRIPTION",
+    "SEMA_CHECK_WITHOUT_CAPABILITY"
+  ]);
+});
+
+test("analyzeLsDocument anchors imported declarations at their module file", () => {
+  const files: Record<string, string> = {
+    "project/main.ls": 'import "./caps.ls"\ngoal "g"\ncheck cites_logs "cites logs"',
+    "project/caps.ls": 'capability read_logs ""'
+  };
+  const resolved = resolveLsProgram("project/main.ls", {
+    readFile: (file) => files[file] ?? assert.fail(`unexpected read ${file}`)
+  });
+  if (resolved.ast === null) {
+    assert.fail(`Expected program to resolve: ${JSON.stringify(resolved.diagnostics)}`);
+  }
+
+  const diagnostics = analyzeLsDocument(resolved.ast, { file: "project/main.ls" });
+  assert.deepEqual(
+    diagnostics.map((diagnostic) => [diagnostic.code, diagnostic.span.file]),
+    [["SEMA_EMPTY_DESCRIPTION", "project/caps.ls"]]
+  );
+});
+
+test("analyzeLsDocument reports outcome conditions that reference unknown checks", () => {
+  const ast = parseOrFail(
+    'goal "triage logs"\n' +
+      'capability read_logs "read logs"\n' +
+      'check cites_logs "cites logs"\n' +
+      "succeed when cites_logs passes and cites_log fails\n" +
+      "stop when max_runtime_seconds exhausted\n" +
+      "budget max_runtime_seconds 60"
+  );
+
+  assert.deepEqual(
+    analyzeLsDocument(ast, { file: "program.ls" }).map((diagnostic) => [
+      diagnostic.code,
+      diagnostic.severity,
+      diagnostic.message,
+      diagnostic.span.start.column
+    ]),
+    [
+      [
+        "SEMA_UNKNOWN_CONDITION_CHECK",
+        "error",
+        "The succeed condition references unknown check 'cites_log'",
+        36
+      ]
+    ]
+  );
+});
+
+test("analyzeLsDocument reports budget conditions without an effective limit", () => {
+  const ast = parseOrFail(
+    'goal "triage logs"\n' +
+      'capability read_logs "read logs"\n' +
+      'check cites_logs "cites logs"\n' +
+      "budget max_tokens 1000\n" +
+      "stop when max_tokens exhausted\n" +
+      "stop when max_cost_usd exhausted\n" +
+      "stop when max_autonomous_steps exhausted\n" +
+      "fail when max_runtime_seconds exhausted\n" +
+      "policy production\n" +
+      "allow read_logs\n" +
+      "max_autonomous_steps 25"
+  );
+
+  assert.deepEqual(
+    analyzeLsDocument(ast, { file: "program.ls" }).map((diagnostic) => [
+      diagnostic.code,
+      diagnostic.severity,
+      diagnostic.message,
+      diagnostic.span.start.line
+    ]),
+    [
+      [
+        "SEMA_CONDITION_BUDGET_WITHOUT_LIMIT",
+        "warning",
+        "The stop condition uses 'max_cost_usd', but neither the budget nor the policy sets " +
+          "that limit; the condition never holds",
+        6
+      ],
+      [
+        "SEMA_CONDITION_BUDGET_WITHOUT_LIMIT",
+        "warning",
+        "The fail condition uses 'max_runtime_seconds', but neither the budget nor the policy " +
+          "sets that limit; the condition never holds",
+        8
+      ]
+    ]
+  );
+});
+
+test("analyzeLsDocument requires a confidence floor on infer steps that feed checks", () => {
+  const ast = parseOrFail(
+    'goal "summarize logs"\n' +
+      'capability read_logs "read logs"\n' +
+      'infer draft "Draft a summary." using openai\n' +
+      'infer draft "Draft it again." using openai min_confidence 0.9\n' +
+      'infer rank "Rank causes." using openai min_confidence 1.5\n' +
+      'check cites_logs "cites logs"'
+  );
+
+  assert.deepEqual(
+    analyzeLsDocument(ast, { file: "program.ls" }).map((diagnostic) => [
+      diagnostic.code,
+      diagnostic.severity,
+      diagnostic.span.start.line
+    ]),
+    [
+      ["SEMA_DUPLICATE_INFERENCE", "error", 4],
+      ["SEMA_INFERENCE_WITHOUT_CONFIDENCE", "error", 3],
+      ["SEMA_CONFIDENCE_OUT_OF_RANGE", "error", 5]
+    ]
+  );
+  assert.equal(
+    analyzeLsDocument(ast)[1]?.message,
+    "Infer step 'draft' feeds checks but declares no min_confidence floor"
+  );
+});
+
+test("analyzeLsDocument validates the step dependency graph", () => {
+  const ast = parseOrFail(
+    'goal "triage logs"\n' +
+      'capability read_logs "read logs"\n' +
+      'capability open_issue "open issue"\n' +
+      'step fetch "fetch" after publish uses read_logs\n' +
+      'step draft "draft" after fetch missing uses read_log\n' +
+      'step publish "publish" after draft\n' +
+      'check cites_logs "cites logs"'
+  );
+
+  assert.deepEqual(
+    analyzeLsDocument(ast, { file: "program.ls" }).map((diagnostic) => [
+      diagnostic.code,
+      diagnostic.severity,
+      diagnostic.message
+    ]),
+    [
+      ["SEMA_UNKNOWN_STEP", "error", "Step 'draft' runs after unknown step 'missing'"],
+      ["SEMA_UNKNOWN_STEP_CAPABILITY", "error", "Step 'draft' uses unknown capability 'read_log'"],
+      ["SEMA_STEP_CYCLE", "error", "Step dependency cycle: fetch -> publish -> draft -> fetch"],
+      ["SEMA_UNUSED_CAPABILITY", "warning", "Capability 'open_issue' is not used by any step"]
+    ]
+  );
+});
+
+test("analyzeLsDocument validates budget limits against their units and the policy", () => {
+  const ast = parseOrFail(
+    'goal "triage logs"\n' +
+      'capability read_logs "read logs"\n' +
+      'check cites_logs "cites logs"\n' +
+      "budget max_tokens 0 max_autonomous_steps 40 max_runtime_seconds 1.5 max_cost_usd 0.25\n" +
+      "policy production\n" +
+      "allow read_logs\n" +
+      "max_autonomous_steps 25"
+  );
+
+  assert.deepEqual(
+    analyzeLsDocument(ast, { file: "program.ls" }).map((diagnostic) => [
+      diagnostic.code,
+      diagnostic.severity,
+      diagnostic.message
+    ]),
+    [
+      [
+        "SEMA_INVALID_BUDGET_LIMIT",
+        "error",
+        "Budget limit 'max_tokens' is 0; expected a positive integer"
+      ],
+      [
+        "SEMA_INVALID_BUDGET_LIMIT",
+        "error",
+        "Budget limit 'max_runtime_seconds' is 1.5; expected a positive integer"
+      ],
+      [
+        "SEMA_BUDGET_EXCEEDS_POLICY",
+        "info",
+        "Budget limit 'max_autonomous_steps' 40 exceeds the policy limit 25; " +
+          "the policy limit applies"
+      ]
+    ]
+  );
+});
@@ -0,0 +1,273 @@
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import test from "node:test";
+import { fileURLToPath } from "node:url";
+
+import { loadSemanticIrContract } from "../../contracts/src/index.ts";
+import { lowerToSemanticIr, parseLsDocument, type DocumentAstNode } from "../src/index.ts";
+
+const testDirectory = path.dirname(fileURLToPath(import.meta.url));
+
+function loadSpecExample(relativePath: string): string {
+  return readFileSync(path.resolve(testDirectory, "../../docs/spec/examples", relativePath), "utf8");
+}
+
+function parseOrFail(source: string): DocumentAstNode {
+  const result = parseLsDocument(source);
+  if (result.ast === null) {
+    assert.fail(`Expected source to parse: ${JSON.stringify(result.diagnostics)}`);
+  }
+
+  return result.ast;
+}
+
+test("lowerToSemanticIr emits a contract accepted by the runtime loader", () => {
+  const ast = parseOrFail(loadSpecExample("valid/multi-capability-check.ls"));
+  const ir = lowerToSemanticIr(ast, {
+    file: "docs/spec/examples/valid/multi-capability-check.ls",
+    now: () => new Date("2026-02-22T12:00:00Z")
+  });
+
+  const loaded = loadSemanticIrContract(ir);
+  assert.equal(loaded.schema_version, "0.1.0");
+  assert.equal(loaded.goal, ast.goal.value);
+  assert.equal(loaded.metadata.created_at, "2026-02-22T12:00:00.000Z");
+  assert.equal(loaded.metadata.source, "docs/spec/examples/valid/multi-capability-check.ls");
+  assert.match(loaded.metadata.ir_id, /^ir-[0-9a-f]{16}$/);
+  assert.deepEqual(loaded.stochastic_nodes, []);
+});
+
+test("lowerToSemanticIr emits one deterministic node per declaration with wired inputs", () => {
+  const ast = parseOrFail(
+    'goal "ship parser"\n' +
+      'capability read_docs "read docs"\n' +
+      'capability write_notes "write notes"\n' +
+      'check cites_sources "response cites sources"'
+  );
+  const ir = lowerToSemanticIr(ast);
+
+  assert.deepEqual(
+    ir.deterministic_nodes.map((node) => [node.id, node.kind, node.inputs, node.outputs]),
+    [
+      ["det-goal", "goal", [], ["ir.goal"]],
+      ["det-capability-read_docs", "capability", ["ir.goal"], ["capability.read_docs"]],
+      ["det-capability-write_notes", "capability", ["ir.goal"], ["capability.write_notes"]],
+      [
+        "det-check-cites_sources",
+        "check",
+        ["capability.read_docs", "capability.write_notes"],
+        ["check.cites_sources"]
+      ]
+    ]
+  );
+});
+
+test("lowerToSemanticIr attaches per-node source spans", () => {
+  const ast = parseOrFail(
+    'goal "ship parser"\n' + 'capability read_docs "read docs"\n\n' + 'check cites_sources "cites"'
+  );
+  const ir = lowerToSemanticIr(ast, { file: "program.ls" });
+
+  const spans = ir.deterministic_nodes.map((node) => node.source_span);
+  assert.deepEqual(
+    spans.map((span) => [span?.file, span?.start.line, span?.start.column]),
+    [
+      ["program.ls", 1, 1],
+      ["program.ls", 2, 1],
+      ["program.ls", 4, 1]
+    ]
+  );
+  assert.deepEqual(spans[1]?.end, ast.capabilities[0]?.range.end);
+});
+
+test("lowerToSemanticIr derives a stable ir_id from declarations unless one is provided", () => {
+  const source = 'goal "ship parser"\ncapability read_docs "read docs"\ncheck cites "cites"';
+  const first = lowerToSemanticIr(parseOrFail(source));
+  const second = lowerToSemanticIr(parseOrFail(`\n\n${source}\n`));
+  const changed = lowerToSemanticIr(parseOrFail(source.replace("read docs", "read all docs")));
+
+  assert.equal(first.metadata.ir_id, second.metadata.ir_id);
+  assert.notEqual(first.metadata.ir_id, changed.metadata.ir_id);
+  assert.equal(lowerToSemanticIr(parseOrFail(source), { irId: " ir-custom " }).metadata.ir_id, "ir-custom");
+});
+
+test("lowerToSemanticIr lowers outcome declarations into numbered outcome conditions", () => {
+  const file = "docs/spec/examples/valid/outcome-conditions.ls";
+  const ast = parseOrFail(loadSpecExample("valid/outcome-conditions.ls"));
+  const ir = lowerToSemanticIr(ast, { file });
+
+  assert.deepEqual(loadSemanticIrContract(ir).outcome_conditions, ir.outcome_conditions);
+  assert.deepEqual(
+    ir.outcome_conditions?.map((condition) => [condition.id, condition.all_of]),
+    [
+      [
+        "outcome-succeed-1",
+        [
+          { kind: "check", check: "cites_log_lines", status: "passed" },
+          { kind: "check", check: "issue_links_build", status: "passed" }
+        ]
+      ],
+      ["outcome-fail-1", [{ kind: "check", check: "no_secret_leak", status: "failed" }]],
+      ["outcome-stop-1", [{ kind: "budget", budget: "max_autonomous_steps", status: "exhausted" }]],
+      ["outcome-stop-2", [{ kind: "budget", budget: "max_runtime_seconds", status: "exhausted" }]]
+    ]
+  );
+  assert.equal(ir.outcome_conditions?.[0]?.source_span?.start.line, 9);
+
+  const withoutOutcomes = lowerToSemanticIr(parseOrFail(loadSpecExample("valid/verify-section.ls")));
+  assert.equal("outcome_conditions" in withoutOutcomes, false);
+});
+
+test("lowerToSemanticIr lowers the budget declaration and folds it into the content id", () => {
+  const file = "docs/spec/examples/valid/budget.ls";
+  const source = loadSpecExample("valid/budget.ls");
+  const ir = lowerToSemanticIr(parseOrFail(source), { file });
+
+  assert.deepEqual(loadSemanticIrContract(ir).budget, ir.budget);
+  const { source_span: span, ...limits } = ir.budget ?? {};
+  assert.deepEqual(limits, {
+    max_tokens: 200000,
+    max_autonomous_steps: 20,
+    max_runtime_seconds: 240,
+    max_cost_usd: 2.5
+  });
+  assert.equal(span?.start.line, 9);
+
+  const loosened = lowerToSemanticIr(
+    parseOrFail(source.replace("max_cost_usd 2.5", "max_cost_usd 3"))
+  );
+  assert.notEqual(loosened.metadata.ir_id, ir.metadata.ir_id);
+  const withoutBudget = lowerToSemanticIr(parseOrFail(loadSpecExample("valid/verify-section.ls")));
+  assert.equal("budget" in withoutBudget, false);
+});
+
+test("lowerToSemanticIr lowers infer declarations to stochastic nodes that feed checks", () => {
+  const ast = parseOrFail(loadSpecExample("valid/infer-steps.ls"));
+  const ir = lowerToSemanticIr(ast, { file: "docs/spec/examples/valid/infer-steps.ls" });
+
+  assert.deepEqual(loadSemanticIrContract(ir).stochastic_nodes, ir.stochastic_nodes);
+  assert.deepEqual(
+    ir.stochastic_nodes.map(({ source_span: _span, ...node }) => node),
+    [
+      {
+        id: "sto-infer-draft_summary",
+        node_class: "stochastic",
+        provider: "openai",
+        prompt: "Summarize the failing build log in three sentences.",
+        temperature: 0.2,
+        min_confidence: 0.8,
+        inputs: ["ir.goal"],
+        outputs: ["infer.draft_summary"]
+      }
+    ]
+  );
+  assert.deepEqual(ir.deterministic_nodes.at(-1)?.inputs, [
+    "capability.read_logs",
+    "infer.draft_summary"
+  ]);
+
+  const defaulted = lowerToSemanticIr(
+    parseOrFail('goal "g"\ncapability a "a"\ninfer d "p" using local\ncheck c "c"')
+  );
+  assert.equal(defaulted.stochastic_nodes[0]?.temperature, 0);
+  assert.equal("min_confidence" in (defaulted.stochastic_nodes[0] ?? {}), false);
+});
+
+test("lowerToSemanticIr wires step nodes from their dependencies and capabilities", () => {
+  const ir = lowerToSemanticIr(parseOrFail(loadSpecExample("valid/steps.ls")));
+
+  assert.deepEqual(
+    ir.deterministic_nodes
+      .filter((node) => node.kind === "step")
+      .map((node) => [node.id, node.inputs, node.outputs]),
+    [
+      ["det-step-collect_logs", ["capability.read_logs"], ["step.collect_logs"]],
+      [
+        "det-step-file_issue",
+        ["step.collect_logs", "capability.open_issue"],
+        ["step.file_issue"]
+      ],
+      ["det-step-notify", ["step.collect_logs", "step.file_issue"], ["step.notify"]]
+    ]
+  );
+  assert.deepEqual(ir.deterministic_nodes.at(-1)?.inputs, [
+    "capability.read_logs",
+    "capability.open_issue",
+    "step.collect_logs",
+    "step.file_issue",
+    "step.notify"
+  ]);
+
+  const standalone = lowerToSemanticIr(
+    parseOrFail('goal "g"\ncapability a "a"\nstep s "s"\ncheck c "c"')
+  );
+  assert.deepEqual(standalone.deterministic_nodes[2]?.inputs, ["ir.goal"]);
+});
+
+test("lowerToSemanticIr carries capability signatures and effects on capability nodes", () => {
+  const source = loadSpecExample("valid/effects.ls");
+  const file = "docs/spec/examples/valid/effects.ls";
+  const ir = lowerToSemanticIr(parseOrFail(source), { file });
+
+  assert.deepEqual(loadSemanticIrContract(ir).deterministic_nodes, ir.deterministic_nodes);
+  const capabilities = ir.deterministic_nodes.filter((node) => node.kind === "capability");
+  assert.deepEqual(
+    capabilities.map((node) => [node.id, node.parameters, node.returns, node.effects]),
+    [
+      ["det-capability-read_logs", [{ name: "build_id", type: "string" }], "json", ["fs.read"]],
+      [
+        "det-capability-open_issue",
+        [
+          { name: "title", type: "string" },
+          { name: "body", type: "string" }
+        ],
+        "string",
+        ["net"]
+      ]
+    ]
+  );
+
+  const widened = lowerToSemanticIr(
+    parseOrFail(source.replace("effects fs.read\n", "effects fs.read fs.write\n"))
+  );
+  assert.notEqual(widened.metadata.ir_id, ir.metadata.ir_id);
+  const unannotated = lowerToSemanticIr(parseOrFail('goal "g"\ncapability a "a"\ncheck c "c"'));
+  assert.equal("effects" in unannotated.deterministic_nodes[1], false);
+});
+
+test("lowerToSemanticIr emits a source map from node and outcome ids to .ls spans", () => {
+  const file = "docs/spec/examples/valid/outcome-conditions.ls";
+  const ir = lowerToSemanticIr(parseOrFail(loadSpecExample("valid/outcome-conditions.ls")), {
+    file
+  });
+
+  assert.deepEqual(loadSemanticIrContract(ir).source_map, ir.source_map);
+  assert.deepEqual(Object.keys(ir.source_map ?? {}), [
+    ...ir.deterministic_nodes.map((node) => node.id),
+    ...(ir.outcome_conditions ?? []).map((condition) => condition.id)
+  ]);
+  assert.deepEqual(ir.source_map?.["outcome-fail-1"], ir.outcome_conditions?.[1]?.source_span);
+  assert.equal(ir.source_map?.["det-goal"]?.file, file);
+  assert.equal(ir.source_map?.["det-goal"]?.start.line, 1);
+
+  const inferred = lowerToSemanticIr(parseOrFail(loadSpecExample("valid/infer-steps.ls")));
+  assert.deepEqual(
+    inferred.source_map?.["sto-infer-draft_summary"],
+    inferred.stochastic_nodes[0]?.source_span
+  );
+});
+
+test("lowerToSemanticIr refuses declarations that would lower to the same node id", () => {
+  const ast = parseOrFail(
+    'goal "ship parser"\n' +
+      'capability read_docs "read docs"\n' +
+      'capability read_docs "read docs again"\n' +
+      'check docs_read "docs were read"\n'
+  );
+
+  assert.throws(
+    () => lowerToSemanticIr(ast, { file: "duplicate.ls" }),
+    /Cannot lower duplicate SemanticIR node 'det-capability-read_docs' at duplicate\.ls:3:1/
+  );
+});
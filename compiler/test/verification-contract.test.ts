@@ -0,0 +1,260 @@
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import test from "node:test";
+import { fileURLToPath } from "node:url";
+
+import {
+  createFeedbackTensorEntry,
+  evaluateContinuationGate,
+  loadVerificationContract
+} from "../../runtime/src/index.ts";
+import {
+  lowerToPolicyProfile,
+  lowerToVerificationContract,
+  parseLsDocument,
+  type DocumentAstNode
+} from "../src/index.ts";
+
+const testDirectory = path.dirname(fileURLToPath(import.meta.url));
+
+function loadSpecExample(relativePath: string): string {
+  return readFileSync(path.resolve(testDirectory, "../../docs/spec/examples", relativePath), "utf8");
+}
+
+function parseOrFail(source: string): DocumentAstNode {
+  const result = parseLsDocument(source);
+  if (result.ast === null) {
+    assert.fail(`Expected source to parse: ${JSON.stringify(result.diagnostics)}`);
+  }
+
+  return result.ast;
+}
+
+const PROGRAM_PREFIX =
+  'goal "triage builds"\n' +
+  'capability read_logs "read logs"\n' +
+  'check cites_logs "cites logs"\n' +
+  'check no_secrets "no secrets"\n';
+
+test("parseLsDocument parses verify section clauses into the document AST", () => {
+  const ast = parseOrFail(loadSpecExample("valid/verify-section.ls"));
+  const verify = ast.verify;
+
+  assert.notEqual(verify, undefined);
+  assert.deepEqual(
+    verify?.requirements.map((requirement) => [
+      requirement.requirementKind,
+      requirement.check.name,
+      requirement.required
+    ]),
+    [
+      ["test", "cites_log_lines", true],
+      ["test", "issue_links_build", false],
+      ["static_analysis", "no_secret_leak", true]
+    ]
+  );
+  assert.deepEqual(
+    verify?.assertions.map((assertion) => [assertion.id.name, assertion.expected.kind]),
+    [
+      ["manual_escalation", "StringLiteral"],
+      ["bounded_steps", "NumberLiteral"]
+    ]
+  );
+  assert.deepEqual(
+    verify?.settings.map((setting) => setting.name),
+    ["min_pass_ratio", "max_warnings", "on_failure"]
+  );
+  assert.equal(verify?.range.start.line, 15);
+  assert.deepEqual(ast.range.end, verify?.range.end);
+});
+
+test("lowerToVerificationContract emits requirement ids matching check identifiers", () => {
+  const ast = parseOrFail(loadSpecExample("valid/verify-section.ls"));
+  const result = lowerToVerificationContract(ast, {
+    now: () => new Date("2026-02-22T12:00:00Z")
+  });
+
+  assert.deepEqual(result.diagnostics, []);
+  const contract = loadVerificationContract(result.verificationContract);
+  assert.match(contract.contract_id, /^verification-[0-9a-f]{16}$/);
+  assert.equal(contract.generated_at, "2026-02-22T12:00:00.000Z");
+  assert.deepEqual(contract.requirements.tests, [
+    { id: "cites_log_lines", description: "response cites failing log lines", required: true },
+    { id: "issue_links_build", description: "issue links the failing build", required: false }
+  ]);
+  assert.deepEqual(contract.requirements.static_analysis, [
+    { id: "no_secret_leak", description: "issue body contains no secrets", required: true }
+  ]);
+  assert.deepEqual(contract.requirements.policy_assertions[1], {
+    id: "bounded_steps",
+    policy_path: "constraints.max_autonomous_steps",
+    expected: 25,
+    required: true
+  });
+  assert.deepEqual(contract.pass_criteria, {
+    minimum_required_checks_pass_ratio: 1,
+    require_all_policy_assertions: true,
+    max_warning_count: 0
+  });
+  assert.equal(contract.continuation.on_failure, "escalate");
+});
+
+test("compiled verification and policy contracts feed evaluateContinuationGate directly", () => {
+  const ast = parseOrFail(loadSpecExample("valid/verify-section.ls"));
+  const verificationContract = lowerToVerificationContract(ast).verificationContract;
+  const policyProfile = lowerToPolicyProfile(ast).policyProfile;
+  assert.notEqual(verificationContract, null);
+  assert.notEqual(policyProfile, null);
+  if (verificationContract === null || policyProfile === null) {
+    return;
+  }
+
+  const feedbackTensor = createFeedbackTensorEntry({
+    feedbackId: "ft-compiled-gate-001",
+    generatedAt: "2026-02-22T12:00:00.000Z",
+    failureSignal: {
+      class: "policy_gate",
+      stage: "policy",
+      summary: "Compiled verification gate evaluated.",
+      continuationAllowed: true
+    },
+    confidence: { score: 0.9, rationale: "Deterministic checks passed.", calibrationBand: "high" },
+    alternatives: [],
+    proposedRepairAction: {
+      action: "request_manual_review",
+      rationale: "Escalate when compiled verification requirements fail.",
+      requires_human_approval: true
+    },
+    provenance: {
+      runId: "run-compiled-gate-001",
+      sourceStage: "policy_gate",
+      contractVersions: { semanticIr: "0.1.0", policyProfile: "0.1.0" }
+    }
+  });
+  const checks = [
+    ...verificationContract.requirements.tests.map((requirement) => ({
+      id: requirement.id,
+      kind: "test" as const,
+      passed: true
+    })),
+    ...verificationContract.requirements.static_analysis.map((requirement) => ({
+      id: requirement.id,
+      kind: "static_analysis" as const,
+      passed: true
+    }))
+  ];
+
+  const passed = evaluateContinuationGate({
+    verificationContract,
+    policyProfile,
+    verificationStatus: { checks, warningCount: 0 },
+    feedbackTensor
+  });
+  assert.equal(passed.reasonCode, "VERIFICATION_GATE_PASSED");
+  assert.equal(passed.requiredChecksTotal, 3);
+
+  const failed = evaluateContinuationGate({
+    verificationContract,
+    policyProfile,
+    verificationStatus: {
+      checks: checks.map((check) => ({ ...check, passed: check.id !== "no_secret_leak" })),
+      warningCount: 0
+    },
+    feedbackTensor
+  });
+  assert.equal(failed.decision, "escalate");
+  assert.equal(failed.reasonCode, "VERIFICATION_REQUIRED_CHECKS_BELOW_THRESHOLD");
+});
+
+test("lowerToVerificationContract maps schema violations to verify clause spans", () => {
+  const ast = parseOrFail(
+    PROGRAM_PREFIX +
+      "verify\n" +
+      "test cites_logs\n" +
+      "static_analysis no_secrets optional\n" +
+      'assert bounded "constraints.max_autonomous_steps" 10\n' +
+      "min_pass_ratio 1.5\n" +
+      "on_failure retry"
+  );
+  const result = lowerToVerificationContract(ast, { file: "program.ls" });
+
+  assert.equal(result.verificationContract, null);
+  assert.ok(
+    result.diagnostics.every((diagnostic) => diagnostic.code === "LOWER_VERIFY_SCHEMA_VIOLATION")
+  );
+  assert.ok(result.diagnostics.every((diagnostic) => diagnostic.span.file === "program.ls"));
+
+  const locations = result.diagnostics.map((diagnostic) => [
+    diagnostic.message.split(" ")[1],
+    diagnostic.span.start.line,
+    diagnostic.span.start.column
+  ]);
+  assert.deepEqual(
+    locations.sort(),
+    [
+      ["/continuation/on_failure", 10, 12],
+      ["/pass_criteria/minimum_required_checks_pass_ratio", 9, 16],
+      ["/requirements/static_analysis", 5, 1],
+      ["/requirements/static_analysis/0/required", 7, 1]
+    ].sort()
+  );
+});
+
+test("lowerToVerificationContract reports unknown and duplicate verify requirements", () => {
+  const ast = parseOrFail(
+    PROGRAM_PREFIX +
+      "verify\n" +
+      "test cites_logs\n" +
+      "static_analysis cites_logs\n" +
+      "test missing_check"
+  );
+  const result = lowerToVerificationContract(ast);
+
+  assert.equal(result.verificationContract, null);
+  assert.deepEqual(
+    result.diagnostics.map((diagnostic) => [
+      diagnostic.code,
+      diagnostic.span.start.line,
+      diagnostic.span.start.column
+    ]),
+    [
+      ["LOWER_VERIFY_DUPLICATE_CHECK", 7, 17],
+      ["LOWER_VERIFY_UNKNOWN_CHECK", 8, 6]
+    ]
+  );
+});
+
+test("lowerToVerificationContract reports a missing verify section", () => {
+  const result = lowerToVerificationContract(parseOrFail(PROGRAM_PREFIX));
+
+  assert.equal(result.verificationContract, null);
+  assert.equal(result.diagnostics[0]?.code, "LOWER_VERIFY_MISSING");
+  assert.equal(result.diagnostics[0]?.severity, "error");
+});
+
+test("parseLsDocument reports malformed verify clauses", () => {
+  const result = parseLsDocument(
+    PROGRAM_PREFIX +
+      "verify\n" +
+      "test\n" +
+      "static_analysis no_secrets maybe\n" +
+      'assert bounded "constraints.max_autonomous_steps" nope\n' +
+      "retries 3\n" +
+      'capability late "capabilities cannot follow verify"\n' +
+      "verify"
+  );
+
+  assert.equal(result.ast, null);
+  assert.deepEqual(
+    result.diagnostics.map((diagnostic) => [diagnostic.span.start.line, diagnostic.message]),
+    [
+      [6, "Expected check identifier after 'test'"],
+      [7, "Expected 'required' or 'optional'"],
+      [8, "Expected a quoted string, number, 'true', or 'false' as the asserted policy value"],
+      [9, "Unknown verify clause 'retries'"],
+      [10, "Unexpected 'capability' declaration after the verify section begins"],
+      [11, "Only one verify section is allowed"]
+    ]
+  );
+});
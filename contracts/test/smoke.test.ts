@@ -0,0 +1,43 @@
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import test from "node:test";
+
+import {
+  ContractValidationError,
+  loadPolicyProfileContract,
+  loadSemanticIrContract,
+  loadVerificationContract
+} from "../src/index.ts";
+
+function loadJson(relativePathFromThisTest: string): unknown {
+  const fileContents = readFileSync(new URL(relativePathFromThisTest, import.meta.url), "utf8");
+  return JSON.parse(fileContents) as unknown;
+}
+
+test("contract loaders accept the canonical spec examples", () => {
+  const semanticIr = loadSemanticIrContract(
+    loadJson("../../docs/spec/examples/semanticir/valid/canonical-v0.json")
+  );
+  const policyProfile = loadPolicyProfileContract(
+    loadJson("../../docs/spec/examples/policyprofile/valid/production-restricted.json")
+  );
+  const verificationContract = loadVerificationContract(
+    loadJson("../../docs/spec/examples/verificationcontract/valid/strict-stop-on-failure.json")
+  );
+
+  assert.equal(semanticIr.schema_version, "0.1.0");
+  assert.equal(policyProfile.metadata.environment, "production");
+  assert.equal(verificationContract.continuation.on_failure, "stop");
+});
+
+test("contract loaders reject incompatible schema versions", () => {
+  assert.throws(
+    () => loadPolicyProfileContract({ schema_version: "9.0.0" }),
+    (error) => {
+      assert.ok(error instanceof ContractValidationError);
+      assert.equal(error.contract, "PolicyProfile");
+      assert.equal(error.code, "VERSION_INCOMPATIBLE");
+      return true;
+    }
+  );
+});
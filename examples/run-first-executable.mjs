@@ -1,54 +1,61 @@
 import { readFileSync } from "node:fs";
-import { resolve } from "node:path";
+import { relative, resolve } from "node:path";
 import { fileURLToPath } from "node:url";
 
-import { parseLsDocument } from "../compiler/src/index.ts";
+import {
+  analyzeLsDocument,
+  formatDiagnostics,
+  hasErrorDiagnostics,
+  lowerToSemanticIr,
+  parseLsDocument
+} from "../compiler/src/index.ts";
 import { runSemanticIr } from "../runtime/src/index.ts";
 
+// Stand-ins for real capability and check implementations: capabilities report that they ran,
+// and a check passes once every capability it depends on produced a value.
+const nodeHandlers = {
+  goal: (_node, _inputs, context) => ({ "ir.goal": context.goal }),
+  capability: (node) =>
+    Object.fromEntries(node.outputs.map((output) => [output, `${node.id} completed`])),
+  check: (node, inputs) =>
+    Object.fromEntries(
+      node.outputs.map((output) => [output, Object.values(inputs).every((value) => value !== null)])
+    )
+};
+
 function readExampleSource(examplePath) {
   return readFileSync(examplePath, "utf8");
 }
 
-function parseExample(source) {
-  const parsed = parseLsDocument(source);
-  if (parsed.ast === null || parsed.diagnostics.length > 0) {
-    throw new Error(
-      JSON.stringify(
-        {
-          message: "Example failed to parse",
-          diagnostics: parsed.diagnostics
-        },
-        null,
-        2
-      )
-    );
+function compileExample(source, file) {
+  const parsed = parseLsDocument(source, { file });
+  const diagnostics =
+    parsed.ast === null
+      ? parsed.diagnostics
+      : [...parsed.diagnostics, ...analyzeLsDocument(parsed.ast, { file })];
+  if (parsed.ast === null || hasErrorDiagnostics(diagnostics)) {
+    console.error(formatDiagnostics(source, diagnostics, { file, color: process.stderr.isTTY }));
+    process.exit(1);
   }
 
-  return parsed.ast;
-}
-
-function toRuntimeInput(ast) {
-  return {
-    version: "0.1.0",
-    goal: ast.goal.value
-  };
+  return lowerToSemanticIr(parsed.ast, { file });
 }
 
-function main() {
+async function main() {
   const examplesRoot = fileURLToPath(new URL(".", import.meta.url));
   const inputPath = resolve(examplesRoot, process.argv[2] ?? "./first-executable.ls");
+  const file = relative(resolve(examplesRoot, ".."), inputPath);
 
   const source = readExampleSource(inputPath);
-  const ast = parseExample(source);
-  const runtimeInput = toRuntimeInput(ast);
-  const runtimeResult = runSemanticIr(runtimeInput);
+  const semanticIr = compileExample(source, file);
+  const runtimeResult = await runSemanticIr(semanticIr, { nodeHandlers });
 
   console.log(
     JSON.stringify(
       {
         ok: runtimeResult.ok,
         inputPath,
-        runtimeInput,
+        semanticIr,
         runtimeResult
       },
       null,
@@ -57,4 +64,4 @@ function main() {
   );
 }
 
-main();
+await main();
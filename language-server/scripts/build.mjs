@@ -0,0 +1,8 @@
+import { mkdirSync, writeFileSync } from "node:fs";
+
+mkdirSync("dist", { recursive: true });
+writeFileSync(
+  "dist/BUILD_ARTIFACT.txt",
+  "language-server build placeholder\n",
+  "utf8"
+);
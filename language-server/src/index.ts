@@ -0,0 +1,45 @@
+export {
+  JSON_RPC_INVALID_PARAMS,
+  JSON_RPC_METHOD_NOT_FOUND,
+  LSP_SERVER_NOT_INITIALIZED,
+  createJsonRpcMessageReader,
+  encodeJsonRpcMessage,
+  isJsonRpcNotification,
+  isJsonRpcRequest
+} from "./json-rpc.ts";
+export {
+  LS_DIAGNOSTIC_SOURCE,
+  getLsCompletions,
+  getLsDefinition,
+  getLsDiagnostics,
+  getLsDocumentSymbols,
+  getLsHover
+} from "./language-features.ts";
+export {
+  LANGUAGE_SERVER_NAME,
+  LANGUAGE_SERVER_VERSION,
+  createLanguageServer
+} from "./server.ts";
+export {
+  LSP_COMPLETION_ITEM_KIND,
+  LSP_DIAGNOSTIC_SEVERITY,
+  LSP_SYMBOL_KIND,
+  LSP_TEXT_DOCUMENT_SYNC_FULL
+} from "./protocol.ts";
+export type {
+  JsonRpcId,
+  JsonRpcMessage,
+  JsonRpcNotification,
+  JsonRpcRequest,
+  JsonRpcResponse
+} from "./json-rpc.ts";
+export type { CreateLanguageServerOptions, LanguageServer } from "./server.ts";
+export type {
+  LspCompletionItem,
+  LspDiagnostic,
+  LspDocumentSymbol,
+  LspHover,
+  LspLocation,
+  LspPosition,
+  LspRange
+} from "./protocol.ts";
@@ -0,0 +1,92 @@
+export type JsonRpcId = number | string;
+
+export interface JsonRpcRequest {
+  jsonrpc: "2.0";
+  id: JsonRpcId;
+  method: string;
+  params?: unknown;
+}
+
+export interface JsonRpcNotification {
+  jsonrpc: "2.0";
+  method: string;
+  params?: unknown;
+}
+
+export interface JsonRpcResponse {
+  jsonrpc: "2.0";
+  id: JsonRpcId | null;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+export type JsonRpcMessage = JsonRpcRequest | JsonRpcNotification | JsonRpcResponse;
+
+export const JSON_RPC_METHOD_NOT_FOUND = -32601;
+export const JSON_RPC_INVALID_PARAMS = -32602;
+export const LSP_SERVER_NOT_INITIALIZED = -32002;
+
+const HEADER_DELIMITER = "\r\n\r\n";
+const CONTENT_LENGTH_PATTERN = /^Content-Length:\s*(\d+)\s*$/im;
+
+export function encodeJsonRpcMessage(message: JsonRpcMessage): Buffer {
+  const body = Buffer.from(JSON.stringify(message), "utf8");
+  const header = Buffer.from(`Content-Length: ${body.length}${HEADER_DELIMITER}`, "ascii");
+  return Buffer.concat([header, body]);
+}
+
+export function isJsonRpcRequest(message: JsonRpcMessage): message is JsonRpcRequest {
+  return "method" in message && "id" in message;
+}
+
+export function isJsonRpcNotification(message: JsonRpcMessage): message is JsonRpcNotification {
+  return "method" in message && !("id" in message);
+}
+
+// Splits a byte stream into LSP base-protocol frames (`Content-Length` header + JSON body).
+export function createJsonRpcMessageReader(
+  onMessage: (message: JsonRpcMessage) => void,
+  onError: (error: Error) => void = () => {}
+): (chunk: Buffer) => void {
+  let buffer = Buffer.alloc(0);
+
+  return (chunk) => {
+    buffer = Buffer.concat([buffer, chunk]);
+
+    while (true) {
+      const headerEnd = buffer.indexOf(HEADER_DELIMITER);
+      if (headerEnd === -1) {
+        return;
+      }
+
+      const header = buffer.subarray(0, headerEnd).toString("ascii");
+      const match = CONTENT_LENGTH_PATTERN.exec(header);
+      const bodyStart = headerEnd + HEADER_DELIMITER.length;
+      if (match === null) {
+        buffer = buffer.subarray(bodyStart);
+        onError(new Error("JSON-RPC frame is missing a Content-Length header"));
+        continue;
+      }
+
+      const bodyEnd = bodyStart + Number(match[1]);
+      if (buffer.length < bodyEnd) {
+        return;
+      }
+
+      const body = buffer.subarray(bodyStart, bodyEnd).toString("utf8");
+      buffer = buffer.subarray(bodyEnd);
+      let message: unknown;
+      try {
+        message = JSON.parse(body) as unknown;
+      } catch (error) {
+        onError(error instanceof Error ? error : new Error(String(error)));
+        continue;
+      }
+      if (typeof message !== "object" || message === null || Array.isArray(message)) {
+        onError(new Error("JSON-RPC message must be a JSON object"));
+        continue;
+      }
+      onMessage(message as JsonRpcMessage);
+    }
+  };
+}
@@ -0,0 +1,391 @@
+import {
+  analyzeLsDocument,
+  lex,
+  parseLsDocument,
+  parseLsModule,
+  validateCapabilityNamespaces,
+  type Diagnostic,
+  type SourcePosition,
+  type SourceRange,
+  type Token
+} from "../../compiler/src/index.ts";
+import {
+  LSP_COMPLETION_ITEM_KIND,
+  LSP_DIAGNOSTIC_SEVERITY,
+  LSP_SYMBOL_KIND,
+  type LspCompletionItem,
+  type LspDiagnostic,
+  type LspDocumentSymbol,
+  type LspHover,
+  type LspLocation,
+  type LspPosition,
+  type LspRange
+} from "./protocol.ts";
+
+export const LS_DIAGNOSTIC_SOURCE = "l-semantica";
+
+const DECLARATION_KEYWORDS = [
+  "import",
+  "goal",
+  "capability",
+  "infer",
+  "step",
+  "check",
+  "budget",
+  "policy",
+  "verify"
+];
+const POLICY_CLAUSE_KEYWORDS = [
+  "allow",
+  "deny",
+  "escalate",
+  "effects",
+  "max_autonomous_steps",
+  "max_runtime_seconds",
+  "require_human_review_on_policy_violation",
+  "escalation_default"
+];
+const VERIFY_CLAUSE_KEYWORDS = [
+  "test",
+  "static_analysis",
+  "assert",
+  "min_pass_ratio",
+  "max_warnings",
+  "on_failure"
+];
+const VERIFY_REQUIREMENT_CLAUSES = new Set(["test", "static_analysis"]);
+const OUTCOME_KEYWORDS = ["succeed", "fail", "stop"];
+const BUDGET_LIMIT_KEYWORDS = [
+  "max_tokens",
+  "max_autonomous_steps",
+  "max_runtime_seconds",
+  "max_cost_usd"
+];
+const CAPABILITY_EFFECT_KEYWORDS = ["fs.read", "fs.write", "net", "exec"];
+const CAPABILITY_TYPE_KEYWORDS = ["string", "number", "boolean", "json"];
+const CHECK_CONDITION_STATUSES = new Set(["passes", "fails"]);
+
+type LsSymbolKind = "goal" | "capability" | "check";
+type LsSection = "declarations" | "policy" | "verify";
+
+interface LsSymbol {
+  kind: LsSymbolKind;
+  name: string;
+  description: string;
+  docs?: string;
+  nameRange: SourceRange;
+  range: SourceRange;
+}
+
+interface LsReference {
+  kind: "capability" | "check";
+  name: string;
+  range: SourceRange;
+}
+
+interface LsDocumentIndex {
+  symbols: LsSymbol[];
+  references: LsReference[];
+  lines: Array<{ section: LsSection; tokens: Token[] }>;
+}
+
+function toLspPosition(position: SourcePosition): LspPosition {
+  return { line: position.line - 1, character: position.column - 1 };
+}
+
+export function toLspRange(range: SourceRange): LspRange {
+  return { start: toLspPosition(range.start), end: toLspPosition(range.end) };
+}
+
+function containsPosition(range: SourceRange, position: LspPosition): boolean {
+  const start = toLspPosition(range.start);
+  const end = toLspPosition(range.end);
+  const afterStart =
+    position.line > start.line ||
+    (position.line === start.line && position.character >= start.character);
+  const beforeEnd =
+    position.line < end.line || (position.line === end.line && position.character <= end.character);
+  return afterStart && beforeEnd;
+}
+
+function docsOf(token: Token): string | undefined {
+  const docs = (token.leadingTrivia ?? [])
+    .filter((trivia) => trivia.kind === "DocComment")
+    .map((trivia) => trivia.value);
+  return docs.length > 0 ? docs.join("\n") : undefined;
+}
+
+function splitTokenLines(tokens: Token[]): Token[][] {
+  const lines: Token[][] = [];
+  let current: Token[] = [];
+  for (const token of tokens) {
+    if (token.kind === "Newline" || token.kind === "EOF") {
+      if (current.length > 0) {
+        lines.push(current);
+      }
+      current = [];
+      continue;
+    }
+    current.push(token);
+  }
+
+  return lines;
+}
+
+// Indexes declarations and references from tokens so editor features keep working while the
+// document has parse errors.
+function indexDocument(text: string): LsDocumentIndex {
+  const index: LsDocumentIndex = { symbols: [], references: [], lines: [] };
+  let section: LsSection = "declarations";
+
+  for (const tokens of splitTokenLines(lex(text).tokens)) {
+    const [keyword, name, description] = tokens;
+    if (keyword.kind === "PolicyKeyword") {
+      section = "policy";
+    } else if (keyword.kind === "VerifyKeyword") {
+      section = "verify";
+    }
+    index.lines.push({ section, tokens });
+
+    if (keyword.kind === "GoalKeyword" && name?.kind === "StringLiteral") {
+      index.symbols.push({
+        kind: "goal",
+        name: name.value ?? "",
+        description: name.value ?? "",
+        docs: docsOf(keyword),
+        nameRange: name.range,
+        range: { start: keyword.range.start, end: name.range.end }
+      });
+    } else if (
+      (keyword.kind === "CapabilityKeyword" || keyword.kind === "CheckKeyword") &&
+      name?.kind === "Identifier"
+    ) {
+      const end = description?.kind === "StringLiteral" ? description.range.end : name.range.end;
+      index.symbols.push({
+        kind: keyword.kind === "CapabilityKeyword" ? "capability" : "check",
+        name: name.lexeme,
+        description: description?.kind === "StringLiteral" ? description.value ?? "" : "",
+        docs: docsOf(keyword),
+        nameRange: name.range,
+        range: { start: keyword.range.start, end }
+      });
+    } else if (keyword.kind === "AllowKeyword" || keyword.kind === "DenyKeyword") {
+      for (const token of tokens.slice(1)) {
+        if (token.kind === "Identifier") {
+          index.references.push({ kind: "capability", name: token.lexeme, range: token.range });
+        }
+      }
+    } else if (keyword.kind === "StepKeyword") {
+      const usesIndex = tokens.findIndex((token) => token.lexeme === "uses");
+      for (const token of usesIndex === -1 ? [] : tokens.slice(usesIndex + 1)) {
+        if (token.kind !== "Identifier" || token.lexeme === "after") {
+          break;
+        }
+        index.references.push({ kind: "capability", name: token.lexeme, range: token.range });
+      }
+    } else if (keyword.kind === "EscalateKeyword" && name?.kind === "Identifier") {
+      index.references.push({ kind: "capability", name: name.lexeme, range: name.range });
+    } else if (
+      section === "verify" &&
+      keyword.kind === "Identifier" &&
+      VERIFY_REQUIREMENT_CLAUSES.has(keyword.lexeme) &&
+      name?.kind === "Identifier"
+    ) {
+      index.references.push({ kind: "check", name: name.lexeme, range: name.range });
+    } else if (
+      keyword.kind === "Identifier" &&
+      OUTCOME_KEYWORDS.includes(keyword.lexeme) &&
+      name?.kind === "Identifier" &&
+      name.lexeme === "when"
+    ) {
+      tokens.forEach((token, position) => {
+        const status = tokens[position + 1];
+        if (
+          token.kind === "Identifier" &&
+          status?.kind === "Identifier" &&
+          CHECK_CONDITION_STATUSES.has(status.lexeme)
+        ) {
+          index.references.push({ kind: "check", name: token.lexeme, range: token.range });
+        }
+      });
+    }
+  }
+
+  return index;
+}
+
+function findSymbol(index: LsDocumentIndex, kind: LsSymbolKind, name: string): LsSymbol | undefined {
+  return index.symbols.find((symbol) => symbol.kind === kind && symbol.name === name);
+}
+
+// Resolves the declaration targeted at `position`, whether it is the declared name or a reference.
+function findSymbolAt(
+  index: LsDocumentIndex,
+  position: LspPosition
+): { symbol: LsSymbol; range: SourceRange } | undefined {
+  const declared = index.symbols.find(
+    (symbol) => symbol.kind !== "goal" && containsPosition(symbol.nameRange, position)
+  );
+  if (declared !== undefined) {
+    return { symbol: declared, range: declared.nameRange };
+  }
+
+  const reference = index.references.find((entry) => containsPosition(entry.range, position));
+  const symbol = reference && findSymbol(index, reference.kind, reference.name);
+  return reference !== undefined && symbol !== undefined
+    ? { symbol, range: reference.range }
+    : undefined;
+}
+
+function toLspDiagnostic(diagnostic: Diagnostic): LspDiagnostic {
+  return {
+    range: toLspRange(diagnostic.span),
+    severity: LSP_DIAGNOSTIC_SEVERITY[diagnostic.severity],
+    code: diagnostic.code,
+    source: LS_DIAGNOSTIC_SOURCE,
+    message: diagnostic.message
+  };
+}
+
+export function getLsDiagnostics(text: string, uri: string): LspDiagnostic[] {
+  // Files without a goal are treated as importable modules.
+  const isModule = !lex(text).tokens.some((token) => token.kind === "GoalKeyword");
+  if (isModule) {
+    return parseLsModule(text, { file: uri }).diagnostics.map(toLspDiagnostic);
+  }
+
+  const parsed = parseLsDocument(text, { file: uri });
+  if (parsed.ast === null) {
+    return parsed.diagnostics.map(toLspDiagnostic);
+  }
+
+  return [
+    ...validateCapabilityNamespaces(parsed.ast, { file: uri }),
+    ...analyzeLsDocument(parsed.ast, { file: uri })
+  ].map(toLspDiagnostic);
+}
+
+function keywordItems(keywords: string[]): LspCompletionItem[] {
+  return keywords.map((label) => ({ label, kind: LSP_COMPLETION_ITEM_KIND.keyword }));
+}
+
+function symbolItems(index: LsDocumentIndex, kind: "capability" | "check"): LspCompletionItem[] {
+  return index.symbols
+    .filter((symbol) => symbol.kind === kind)
+    .map((symbol) => ({
+      label: symbol.name,
+      kind: kind === "capability" ? LSP_COMPLETION_ITEM_KIND.function : LSP_COMPLETION_ITEM_KIND.event,
+      detail: kind,
+      documentation: symbol.description
+    }));
+}
+
+function sectionAt(index: LsDocumentIndex, line: number): LsSection {
+  let section: LsSection = "declarations";
+  for (const entry of index.lines) {
+    if (entry.tokens[0].range.start.line - 1 > line) {
+      break;
+    }
+    section = entry.section;
+  }
+
+  return section;
+}
+
+export function getLsCompletions(text: string, position: LspPosition): LspCompletionItem[] {
+  const index = indexDocument(text);
+  const lineText = text.split(/\r?\n/)[position.line] ?? "";
+  const words = lineText.slice(0, position.character).trimStart().split(/\s+/);
+  const section = sectionAt(index, position.line);
+
+  if (words.length <= 1) {
+    if (section === "policy") {
+      return keywordItems([...POLICY_CLAUSE_KEYWORDS, ...DECLARATION_KEYWORDS]);
+    }
+    if (section === "verify") {
+      return keywordItems([...VERIFY_CLAUSE_KEYWORDS, ...DECLARATION_KEYWORDS]);
+    }
+    return keywordItems([...DECLARATION_KEYWORDS, ...OUTCOME_KEYWORDS]);
+  }
+
+  const clause = words[0];
+  if (clause === "allow" || clause === "deny" || (clause === "escalate" && words.length === 2)) {
+    return symbolItems(index, "capability");
+  }
+  if (section === "verify" && VERIFY_REQUIREMENT_CLAUSES.has(clause) && words.length === 2) {
+    return symbolItems(index, "check");
+  }
+  if (clause === "step" && words.lastIndexOf("uses") > words.lastIndexOf("after")) {
+    return symbolItems(index, "capability");
+  }
+  if (clause === "capability" && words[words.length - 2] === "returns") {
+    return keywordItems(CAPABILITY_TYPE_KEYWORDS);
+  }
+  // Effects follow the policy `effects` clause, or a capability's last clause keyword.
+  const lastCapabilityClause = Math.max(
+    ...["takes", "returns", "effects"].map((keyword) => words.lastIndexOf(keyword))
+  );
+  if (
+    (section === "policy" && clause === "effects") ||
+    (clause === "capability" && words[lastCapabilityClause] === "effects")
+  ) {
+    return keywordItems(CAPABILITY_EFFECT_KEYWORDS.filter((effect) => !words.includes(effect)));
+  }
+  // Budget lines alternate limit names and numbers; only offer limits not yet declared.
+  if (clause === "budget" && words.length % 2 === 0) {
+    return keywordItems(BUDGET_LIMIT_KEYWORDS.filter((limit) => !words.includes(limit)));
+  }
+  if (section === "declarations" && OUTCOME_KEYWORDS.includes(clause)) {
+    if (words.length === 2) {
+      return keywordItems(["when"]);
+    }
+    const previous = words[words.length - 2];
+    if (words[1] === "when" && (previous === "when" || previous === "and")) {
+      return [...symbolItems(index, "check"), ...keywordItems(BUDGET_LIMIT_KEYWORDS)];
+    }
+  }
+
+  return [];
+}
+
+export function getLsHover(text: string, position: LspPosition): LspHover | null {
+  const target = findSymbolAt(indexDocument(text), position);
+  if (target === undefined) {
+    return null;
+  }
+
+  const { symbol } = target;
+  const sections = [`**${symbol.kind}** \`${symbol.name}\``, symbol.description];
+  if (symbol.docs !== undefined) {
+    sections.push(symbol.docs);
+  }
+
+  return {
+    contents: { kind: "markdown", value: sections.filter((part) => part.length > 0).join("\n\n") },
+    range: toLspRange(target.range)
+  };
+}
+
+export function getLsDefinition(
+  text: string,
+  uri: string,
+  position: LspPosition
+): LspLocation | null {
+  const target = findSymbolAt(indexDocument(text), position);
+  return target !== undefined ? { uri, range: toLspRange(target.symbol.nameRange) } : null;
+}
+
+export function getLsDocumentSymbols(text: string): LspDocumentSymbol[] {
+  return indexDocument(text).symbols.map((symbol) => ({
+    name: symbol.kind === "goal" ? "goal" : symbol.name,
+    detail: symbol.kind === "goal" ? symbol.description : `${symbol.kind}: ${symbol.description}`,
+    kind:
+      symbol.kind === "goal"
+        ? LSP_SYMBOL_KIND.string
+        : symbol.kind === "capability"
+          ? LSP_SYMBOL_KIND.function
+          : LSP_SYMBOL_KIND.boolean,
+    range: toLspRange(symbol.range),
+    selectionRange: toLspRange(symbol.nameRange)
+  }));
+}
@@ -0,0 +1,64 @@
+// Subset of the Language Server Protocol 3.17 types used by this server.
+
+export interface LspPosition {
+  line: number;
+  character: number;
+}
+
+export interface LspRange {
+  start: LspPosition;
+  end: LspPosition;
+}
+
+export interface LspLocation {
+  uri: string;
+  range: LspRange;
+}
+
+export const LSP_DIAGNOSTIC_SEVERITY = {
+  error: 1,
+  warning: 2,
+  info: 3
+} as const;
+
+export interface LspDiagnostic {
+  range: LspRange;
+  severity: (typeof LSP_DIAGNOSTIC_SEVERITY)[keyof typeof LSP_DIAGNOSTIC_SEVERITY];
+  code: string;
+  source: string;
+  message: string;
+}
+
+export const LSP_COMPLETION_ITEM_KIND = {
+  function: 3,
+  keyword: 14,
+  event: 23
+} as const;
+
+export interface LspCompletionItem {
+  label: string;
+  kind: (typeof LSP_COMPLETION_ITEM_KIND)[keyof typeof LSP_COMPLETION_ITEM_KIND];
+  detail?: string;
+  documentation?: string;
+}
+
+export interface LspHover {
+  contents: { kind: "markdown"; value: string };
+  range: LspRange;
+}
+
+export const LSP_SYMBOL_KIND = {
+  function: 12,
+  string: 15,
+  boolean: 17
+} as const;
+
+export interface LspDocumentSymbol {
+  name: string;
+  detail: string;
+  kind: (typeof LSP_SYMBOL_KIND)[keyof typeof LSP_SYMBOL_KIND];
+  range: LspRange;
+  selectionRange: LspRange;
+}
+
+export const LSP_TEXT_DOCUMENT_SYNC_FULL = 1;
@@ -0,0 +1,204 @@
+import {
+  JSON_RPC_INVALID_PARAMS,
+  JSON_RPC_METHOD_NOT_FOUND,
+  LSP_SERVER_NOT_INITIALIZED,
+  isJsonRpcNotification,
+  isJsonRpcRequest,
+  type JsonRpcMessage,
+  type JsonRpcRequest
+} from "./json-rpc.ts";
+import {
+  getLsCompletions,
+  getLsDefinition,
+  getLsDiagnostics,
+  getLsDocumentSymbols,
+  getLsHover
+} from "./language-features.ts";
+import { LSP_TEXT_DOCUMENT_SYNC_FULL, type LspPosition } from "./protocol.ts";
+
+export const LANGUAGE_SERVER_NAME = "l-semantica-language-server";
+export const LANGUAGE_SERVER_VERSION = "0.1.0";
+
+export interface CreateLanguageServerOptions {
+  send: (message: JsonRpcMessage) => void;
+  onExit?: (exitCode: number) => void;
+}
+
+export interface LanguageServer {
+  handleMessage: (message: JsonRpcMessage) => void;
+}
+
+interface TextDocumentPositionParams {
+  textDocument: { uri: string };
+  position: LspPosition;
+}
+
+class InvalidParamsError extends Error {}
+
+function readObject(value: unknown, name: string): Record<string, unknown> {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new InvalidParamsError(`Expected '${name}' to be an object`);
+  }
+
+  return value as Record<string, unknown>;
+}
+
+function readString(record: Record<string, unknown>, key: string): string {
+  const value = record[key];
+  if (typeof value !== "string") {
+    throw new InvalidParamsError(`Expected '${key}' to be a string`);
+  }
+
+  return value;
+}
+
+function readUri(params: unknown): string {
+  return readString(readObject(readObject(params, "params").textDocument, "textDocument"), "uri");
+}
+
+function readPositionParams(params: unknown): TextDocumentPositionParams {
+  const position = readObject(readObject(params, "params").position, "position");
+  if (typeof position.line !== "number" || typeof position.character !== "number") {
+    throw new InvalidParamsError("Expected 'position' to have numeric line and character");
+  }
+
+  return {
+    textDocument: { uri: readUri(params) },
+    position: { line: position.line, character: position.character }
+  };
+}
+
+export function createLanguageServer(options: CreateLanguageServerOptions): LanguageServer {
+  const documents = new Map<string, string>();
+  let initialized = false;
+  let shutdownRequested = false;
+
+  const publishDiagnostics = (uri: string): void => {
+    const text = documents.get(uri);
+    options.send({
+      jsonrpc: "2.0",
+      method: "textDocument/publishDiagnostics",
+      params: { uri, diagnostics: text !== undefined ? getLsDiagnostics(text, uri) : [] }
+    });
+  };
+
+  const documentText = (uri: string): string => {
+    const text = documents.get(uri);
+    if (text === undefined) {
+      throw new InvalidParamsError(`Document '${uri}' is not open`);
+    }
+
+    return text;
+  };
+
+  const handleRequest = (request: JsonRpcRequest): unknown => {
+    switch (request.method) {
+      case "initialize":
+        initialized = true;
+        return {
+          capabilities: {
+            textDocumentSync: LSP_TEXT_DOCUMENT_SYNC_FULL,
+            completionProvider: { triggerCharacters: [" "] },
+            hoverProvider: true,
+            definitionProvider: true,
+            documentSymbolProvider: true
+          },
+          serverInfo: { name: LANGUAGE_SERVER_NAME, version: LANGUAGE_SERVER_VERSION }
+        };
+      case "shutdown":
+        shutdownRequested = true;
+        return null;
+      case "textDocument/completion": {
+        const { textDocument, position } = readPositionParams(request.params);
+        return getLsCompletions(documentText(textDocument.uri), position);
+      }
+      case "textDocument/hover": {
+        const { textDocument, position } = readPositionParams(request.params);
+        return getLsHover(documentText(textDocument.uri), position);
+      }
+      case "textDocument/definition": {
+        const { textDocument, position } = readPositionParams(request.params);
+        return getLsDefinition(documentText(textDocument.uri), textDocument.uri, position);
+      }
+      case "textDocument/documentSymbol":
+        return getLsDocumentSymbols(documentText(readUri(request.params)));
+      default:
+        return undefined;
+    }
+  };
+
+  const handleNotification = (method: string, params: unknown): void => {
+    switch (method) {
+      case "textDocument/didOpen": {
+        const textDocument = readObject(readObject(params, "params").textDocument, "textDocument");
+        const uri = readString(textDocument, "uri");
+        documents.set(uri, readString(textDocument, "text"));
+        publishDiagnostics(uri);
+        return;
+      }
+      case "textDocument/didChange": {
+        const uri = readUri(params);
+        const changes = readObject(params, "params").contentChanges;
+        const latest = Array.isArray(changes) ? changes[changes.length - 1] : undefined;
+        documents.set(uri, readString(readObject(latest, "contentChanges"), "text"));
+        publishDiagnostics(uri);
+        return;
+      }
+      case "textDocument/didClose": {
+        const uri = readUri(params);
+        documents.delete(uri);
+        publishDiagnostics(uri);
+        return;
+      }
+      case "exit":
+        options.onExit?.(shutdownRequested ? 0 : 1);
+        return;
+      default:
+        return;
+    }
+  };
+
+  const respondError = (request: JsonRpcRequest, code: number, message: string): void => {
+    options.send({ jsonrpc: "2.0", id: request.id, error: { code, message } });
+  };
+
+  return {
+    handleMessage(message) {
+      if (isJsonRpcNotification(message)) {
+        if (initialized || message.method === "exit") {
+          try {
+            handleNotification(message.method, message.params);
+          } catch (error) {
+            if (!(error instanceof InvalidParamsError)) {
+              throw error;
+            }
+          }
+        }
+        return;
+      }
+
+      if (!isJsonRpcRequest(message)) {
+        return;
+      }
+
+      if (!initialized && message.method !== "initialize") {
+        respondError(message, LSP_SERVER_NOT_INITIALIZED, "Server has not been initialized");
+        return;
+      }
+
+      try {
+        const result = handleRequest(message);
+        if (result === undefined) {
+          respondError(message, JSON_RPC_METHOD_NOT_FOUND, `Unhandled method '${message.method}'`);
+          return;
+        }
+        options.send({ jsonrpc: "2.0", id: message.id, result });
+      } catch (error) {
+        if (!(error instanceof InvalidParamsError)) {
+          throw error;
+        }
+        respondError(message, JSON_RPC_INVALID_PARAMS, error.message);
+      }
+    }
+  };
+}
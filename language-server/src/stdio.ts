@@ -0,0 +1,20 @@
+import { createJsonRpcMessageReader, encodeJsonRpcMessage } from "./json-rpc.ts";
+import { createLanguageServer } from "./server.ts";
+
+const server = createLanguageServer({
+  send: (message) => {
+    process.stdout.write(encodeJsonRpcMessage(message));
+  },
+  onExit: (exitCode) => {
+    process.exit(exitCode);
+  }
+});
+
+process.stdin.on(
+  "data",
+  createJsonRpcMessageReader(
+    (message) => server.handleMessage(message),
+    (error) => process.stderr.write(`${error.message}\n`)
+  )
+);
+process.stdin.on("end", () => process.exit(1));
@@ -0,0 +1,212 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  LSP_DIAGNOSTIC_SEVERITY,
+  getLsCompletions,
+  getLsDefinition,
+  getLsDiagnostics,
+  getLsDocumentSymbols,
+  getLsHover
+} from "../src/index.ts";
+
+const SOURCE = [
+  'goal "triage failing builds"',
+  "## Needed to quote failing lines.",
+  'capability read_logs "read CI build logs"',
+  'capability open_issue "file an issue"',
+  'check cites_log_lines "response cites failing log lines"',
+  "",
+  "policy production",
+  "allow read_logs open_issue",
+  "escalate open_issue to team_lead approvals 1",
+  "",
+  "verify",
+  "test cites_log_lines"
+].join("\n");
+
+test("getLsDiagnostics maps parser and semantic diagnostics to LSP ranges and severities", () => {
+  const parseErrors = getLsDiagnostics('goal "g"\ncapability read', "file:///broken.ls");
+  assert.deepEqual(parseErrors[0], {
+    range: { start: { line: 1, character: 15 }, end: { line: 1, character: 15 } },
+    severity: LSP_DIAGNOSTIC_SEVERITY.error,
+    code: "PARSE_EXPECTED_TOKEN",
+    source: "l-semantica",
+    message: parseErrors[0]?.message
+  });
+
+  const semantic = getLsDiagnostics(
+    'goal "g"\ncapability read_logs ""\ncheck cites_logs "cites logs"',
+    "file:///program.ls"
+  );
+  assert.deepEqual(
+    semantic.map((diagnostic) => [diagnostic.code, diagnostic.severity, diagnostic.range.start]),
+    [["SEMA_EMPTY_DESCRIPTION", LSP_DIAGNOSTIC_SEVERITY.warning, { line: 1, character: 0 }]]
+  );
+
+  assert.deepEqual(getLsDiagnostics(SOURCE, "file:///program.ls"), []);
+  assert.deepEqual(getLsDiagnostics('capability read "read"', "file:///caps.ls"), []);
+});
+
+test("getLsCompletions offers keywords at line starts and declared names in clauses", () => {
+  const labels = (line: number, character: number): string[] =>
+    getLsCompletions(SOURCE, { line, character }).map((item) => item.label);
+
+  assert.deepEqual(labels(5, 0), [
+    "import",
+    "goal",
+    "capability",
+    "infer",
+    "step",
+    "check",
+    "budget",
+    "policy",
+    "verify",
+    "succeed",
+    "fail",
+    "stop"
+  ]);
+  assert.ok(labels(9, 0).includes("max_autonomous_steps"));
+  assert.deepEqual(labels(7, 6), ["read_logs", "open_issue"]);
+  assert.deepEqual(labels(8, 9), ["read_logs", "open_issue"]);
+  assert.deepEqual(labels(8, 20), []);
+  assert.deepEqual(labels(11, 5), ["cites_log_lines"]);
+
+  const capability = getLsCompletions(SOURCE, { line: 7, character: 6 })[0];
+  assert.equal(capability?.documentation, "read CI build logs");
+});
+
+test("outcome declarations complete checks and budgets and link check references", () => {
+  const source = [
+    'goal "triage failing builds"',
+    'capability read_logs "read CI build logs"',
+    'check cites_log_lines "response cites failing log lines"',
+    "succeed when cites_log_lines passes",
+    "stop when cites_log_lines fails and "
+  ].join("\n");
+  const labels = (line: number, character: number): string[] =>
+    getLsCompletions(source, { line, character }).map((item) => item.label);
+
+  assert.deepEqual(labels(3, 8), ["when"]);
+  assert.deepEqual(labels(3, 13), [
+    "cites_log_lines",
+    "max_tokens",
+    "max_autonomous_steps",
+    "max_runtime_seconds",
+    "max_cost_usd"
+  ]);
+  assert.deepEqual(labels(4, 36), labels(3, 13));
+  assert.deepEqual(
+    getLsDefinition(source, "file:///program.ls", { line: 4, character: 12 })?.range.start,
+    { line: 2, character: 6 }
+  );
+});
+
+test("budget declarations complete the limits not yet declared", () => {
+  const source = [
+    'goal "triage failing builds"',
+    'capability read_logs "read CI build logs"',
+    'check cites_log_lines "response cites failing log lines"',
+    "budget max_tokens 50000 "
+  ].join("\n");
+  const labels = (character: number): string[] =>
+    getLsCompletions(source, { line: 3, character }).map((item) => item.label);
+
+  assert.deepEqual(labels(7), [
+    "max_tokens",
+    "max_autonomous_steps",
+    "max_runtime_seconds",
+    "max_cost_usd"
+  ]);
+  assert.deepEqual(labels(18), []);
+  assert.deepEqual(labels(24), [
+    "max_autonomous_steps",
+    "max_runtime_seconds",
+    "max_cost_usd"
+  ]);
+});
+
+test("step declarations complete and link used capabilities", () => {
+  const source = [
+    'goal "triage failing builds"',
+    'capability read_logs "read CI build logs"',
+    'step collect "collect logs" uses read_logs',
+    'step report "report" after collect uses '
+  ].join("\n");
+
+  assert.deepEqual(
+    getLsCompletions(source, { line: 3, character: 40 }).map((item) => item.label),
+    ["read_logs"]
+  );
+  assert.deepEqual(getLsCompletions(source, { line: 3, character: 27 }), []);
+  assert.deepEqual(
+    getLsDefinition(source, "file:///program.ls", { line: 2, character: 36 })?.range.start,
+    { line: 1, character: 11 }
+  );
+});
+
+test("getLsHover shows capability descriptions and doc comments at references", () => {
+  const hover = getLsHover(SOURCE, { line: 7, character: 8 });
+
+  assert.deepEqual(hover, {
+    contents: {
+      kind: "markdown",
+      value: "**capability** `read_logs`\n\nread CI build logs\n\nNeeded to quote failing lines."
+    },
+    range: { start: { line: 7, character: 6 }, end: { line: 7, character: 15 } }
+  });
+  assert.equal(getLsHover(SOURCE, { line: 6, character: 2 }), null);
+});
+
+test("getLsDefinition jumps from capability and check references to declarations", () => {
+  assert.deepEqual(getLsDefinition(SOURCE, "file:///program.ls", { line: 8, character: 12 }), {
+    uri: "file:///program.ls",
+    range: { start: { line: 3, character: 11 }, end: { line: 3, character: 21 } }
+  });
+  assert.deepEqual(
+    getLsDefinition(SOURCE, "file:///program.ls", { line: 11, character: 6 })?.range.start,
+    { line: 4, character: 6 }
+  );
+  assert.equal(getLsDefinition(SOURCE, "file:///program.ls", { line: 8, character: 24 }), null);
+});
+
+test("getLsDocumentSymbols lists goal, capability, and check declarations", () => {
+  assert.deepEqual(
+    getLsDocumentSymbols(SOURCE).map((symbol) => [
+      symbol.name,
+      symbol.kind,
+      symbol.detail,
+      symbol.selectionRange.start.line
+    ]),
+    [
+      ["goal", 15, "triage failing builds", 0],
+      ["read_logs", 12, "capability: read CI build logs", 2],
+      ["open_issue", 12, "capability: file an issue", 3],
+      ["cites_log_lines", 17, "check: response cites failing log lines", 4]
+    ]
+  );
+});
+
+test("capability signatures and policy effects clauses complete types and effects", () => {
+  const source = [
+    'goal "triage failing builds"',
+    'capability read_logs "read CI build logs" takes build_id string returns json effects fs.read ',
+    'check cites_log_lines "response cites failing log lines"',
+    "",
+    "policy production",
+    "effects net "
+  ].join("\n");
+  const labels = (line: number, character: number): string[] =>
+    getLsCompletions(source, { line, character }).map((item) => item.label);
+
+  assert.deepEqual(labels(1, 73), ["string", "number", "boolean", "json"]);
+  assert.deepEqual(labels(1, 86), ["fs.read", "fs.write", "net", "exec"]);
+  assert.deepEqual(labels(1, 94), ["fs.write", "net", "exec"]);
+  assert.deepEqual(labels(1, 65), []);
+  assert.deepEqual(labels(5, 12), ["fs.read", "fs.write", "exec"]);
+  assert.ok(labels(5, 0).includes("effects"));
+  assert.deepEqual(
+    getLsDocumentSymbols(source).map((symbol) => symbol.name),
+    ["goal", "read_logs", "cites_log_lines"]
+  );
+});
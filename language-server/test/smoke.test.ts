@@ -0,0 +1,55 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  createJsonRpcMessageReader,
+  encodeJsonRpcMessage,
+  type JsonRpcMessage
+} from "../src/index.ts";
+
+test("createJsonRpcMessageReader decodes frames split across and packed into chunks", () => {
+  const first: JsonRpcMessage = { jsonrpc: "2.0", id: 1, method: "initialize", params: {} };
+  const second: JsonRpcMessage = { jsonrpc: "2.0", method: "initialized", params: { note: "é" } };
+  const bytes = Buffer.concat([encodeJsonRpcMessage(first), encodeJsonRpcMessage(second)]);
+
+  const received: JsonRpcMessage[] = [];
+  const read = createJsonRpcMessageReader((message) => received.push(message));
+  read(bytes.subarray(0, 10));
+  read(bytes.subarray(10, bytes.length - 3));
+  assert.deepEqual(received, [first]);
+
+  read(bytes.subarray(bytes.length - 3));
+  assert.deepEqual(received, [first, second]);
+});
+
+test("createJsonRpcMessageReader reports malformed frames and keeps reading", () => {
+  const errors: string[] = [];
+  const received: JsonRpcMessage[] = [];
+  const read = createJsonRpcMessageReader(
+    (message) => received.push(message),
+    (error) => errors.push(error.message)
+  );
+
+  read(Buffer.from("Content-Length: 3\r\n\r\n{x}", "utf8"));
+  read(encodeJsonRpcMessage({ jsonrpc: "2.0", method: "exit" }));
+
+  assert.equal(errors.length, 1);
+  assert.deepEqual(received, [{ jsonrpc: "2.0", method: "exit" }]);
+});
+
+test("createJsonRpcMessageReader reports well-framed bodies that are not objects", () => {
+  const errors: string[] = [];
+  const received: JsonRpcMessage[] = [];
+  const read = createJsonRpcMessageReader(
+    (message) => received.push(message),
+    (error) => errors.push(error.message)
+  );
+
+  for (const body of ["null", "42", '"exit"', "[]"]) {
+    read(Buffer.from(`Content-Length: ${body.length}\r\n\r\n${body}`, "utf8"));
+  }
+  read(encodeJsonRpcMessage({ jsonrpc: "2.0", method: "exit" }));
+
+  assert.deepEqual(errors, Array(4).fill("JSON-RPC message must be a JSON object"));
+  assert.deepEqual(received, [{ jsonrpc: "2.0", method: "exit" }]);
+});
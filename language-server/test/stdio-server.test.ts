@@ -0,0 +1,195 @@
+import assert from "node:assert/strict";
+import { spawn, type ChildProcessWithoutNullStreams } from "node:child_process";
+import path from "node:path";
+import test from "node:test";
+import { fileURLToPath } from "node:url";
+
+import {
+  createJsonRpcMessageReader,
+  encodeJsonRpcMessage,
+  type JsonRpcMessage,
+  type JsonRpcResponse
+} from "../src/index.ts";
+
+const testDirectory = path.dirname(fileURLToPath(import.meta.url));
+const serverEntry = path.resolve(testDirectory, "../src/stdio.ts");
+const DOCUMENT_URI = "file:///workspace/triage.ls";
+
+interface ScriptedClient {
+  request: (method: string, params?: unknown) => Promise<JsonRpcResponse>;
+  notify: (method: string, params?: unknown) => void;
+  nextNotification: (method: string) => Promise<JsonRpcMessage & { params?: unknown }>;
+  exited: Promise<number | null>;
+  child: ChildProcessWithoutNullStreams;
+}
+
+function startScriptedClient(): ScriptedClient {
+  const child = spawn(process.execPath, ["--experimental-strip-types", serverEntry], {
+    stdio: ["pipe", "pipe", "pipe"]
+  });
+  const pending = new Map<number, (response: JsonRpcResponse) => void>();
+  const notifications: Array<JsonRpcMessage & { params?: unknown }> = [];
+  const waiters: Array<{ method: string; resolve: (message: JsonRpcMessage) => void }> = [];
+  let nextId = 1;
+
+  child.stdout.on(
+    "data",
+    createJsonRpcMessageReader((message) => {
+      if ("id" in message && !("method" in message) && typeof message.id === "number") {
+        pending.get(message.id)?.(message);
+        pending.delete(message.id);
+        return;
+      }
+
+      const waiterIndex = waiters.findIndex(
+        (waiter) => "method" in message && waiter.method === message.method
+      );
+      if (waiterIndex === -1) {
+        notifications.push(message);
+        return;
+      }
+      waiters.splice(waiterIndex, 1)[0]?.resolve(message);
+    })
+  );
+
+  const send = (message: JsonRpcMessage): void => {
+    child.stdin.write(encodeJsonRpcMessage(message));
+  };
+
+  return {
+    child,
+    request(method, params) {
+      const id = nextId;
+      nextId += 1;
+      return new Promise((resolve) => {
+        pending.set(id, resolve);
+        send({ jsonrpc: "2.0", id, method, params });
+      });
+    },
+    notify(method, params) {
+      send({ jsonrpc: "2.0", method, params });
+    },
+    nextNotification(method) {
+      const index = notifications.findIndex(
+        (message) => "method" in message && message.method === method
+      );
+      if (index !== -1) {
+        return Promise.resolve(notifications.splice(index, 1)[0]);
+      }
+      return new Promise((resolve) => waiters.push({ method, resolve }));
+    },
+    exited: new Promise((resolve) => child.on("exit", (code) => resolve(code)))
+  };
+}
+
+test("stdio language server serves a scripted editor session", { timeout: 30_000 }, async () => {
+  const client = startScriptedClient();
+
+  try {
+    const uninitialized = await client.request("textDocument/documentSymbol", {
+      textDocument: { uri: DOCUMENT_URI }
+    });
+    assert.equal(uninitialized.error?.code, -32002);
+
+    const initialize = await client.request("initialize", { processId: null, capabilities: {} });
+    assert.deepEqual(initialize.result, {
+      capabilities: {
+        textDocumentSync: 1,
+        completionProvider: { triggerCharacters: [" "] },
+        hoverProvider: true,
+        definitionProvider: true,
+        documentSymbolProvider: true
+      },
+      serverInfo: { name: "l-semantica-language-server", version: "0.1.0" }
+    });
+    client.notify("initialized", {});
+
+    client.notify("textDocument/didOpen", {
+      textDocument: {
+        uri: DOCUMENT_URI,
+        languageId: "l-semantica",
+        version: 1,
+        text: 'goal "triage"\ncapability read_logs\n'
+      }
+    });
+    const opened = (await client.nextNotification("textDocument/publishDiagnostics")) as {
+      params: { uri: string; diagnostics: Array<{ code: string; range: unknown }> };
+    };
+    assert.equal(opened.params.uri, DOCUMENT_URI);
+    assert.deepEqual(
+      opened.params.diagnostics.map((diagnostic) => diagnostic.code),
+      ["PARSE_EXPECTED_TOKEN", "PARSE_MISSING_REQUIRED_DECLARATION"]
+    );
+
+    const text = [
+      'goal "triage"',
+      'capability read_logs "read CI build logs"',
+      'check cites_logs "cites logs"',
+      "",
+      "policy production",
+      "allow read_logs"
+    ].join("\n");
+    client.notify("textDocument/didChange", {
+      textDocument: { uri: DOCUMENT_URI, version: 2 },
+      contentChanges: [{ text }]
+    });
+    const changed = (await client.nextNotification("textDocument/publishDiagnostics")) as {
+      params: { diagnostics: unknown[] };
+    };
+    assert.deepEqual(changed.params.diagnostics, []);
+
+    const completion = await client.request("textDocument/completion", {
+      textDocument: { uri: DOCUMENT_URI },
+      position: { line: 5, character: 6 }
+    });
+    assert.deepEqual(
+      (completion.result as Array<{ label: string }>).map((item) => item.label),
+      ["read_logs"]
+    );
+
+    const hover = await client.request("textDocument/hover", {
+      textDocument: { uri: DOCUMENT_URI },
+      position: { line: 5, character: 10 }
+    });
+    assert.match(
+      (hover.result as { contents: { value: string } }).contents.value,
+      /read CI build logs/
+    );
+
+    const definition = await client.request("textDocument/definition", {
+      textDocument: { uri: DOCUMENT_URI },
+      position: { line: 5, character: 10 }
+    });
+    assert.deepEqual(definition.result, {
+      uri: DOCUMENT_URI,
+      range: { start: { line: 1, character: 11 }, end: { line: 1, character: 20 } }
+    });
+
+    const symbols = await client.request("textDocument/documentSymbol", {
+      textDocument: { uri: DOCUMENT_URI }
+    });
+    assert.deepEqual(
+      (symbols.result as Array<{ name: string }>).map((symbol) => symbol.name),
+      ["goal", "read_logs", "cites_logs"]
+    );
+
+    const unknown = await client.request("workspace/symbol", { query: "" });
+    assert.equal(unknown.error?.code, -32601);
+
+    const invalid = await client.request("textDocument/hover", { textDocument: {} });
+    assert.equal(invalid.error?.code, -32602);
+
+    client.notify("textDocument/didClose", { textDocument: { uri: DOCUMENT_URI } });
+    const closed = (await client.nextNotification("textDocument/publishDiagnostics")) as {
+      params: { diagnostics: unknown[] };
+    };
+    assert.deepEqual(closed.params.diagnostics, []);
+
+    const shutdown = await client.request("shutdown");
+    assert.equal(shutdown.result, null);
+    client.notify("exit");
+    assert.equal(await client.exited, 0);
+  } finally {
+    client.child.kill();
+  }
+});
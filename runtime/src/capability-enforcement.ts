@@ -0,0 +1,86 @@
+import type {
+  PolicyProfileContract,
+  PolicyProfileEscalationRule,
+  SemanticIrDeterministicNode
+} from "./contracts.ts";
+
+const CAPABILITY_OUTPUT_PREFIX = "capability.";
+
+export const CAPABILITY_POLICY_DECISIONS = ["allow", "deny", "escalate"] as const;
+export const CAPABILITY_POLICY_REASONS = [
+  "allowed",
+  "denied",
+  "not_allowed",
+  "escalation_required",
+  "manual_approval_required"
+] as const;
+
+export type CapabilityPolicyDecision = (typeof CAPABILITY_POLICY_DECISIONS)[number];
+export type CapabilityPolicyReason = (typeof CAPABILITY_POLICY_REASONS)[number];
+
+export interface CapabilityPolicyResult {
+  capability: string;
+  decision: CapabilityPolicyDecision;
+  reason: CapabilityPolicyReason;
+  // The rule that routes an `escalate` decision; absent when the profile's default escalates.
+  escalationRule?: PolicyProfileEscalationRule;
+}
+
+export type CapabilityPolicyViolation = CapabilityPolicyResult & { decision: "deny" | "escalate" };
+
+// Capabilities a `capability` node provides, named by its `capability.<name>` outputs.
+export function resolveNodeCapabilities(node: SemanticIrDeterministicNode): string[] {
+  if (node.kind !== "capability") {
+    return [];
+  }
+
+  return node.outputs
+    .filter((output) => output.startsWith(CAPABILITY_OUTPUT_PREFIX))
+    .map((output) => output.slice(CAPABILITY_OUTPUT_PREFIX.length));
+}
+
+// Capabilities the program invokes: those named by step `uses` clauses, or every declared
+// capability when the program has no steps. This matches the used capabilities of
+// `analyzeLeastPrivilege`, so its suggested policy admits every capability that runs.
+export function resolveInvokedCapabilities(nodes: SemanticIrDeterministicNode[]): Set<string> {
+  const steps = nodes.filter((node) => node.kind === "step");
+  if (steps.length === 0) {
+    return new Set(nodes.flatMap(resolveNodeCapabilities));
+  }
+
+  return new Set(
+    steps
+      .flatMap((step) => step.inputs)
+      .filter((input) => input.startsWith(CAPABILITY_OUTPUT_PREFIX))
+      .map((input) => input.slice(CAPABILITY_OUTPUT_PREFIX.length))
+  );
+}
+
+// Explicit denials are never lifted by escalation rules. A capability with a matching rule
+// escalates; otherwise a non-empty `allow` list holds back capabilities it does not name,
+// escalating them when `escalation_requirements.default` is `manual_approval` and denying them
+// otherwise. An empty `allow` list leaves the profile deny-only.
+export function evaluateCapabilityPolicy(
+  capability: string,
+  policyProfile: PolicyProfileContract
+): CapabilityPolicyResult {
+  const { allow, deny, escalation_requirements } = policyProfile.capability_policy;
+  if (deny.includes(capability)) {
+    return { capability, decision: "deny", reason: "denied" };
+  }
+
+  const escalationRule = escalation_requirements.rules.find(
+    (rule) => rule.capability === capability
+  );
+  if (escalationRule !== undefined) {
+    return { capability, decision: "escalate", reason: "escalation_required", escalationRule };
+  }
+
+  if (allow.length > 0 && !allow.includes(capability)) {
+    return escalation_requirements.default === "manual_approval"
+      ? { capability, decision: "escalate", reason: "manual_approval_required" }
+      : { capability, decision: "deny", reason: "not_allowed" };
+  }
+
+  return { capability, decision: "allow", reason: "allowed" };
+}
@@ -1,5 +1,9 @@
 import type {
   PolicyProfileContract,
+  SemanticIrBudget,
+  SemanticIrBudgetLimit,
+  SemanticIrConditionTerm,
+  SemanticIrOutcomeCondition,
   VerificationCheckRequirement,
   VerificationContract,
   VerificationPolicyAssertion
@@ -17,7 +21,12 @@ export const CONTINUATION_GATE_REASON_CODES = [
   "VERIFICATION_REQUIRED_CHECKS_BELOW_THRESHOLD",
   "VERIFICATION_POLICY_ASSERTION_FAILED",
   "VERIFICATION_WARNING_LIMIT_EXCEEDED",
-  "VERIFICATION_REQUIRED_FEEDBACK_MISSING"
+  "VERIFICATION_REQUIRED_FEEDBACK_MISSING",
+  "OUTCOME_SUCCESS_CONDITION_MET",
+  "OUTCOME_FAILURE_CONDITION_MET",
+  "OUTCOME_STOP_CONDITION_MET",
+  "BUDGET_EXCEEDED",
+  "CAPABILITY_ESCALATION_REQUIRED"
 ] as const;
 
 export type ContinuationDecision = (typeof CONTINUATION_DECISIONS)[number];
@@ -34,10 +43,25 @@ export interface VerificationStatusSummary {
   warningCount: number;
 }
 
-export interface EvaluateContinuationGateInput {
-  verificationContract: VerificationContract;
+export interface BudgetUsage {
+  tokens?: number;
+  autonomousSteps?: number;
+  runtimeSeconds?: number;
+  costUsd?: number;
+}
+
+// The inputs of the hard stops that hold at any point of a run.
+export interface EvaluateRunProgressInput {
+  verificationContract?: VerificationContract;
   policyProfile?: PolicyProfileContract;
   verificationStatus?: VerificationStatusSummary;
+  outcomeConditions?: SemanticIrOutcomeCondition[];
+  programBudget?: SemanticIrBudget;
+  budgetUsage?: BudgetUsage;
+}
+
+export interface EvaluateContinuationGateInput extends EvaluateRunProgressInput {
+  verificationContract: VerificationContract;
   feedbackTensor?: Partial<
     Pick<
       FeedbackTensorV1,
@@ -58,6 +82,8 @@ export interface ContinuationGateDecision {
   maxWarningCount: number;
   missingFeedbackFields: string[];
   failedPolicyAssertionIds: string[];
+  // Set when a declared outcome condition decided the gate.
+  outcomeConditionId?: string;
 }
 
 interface CheckCoverage {
@@ -81,6 +107,13 @@ const REQUIRED_FEEDBACK_FIELDS = [
 
 type RequiredFeedbackField = (typeof REQUIRED_FEEDBACK_FIELDS)[number];
 
+const BUDGET_USAGE_BY_LIMIT: Record<SemanticIrBudgetLimit, keyof BudgetUsage> = {
+  max_tokens: "tokens",
+  max_autonomous_steps: "autonomousSteps",
+  max_runtime_seconds: "runtimeSeconds",
+  max_cost_usd: "costUsd"
+};
+
 function isRecord(value: unknown): value is Record<string, unknown> {
   return typeof value === "object" && value !== null && !Array.isArray(value);
 }
@@ -94,7 +127,7 @@ function normalizeReasonDetailSuffix(items: string[]): string {
 }
 
 function createGateDecision(params: {
-  verificationContract: VerificationContract;
+  verificationContract?: VerificationContract;
   decision: ContinuationDecision;
   reasonCode: ContinuationGateReasonCode;
   detail: string;
@@ -103,6 +136,7 @@ function createGateDecision(params: {
   warningCount: number;
   missingFeedbackFields?: string[];
   failedPolicyAssertionIds?: string[];
+  outcomeConditionId?: string;
 }): ContinuationGateDecision {
   const ratio =
     params.requiredChecksTotal === 0 ? 1 : params.requiredChecksPassed / params.requiredChecksTotal;
@@ -116,9 +150,12 @@ function createGateDecision(params: {
     requiredChecksTotal: params.requiredChecksTotal,
     requiredChecksPassRatio: ratio,
     warningCount: params.warningCount,
-    maxWarningCount: params.verificationContract.pass_criteria.max_warning_count,
+    maxWarningCount: params.verificationContract?.pass_criteria.max_warning_count ?? 0,
     missingFeedbackFields: params.missingFeedbackFields ?? [],
-    failedPolicyAssertionIds: params.failedPolicyAssertionIds ?? []
+    failedPolicyAssertionIds: params.failedPolicyAssertionIds ?? [],
+    ...(params.outcomeConditionId !== undefined
+      ? { outcomeConditionId: params.outcomeConditionId }
+      : {})
   };
 }
 
@@ -229,6 +266,135 @@ function evaluatePolicyAssertions(
   }));
 }
 
+export function resolveEffectiveBudget(
+  programBudget?: SemanticIrBudget,
+  policyProfile?: PolicyProfileContract
+): SemanticIrBudget {
+  const budget: SemanticIrBudget = {};
+  for (const limit of Object.keys(BUDGET_USAGE_BY_LIMIT) as SemanticIrBudgetLimit[]) {
+    const candidates = [
+      programBudget?.[limit],
+      limit === "max_autonomous_steps" || limit === "max_runtime_seconds"
+        ? policyProfile?.constraints[limit]
+        : undefined
+    ].filter((value): value is number => value !== undefined);
+    if (candidates.length > 0) {
+      budget[limit] = Math.min(...candidates);
+    }
+  }
+
+  return budget;
+}
+
+function findExceededBudgetLimit(
+  budget: SemanticIrBudget,
+  usage: BudgetUsage | undefined
+): { limit: SemanticIrBudgetLimit; max: number; used: number } | undefined {
+  for (const limit of Object.keys(BUDGET_USAGE_BY_LIMIT) as SemanticIrBudgetLimit[]) {
+    const max = budget[limit];
+    const used = usage?.[BUDGET_USAGE_BY_LIMIT[limit]];
+    if (max !== undefined && used !== undefined && used > max) {
+      return { limit, max, used };
+    }
+  }
+
+  return undefined;
+}
+
+function isConditionTermMet(
+  term: SemanticIrConditionTerm,
+  input: EvaluateRunProgressInput,
+  budget: SemanticIrBudget
+): boolean {
+  if (term.kind === "check") {
+    return (
+      input.verificationStatus?.checks.some(
+        (check) => check.id === term.check && check.passed === (term.status === "passed")
+      ) ?? false
+    );
+  }
+
+  const limit = budget[term.budget];
+  const used = input.budgetUsage?.[BUDGET_USAGE_BY_LIMIT[term.budget]];
+  return limit !== undefined && used !== undefined && used >= limit;
+}
+
+function findMetOutcomeCondition(
+  input: EvaluateRunProgressInput,
+  budget: SemanticIrBudget,
+  outcome: SemanticIrOutcomeCondition["outcome"]
+): SemanticIrOutcomeCondition | undefined {
+  return input.outcomeConditions?.find(
+    (condition) =>
+      condition.outcome === outcome &&
+      condition.all_of.every((term) => isConditionTermMet(term, input, budget))
+  );
+}
+
+function describeConditionTerm(term: SemanticIrConditionTerm): string {
+  return term.kind === "check" ? `${term.check} ${term.status}` : `${term.budget} exhausted`;
+}
+
+function describeOutcomeCondition(condition: SemanticIrOutcomeCondition): string {
+  return `${condition.id}: ${condition.all_of.map(describeConditionTerm).join(" and ")}`;
+}
+
+function countRequiredChecks(verificationContract: VerificationContract | undefined): number {
+  if (verificationContract === undefined) {
+    return 0;
+  }
+
+  const { tests, static_analysis, policy_assertions } = verificationContract.requirements;
+  return [...tests, ...static_analysis, ...policy_assertions].filter(
+    (requirement) => requirement.required
+  ).length;
+}
+
+// Budgets, like explicit fail/stop conditions, are hard stops independent of
+// `continuation.on_failure`: usage past an effective limit, then met `fail` and `stop` outcome
+// conditions, decide `stop`. Returns undefined while none holds, so a run may check it between
+// nodes without verification evidence or a verification contract.
+export function evaluateRunProgress(
+  input: EvaluateRunProgressInput
+): ContinuationGateDecision | undefined {
+  const budget = resolveEffectiveBudget(input.programBudget, input.policyProfile);
+  const requiredChecksTotal = countRequiredChecks(input.verificationContract);
+  const warningCount = input.verificationStatus?.warningCount ?? 0;
+  const exceeded = findExceededBudgetLimit(budget, input.budgetUsage);
+  if (exceeded) {
+    return createGateDecision({
+      verificationContract: input.verificationContract,
+      decision: "stop",
+      reasonCode: "BUDGET_EXCEEDED",
+      detail: `Budget ${exceeded.limit} exceeded (used ${exceeded.used} of ${exceeded.max}).`,
+      requiredChecksPassed: 0,
+      requiredChecksTotal,
+      warningCount
+    });
+  }
+
+  for (const [outcome, reasonCode] of [
+    ["fail", "OUTCOME_FAILURE_CONDITION_MET"],
+    ["stop", "OUTCOME_STOP_CONDITION_MET"]
+  ] as const) {
+    const condition = findMetOutcomeCondition(input, budget, outcome);
+    if (condition) {
+      return createGateDecision({
+        verificationContract: input.verificationContract,
+        decision: "stop",
+        reasonCode,
+        detail: `Declared ${outcome} condition met (${describeOutcomeCondition(condition)}).`,
+        requiredChecksPassed: 0,
+        requiredChecksTotal,
+        warningCount,
+        outcomeConditionId: condition.id
+      });
+    }
+  }
+
+  return undefined;
+}
+
 export function evaluateContinuationGate(input: EvaluateContinuationGateInput): ContinuationGateDecision {
   const verificationContract = input.verificationContract;
   const requiredFeedbackFields = verificationContract.continuation.required_feedback_tensor_fields;
@@ -275,6 +441,11 @@ export function evaluateContinuationGate(input: EvaluateContinuationGateInput):
     });
   }
 
+  const runStop = evaluateRunProgress(input);
+  if (runStop) {
+    return runStop;
+  }
+
   if (!input.verificationStatus) {
     return createFailureDecision({
       verificationContract,
@@ -333,6 +504,23 @@ export function evaluateContinuationGate(input: EvaluateContinuationGateInput):
   const requiredChecksPassRatio =
     requiredChecksTotal === 0 ? 1 : requiredChecksPassed / requiredChecksTotal;
 
+  // A declared success condition replaces the pass-ratio and warning thresholds; required check
+  // results and policy assertions above still apply.
+  const budget = resolveEffectiveBudget(input.programBudget, input.policyProfile);
+  const successCondition = findMetOutcomeCondition(input, budget, "succeed");
+  if (successCondition) {
+    return createGateDecision({
+      verificationContract,
+      decision: verificationContract.continuation.on_success,
+      reasonCode: "OUTCOME_SUCCESS_CONDITION_MET",
+      detail: `Declared succeed condition met (${describeOutcomeCondition(successCondition)}).`,
+      requiredChecksPassed,
+      requiredChecksTotal,
+      warningCount: input.verificationStatus.warningCount,
+      outcomeConditionId: successCondition.id
+    });
+  }
+
   if (requiredChecksPassRatio < minimumRequiredChecksPassRatio) {
     return createFailureDecision({
       verificationContract,
@@ -368,6 +556,26 @@ export function evaluateContinuationGate(input: EvaluateContinuationGateInput):
   });
 }
 
+// Decides a run that has no verification contract once its nodes have run: a met succeed
+// condition is reported as such, and otherwise the run continues ungated.
+export function evaluateRunOutcome(input: EvaluateRunProgressInput): ContinuationGateDecision {
+  const budget = resolveEffectiveBudget(input.programBudget, input.policyProfile);
+  const successCondition = findMetOutcomeCondition(input, budget, "succeed");
+  if (!successCondition) {
+    return createContinuationGateBypassDecision();
+  }
+
+  return createGateDecision({
+    decision: "continue",
+    reasonCode: "OUTCOME_SUCCESS_CONDITION_MET",
+    detail: `Declared succeed condition met (${describeOutcomeCondition(successCondition)}).`,
+    requiredChecksPassed: 0,
+    requiredChecksTotal: 0,
+    warningCount: input.verificationStatus?.warningCount ?? 0,
+    outcomeConditionId: successCondition.id
+  });
+}
+
 export function createContinuationGateBypassDecision(): ContinuationGateDecision {
   return {
     decision: "continue",
@@ -383,3 +591,15 @@ export function createContinuationGateBypassDecision(): ContinuationGateDecision
     failedPolicyAssertionIds: []
   };
 }
+
+// A capability the policy profile routes to escalation pauses the run whether or not a gate is
+// configured; continuation resumes only once the escalation is approved.
+export function createCapabilityEscalationDecision(detail: string): ContinuationGateDecision {
+  return {
+    ...createContinuationGateBypassDecision(),
+    decision: "escalate",
+    continuationAllowed: false,
+    reasonCode: "CAPABILITY_ESCALATION_REQUIRED",
+    detail
+  };
+}
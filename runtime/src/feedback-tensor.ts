@@ -1,5 +1,7 @@
 import { appendFileSync } from "node:fs";
 
+import type { SemanticIrSourceSpan } from "./contracts.ts";
+
 export const FEEDBACK_TENSOR_SCHEMA_VERSION = "1.0.0";
 
 export const FEEDBACK_TENSOR_FAILURE_CLASSES = [
@@ -61,6 +63,9 @@ export interface FeedbackTensorV1 {
     summary: string;
     continuation_allowed: boolean;
     error_code?: string;
+    // The SemanticIR node the failure is attributed to and its `.ls` span, when known.
+    node_id?: string;
+    source_span?: SemanticIrSourceSpan;
   };
   confidence: {
     score: number;
@@ -94,6 +99,8 @@ export interface CreateFeedbackTensorEntryInput {
     summary: string;
     continuationAllowed: boolean;
     errorCode?: string;
+    nodeId?: string;
+    sourceSpan?: SemanticIrSourceSpan;
   };
   confidence: {
     score: number;
@@ -218,6 +225,7 @@ export function createFeedbackTensorEntry(input: CreateFeedbackTensorEntryInput)
   );
   const score = clampProbability(input.confidence.score) ?? 0;
   const errorCode = normalizeOptionalNonEmptyString(input.failureSignal.errorCode);
+  const nodeId = normalizeOptionalNonEmptyString(input.failureSignal.nodeId);
   const calibrationBand = normalizeCalibrationBand(input.confidence.calibrationBand);
   const traceEntryId = normalizeOptionalNonEmptyString(input.provenance.traceEntryId);
   const target = normalizeOptionalNonEmptyString(input.proposedRepairAction.target);
@@ -232,7 +240,11 @@ export function createFeedbackTensorEntry(input: CreateFeedbackTensorEntryInput)
       stage: input.failureSignal.stage,
       summary,
       continuation_allowed: input.failureSignal.continuationAllowed,
-      ...(errorCode === undefined ? {} : { error_code: errorCode })
+      ...(errorCode === undefined ? {} : { error_code: errorCode }),
+      ...(nodeId === undefined ? {} : { node_id: nodeId }),
+      ...(input.failureSignal.sourceSpan === undefined
+        ? {}
+        : { source_span: input.failureSignal.sourceSpan })
     },
     confidence: {
       score,
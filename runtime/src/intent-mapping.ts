@@ -170,6 +170,7 @@ interface CandidateBuildInput {
   symbolKind: "goal" | "capability" | "check" | "file";
   symbolName?: string;
   targetTexts: string[];
+  docTexts?: string[];
   method: IntentMappingExtractionMethod;
   range?: IntentMappingCandidateRange;
 }
@@ -523,14 +524,20 @@ function findBestMatchingLineRange(
 
 function scoreCandidate(input: CandidateBuildInput): { confidence: number; rationale: string } | undefined {
   const intentTokenSet = new Set(input.intentTokens);
-  const targetTokens = tokenizeForSearch([input.path, ...input.targetTexts].join(" "));
+  const docTexts = input.docTexts ?? [];
+  const targetTokens = tokenizeForSearch([input.path, ...input.targetTexts, ...docTexts].join(" "));
   const targetTokenSet = new Set(targetTokens);
+  const docTokenSet = new Set(tokenizeForSearch(docTexts.join(" ")));
 
   let sharedCount = 0;
+  let docSharedCount = 0;
   for (const token of intentTokenSet) {
     if (targetTokenSet.has(token)) {
       sharedCount += 1;
     }
+    if (docTokenSet.has(token)) {
+      docSharedCount += 1;
+    }
   }
 
   const tokenOverlapRatio = intentTokenSet.size > 0 ? sharedCount / intentTokenSet.size : 0;
@@ -594,6 +601,10 @@ function scoreCandidate(input: CandidateBuildInput): { confidence: number; ratio
     rationaleParts.push("exact phrase/path substring hit");
   }
 
+  if (docSharedCount > 0) {
+    rationaleParts.push(`doc comment overlap ${docSharedCount}`);
+  }
+
   return {
     confidence,
     rationale: `${rationaleParts.join("; ")}.`
@@ -640,6 +651,7 @@ function buildAstNodeCandidate(
     symbolKind: "goal" | "capability" | "check";
     symbolName?: string;
     descriptionText?: string;
+    docsText?: string;
     range: SourceRange;
   }
 ): IntentMappingCandidate | undefined {
@@ -662,6 +674,7 @@ function buildAstNodeCandidate(
     symbolKind: params.symbolKind,
     symbolName: params.symbolName ?? label,
     targetTexts,
+    docTexts: params.docsText !== undefined ? [params.docsText] : [],
     method: "ast_symbol_lookup",
     range: toCandidateRange(params.range)
   });
@@ -689,6 +702,7 @@ function collectAstCandidatesFromLsFile(params: {
     path: params.path,
     symbolKind: "goal",
     symbolName: document.goal.value,
+    docsText: document.goal.docs,
     range: document.goal.range
   });
   if (goalCandidate) {
@@ -704,6 +718,7 @@ function collectAstCandidatesFromLsFile(params: {
       symbolKind: "capability",
       symbolName: capability.name,
       descriptionText: capability.description,
+      docsText: capability.docs,
       range: capability.range
     });
 
@@ -721,6 +736,7 @@ function collectAstCandidatesFromLsFile(params: {
       symbolKind: "check",
       symbolName: check.name,
       descriptionText: check.description,
+      docsText: check.docs,
       range: check.range
     });
 
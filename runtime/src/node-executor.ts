@@ -0,0 +1,522 @@
+import {
+  evaluateCapabilityPolicy,
+  resolveInvokedCapabilities,
+  resolveNodeCapabilities,
+  type CapabilityPolicyResult,
+  type CapabilityPolicyViolation
+} from "./capability-enforcement.ts";
+import type {
+  PolicyProfileContract,
+  PolicyProfileEscalationRule,
+  SemanticIrContract,
+  SemanticIrDeterministicNode,
+  SemanticIrStochasticNode
+} from "./contracts.ts";
+import type {
+  StochasticProviderRequest,
+  StochasticProviders,
+  StochasticTokenUsage
+} from "./stochastic-provider.ts";
+
+export const SEMANTIC_IR_NODE_STATUSES = ["succeeded", "failed", "blocked", "skipped"] as const;
+export const SEMANTIC_IR_EXECUTION_ERROR_CODES = [
+  "SEMANTIC_IR_OUTPUT_CONFLICT",
+  "SEMANTIC_IR_NODE_CYCLE",
+  "SEMANTIC_IR_NODE_HANDLER_MISSING",
+  "SEMANTIC_IR_PROVIDER_MISSING",
+  "SEMANTIC_IR_NODE_FAILED",
+  "SEMANTIC_IR_NODE_OUTPUT_INVALID",
+  "SEMANTIC_IR_CONFIDENCE_BELOW_MINIMUM",
+  "SEMANTIC_IR_CAPABILITY_DENIED",
+  "SEMANTIC_IR_CAPABILITY_ESCALATION_REQUIRED"
+] as const;
+
+export type SemanticIrNodeStatus = (typeof SEMANTIC_IR_NODE_STATUSES)[number];
+export type SemanticIrExecutionErrorCode = (typeof SEMANTIC_IR_EXECUTION_ERROR_CODES)[number];
+
+export interface SemanticIrNodeContext {
+  goal: string;
+}
+
+// Returns, or resolves to, values keyed by the node's declared outputs; outputs left out are
+// recorded as `null`.
+export type SemanticIrNodeHandler = (
+  node: SemanticIrDeterministicNode,
+  inputs: Record<string, unknown>,
+  context: SemanticIrNodeContext
+) => Record<string, unknown> | void | Promise<Record<string, unknown> | void>;
+
+export type SemanticIrNodeHandlers = Record<string, SemanticIrNodeHandler>;
+
+export interface SemanticIrNodeOutcome {
+  nodeId: string;
+  // The deterministic node's `kind`, or `stochastic` for stochastic nodes.
+  kind: string;
+  status: SemanticIrNodeStatus;
+  // Input values the node ran with; absent for skipped nodes.
+  inputs?: Record<string, unknown>;
+  outputs?: Record<string, unknown>;
+  error?: string;
+  // The provider a stochastic node was sent to; absent for deterministic and skipped nodes.
+  provider?: string;
+  // Reported by the provider for stochastic nodes that reached it.
+  confidence?: number;
+  usage?: StochasticTokenUsage;
+}
+
+export interface ExecuteSemanticIrNodesOptions {
+  handlers?: SemanticIrNodeHandlers;
+  providers?: StochasticProviders;
+  // Values for inputs that no deterministic node produces.
+  inputs?: Record<string, unknown>;
+  // Checked before each `capability` node whose capability the program invokes runs; omitted
+  // means capabilities are unrestricted.
+  policyProfile?: PolicyProfileContract;
+  // Called after each node succeeds; an error it throws stops execution and rejects the run.
+  afterNode?: (progress: SemanticIrExecutionProgress) => void;
+}
+
+export interface SemanticIrExecutionProgress {
+  // Every node's outcome so far; nodes that have not run are `skipped`.
+  nodeOutcomes: SemanticIrNodeOutcome[];
+  // Summed over the stochastic nodes that ran so far.
+  tokenUsage: StochasticTokenUsage;
+}
+
+export interface SemanticIrExecutionResult {
+  outputs: Record<string, unknown>;
+  nodeOutcomes: SemanticIrNodeOutcome[];
+  // Summed over the stochastic nodes that ran.
+  tokenUsage: StochasticTokenUsage;
+}
+
+type SemanticIrNode = SemanticIrDeterministicNode | SemanticIrStochasticNode;
+
+type SemanticIrExecutableIr = Pick<SemanticIrContract, "goal" | "deterministic_nodes"> &
+  Partial<Pick<SemanticIrContract, "stochastic_nodes">>;
+
+export class SemanticIrExecutionError extends Error {
+  readonly code: SemanticIrExecutionErrorCode;
+  readonly nodeId: string;
+  // Every node's outcome up to the failure; nodes that never ran are `skipped`.
+  readonly nodeOutcomes: SemanticIrNodeOutcome[];
+
+  constructor(
+    message: string,
+    code: SemanticIrExecutionErrorCode,
+    nodeId: string,
+    nodeOutcomes: SemanticIrNodeOutcome[],
+    options?: { cause?: unknown }
+  ) {
+    super(message, options);
+    this.name = "SemanticIrExecutionError";
+    this.code = code;
+    this.nodeId = nodeId;
+    this.nodeOutcomes = nodeOutcomes;
+  }
+}
+
+// Raised before a `capability` node runs when the policy profile denies or escalates an invoked
+// capability it provides; the node is reported as `blocked`.
+export class SemanticIrCapabilityError extends SemanticIrExecutionError {
+  readonly capability: string;
+  readonly decision: "deny" | "escalate";
+  readonly escalationRule?: PolicyProfileEscalationRule;
+
+  constructor(
+    message: string,
+    policy: CapabilityPolicyViolation,
+    nodeId: string,
+    nodeOutcomes: SemanticIrNodeOutcome[]
+  ) {
+    super(
+      message,
+      policy.decision === "deny"
+        ? "SEMANTIC_IR_CAPABILITY_DENIED"
+        : "SEMANTIC_IR_CAPABILITY_ESCALATION_REQUIRED",
+      nodeId,
+      nodeOutcomes
+    );
+    this.name = "SemanticIrCapabilityError";
+    this.capability = policy.capability;
+    this.decision = policy.decision;
+    if (policy.escalationRule !== undefined) {
+      this.escalationRule = policy.escalationRule;
+    }
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function nodeKind(node: SemanticIrNode): string {
+  return node.node_class === "stochastic" ? "stochastic" : node.kind;
+}
+
+function nodeInputs(node: SemanticIrNode): string[] {
+  return node.inputs ?? [];
+}
+
+function nodeOutputs(node: SemanticIrNode): string[] {
+  return node.outputs ?? [];
+}
+
+function skippedOutcome(node: SemanticIrNode): SemanticIrNodeOutcome {
+  return { nodeId: node.id, kind: nodeKind(node), status: "skipped" };
+}
+
+// Deterministic nodes first, then stochastic nodes, each in declaration order.
+export function createSkippedNodeOutcomes(ir: SemanticIrExecutableIr): SemanticIrNodeOutcome[] {
+  return [...ir.deterministic_nodes, ...(ir.stochastic_nodes ?? [])].map(skippedOutcome);
+}
+
+function describeError(error: unknown): string {
+  if (error instanceof Error) {
+    return error.message;
+  }
+
+  try {
+    return String(error);
+  } catch {
+    return "[unstringifiable thrown value]";
+  }
+}
+
+// Orders nodes in waves: each wave holds, in declaration order, the nodes whose produced inputs
+// all exist once the earlier waves have run.
+export function planExecutionOrder(nodes: SemanticIrNode[]): SemanticIrNode[] {
+  const producers = new Map<string, string>();
+  for (const node of nodes) {
+    for (const output of nodeOutputs(node)) {
+      const producer = producers.get(output);
+      if (producer !== undefined) {
+        throw new SemanticIrExecutionError(
+          `SemanticIR nodes "${producer}" and "${node.id}" both produce "${output}"`,
+          "SEMANTIC_IR_OUTPUT_CONFLICT",
+          node.id,
+          nodes.map(skippedOutcome)
+        );
+      }
+      producers.set(output, node.id);
+    }
+  }
+
+  const order: SemanticIrNode[] = [];
+  const available = new Set<string>();
+  let pending = nodes;
+  while (pending.length > 0) {
+    const ready = pending.filter((node) =>
+      nodeInputs(node).every((input) => !producers.has(input) || available.has(input))
+    );
+    if (ready.length === 0) {
+      throw new SemanticIrExecutionError(
+        `SemanticIR node "${pending[0].id}" depends on a cycle and cannot be scheduled`,
+        "SEMANTIC_IR_NODE_CYCLE",
+        pending[0].id,
+        nodes.map(skippedOutcome)
+      );
+    }
+
+    order.push(...ready);
+    ready.forEach((node) => nodeOutputs(node).forEach((output) => available.add(output)));
+    pending = pending.filter((node) => !ready.includes(node));
+  }
+
+  return order;
+}
+
+interface NodeRun {
+  outputs: Record<string, unknown>;
+  confidence?: number;
+  usage?: StochasticTokenUsage;
+}
+
+interface NodeRunFailure {
+  code: SemanticIrExecutionErrorCode;
+  detail: string;
+  cause?: unknown;
+  run?: Omit<NodeRun, "outputs">;
+}
+
+function collectHandlerOutputs(
+  node: SemanticIrDeterministicNode,
+  returned: unknown
+): Record<string, unknown> | string {
+  if (returned !== undefined && !isRecord(returned)) {
+    return "handler must return an object keyed by the node's outputs";
+  }
+
+  const values = (returned ?? {}) as Record<string, unknown>;
+  const undeclared = Object.keys(values).filter((key) => !node.outputs.includes(key));
+  if (undeclared.length > 0) {
+    return `handler returned undeclared outputs: ${undeclared.join(", ")}`;
+  }
+
+  return Object.fromEntries(
+    node.outputs.map((output) => [output, values[output] === undefined ? null : values[output]])
+  );
+}
+
+async function runDeterministicNode(
+  node: SemanticIrDeterministicNode,
+  inputs: Record<string, unknown>,
+  context: SemanticIrNodeContext,
+  handlers: SemanticIrNodeHandlers
+): Promise<NodeRun | NodeRunFailure> {
+  let returned: unknown;
+  try {
+    returned = await handlers[node.kind](node, inputs, context);
+  } catch (error) {
+    return { code: "SEMANTIC_IR_NODE_FAILED", detail: describeError(error), cause: error };
+  }
+
+  const outputs = collectHandlerOutputs(node, returned);
+  return typeof outputs === "string"
+    ? { code: "SEMANTIC_IR_NODE_OUTPUT_INVALID", detail: outputs }
+    : { outputs };
+}
+
+function isTokenCount(value: unknown): boolean {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0;
+}
+
+async function runStochasticNode(
+  node: SemanticIrStochasticNode,
+  inputs: Record<string, unknown>,
+  providers: StochasticProviders
+): Promise<NodeRun | NodeRunFailure> {
+  const request: StochasticProviderRequest = {
+    nodeId: node.id,
+    provider: node.provider,
+    prompt: node.prompt,
+    temperature: node.temperature,
+    ...(node.min_confidence !== undefined ? { minConfidence: node.min_confidence } : {}),
+    inputs
+  };
+
+  let response: unknown;
+  try {
+    response = await providers[node.provider].complete(request);
+  } catch (error) {
+    return { code: "SEMANTIC_IR_NODE_FAILED", detail: describeError(error), cause: error };
+  }
+
+  const { output, usage, confidence } = (isRecord(response) ? response : {}) as {
+    output?: unknown;
+    usage?: { inputTokens?: unknown; outputTokens?: unknown };
+    confidence?: unknown;
+  };
+  if (
+    output === undefined ||
+    typeof confidence !== "number" ||
+    !(confidence >= 0 && confidence <= 1) ||
+    !isRecord(usage) ||
+    !isTokenCount(usage.inputTokens) ||
+    !isTokenCount(usage.outputTokens)
+  ) {
+    return {
+      code: "SEMANTIC_IR_NODE_OUTPUT_INVALID",
+      detail:
+        `provider "${node.provider}" must return an output, a confidence in [0, 1], ` +
+        "and token usage"
+    };
+  }
+
+  const run = {
+    confidence,
+    usage: { inputTokens: usage.inputTokens as number, outputTokens: usage.outputTokens as number }
+  };
+  if (node.min_confidence !== undefined && confidence < node.min_confidence) {
+    return {
+      code: "SEMANTIC_IR_CONFIDENCE_BELOW_MINIMUM",
+      detail: `confidence ${confidence} is below min_confidence ${node.min_confidence}`,
+      run
+    };
+  }
+
+  return { outputs: Object.fromEntries(nodeOutputs(node).map((name) => [name, output])), ...run };
+}
+
+function describeCapabilityViolation(
+  policy: CapabilityPolicyResult,
+  policyProfile: PolicyProfileContract
+): string {
+  const profile = `policy profile "${policyProfile.metadata.profile_id}"`;
+  if (policy.escalationRule !== undefined) {
+    const { escalation_level, min_approvals } = policy.escalationRule;
+    return (
+      `capability "${policy.capability}" requires ${escalation_level} escalation ` +
+      `(${min_approvals} approval(s)) under ${profile}`
+    );
+  }
+
+  if (policy.reason === "manual_approval_required") {
+    return (
+      `capability "${policy.capability}" is not in the allow list of ${profile}, whose default ` +
+      "escalation requires manual approval"
+    );
+  }
+
+  return policy.reason === "not_allowed"
+    ? `capability "${policy.capability}" is not in the allow list of ${profile}`
+    : `capability "${policy.capability}" is denied by ${profile}`;
+}
+
+interface CapabilityBlock {
+  policy: CapabilityPolicyViolation;
+  detail: string;
+}
+
+// Capability nodes no step invokes never run, so the policy does not need to admit them.
+function isUninvokedCapability(node: SemanticIrNode, invokedCapabilities: Set<string>): boolean {
+  return (
+    node.node_class !== "stochastic" &&
+    node.kind === "capability" &&
+    !resolveNodeCapabilities(node).some((capability) => invokedCapabilities.has(capability))
+  );
+}
+
+// Denials take precedence over escalations when a node provides several capabilities.
+function findCapabilityBlock(
+  node: SemanticIrNode,
+  policyProfile: PolicyProfileContract | undefined
+): CapabilityBlock | undefined {
+  if (policyProfile === undefined || node.node_class === "stochastic") {
+    return undefined;
+  }
+
+  const violations = resolveNodeCapabilities(node)
+    .map((capability) => evaluateCapabilityPolicy(capability, policyProfile))
+    .filter((result): result is CapabilityPolicyViolation => result.decision !== "allow");
+  const policy = violations.find((result) => result.decision === "deny") ?? violations[0];
+  return policy !== undefined
+    ? { policy, detail: describeCapabilityViolation(policy, policyProfile) }
+    : undefined;
+}
+
+function findUnregisteredNode(
+  order: SemanticIrNode[],
+  handlers: SemanticIrNodeHandlers,
+  providers: StochasticProviders
+): { node: SemanticIrNode; code: SemanticIrExecutionErrorCode; message: string } | undefined {
+  const has = (registry: object, key: string) =>
+    Object.prototype.hasOwnProperty.call(registry, key);
+  for (const node of order) {
+    if (node.node_class === "stochastic" && !has(providers, node.provider)) {
+      return {
+        node,
+        code: "SEMANTIC_IR_PROVIDER_MISSING",
+        message: `No stochastic provider is registered under "${node.provider}"`
+      };
+    }
+    if (node.node_class !== "stochastic" && !has(handlers, node.kind)) {
+      return {
+        node,
+        code: "SEMANTIC_IR_NODE_HANDLER_MISSING",
+        message: `No node handler is registered for SemanticIR node kind "${node.kind}"`
+      };
+    }
+  }
+
+  return undefined;
+}
+
+// Runs deterministic and stochastic nodes once their inputs exist, dispatching deterministic nodes
+// to the handler registered for their `kind` and stochastic nodes to their named provider. The
+// first failure stops execution; later nodes are reported as `skipped`. With a policy profile,
+// a `capability` node whose invoked capability is denied or needs escalation is `blocked` before
+// its handler runs. A `capability` node providing nothing a step invokes is left `skipped`.
+export async function executeSemanticIrNodes(
+  ir: SemanticIrExecutableIr,
+  options: ExecuteSemanticIrNodesOptions = {}
+): Promise<SemanticIrExecutionResult> {
+  const handlers = options.handlers ?? {};
+  const providers = options.providers ?? {};
+  const nodes: SemanticIrNode[] = [...ir.deterministic_nodes, ...(ir.stochastic_nodes ?? [])];
+  const order = planExecutionOrder(nodes);
+  const unregistered = findUnregisteredNode(order, handlers, providers);
+  if (unregistered !== undefined) {
+    throw new SemanticIrExecutionError(
+      unregistered.message,
+      unregistered.code,
+      unregistered.node.id,
+      nodes.map(skippedOutcome)
+    );
+  }
+
+  const values = new Map<string, unknown>(Object.entries(options.inputs ?? {}));
+  const outcomes = new Map<string, SemanticIrNodeOutcome>(
+    nodes.map((node) => [node.id, skippedOutcome(node)])
+  );
+  const tokenUsage: StochasticTokenUsage = { inputTokens: 0, outputTokens: 0 };
+  const context: SemanticIrNodeContext = { goal: ir.goal };
+  const invokedCapabilities = resolveInvokedCapabilities(ir.deterministic_nodes);
+  for (const node of order) {
+    const inputs = Object.fromEntries(
+      nodeInputs(node).map((input) => [input, values.has(input) ? values.get(input) : null])
+    );
+    if (isUninvokedCapability(node, invokedCapabilities)) {
+      continue;
+    }
+
+    const block = findCapabilityBlock(node, options.policyProfile);
+    if (block !== undefined) {
+      outcomes.set(node.id, {
+        nodeId: node.id,
+        kind: nodeKind(node),
+        status: "blocked",
+        inputs,
+        error: block.detail
+      });
+      throw new SemanticIrCapabilityError(
+        `SemanticIR node "${node.id}" (${nodeKind(node)}) was blocked: ${block.detail}`,
+        block.policy,
+        node.id,
+        [...outcomes.values()]
+      );
+    }
+
+    const run =
+      node.node_class === "stochastic"
+        ? await runStochasticNode(node, inputs, providers)
+        : await runDeterministicNode(node, inputs, context, handlers);
+
+    const reported = "code" in run ? run.run : run;
+    if (reported?.usage !== undefined) {
+      tokenUsage.inputTokens += reported.usage.inputTokens;
+      tokenUsage.outputTokens += reported.usage.outputTokens;
+    }
+    const outcome: SemanticIrNodeOutcome = {
+      nodeId: node.id,
+      kind: nodeKind(node),
+      status: "code" in run ? "failed" : "succeeded",
+      inputs,
+      ...("code" in run ? { error: run.detail } : { outputs: run.outputs }),
+      ...(node.node_class === "stochastic" ? { provider: node.provider } : {}),
+      ...(reported?.confidence !== undefined ? { confidence: reported.confidence } : {}),
+      ...(reported?.usage !== undefined ? { usage: reported.usage } : {})
+    };
+    outcomes.set(node.id, outcome);
+
+    if ("code" in run) {
+      throw new SemanticIrExecutionError(
+        `SemanticIR node "${node.id}" (${outcome.kind}) failed: ${run.detail}`,
+        run.code,
+        node.id,
+        [...outcomes.values()],
+        run.cause !== undefined ? { cause: run.cause } : undefined
+      );
+    }
+    Object.entries(run.outputs).forEach(([output, value]) => values.set(output, value));
+    options.afterNode?.({ nodeOutcomes: [...outcomes.values()], tokenUsage: { ...tokenUsage } });
+  }
+
+  return {
+    outputs: Object.fromEntries(
+      order.flatMap((node) => nodeOutputs(node).map((output) => [output, values.get(output)]))
+    ),
+    nodeOutcomes: [...outcomes.values()],
+    tokenUsage
+  };
+}
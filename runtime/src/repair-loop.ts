@@ -1,5 +1,6 @@
 import { randomUUID } from "node:crypto";
 
+import { applyFixes, lex } from "../../compiler/src/index.ts";
 import {
   SUPPORTED_POLICY_PROFILE_SCHEMA_VERSION,
   SUPPORTED_SEMANTIC_IR_SCHEMA_VERSION
@@ -636,6 +637,15 @@ function replaceConfidenceInExcerpt(
   return `${excerpt.slice(0, tuple.pairStart)}${repairedTupleExcerpt}${excerpt.slice(tuple.pairEnd)}`;
 }
 
+// Reuses the lexer's fix-its instead of guessing where an unterminated string literal ends.
+function closeUnterminatedStrings(excerpt: string): string | undefined {
+  const diagnostics = lex(excerpt).diagnostics.filter(
+    (diagnostic) => diagnostic.code === "LEX_UNTERMINATED_STRING"
+  );
+  const { source, applied } = applyFixes(excerpt, diagnostics);
+  return applied.length > 0 ? source : undefined;
+}
+
 const REPAIR_RULES: RepairRule[] = [
   {
     id: "parse.append_missing_goal_quote",
@@ -643,14 +653,12 @@ const REPAIR_RULES: RepairRule[] = [
     matches: (context) =>
       context.input.stage === "compile" &&
       context.input.artifact === "ls_source" &&
-      context.excerpt.startsWith('goal "') &&
-      !context.excerpt.endsWith('"') &&
-      context.excerpt.length > 'goal "'.length,
+      closeUnterminatedStrings(context.excerpt) !== undefined,
     apply: (context) => ({
       type: "repaired",
       reasonCode: "PARSE_APPEND_MISSING_QUOTE",
-      detail: "Appended missing closing quote in goal declaration.",
-      repairedExcerpt: `${context.excerpt}"`
+      detail: "Inserted missing closing quote at the lexer's fix-it position.",
+      repairedExcerpt: closeUnterminatedStrings(context.excerpt)
     })
   },
   {
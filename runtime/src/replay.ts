@@ -0,0 +1,249 @@
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { isDeepStrictEqual } from "node:util";
+
+import type { SemanticIrContract, SemanticIrStochasticNode } from "./contracts.ts";
+import {
+  SemanticIrExecutionError,
+  planExecutionOrder,
+  type SemanticIrNodeHandlers
+} from "./node-executor.ts";
+import {
+  RuntimeContinuationGateError,
+  runSemanticIr,
+  type SemanticIrEnvelope
+} from "./run-semantic-ir.ts";
+import type { StochasticProvider, StochasticProviders } from "./stochastic-provider.ts";
+import type { TraceLedgerEntryV0, TraceLedgerNodeOutcome } from "./trace-ledger.ts";
+
+export type ReplayRunErrorCode =
+  | "REPLAY_LEDGER_UNREADABLE"
+  | "REPLAY_RUN_NOT_FOUND"
+  | "REPLAY_RECORD_MISSING";
+
+export class ReplayRunError extends Error {
+  readonly code: ReplayRunErrorCode;
+
+  constructor(message: string, code: ReplayRunErrorCode) {
+    super(message);
+    this.name = "ReplayRunError";
+    this.code = code;
+  }
+}
+
+export interface ReplayRunOptions {
+  // Handlers for the recorded run's deterministic node kinds.
+  nodeHandlers?: SemanticIrNodeHandlers;
+}
+
+export interface ReplayDivergence {
+  // `continuation_decision`, `nodes.<status|inputs|outputs>`, or `outcome.status`.
+  path: string;
+  nodeId?: string;
+  expected: unknown;
+  actual: unknown;
+}
+
+export interface ReplayRunResult {
+  runId: string;
+  matched: boolean;
+  // The first mismatch between the recorded and replayed run.
+  divergence?: ReplayDivergence;
+}
+
+function readLedgerEntry(runId: string, ledgerPath: string): TraceLedgerEntryV0 {
+  let contents: string;
+  try {
+    contents = readFileSync(ledgerPath, "utf8");
+  } catch (error) {
+    const detail = error instanceof Error ? error.message : String(error);
+    throw new ReplayRunError(
+      `Unable to read trace ledger "${ledgerPath}": ${detail}`,
+      "REPLAY_LEDGER_UNREADABLE"
+    );
+  }
+
+  const entries: TraceLedgerEntryV0[] = [];
+  for (const line of contents.split("\n")) {
+    if (line.trim().length === 0) {
+      continue;
+    }
+    try {
+      entries.push(JSON.parse(line) as TraceLedgerEntryV0);
+    } catch {
+      throw new ReplayRunError(
+        `Trace ledger "${ledgerPath}" contains a line that is not JSON`,
+        "REPLAY_LEDGER_UNREADABLE"
+      );
+    }
+  }
+
+  const entry = entries.find((candidate) => candidate.run_id === runId);
+  if (entry === undefined) {
+    throw new ReplayRunError(
+      `Trace ledger "${ledgerPath}" has no run "${runId}"`,
+      "REPLAY_RUN_NOT_FOUND"
+    );
+  }
+
+  return entry;
+}
+
+// Answers each stochastic node with the response its provider recorded; every output of a
+// stochastic node holds the same response value, so the node's first output key carries it.
+function createRecordedProvider(
+  stochasticNodes: SemanticIrStochasticNode[],
+  nodes: TraceLedgerNodeOutcome[]
+): StochasticProvider {
+  return {
+    async complete(request) {
+      const recorded = nodes.find((node) => node.node_id === request.nodeId);
+      if (recorded?.provider !== request.provider || recorded.confidence === undefined) {
+        throw new Error(`No stochastic response was recorded for node "${request.nodeId}"`);
+      }
+
+      const outputKey = stochasticNodes.find((node) => node.id === request.nodeId)?.outputs?.[0];
+      if (outputKey !== undefined && !Object.hasOwn(recorded.outputs ?? {}, outputKey)) {
+        throw new Error(
+          `No value was recorded for output "${outputKey}" of node "${request.nodeId}"`
+        );
+      }
+
+      return {
+        output: outputKey !== undefined ? recorded.outputs?.[outputKey] : null,
+        usage: {
+          inputTokens: recorded.usage?.input_tokens ?? 0,
+          outputTokens: recorded.usage?.output_tokens ?? 0
+        },
+        confidence: recorded.confidence
+      };
+    }
+  };
+}
+
+function createRecordedProviders(
+  semanticIr: Record<string, unknown>,
+  nodes: TraceLedgerNodeOutcome[]
+): StochasticProviders {
+  const stochasticNodes = Array.isArray(semanticIr.stochastic_nodes)
+    ? (semanticIr.stochastic_nodes as SemanticIrContract["stochastic_nodes"])
+    : [];
+  const provider = createRecordedProvider(stochasticNodes, nodes);
+  return Object.fromEntries(stochasticNodes.map((node) => [node.provider, provider]));
+}
+
+// The ledger lists nodes in declaration order; graphs that cannot be scheduled keep that order.
+function orderByExecution(
+  semanticIr: Record<string, unknown>,
+  nodes: TraceLedgerNodeOutcome[]
+): TraceLedgerNodeOutcome[] {
+  const contract = semanticIr as Partial<SemanticIrContract>;
+  let order: string[];
+  try {
+    order = planExecutionOrder([
+      ...(contract.deterministic_nodes ?? []),
+      ...(contract.stochastic_nodes ?? [])
+    ]).map((node) => node.id);
+  } catch {
+    return nodes;
+  }
+
+  const position = (node: TraceLedgerNodeOutcome) => {
+    const index = order.indexOf(node.node_id);
+    return index === -1 ? order.length : index;
+  };
+  return [...nodes].sort((left, right) => position(left) - position(right));
+}
+
+// Nodes are compared in the order they ran, before the continuation decision, so a node that
+// diverges is reported rather than the decision it changed.
+function findDivergence(
+  recorded: TraceLedgerEntryV0,
+  replayed: TraceLedgerEntryV0
+): ReplayDivergence | undefined {
+  const replayedNodes = new Map((replayed.nodes ?? []).map((node) => [node.node_id, node]));
+  const recordedNodes = orderByExecution(recorded.replay?.semantic_ir ?? {}, recorded.nodes ?? []);
+  for (const node of recordedNodes) {
+    const replayedNode = replayedNodes.get(node.node_id);
+    const fields: Array<"status" | "inputs" | "outputs"> =
+      node.kind === "stochastic" ? ["status", "inputs"] : ["status", "inputs", "outputs"];
+    for (const field of fields) {
+      if (!isDeepStrictEqual(node[field], replayedNode?.[field])) {
+        return {
+          path: `nodes.${field}`,
+          nodeId: node.node_id,
+          expected: node[field],
+          actual: replayedNode?.[field]
+        };
+      }
+    }
+  }
+
+  const expectedDecision = recorded.replay?.continuation_decision;
+  const actualDecision = replayed.replay?.continuation_decision;
+  if (!isDeepStrictEqual(expectedDecision, actualDecision)) {
+    return { path: "continuation_decision", expected: expectedDecision, actual: actualDecision };
+  }
+
+  if (recorded.outcome.status !== replayed.outcome.status) {
+    return {
+      path: "outcome.status",
+      expected: recorded.outcome.status,
+      actual: replayed.outcome.status
+    };
+  }
+
+  return undefined;
+}
+
+// Re-executes a run recorded with `recordReplay` using its recorded stochastic responses, then
+// compares node inputs and deterministic outputs, continuation decisions, and the outcome.
+export async function replayRun(
+  runId: string,
+  ledgerPath: string,
+  options: ReplayRunOptions = {}
+): Promise<ReplayRunResult> {
+  const recorded = readLedgerEntry(runId, ledgerPath);
+  const record = recorded.replay;
+  if (record === undefined) {
+    throw new ReplayRunError(
+      `Run "${runId}" was not recorded for replay; run it with recordReplay enabled`,
+      "REPLAY_RECORD_MISSING"
+    );
+  }
+
+  const tmpRoot = mkdtempSync(join(tmpdir(), "l-semantica-replay-"));
+  const replayLedgerPath = join(tmpRoot, "replay-ledger.ndjson");
+  const semanticIr = record.semantic_ir as unknown as SemanticIrEnvelope | SemanticIrContract;
+  try {
+    try {
+      await runSemanticIr(semanticIr, {
+        traceLedgerPath: replayLedgerPath,
+        recordReplay: true,
+        runIdFactory: () => runId,
+        nodeHandlers: options.nodeHandlers,
+        stochasticProviders: createRecordedProviders(record.semantic_ir, recorded.nodes ?? []),
+        nodeInputs: record.node_inputs,
+        policyProfile: record.policy_profile,
+        continuationGate: record.continuation_gate
+      });
+    } catch (error) {
+      // Blocked and failed runs are still recorded; anything else means the replay itself broke.
+      if (
+        !(error instanceof RuntimeContinuationGateError) &&
+        !(error instanceof SemanticIrExecutionError)
+      ) {
+        throw error;
+      }
+    }
+
+    const replayed = readLedgerEntry(runId, replayLedgerPath);
+    const divergence = findDivergence(recorded, replayed);
+    return divergence === undefined
+      ? { runId, matched: true }
+      : { runId, matched: false, divergence };
+  } finally {
+    rmSync(tmpRoot, { recursive: true, force: true });
+  }
+}
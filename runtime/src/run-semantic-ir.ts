@@ -0,0 +1,876 @@
+import { randomUUID } from "node:crypto";
+import { performance } from "node:perf_hooks";
+
+import {
+  ContractValidationError,
+  SUPPORTED_POLICY_PROFILE_SCHEMA_VERSION,
+  SUPPORTED_SEMANTIC_IR_SCHEMA_VERSION,
+  loadSemanticIrContract,
+  type PolicyProfileContract,
+  type SemanticIrBudget,
+  type SemanticIrContract,
+  type SemanticIrOutcomeCondition,
+  type SemanticIrSourceMap,
+  type VerificationContract
+} from "./contracts.ts";
+import {
+  TRACE_LEDGER_SCHEMA_VERSION,
+  emitTraceLedgerEntry,
+  type TraceLedgerEntryV0,
+  type TraceLedgerError,
+  type TraceLedgerNodeOutcome,
+  type TraceLedgerReplayRecord
+} from "./trace-ledger.ts";
+import {
+  SemanticIrCapabilityError,
+  SemanticIrExecutionError,
+  createSkippedNodeOutcomes,
+  executeSemanticIrNodes,
+  type SemanticIrExecutionProgress,
+  type SemanticIrNodeHandlers,
+  type SemanticIrNodeOutcome
+} from "./node-executor.ts";
+import type { StochasticProviders, StochasticTokenUsage } from "./stochastic-provider.ts";
+import {
+  createFeedbackTensorEntry,
+  emitFeedbackTensorEntry,
+  type FeedbackTensorFailureClass
+} from "./feedback-tensor.ts";
+import {
+  createCapabilityEscalationDecision,
+  createContinuationGateBypassDecision,
+  evaluateContinuationGate,
+  evaluateRunOutcome,
+  evaluateRunProgress,
+  type BudgetUsage,
+  type ContinuationGateDecision,
+  type ContinuationGateReasonCode,
+  type EvaluateContinuationGateInput,
+  type EvaluateRunProgressInput,
+  type VerificationCheckResult,
+  type VerificationStatusSummary
+} from "./continuation-gate.ts";
+import {
+  TRACE_INSPECTION_SCHEMA_VERSION,
+  emitTraceInspectionEntry,
+  emitTraceInspectionReport,
+  type TraceInspectionEntryV0
+} from "./trace-inspection.ts";
+
+export interface SemanticIrEnvelope {
+  version: string;
+  goal: string;
+  // Checked during and after the run unless `continuationGate.outcomeConditions` is set.
+  outcome_conditions?: SemanticIrOutcomeCondition[];
+  // Checked during and after the run unless `continuationGate.programBudget` is set.
+  budget?: SemanticIrBudget;
+  // Resolves the node ids carried by runtime errors to `.ls` spans in trace outputs.
+  source_map?: SemanticIrSourceMap;
+}
+
+export interface RuntimeResult {
+  ok: true;
+  traceId: string;
+  continuationDecision: ContinuationGateDecision;
+  // Values produced by the executed nodes, keyed by output name; empty for plain envelopes.
+  outputs: Record<string, unknown>;
+  nodeOutcomes: SemanticIrNodeOutcome[];
+  tokenUsage: StochasticTokenUsage;
+  // The usage the budget was checked against: `continuationGate.budgetUsage` plus this run's.
+  budgetUsage: BudgetUsage;
+}
+
+export interface RunSemanticIrOptions {
+  traceLedgerPath?: string;
+  feedbackTensorPath?: string;
+  traceInspectionPath?: string;
+  traceInspectionReportPath?: string;
+  // Evaluated once the nodes have run. `budgetUsage` is usage from before this run; the tokens,
+  // executed nodes, and whole elapsed seconds of the run are added to it. Without
+  // `verificationStatus`, check nodes that returned a boolean are reported as check results.
+  continuationGate?: EvaluateContinuationGateInput;
+  // Handlers for SemanticIR contract `deterministic_nodes`, keyed by node `kind`.
+  nodeHandlers?: SemanticIrNodeHandlers;
+  // Providers for SemanticIR contract `stochastic_nodes`, keyed by the nodes' `provider` name.
+  stochasticProviders?: StochasticProviders;
+  // Values for node inputs that no deterministic node produces.
+  nodeInputs?: Record<string, unknown>;
+  // Checked before `capability` nodes run, and its constraints tighten the budget; defaults to
+  // `continuationGate.policyProfile`. A capability that needs escalation ends the run with an
+  // `escalate` continuation decision.
+  policyProfile?: PolicyProfileContract;
+  // Records the SemanticIR, gate inputs, and node values in the trace ledger for `replayRun`.
+  recordReplay?: boolean;
+  now?: () => Date;
+  runIdFactory?: () => string;
+  feedbackIdFactory?: () => string;
+}
+
+type RuntimeSemanticIrValidationCode =
+  | "SEMANTIC_IR_INPUT_INVALID"
+  | "SEMANTIC_IR_VERSION_REQUIRED"
+  | "SEMANTIC_IR_GOAL_REQUIRED";
+
+class RuntimeSemanticIrValidationError extends Error {
+  readonly code: RuntimeSemanticIrValidationCode;
+  readonly failureClass: FeedbackTensorFailureClass;
+
+  constructor(message: string, code: RuntimeSemanticIrValidationCode) {
+    super(message);
+    this.name = "Error";
+    this.code = code;
+    this.failureClass = "schema_contract";
+  }
+}
+
+function resolveContinuationGateFailureClass(
+  reasonCode: ContinuationGateReasonCode
+): FeedbackTensorFailureClass {
+  if (
+    reasonCode === "POLICY_PROFILE_REQUIRED" ||
+    reasonCode === "VERIFICATION_POLICY_ASSERTION_FAILED" ||
+    reasonCode === "BUDGET_EXCEEDED" ||
+    reasonCode === "CAPABILITY_ESCALATION_REQUIRED"
+  ) {
+    return "policy_gate";
+  }
+
+  return "deterministic_runtime";
+}
+
+export class RuntimeContinuationGateError extends Error {
+  readonly code: ContinuationGateReasonCode;
+  readonly decision: ContinuationGateDecision["decision"];
+  readonly failureClass: FeedbackTensorFailureClass;
+  readonly nodeId?: string;
+
+  // `nodeId` names the node that triggered the decision when no outcome condition did.
+  constructor(decision: ContinuationGateDecision, options?: { nodeId?: string; cause?: unknown }) {
+    super(
+      `Continuation gate returned "${decision.decision}" with reason "${decision.reasonCode}". Autonomous continuation is blocked.`,
+      options?.cause !== undefined ? { cause: options.cause } : undefined
+    );
+    this.name = "Error";
+    this.code = decision.reasonCode;
+    this.decision = decision.decision;
+    this.failureClass = resolveContinuationGateFailureClass(decision.reasonCode);
+    const nodeId = decision.outcomeConditionId ?? options?.nodeId;
+    if (nodeId !== undefined) {
+      this.nodeId = nodeId;
+    }
+  }
+}
+
+function requireNonEmptyString(
+  value: unknown,
+  message: string,
+  validationCode?: RuntimeSemanticIrValidationCode
+): string {
+  if (typeof value !== "string" || value.trim().length === 0) {
+    if (validationCode !== undefined) {
+      throw new RuntimeSemanticIrValidationError(message, validationCode);
+    }
+    throw new Error(message);
+  }
+
+  return value.trim();
+}
+
+// Any thrown Error may name the SemanticIR node it failed on through a string `nodeId` property.
+function resolveRuntimeErrorNodeId(error: Error): string | undefined {
+  const nodeId = (error as { nodeId?: unknown }).nodeId;
+  return typeof nodeId === "string" && nodeId.trim().length > 0 ? nodeId.trim() : undefined;
+}
+
+function resolveSourceSpan(
+  sourceMap: SemanticIrSourceMap | undefined,
+  nodeId: string
+): TraceLedgerError["source_span"] {
+  if (typeof sourceMap !== "object" || sourceMap === null) {
+    return undefined;
+  }
+
+  return Object.prototype.hasOwnProperty.call(sourceMap, nodeId) ? sourceMap[nodeId] : undefined;
+}
+
+function toTraceLedgerError(error: unknown, sourceMap?: SemanticIrSourceMap): TraceLedgerError {
+  if (error instanceof Error) {
+    const normalizedErrorName = error.name.trim();
+    const nodeId = resolveRuntimeErrorNodeId(error);
+    const sourceSpan = nodeId !== undefined ? resolveSourceSpan(sourceMap, nodeId) : undefined;
+    return {
+      name: normalizedErrorName.length > 0 ? normalizedErrorName : "Error",
+      message: error.message,
+      ...(nodeId !== undefined ? { node_id: nodeId } : {}),
+      ...(sourceSpan !== undefined ? { source_span: sourceSpan } : {})
+    };
+  }
+
+  let message = "[unstringifiable thrown value]";
+  try {
+    message = String(error);
+  } catch {}
+
+  return {
+    name: "NonErrorThrown",
+    message
+  };
+}
+
+function normalizeOutputPath(outputPath?: string): string | undefined {
+  if (typeof outputPath !== "string") {
+    return undefined;
+  }
+
+  const trimmed = outputPath.trim();
+  return trimmed.length > 0 ? trimmed : undefined;
+}
+
+function createTraceRunIdFallback(): string {
+  try {
+    const generated = randomUUID();
+    const normalized = generated.trim();
+    if (normalized.length > 0) {
+      return normalized;
+    }
+  } catch {}
+
+  return `run-fallback-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+function resolveTraceRunId(runIdFactory: () => string): string {
+  try {
+    const rawRunId = runIdFactory();
+    if (typeof rawRunId === "string") {
+      const normalizedRunId = rawRunId.trim();
+      if (normalizedRunId.length > 0) {
+        return normalizedRunId;
+      }
+    }
+  } catch {}
+
+  return createTraceRunIdFallback();
+}
+
+function createFeedbackIdFallback(): string {
+  try {
+    const generated = randomUUID();
+    const normalized = generated.trim();
+    if (normalized.length > 0) {
+      return `ft-${normalized}`;
+    }
+  } catch {}
+
+  return `ft-fallback-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+function resolveFeedbackId(feedbackIdFactory: () => string): string {
+  try {
+    const rawFeedbackId = feedbackIdFactory();
+    if (typeof rawFeedbackId === "string") {
+      const normalizedFeedbackId = rawFeedbackId.trim();
+      if (normalizedFeedbackId.length > 0) {
+        return normalizedFeedbackId;
+      }
+    }
+  } catch {}
+
+  return createFeedbackIdFallback();
+}
+
+function resolveTraceTimestamp(now: () => Date): string {
+  try {
+    const candidate = now();
+    if (candidate instanceof Date && Number.isFinite(candidate.getTime())) {
+      return candidate.toISOString();
+    }
+  } catch {}
+
+  return new Date().toISOString();
+}
+
+// Autonomous steps are the nodes that ran; runtime is counted in whole elapsed seconds.
+function measureBudgetUsage(
+  reported: BudgetUsage | undefined,
+  progress: SemanticIrExecutionProgress,
+  elapsedMilliseconds: number
+): BudgetUsage {
+  const { inputTokens, outputTokens } = progress.tokenUsage;
+  const executed = progress.nodeOutcomes.filter((outcome) => outcome.status === "succeeded");
+  return {
+    ...reported,
+    tokens: (reported?.tokens ?? 0) + inputTokens + outputTokens,
+    autonomousSteps: (reported?.autonomousSteps ?? 0) + executed.length,
+    runtimeSeconds: (reported?.runtimeSeconds ?? 0) + Math.floor(elapsedMilliseconds / 1000)
+  };
+}
+
+// Check nodes that returned a boolean stand in for verification results the caller did not
+// report; a check listed under `static_analysis` in the contract is reported as that kind.
+function deriveVerificationStatus(
+  nodeOutcomes: SemanticIrNodeOutcome[],
+  verificationContract: VerificationContract | undefined
+): VerificationStatusSummary | undefined {
+  const staticAnalysisIds = new Set(
+    verificationContract?.requirements.static_analysis.map((requirement) => requirement.id)
+  );
+  const checks = nodeOutcomes
+    .filter((outcome) => outcome.kind === "check" && outcome.status === "succeeded")
+    .flatMap((outcome) => Object.entries(outcome.outputs ?? {}))
+    .filter(([output, passed]) => output.startsWith("check.") && typeof passed === "boolean")
+    .map(([output, passed]): VerificationCheckResult => {
+      const id = output.slice("check.".length);
+      const kind = staticAnalysisIds.has(id) ? "static_analysis" : "test";
+      return { id, kind, passed: passed as boolean };
+    });
+  return checks.length > 0 ? { checks, warningCount: 0 } : undefined;
+}
+
+function resolveRuntimeFailureClass(error: unknown): FeedbackTensorFailureClass {
+  if (error instanceof RuntimeSemanticIrValidationError) {
+    return error.failureClass;
+  }
+
+  if (error instanceof RuntimeContinuationGateError) {
+    return error.failureClass;
+  }
+
+  if (error instanceof ContractValidationError) {
+    return "schema_contract";
+  }
+
+  if (error instanceof SemanticIrCapabilityError) {
+    return "capability_denied";
+  }
+
+  return "deterministic_runtime";
+}
+
+interface RuntimeFeedbackTensorEmissionResult {
+  emitted: boolean;
+  feedbackId: string;
+  traceEntryId?: string;
+  failureSignal: NonNullable<TraceInspectionEntryV0["feedback_tensor"]["failure_signal"]>;
+  confidence: NonNullable<TraceInspectionEntryV0["feedback_tensor"]["confidence"]>;
+  proposedRepairAction: NonNullable<
+    TraceInspectionEntryV0["feedback_tensor"]["proposed_repair_action"]
+  >;
+}
+
+function emitRuntimeFailureFeedbackTensor(params: {
+  runId: string;
+  generatedAt: string;
+  feedbackTensorPath?: string;
+  feedbackIdFactory: () => string;
+  failureClass: FeedbackTensorFailureClass;
+  errorCode: string;
+  error: TraceLedgerError;
+  traceEntryId?: string;
+}): RuntimeFeedbackTensorEmissionResult | undefined {
+  if (!params.feedbackTensorPath) {
+    return undefined;
+  }
+
+  const feedbackId = resolveFeedbackId(params.feedbackIdFactory);
+  const capabilityDenied = params.failureClass === "capability_denied";
+  const capabilityEscalated = params.errorCode === "CAPABILITY_ESCALATION_REQUIRED";
+  const capabilityBlocked = capabilityDenied || capabilityEscalated;
+  const entry = createFeedbackTensorEntry({
+    feedbackId,
+    generatedAt: params.generatedAt,
+    failureSignal: {
+      class: params.failureClass,
+      stage: capabilityDenied ? "capability" : capabilityEscalated ? "policy" : "runtime",
+      summary: params.error.message,
+      continuationAllowed: false,
+      errorCode: params.errorCode,
+      nodeId: params.error.node_id,
+      sourceSpan: params.error.source_span
+    },
+    confidence: capabilityBlocked
+      ? {
+          score: 0.9,
+          rationale: "The loaded policy profile denies or escalates the node's capability.",
+          calibrationBand: "high"
+        }
+      : {
+          score: params.failureClass === "schema_contract" ? 0.9 : 0.7,
+          rationale:
+            params.failureClass === "schema_contract"
+              ? "Input validation indicates a contract-shape violation before autonomous continuation."
+              : "Runtime invocation failed with a deterministic local error signal.",
+          calibrationBand: params.failureClass === "schema_contract" ? "high" : "medium"
+        },
+    alternatives: [
+      {
+        id: "alt-deterministic-repair",
+        hypothesis: "Run deterministic repair workflow over the failure payload.",
+        expected_outcome: "Known failure classes can be auto-repaired without unsafe continuation.",
+        estimated_success_probability: params.failureClass === "schema_contract" ? 0.8 : 0.65
+      },
+      {
+        id: "alt-manual-review",
+        hypothesis: "Escalate failure details to a human reviewer.",
+        expected_outcome: "Continuation remains blocked until manual remediation is approved.",
+        estimated_success_probability: 0.95
+      }
+    ],
+    proposedRepairAction: capabilityBlocked
+      ? {
+          action: "request_manual_review",
+          rationale:
+            "The policy profile blocked a capability; only an approved escalation or profile " +
+            "change can unblock it.",
+          requires_human_approval: true,
+          target: "policy_profile.capability_policy"
+        }
+      : {
+          action: "retry_with_patch",
+          rationale:
+            "Attempt deterministic repair-loop recovery before any policy-gated escalation path is chosen.",
+          requires_human_approval: false,
+          target:
+            params.failureClass === "schema_contract" ? "semantic_ir.contract" : "runtime.invocation"
+        },
+    provenance: {
+      runId: params.runId,
+      sourceStage: "runtime",
+      traceEntryId: params.traceEntryId,
+      contractVersions: {
+        semanticIr: SUPPORTED_SEMANTIC_IR_SCHEMA_VERSION,
+        policyProfile: SUPPORTED_POLICY_PROFILE_SCHEMA_VERSION
+      }
+    }
+  });
+
+  try {
+    emitFeedbackTensorEntry(entry, { outputPath: params.feedbackTensorPath });
+    return {
+      emitted: true,
+      feedbackId,
+      traceEntryId: entry.provenance.trace_entry_id,
+      failureSignal: {
+        class: entry.failure_signal.class,
+        stage: entry.failure_signal.stage,
+        continuation_allowed: entry.failure_signal.continuation_allowed,
+        error_code: entry.failure_signal.error_code
+      },
+      confidence: {
+        score: entry.confidence.score,
+        rationale: entry.confidence.rationale,
+        calibration_band: entry.confidence.calibration_band
+      },
+      proposedRepairAction: {
+        action: entry.proposed_repair_action.action,
+        requires_human_approval: entry.proposed_repair_action.requires_human_approval,
+        target: entry.proposed_repair_action.target
+      }
+    };
+  } catch {}
+
+  return {
+    emitted: false,
+    feedbackId,
+    traceEntryId: entry.provenance.trace_entry_id,
+    failureSignal: {
+      class: entry.failure_signal.class,
+      stage: entry.failure_signal.stage,
+      continuation_allowed: entry.failure_signal.continuation_allowed,
+      error_code: entry.failure_signal.error_code
+    },
+    confidence: {
+      score: entry.confidence.score,
+      rationale: entry.confidence.rationale,
+      calibration_band: entry.confidence.calibration_band
+    },
+    proposedRepairAction: {
+      action: entry.proposed_repair_action.action,
+      requires_human_approval: entry.proposed_repair_action.requires_human_approval,
+      target: entry.proposed_repair_action.target
+    }
+  };
+}
+
+function toTraceLedgerNodeOutcome(
+  outcome: SemanticIrNodeOutcome,
+  recordValues: boolean
+): TraceLedgerNodeOutcome {
+  const entry: TraceLedgerNodeOutcome = {
+    node_id: outcome.nodeId,
+    kind: outcome.kind,
+    status: outcome.status,
+    ...(outcome.error !== undefined ? { error: outcome.error } : {})
+  };
+  if (!recordValues) {
+    return entry;
+  }
+
+  return {
+    ...entry,
+    ...(outcome.inputs !== undefined ? { inputs: outcome.inputs } : {}),
+    ...(outcome.outputs !== undefined ? { outputs: outcome.outputs } : {}),
+    ...(outcome.provider !== undefined ? { provider: outcome.provider } : {}),
+    ...(outcome.confidence !== undefined ? { confidence: outcome.confidence } : {}),
+    ...(outcome.usage !== undefined
+      ? {
+          usage: {
+            input_tokens: outcome.usage.inputTokens,
+            output_tokens: outcome.usage.outputTokens
+          }
+        }
+      : {})
+  };
+}
+
+function createReplayRecord(
+  ir: unknown,
+  options: RunSemanticIrOptions,
+  continuationDecision: ContinuationGateDecision
+): TraceLedgerReplayRecord | undefined {
+  if (options.recordReplay !== true || typeof ir !== "object" || ir === null || Array.isArray(ir)) {
+    return undefined;
+  }
+
+  return {
+    semantic_ir: ir as Record<string, unknown>,
+    ...(options.nodeInputs !== undefined ? { node_inputs: options.nodeInputs } : {}),
+    ...(options.policyProfile !== undefined ? { policy_profile: options.policyProfile } : {}),
+    ...(options.continuationGate !== undefined
+      ? { continuation_gate: options.continuationGate }
+      : {}),
+    continuation_decision: {
+      decision: continuationDecision.decision,
+      reason_code: continuationDecision.reasonCode
+    }
+  };
+}
+
+function emitRuntimeTraceLedger(params: {
+  runId: string;
+  startedAt: string;
+  completedAt: string;
+  traceLedgerPath?: string;
+  error?: TraceLedgerError;
+  nodeOutcomes?: SemanticIrNodeOutcome[];
+  replay?: TraceLedgerReplayRecord;
+}): boolean {
+  if (!params.traceLedgerPath) {
+    return false;
+  }
+
+  const ledgerEntry: TraceLedgerEntryV0 = {
+    schema_version: TRACE_LEDGER_SCHEMA_VERSION,
+    run_id: params.runId,
+    started_at: params.startedAt,
+    completed_at: params.completedAt,
+    contract_versions: {
+      semantic_ir: SUPPORTED_SEMANTIC_IR_SCHEMA_VERSION,
+      policy_profile: SUPPORTED_POLICY_PROFILE_SCHEMA_VERSION
+    },
+    ...(params.nodeOutcomes !== undefined
+      ? {
+          nodes: params.nodeOutcomes.map((outcome) =>
+            toTraceLedgerNodeOutcome(outcome, params.replay !== undefined)
+          )
+        }
+      : {}),
+    ...(params.replay !== undefined ? { replay: params.replay } : {}),
+    outcome:
+      params.error === undefined
+        ? {
+            status: "success"
+          }
+        : {
+            status: "failure",
+            error: params.error
+          }
+  };
+
+  try {
+    emitTraceLedgerEntry(ledgerEntry, { outputPath: params.traceLedgerPath });
+    return true;
+  } catch {}
+
+  return false;
+}
+
+function resolveRuntimeFailureCode(error: unknown, traceError: TraceLedgerError): string {
+  if (error instanceof RuntimeSemanticIrValidationError) {
+    return error.code;
+  }
+
+  if (error instanceof RuntimeContinuationGateError) {
+    return error.code;
+  }
+
+  if (error instanceof ContractValidationError) {
+    return error.code;
+  }
+
+  if (error instanceof SemanticIrExecutionError) {
+    return error.code;
+  }
+
+  return traceError.name;
+}
+
+function emitRuntimeTraceInspection(params: {
+  runId: string;
+  startedAt: string;
+  completedAt: string;
+  generatedAt: string;
+  traceId?: string;
+  error?: TraceLedgerError;
+  failureCode: string;
+  continuationDecision: ContinuationGateDecision;
+  traceLedgerPath?: string;
+  traceLedgerWritten: boolean;
+  feedbackTensorPath?: string;
+  feedbackTensorEmission?: RuntimeFeedbackTensorEmissionResult;
+  traceInspectionPath?: string;
+  traceInspectionReportPath?: string;
+}): void {
+  if (!params.traceInspectionPath && !params.traceInspectionReportPath) {
+    return;
+  }
+
+  const entry: TraceInspectionEntryV0 = {
+    schema_version: TRACE_INSPECTION_SCHEMA_VERSION,
+    run_id: params.runId,
+    started_at: params.startedAt,
+    completed_at: params.completedAt,
+    generated_at: params.generatedAt,
+    invocation:
+      params.error === undefined
+        ? {
+            status: "success",
+            trace_id: params.traceId ?? "trace-unavailable"
+          }
+        : {
+            status: "failure",
+            failure_code: params.failureCode,
+            error: params.error
+          },
+    continuation_gate: {
+      configured: params.continuationDecision.reasonCode !== "CONTINUATION_GATE_NOT_CONFIGURED",
+      decision: params.continuationDecision.decision,
+      continuation_allowed: params.continuationDecision.continuationAllowed,
+      reason_code: params.continuationDecision.reasonCode,
+      detail: params.continuationDecision.detail
+    },
+    trace_ledger: {
+      configured: params.traceLedgerPath !== undefined,
+      emitted: params.traceLedgerWritten,
+      output_path: params.traceLedgerPath,
+      trace_entry_id: params.traceLedgerWritten ? params.runId : undefined
+    },
+    feedback_tensor: {
+      configured: params.feedbackTensorPath !== undefined,
+      emitted: params.feedbackTensorEmission?.emitted ?? false,
+      output_path: params.feedbackTensorPath,
+      feedback_id: params.feedbackTensorEmission?.feedbackId,
+      trace_entry_id: params.feedbackTensorEmission?.traceEntryId,
+      failure_signal: params.feedbackTensorEmission?.failureSignal,
+      confidence: params.feedbackTensorEmission?.confidence,
+      proposed_repair_action: params.feedbackTensorEmission?.proposedRepairAction
+    }
+  };
+
+  if (params.traceInspectionPath) {
+    try {
+      emitTraceInspectionEntry(entry, { outputPath: params.traceInspectionPath });
+    } catch {}
+  }
+
+  if (params.traceInspectionReportPath) {
+    try {
+      emitTraceInspectionReport(entry, { outputPath: params.traceInspectionReportPath });
+    } catch {}
+  }
+}
+
+function isSemanticIrContractInput(ir: object): boolean {
+  return Object.prototype.hasOwnProperty.call(ir, "schema_version");
+}
+
+// Accepts a full SemanticIR contract, whose nodes are executed, or a plain `{ version, goal }`
+// envelope that is only gated. Budgets and `fail` / `stop` outcome conditions are checked before
+// the first node and after each one; the continuation gate decides once all nodes have run.
+export async function runSemanticIr(
+  ir: SemanticIrEnvelope | SemanticIrContract,
+  options: RunSemanticIrOptions = {}
+): Promise<RuntimeResult> {
+  const now = options.now ?? (() => new Date());
+  const runIdFactory = options.runIdFactory ?? (() => randomUUID());
+  const feedbackIdFactory = options.feedbackIdFactory ?? (() => createFeedbackIdFallback());
+  const traceLedgerPath = normalizeOutputPath(options.traceLedgerPath);
+  const feedbackTensorPath = normalizeOutputPath(options.feedbackTensorPath);
+  const traceInspectionPath = normalizeOutputPath(options.traceInspectionPath);
+  const traceInspectionReportPath = normalizeOutputPath(options.traceInspectionReportPath);
+  const shouldEmitTraceInspection =
+    traceInspectionPath !== undefined || traceInspectionReportPath !== undefined;
+
+  const shouldResolveRunContext =
+    traceLedgerPath !== undefined || feedbackTensorPath !== undefined || shouldEmitTraceInspection;
+  const runId = shouldResolveRunContext ? resolveTraceRunId(runIdFactory) : "";
+  const startedAt =
+    traceLedgerPath !== undefined || shouldEmitTraceInspection ? resolveTraceTimestamp(now) : "";
+
+  let invocationTraceId = "";
+  let invocationError: TraceLedgerError | undefined;
+  let invocationFailureClass: FeedbackTensorFailureClass = "deterministic_runtime";
+  let invocationFailureCode = "RUNTIME_INVOCATION_ERROR";
+  let continuationDecision = createContinuationGateBypassDecision();
+  let nodeOutcomes: SemanticIrNodeOutcome[] | undefined;
+  try {
+    if (typeof ir !== "object" || ir === null || Array.isArray(ir)) {
+      throw new RuntimeSemanticIrValidationError(
+        "SemanticIR input must be an object",
+        "SEMANTIC_IR_INPUT_INVALID"
+      );
+    }
+
+    const contract = isSemanticIrContractInput(ir) ? loadSemanticIrContract(ir) : undefined;
+    const version =
+      contract?.schema_version ??
+      requireNonEmptyString(
+        (ir as { version?: unknown }).version,
+        "SemanticIR version is required",
+        "SEMANTIC_IR_VERSION_REQUIRED"
+      );
+    requireNonEmptyString(
+      (ir as { goal?: unknown }).goal,
+      "SemanticIR goal is required",
+      "SEMANTIC_IR_GOAL_REQUIRED"
+    );
+    nodeOutcomes = contract !== undefined ? createSkippedNodeOutcomes(contract) : undefined;
+
+    const gate = options.continuationGate;
+    const policyProfile = options.policyProfile ?? gate?.policyProfile;
+    const progressInput: EvaluateRunProgressInput = {
+      ...gate,
+      policyProfile,
+      outcomeConditions: gate?.outcomeConditions ?? ir.outcome_conditions,
+      programBudget: gate?.programBudget ?? ir.budget
+    };
+    // Elapsed time comes from the monotonic clock; `now` only stamps trace outputs.
+    const clockStartedAt = performance.now();
+    const measureUsage = (progress: SemanticIrExecutionProgress) =>
+      measureBudgetUsage(gate?.budgetUsage, progress, performance.now() - clockStartedAt);
+    const resolveVerificationStatus = (outcomes: SemanticIrNodeOutcome[]) =>
+      gate?.verificationStatus ?? deriveVerificationStatus(outcomes, gate?.verificationContract);
+    const checkProgress = (progress: SemanticIrExecutionProgress) => {
+      const stop = evaluateRunProgress({
+        ...progressInput,
+        verificationStatus: resolveVerificationStatus(progress.nodeOutcomes),
+        budgetUsage: measureUsage(progress)
+      });
+      if (stop !== undefined) {
+        continuationDecision = stop;
+        nodeOutcomes = contract !== undefined ? progress.nodeOutcomes : undefined;
+        throw new RuntimeContinuationGateError(stop);
+      }
+    };
+
+    const noTokens = { inputTokens: 0, outputTokens: 0 };
+    checkProgress({ nodeOutcomes: nodeOutcomes ?? [], tokenUsage: noTokens });
+    const execution =
+      contract !== undefined
+        ? await executeSemanticIrNodes(contract, {
+            handlers: options.nodeHandlers,
+            providers: options.stochasticProviders,
+            inputs: options.nodeInputs,
+            policyProfile,
+            afterNode: checkProgress
+          })
+        : { outputs: {}, nodeOutcomes: [], tokenUsage: noTokens };
+    nodeOutcomes = contract !== undefined ? execution.nodeOutcomes : undefined;
+
+    const budgetUsage = measureUsage(execution);
+    const outcomeInput = {
+      ...progressInput,
+      verificationStatus: resolveVerificationStatus(execution.nodeOutcomes),
+      budgetUsage
+    };
+    continuationDecision = gate
+      ? evaluateContinuationGate({ ...gate, ...outcomeInput })
+      : evaluateRunOutcome(outcomeInput);
+    if (continuationDecision.decision !== "continue") {
+      throw new RuntimeContinuationGateError(continuationDecision);
+    }
+
+    invocationTraceId = `trace-${version}`;
+    return {
+      ok: true,
+      traceId: invocationTraceId,
+      continuationDecision,
+      outputs: execution.outputs,
+      nodeOutcomes: execution.nodeOutcomes,
+      tokenUsage: execution.tokenUsage,
+      budgetUsage
+    };
+  } catch (caught) {
+    let error = caught;
+    if (caught instanceof SemanticIrExecutionError) {
+      nodeOutcomes = caught.nodeOutcomes;
+    }
+    if (caught instanceof SemanticIrCapabilityError && caught.decision === "escalate") {
+      continuationDecision = createCapabilityEscalationDecision(caught.message);
+      error = new RuntimeContinuationGateError(continuationDecision, {
+        nodeId: caught.nodeId,
+        cause: caught
+      });
+    }
+    invocationError = toTraceLedgerError(
+      error,
+      typeof ir === "object" && ir !== null ? ir.source_map : undefined
+    );
+    invocationFailureClass = resolveRuntimeFailureClass(error);
+    invocationFailureCode = resolveRuntimeFailureCode(error, invocationError);
+    throw error;
+  } finally {
+    const completedAt = shouldResolveRunContext ? resolveTraceTimestamp(now) : "";
+    const traceLedgerWritten = traceLedgerPath
+      ? emitRuntimeTraceLedger({
+          runId,
+          startedAt,
+          completedAt,
+          traceLedgerPath,
+          error: invocationError,
+          nodeOutcomes,
+          replay: createReplayRecord(ir, options, continuationDecision)
+        })
+      : false;
+
+    const feedbackTensorEmission =
+      feedbackTensorPath && invocationError
+        ? emitRuntimeFailureFeedbackTensor({
+            runId,
+            generatedAt: completedAt,
+            feedbackTensorPath,
+            feedbackIdFactory,
+            failureClass: invocationFailureClass,
+            errorCode: invocationFailureCode,
+            error: invocationError,
+            traceEntryId: traceLedgerWritten ? runId : undefined
+          })
+        : undefined;
+
+    emitRuntimeTraceInspection({
+      runId,
+      startedAt,
+      completedAt,
+      generatedAt: completedAt,
+      traceId: invocationTraceId,
+      error: invocationError,
+      failureCode: invocationFailureCode,
+      continuationDecision,
+      traceLedgerPath,
+      traceLedgerWritten,
+      feedbackTensorPath,
+      feedbackTensorEmission,
+      traceInspectionPath,
+      traceInspectionReportPath
+    });
+  }
+}
@@ -0,0 +1,159 @@
+import { readFileSync } from "node:fs";
+
+export const STOCHASTIC_FIXTURE_SCHEMA_VERSION = "0.1.0";
+
+export interface StochasticTokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface StochasticProviderRequest {
+  nodeId: string;
+  provider: string;
+  prompt: string;
+  temperature: number;
+  minConfidence?: number;
+  // Values of the node's inputs, keyed by input name.
+  inputs: Record<string, unknown>;
+}
+
+export interface StochasticProviderResponse {
+  output: unknown;
+  usage: StochasticTokenUsage;
+  // Provider-reported confidence in [0, 1]; checked against the node's `min_confidence`.
+  confidence: number;
+}
+
+// Network-backed providers resolve once the model answers; the executor awaits each request.
+export interface StochasticProvider {
+  complete(request: StochasticProviderRequest): Promise<StochasticProviderResponse>;
+}
+
+// Providers keyed by the `provider` name stochastic nodes declare.
+export type StochasticProviders = Record<string, StochasticProvider>;
+
+export type StochasticProviderErrorCode =
+  | "STOCHASTIC_FIXTURE_INVALID"
+  | "STOCHASTIC_FIXTURE_RESPONSE_MISSING";
+
+export class StochasticProviderError extends Error {
+  readonly code: StochasticProviderErrorCode;
+
+  constructor(message: string, code: StochasticProviderErrorCode) {
+    super(message);
+    this.name = "StochasticProviderError";
+    this.code = code;
+  }
+}
+
+interface StochasticFixtureResponse {
+  node_id?: string;
+  prompt?: string;
+  output: unknown;
+  confidence: number;
+  usage?: {
+    input_tokens: number;
+    output_tokens: number;
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isTokenCount(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0;
+}
+
+function invalidFixture(fixturePath: string, detail: string): StochasticProviderError {
+  return new StochasticProviderError(
+    `Stochastic fixture "${fixturePath}" is invalid: ${detail}`,
+    "STOCHASTIC_FIXTURE_INVALID"
+  );
+}
+
+function parseFixtureResponse(
+  fixturePath: string,
+  value: unknown,
+  index: number
+): StochasticFixtureResponse {
+  const at = `responses[${index}]`;
+  if (!isRecord(value) || !Object.prototype.hasOwnProperty.call(value, "output")) {
+    throw invalidFixture(fixturePath, `${at} must be an object with an output`);
+  }
+  for (const selector of ["node_id", "prompt"]) {
+    if (value[selector] !== undefined && typeof value[selector] !== "string") {
+      throw invalidFixture(fixturePath, `${at}.${selector} must be a string`);
+    }
+  }
+  const confidence = value.confidence;
+  if (typeof confidence !== "number" || !(confidence >= 0 && confidence <= 1)) {
+    throw invalidFixture(fixturePath, `${at}.confidence must be a number between 0 and 1`);
+  }
+  const usage = value.usage;
+  if (
+    usage !== undefined &&
+    (!isRecord(usage) || !isTokenCount(usage.input_tokens) || !isTokenCount(usage.output_tokens))
+  ) {
+    throw invalidFixture(
+      fixturePath,
+      `${at}.usage must hold non-negative integer input_tokens and output_tokens`
+    );
+  }
+
+  return value as unknown as StochasticFixtureResponse;
+}
+
+function loadFixtureResponses(fixturePath: string): StochasticFixtureResponse[] {
+  let fixture: unknown;
+  try {
+    fixture = JSON.parse(readFileSync(fixturePath, "utf8")) as unknown;
+  } catch (error) {
+    throw invalidFixture(fixturePath, error instanceof Error ? error.message : String(error));
+  }
+
+  if (!isRecord(fixture) || fixture.schema_version !== STOCHASTIC_FIXTURE_SCHEMA_VERSION) {
+    throw invalidFixture(
+      fixturePath,
+      `schema_version must be "${STOCHASTIC_FIXTURE_SCHEMA_VERSION}"`
+    );
+  }
+  if (!Array.isArray(fixture.responses)) {
+    throw invalidFixture(fixturePath, "responses must be an array");
+  }
+
+  return fixture.responses.map((response, index) =>
+    parseFixtureResponse(fixturePath, response, index)
+  );
+}
+
+// Answers from scripted responses in a local JSON file instead of calling a model. A request gets
+// the first response whose `node_id` and `prompt` (each optional) both match it.
+export function createFixtureStochasticProvider(fixturePath: string): StochasticProvider {
+  const responses = loadFixtureResponses(fixturePath);
+
+  return {
+    async complete(request) {
+      const response = responses.find(
+        (candidate) =>
+          (candidate.node_id === undefined || candidate.node_id === request.nodeId) &&
+          (candidate.prompt === undefined || candidate.prompt === request.prompt)
+      );
+      if (response === undefined) {
+        throw new StochasticProviderError(
+          `Stochastic fixture "${fixturePath}" has no response for node "${request.nodeId}"`,
+          "STOCHASTIC_FIXTURE_RESPONSE_MISSING"
+        );
+      }
+
+      return {
+        output: structuredClone(response.output),
+        usage: {
+          inputTokens: response.usage?.input_tokens ?? 0,
+          outputTokens: response.usage?.output_tokens ?? 0
+        },
+        confidence: response.confidence
+      };
+    }
+  };
+}
@@ -109,6 +109,17 @@ function formatBoolean(value: boolean): string {
   return value ? "yes" : "no";
 }
 
+function formatFailureSource(error: TraceLedgerError): string | undefined {
+  if (error.node_id === undefined) {
+    return undefined;
+  }
+
+  const span = error.source_span;
+  return span === undefined
+    ? error.node_id
+    : `${span.file}:${span.start.line}:${span.start.column} (${error.node_id})`;
+}
+
 export function formatTraceInspectionReport(entry: TraceInspectionEntryV0): string {
   const lines: string[] = [
     "[Trace Inspection]",
@@ -124,6 +135,10 @@ export function formatTraceInspectionReport(entry: TraceInspectionEntryV0): stri
   } else {
     lines.push(`Failure Code: ${entry.invocation.failure_code}`);
     lines.push(`Failure Error: ${entry.invocation.error.name}: ${entry.invocation.error.message}`);
+    const failureSource = formatFailureSource(entry.invocation.error);
+    if (failureSource !== undefined) {
+      lines.push(`Failure Source: ${failureSource}`);
+    }
   }
 
   if (entry.continuation_gate) {
@@ -1,10 +1,48 @@
 import { appendFileSync } from "node:fs";
 
+import type {
+  ContinuationDecision,
+  ContinuationGateReasonCode,
+  EvaluateContinuationGateInput
+} from "./continuation-gate.ts";
+import type { PolicyProfileContract, SemanticIrSourceSpan } from "./contracts.ts";
+
 export const TRACE_LEDGER_SCHEMA_VERSION = "0.1.0";
 
 export interface TraceLedgerError {
   name: string;
   message: string;
+  // The SemanticIR node the failure is attributed to and, via the source map, its `.ls` span.
+  node_id?: string;
+  source_span?: SemanticIrSourceSpan;
+}
+
+export interface TraceLedgerNodeOutcome {
+  node_id: string;
+  kind: string;
+  status: "succeeded" | "failed" | "blocked" | "skipped";
+  error?: string;
+  // Recorded for replay only.
+  inputs?: Record<string, unknown>;
+  outputs?: Record<string, unknown>;
+  provider?: string;
+  confidence?: number;
+  usage?: {
+    input_tokens: number;
+    output_tokens: number;
+  };
+}
+
+// What `replayRun` needs to re-execute an invocation; stochastic responses live in `nodes`.
+export interface TraceLedgerReplayRecord {
+  semantic_ir: Record<string, unknown>;
+  node_inputs?: Record<string, unknown>;
+  policy_profile?: PolicyProfileContract;
+  continuation_gate?: EvaluateContinuationGateInput;
+  continuation_decision: {
+    decision: ContinuationDecision;
+    reason_code: ContinuationGateReasonCode;
+  };
 }
 
 export interface TraceLedgerEntryV0 {
@@ -16,6 +54,9 @@ export interface TraceLedgerEntryV0 {
     semantic_ir: string;
     policy_profile: string;
   };
+  // Per-node outcomes, in declaration order, for SemanticIR contracts with deterministic nodes.
+  nodes?: TraceLedgerNodeOutcome[];
+  replay?: TraceLedgerReplayRecord;
   outcome:
     | {
         status: "success";
@@ -0,0 +1,299 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import test from "node:test";
+import { Ajv2020 } from "ajv/dist/2020.js";
+
+import { lowerToSemanticIr, parseLsDocument } from "../../compiler/src/index.ts";
+import type { FeedbackTensorV1 } from "../src/feedback-tensor.ts";
+import { analyzeLeastPrivilege } from "../../compiler/src/least-privilege.ts";
+import {
+  RuntimeContinuationGateError,
+  SemanticIrCapabilityError,
+  evaluateCapabilityPolicy,
+  loadPolicyProfileContract,
+  runSemanticIr,
+  type PolicyProfileContract,
+  type SemanticIrContract,
+  type SemanticIrNodeHandlers,
+  type TraceLedgerEntryV0
+} from "../src/index.ts";
+
+function loadJson(relativePathFromThisTest: string): unknown {
+  const fileContents = readFileSync(new URL(relativePathFromThisTest, import.meta.url), "utf8");
+  return JSON.parse(fileContents) as unknown;
+}
+
+const escalationRule = {
+  capability: "write_report",
+  escalation_level: "team_lead",
+  min_approvals: 1,
+  reason_required: true
+} as const;
+
+function loadProfile(): PolicyProfileContract {
+  const profile = loadJson(
+    "../../docs/spec/examples/policyprofile/valid/development-default.json"
+  ) as PolicyProfileContract;
+  return loadPolicyProfileContract({
+    ...profile,
+    capability_policy: {
+      allow: ["read_logs", "write_report"],
+      deny: ["push_branch"],
+      escalation_requirements: { default: "none", rules: [escalationRule] }
+    }
+  });
+}
+
+function compile(capabilities: string[]): SemanticIrContract {
+  const source = [
+    'goal "publish the build summary"',
+    ...capabilities.map((name) => `capability ${name} "use ${name}"`),
+    'check report_published "summary is published"'
+  ].join("\n");
+  const parsed = parseLsDocument(source, { file: "publish.ls" });
+  assert.notEqual(parsed.ast, null);
+  return lowerToSemanticIr(parsed.ast!, {
+    file: "publish.ls",
+    irId: "ir-publish",
+    now: () => new Date("2026-02-20T12:00:00.000Z")
+  }) as SemanticIrContract;
+}
+
+function recordingHandlers(calls: string[]): SemanticIrNodeHandlers {
+  return {
+    goal: (_node, _inputs, context) => ({ "ir.goal": context.goal }),
+    capability: (node) => {
+      calls.push(node.id);
+      return { [node.outputs[0]]: "done" };
+    },
+    check: () => undefined
+  };
+}
+
+test("evaluateCapabilityPolicy lets explicit denials win over escalation rules", () => {
+  const production = loadPolicyProfileContract(
+    loadJson("../../docs/spec/examples/policyprofile/valid/production-restricted.json")
+  );
+  assert.deepEqual(evaluateCapabilityPolicy("filesystem.write", production), {
+    capability: "filesystem.write",
+    decision: "deny",
+    reason: "denied"
+  });
+  assert.equal(evaluateCapabilityPolicy("network.http", production).decision, "allow");
+  assert.deepEqual(evaluateCapabilityPolicy("shell.exec.sudo", production), {
+    capability: "shell.exec.sudo",
+    decision: "escalate",
+    reason: "manual_approval_required"
+  });
+
+  const profile = loadProfile();
+  assert.deepEqual(evaluateCapabilityPolicy("write_report", profile), {
+    capability: "write_report",
+    decision: "escalate",
+    reason: "escalation_required",
+    escalationRule
+  });
+  assert.deepEqual(evaluateCapabilityPolicy("read_secrets", profile), {
+    capability: "read_secrets",
+    decision: "deny",
+    reason: "not_allowed"
+  });
+  const denyOnly = { ...profile, capability_policy: { ...profile.capability_policy, allow: [] } };
+  assert.equal(evaluateCapabilityPolicy("read_secrets", denyOnly).decision, "allow");
+});
+
+test("runSemanticIr blocks denied capabilities and emits a capability_denied FeedbackTensor", async () => {
+  const tmpRoot = mkdtempSync(join(tmpdir(), "l-semantica-capability-test-"));
+  const traceLedgerPath = join(tmpRoot, "trace-ledger.ndjson");
+  const feedbackTensorPath = join(tmpRoot, "feedback-tensor.ndjson");
+  const calls: string[] = [];
+
+  try {
+    await assert.rejects(
+      () =>
+        runSemanticIr(compile(["read_logs", "push_branch"]), {
+          traceLedgerPath,
+          feedbackTensorPath,
+          runIdFactory: () => "run-capability-denied",
+          feedbackIdFactory: () => "ft-capability-denied",
+          nodeHandlers: recordingHandlers(calls),
+          policyProfile: loadProfile()
+        }),
+      (error) => {
+        assert.ok(error instanceof SemanticIrCapabilityError);
+        assert.equal(error.code, "SEMANTIC_IR_CAPABILITY_DENIED");
+        assert.equal(error.decision, "deny");
+        assert.equal(error.capability, "push_branch");
+        assert.equal(error.nodeId, "det-capability-push_branch");
+        return true;
+      }
+    );
+    assert.deepEqual(calls, ["det-capability-read_logs"]);
+
+    const entry = JSON.parse(readFileSync(traceLedgerPath, "utf8")) as TraceLedgerEntryV0;
+    assert.deepEqual(
+      entry.nodes?.map((node) => [node.node_id, node.status]),
+      [
+        ["det-goal", "succeeded"],
+        ["det-capability-read_logs", "succeeded"],
+        ["det-capability-push_branch", "blocked"],
+        ["det-check-report_published", "skipped"]
+      ]
+    );
+    assert.equal(
+      entry.nodes?.[2].error,
+      'capability "push_branch" is denied by policy profile "policy-dev-default"'
+    );
+
+    const feedback = JSON.parse(readFileSync(feedbackTensorPath, "utf8")) as FeedbackTensorV1;
+    assert.equal(feedback.failure_signal.class, "capability_denied");
+    assert.equal(feedback.failure_signal.stage, "capability");
+    assert.equal(feedback.failure_signal.error_code, "SEMANTIC_IR_CAPABILITY_DENIED");
+    assert.equal(feedback.failure_signal.node_id, "det-capability-push_branch");
+    assert.equal(feedback.proposed_repair_action.action, "request_manual_review");
+    assert.equal(feedback.proposed_repair_action.requires_human_approval, true);
+
+    const ajv = new Ajv2020({ allErrors: true, validateFormats: false });
+    const feedbackTensorSchema = loadJson("../../docs/spec/schemas/feedbacktensor-v1.schema.json");
+    assert.equal(ajv.validate(feedbackTensorSchema as object, feedback), true, ajv.errorsText());
+    const traceLedgerSchema = loadJson("../../docs/spec/schemas/traceledger-v0.schema.json");
+    assert.equal(ajv.validate(traceLedgerSchema as object, entry), true, ajv.errorsText());
+  } finally {
+    rmSync(tmpRoot, { recursive: true, force: true });
+  }
+});
+
+test("runSemanticIr ends runs that need a capability escalation with an escalate decision", async () => {
+  const tmpRoot = mkdtempSync(join(tmpdir(), "l-semantica-capability-test-"));
+  const feedbackTensorPath = join(tmpRoot, "feedback-tensor.ndjson");
+  const calls: string[] = [];
+
+  try {
+    await assert.rejects(
+      () =>
+        runSemanticIr(compile(["read_logs", "write_report"]), {
+          feedbackTensorPath,
+          nodeHandlers: recordingHandlers(calls),
+          policyProfile: loadProfile()
+        }),
+      (error) => {
+        assert.ok(error instanceof RuntimeContinuationGateError);
+        assert.equal(error.code, "CAPABILITY_ESCALATION_REQUIRED");
+        assert.equal(error.decision, "escalate");
+        assert.equal(error.failureClass, "policy_gate");
+        assert.equal(error.nodeId, "det-capability-write_report");
+        assert.ok(error.cause instanceof SemanticIrCapabilityError);
+        assert.deepEqual(error.cause.escalationRule, escalationRule);
+        const blocked = error.cause.nodeOutcomes.find((outcome) => outcome.status === "blocked");
+        assert.equal(blocked?.nodeId, "det-capability-write_report");
+        assert.equal(
+          blocked?.error,
+          'capability "write_report" requires team_lead escalation (1 approval(s)) under ' +
+            'policy profile "policy-dev-default"'
+        );
+        return true;
+      }
+    );
+    assert.deepEqual(calls, ["det-capability-read_logs"]);
+
+    const feedback = JSON.parse(readFileSync(feedbackTensorPath, "utf8")) as FeedbackTensorV1;
+    assert.equal(feedback.failure_signal.class, "policy_gate");
+    assert.equal(feedback.failure_signal.stage, "policy");
+    assert.equal(feedback.failure_signal.error_code, "CAPABILITY_ESCALATION_REQUIRED");
+    assert.equal(feedback.proposed_repair_action.action, "request_manual_review");
+    assert.equal(feedback.proposed_repair_action.requires_human_approval, true);
+  } finally {
+    rmSync(tmpRoot, { recursive: true, force: true });
+  }
+
+  const result = await runSemanticIr(compile(["read_logs"]), {
+    nodeHandlers: recordingHandlers([]),
+    policyProfile: loadProfile()
+  });
+  assert.equal(result.outputs["capability.read_logs"], "done");
+});
+
+test("runSemanticIr escalates capabilities outside the allow list under manual_approval", async () => {
+  const profile = loadProfile();
+  const manualApproval = loadPolicyProfileContract({
+    ...profile,
+    capability_policy: {
+      ...profile.capability_policy,
+      escalation_requirements: { default: "manual_approval", rules: [escalationRule] }
+    }
+  });
+
+  await assert.rejects(
+    () =>
+      runSemanticIr(compile(["read_logs", "open_issue"]), {
+        nodeHandlers: recordingHandlers([]),
+        policyProfile: manualApproval
+      }),
+    (error) => {
+      assert.ok(error instanceof RuntimeContinuationGateError);
+      assert.equal(error.decision, "escalate");
+      assert.equal(error.nodeId, "det-capability-open_issue");
+      assert.ok(error.cause instanceof SemanticIrCapabilityError);
+      assert.equal(error.cause.escalationRule, undefined);
+      assert.match(error.message, /CAPABILITY_ESCALATION_REQUIRED/);
+      return true;
+    }
+  );
+});
+
+test("runSemanticIr skips capabilities that no step invokes", async () => {
+  const source = [
+    'goal "publish the build summary"',
+    'capability read_logs "read the logs"',
+    'capability push_branch "push the branch"',
+    'step summarize "summarize the logs" uses read_logs',
+    'check report_published "summary is published"'
+  ].join("\n");
+  const parsed = parseLsDocument(source, { file: "publish.ls" });
+  assert.notEqual(parsed.ast, null);
+  const ir = lowerToSemanticIr(parsed.ast!, { file: "publish.ls" });
+
+  // The least-privilege suggestion narrows `allow` to the invoked capabilities only.
+  const suggested = analyzeLeastPrivilege(ir, loadProfile()).suggested_policy;
+  assert.ok(suggested);
+  assert.deepEqual(suggested.capability_policy.allow, ["read_logs"]);
+  const calls: string[] = [];
+  const result = await runSemanticIr(ir as SemanticIrContract, {
+    nodeHandlers: { ...recordingHandlers(calls), step: () => undefined },
+    policyProfile: suggested
+  });
+  assert.deepEqual(calls, ["det-capability-read_logs"]);
+  assert.deepEqual(
+    result.nodeOutcomes.map((outcome) => [outcome.nodeId, outcome.status]),
+    result.nodeOutcomes.map((outcome) => [
+      outcome.nodeId,
+      outcome.nodeId === "det-capability-push_branch" ? "skipped" : "succeeded"
+    ])
+  );
+});
+
+test("runSemanticIr does not run denied capabilities that no step invokes", async () => {
+  const source = [
+    'goal "publish the build summary"',
+    'capability read_logs "read the logs"',
+    'capability push_branch "push the branch"',
+    'step summarize "summarize the logs" uses read_logs',
+    'check report_published "summary is published"'
+  ].join("\n");
+  const parsed = parseLsDocument(source, { file: "publish.ls" });
+  assert.notEqual(parsed.ast, null);
+  const ir = lowerToSemanticIr(parsed.ast!, { file: "publish.ls" });
+
+  const calls: string[] = [];
+  const result = await runSemanticIr(ir as SemanticIrContract, {
+    nodeHandlers: { ...recordingHandlers(calls), step: () => undefined },
+    policyProfile: loadProfile()
+  });
+  assert.deepEqual(calls, ["det-capability-read_logs"]);
+  assert.equal(
+    result.nodeOutcomes.find((outcome) => outcome.nodeId === "det-capability-push_branch")?.status,
+    "skipped"
+  );
+});
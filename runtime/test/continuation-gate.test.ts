@@ -1,14 +1,28 @@
 import assert from "node:assert/strict";
-import { readFileSync } from "node:fs";
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import test from "node:test";
+import { Ajv2020 } from "ajv/dist/2020.js";
 
+import {
+  lowerToPolicyProfile,
+  lowerToSemanticIr,
+  lowerToVerificationContract,
+  parseLsDocument
+} from "../../compiler/src/index.ts";
 import {
   RuntimeContinuationGateError,
   createFeedbackTensorEntry,
+  createFixtureStochasticProvider,
   evaluateContinuationGate,
   loadRuntimeContracts,
+  resolveEffectiveBudget,
   runSemanticIr,
   type FeedbackTensorV1,
+  type SemanticIrContract,
+  type SemanticIrNodeHandlers,
+  type SemanticIrOutcomeCondition,
   type VerificationStatusSummary
 } from "../src/index.ts";
 
@@ -169,14 +183,14 @@ test("continuation gate requires policy profile when policy assertions must be e
   assert.equal(decision.reasonCode, "POLICY_PROFILE_REQUIRED");
 });
 
-test("runSemanticIr blocks autonomous continuation when verification checks fail threshold", () => {
+test("runSemanticIr blocks autonomous continuation when verification checks fail threshold", async () => {
   const runtimeContracts = loadRuntimeContracts({
     semanticIr: validSemanticIr,
     policyProfile: validPolicyProfile,
     verificationContract: strictStopVerificationContract
   });
 
-  assert.throws(
+  await assert.rejects(
     () =>
       runSemanticIr(
         {
@@ -209,14 +223,14 @@ test("runSemanticIr blocks autonomous continuation when verification checks fail
   );
 });
 
-test("runSemanticIr returns explicit continuation decision when gate passes", () => {
+test("runSemanticIr returns explicit continuation decision when gate passes", async () => {
   const runtimeContracts = loadRuntimeContracts({
     semanticIr: validSemanticIr,
     policyProfile: validPolicyProfile,
     verificationContract: strictStopVerificationContract
   });
 
-  const result = runSemanticIr(
+  const result = await runSemanticIr(
     {
       version: "0.1.0",
       goal: "ship parser"
@@ -235,3 +249,392 @@ test("runSemanticIr returns explicit continuation decision when gate passes", ()
   assert.equal(result.continuationDecision.decision, "continue");
   assert.equal(result.continuationDecision.reasonCode, "VERIFICATION_GATE_PASSED");
 });
+
+test("continuation gate maps declared fail, stop, and succeed conditions onto decisions", () => {
+  const runtimeContracts = loadRuntimeContracts({
+    semanticIr: validSemanticIr,
+    policyProfile: validPolicyProfile,
+    verificationContract: escalateVerificationContract
+  });
+  const outcomeConditions: SemanticIrOutcomeCondition[] = [
+    {
+      id: "outcome-succeed-1",
+      outcome: "succeed",
+      all_of: [{ kind: "check", check: "runtime.reliability-corpus", status: "passed" }]
+    },
+    {
+      id: "outcome-fail-1",
+      outcome: "fail",
+      all_of: [{ kind: "check", check: "workspace.typecheck", status: "failed" }]
+    },
+    {
+      id: "outcome-stop-1",
+      outcome: "stop",
+      all_of: [{ kind: "budget", budget: "max_runtime_seconds", status: "exhausted" }]
+    }
+  ];
+  const evaluate = (typecheckPassed: boolean, runtimeSeconds: number) =>
+    evaluateContinuationGate({
+      verificationContract: runtimeContracts.verificationContract,
+      policyProfile: runtimeContracts.policyProfile,
+      verificationStatus: {
+        checks: [
+          { id: "runtime.reliability-corpus", kind: "test", passed: true },
+          { id: "workspace.typecheck", kind: "static_analysis", passed: typecheckPassed }
+        ],
+        warningCount: 0
+      },
+      feedbackTensor: createFeedbackEvidence(),
+      outcomeConditions,
+      budgetUsage: { autonomousSteps: 3, runtimeSeconds }
+    });
+
+  const failed = evaluate(false, 10);
+  assert.equal(failed.decision, "stop");
+  assert.equal(failed.reasonCode, "OUTCOME_FAILURE_CONDITION_MET");
+  assert.match(failed.detail, /outcome-fail-1: workspace\.typecheck failed/);
+  assert.equal(failed.outcomeConditionId, "outcome-fail-1");
+
+  const stopped = evaluate(true, 300);
+  assert.equal(stopped.decision, "stop");
+  assert.equal(stopped.reasonCode, "OUTCOME_STOP_CONDITION_MET");
+
+  // A met succeed condition does not override a failed policy assertion.
+  const escalated = evaluate(true, 10);
+  assert.equal(escalated.decision, "escalate");
+  assert.equal(escalated.reasonCode, "VERIFICATION_POLICY_ASSERTION_FAILED");
+});
+
+test("runSemanticIr applies outcome conditions carried by the SemanticIR envelope", async () => {
+  const runtimeContracts = loadRuntimeContracts({
+    semanticIr: validSemanticIr,
+    policyProfile: validPolicyProfile,
+    verificationContract: strictStopVerificationContract
+  });
+  const verificationStatus = createStrictPassVerificationStatus();
+  verificationStatus.warningCount = 5;
+
+  const result = await runSemanticIr(
+    {
+      version: "0.1.0",
+      goal: "ship parser",
+      outcome_conditions: [
+        {
+          id: "outcome-succeed-1",
+          outcome: "succeed",
+          all_of: [{ kind: "check", check: "workspace.lint", status: "passed" }]
+        }
+      ]
+    },
+    {
+      continuationGate: {
+        verificationContract: runtimeContracts.verificationContract,
+        policyProfile: runtimeContracts.policyProfile,
+        verificationStatus,
+        feedbackTensor: createFeedbackEvidence()
+      }
+    }
+  );
+
+  assert.equal(result.continuationDecision.decision, "continue");
+  assert.equal(result.continuationDecision.reasonCode, "OUTCOME_SUCCESS_CONDITION_MET");
+});
+
+test("resolveEffectiveBudget keeps the stricter of the program and policy limits", () => {
+  const runtimeContracts = loadRuntimeContracts({
+    semanticIr: validSemanticIr,
+    policyProfile: validPolicyProfile,
+    verificationContract: strictStopVerificationContract
+  });
+
+  assert.deepEqual(
+    resolveEffectiveBudget(
+      { max_tokens: 50000, max_autonomous_steps: 40, max_runtime_seconds: 120 },
+      runtimeContracts.policyProfile
+    ),
+    { max_tokens: 50000, max_autonomous_steps: 25, max_runtime_seconds: 120 }
+  );
+  const position = { offset: 0, line: 1, column: 1 };
+  const sourceSpan = { file: "budget.ls", start: position, end: position };
+  assert.deepEqual(resolveEffectiveBudget({ max_cost_usd: 2, source_span: sourceSpan }), {
+    max_cost_usd: 2
+  });
+  assert.deepEqual(resolveEffectiveBudget(), {});
+});
+
+test("runSemanticIr stops with BUDGET_EXCEEDED once usage passes the effective budget", async () => {
+  const runtimeContracts = loadRuntimeContracts({
+    semanticIr: validSemanticIr,
+    policyProfile: validPolicyProfile,
+    verificationContract: strictStopVerificationContract
+  });
+  const run = (budgetUsage: { autonomousSteps?: number; tokens?: number }) =>
+    runSemanticIr(
+      {
+        version: "0.1.0",
+        goal: "ship parser",
+        budget: { max_tokens: 1000, max_autonomous_steps: 40 }
+      },
+      {
+        continuationGate: {
+          verificationContract: runtimeContracts.verificationContract,
+          policyProfile: runtimeContracts.policyProfile,
+          verificationStatus: createStrictPassVerificationStatus(),
+          feedbackTensor: createFeedbackEvidence(),
+          budgetUsage
+        }
+      }
+    );
+
+  // The policy's 25-step limit is stricter than the program's 40.
+  for (const [budgetUsage, detail] of [
+    [{ autonomousSteps: 26 }, "Budget max_autonomous_steps exceeded (used 26 of 25)."],
+    [{ tokens: 1001 }, "Budget max_tokens exceeded (used 1001 of 1000)."]
+  ] as const) {
+    await assert.rejects(
+      () => run(budgetUsage),
+      (error) => {
+        assert.ok(error instanceof RuntimeContinuationGateError);
+        assert.equal(error.decision, "stop");
+        assert.equal(error.code, "BUDGET_EXCEEDED");
+        assert.equal(error.failureClass, "policy_gate");
+        return true;
+      }
+    );
+    assert.equal(
+      evaluateContinuationGate({
+        verificationContract: runtimeContracts.verificationContract,
+        policyProfile: runtimeContracts.policyProfile,
+        feedbackTensor: createFeedbackEvidence(),
+        programBudget: { max_tokens: 1000, max_autonomous_steps: 40 },
+        budgetUsage
+      }).detail,
+      detail
+    );
+  }
+
+  assert.equal(
+    (await run({ autonomousSteps: 25, tokens: 1000 })).continuationDecision.reasonCode,
+    "VERIFICATION_GATE_PASSED"
+  );
+});
+
+test("runSemanticIr measures its own usage and checks the budget after each node", async () => {
+  const source = readFileSync(
+    new URL("../../docs/spec/examples/valid/infer-steps.ls", import.meta.url),
+    "utf8"
+  );
+  const compile = (extra: string) => {
+    const parsed = parseLsDocument(`${source}${extra}\n`, { file: "infer-steps.ls" });
+    assert.notEqual(parsed.ast, null);
+    return lowerToSemanticIr(parsed.ast!, { file: "infer-steps.ls" }) as SemanticIrContract;
+  };
+  const calls: string[] = [];
+  const handlers = (capabilityDelayMs = 0): SemanticIrNodeHandlers => ({
+    goal: (_node, _inputs, context) => ({ "ir.goal": context.goal }),
+    capability: (node) => {
+      Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, capabilityDelayMs);
+      return { [node.outputs[0]]: "log lines" };
+    },
+    check: (node) => {
+      calls.push(node.id);
+      return { [node.outputs[0]]: true };
+    }
+  });
+  const fixturePath = new URL(
+    "../../benchmarks/fixtures/stochastic/mock-responses.v0.json",
+    import.meta.url
+  ).pathname;
+  const stochasticProviders = { openai: createFixtureStochasticProvider(fixturePath) };
+  const stopReason = async (ir: SemanticIrContract, capabilityDelayMs = 0) => {
+    try {
+      await runSemanticIr(ir, { nodeHandlers: handlers(capabilityDelayMs), stochasticProviders });
+    } catch (error) {
+      assert.ok(error instanceof RuntimeContinuationGateError);
+      assert.equal(error.decision, "stop");
+      return error.code;
+    }
+    return assert.fail("expected the run to stop");
+  };
+
+  const result = await runSemanticIr(compile(""), {
+    nodeHandlers: handlers(),
+    stochasticProviders
+  });
+  assert.deepEqual(result.budgetUsage, { tokens: 75, autonomousSteps: 4, runtimeSeconds: 0 });
+
+  // No continuation gate is configured: the program budget alone stops the run once the
+  // provider's 75 tokens pass it, before the check that waits on the draft runs.
+  calls.length = 0;
+  assert.equal(await stopReason(compile("budget max_tokens 70")), "BUDGET_EXCEEDED");
+  assert.deepEqual(calls, []);
+  assert.equal(await stopReason(compile("budget max_autonomous_steps 3")), "BUDGET_EXCEEDED");
+  const timed = compile("budget max_runtime_seconds 1\nstop when max_runtime_seconds exhausted");
+  assert.equal(await stopReason(timed, 1100), "OUTCOME_STOP_CONDITION_MET");
+});
+
+test("runSemanticIr reports boolean check node outputs to the continuation gate", async () => {
+  const source = [
+    'goal "file an issue for the failing build"',
+    'capability read_logs "read CI build logs"',
+    'check cites_log_lines "response cites failing log lines"',
+    'check no_secret_leak "issue body contains no secrets"',
+    "succeed when cites_log_lines passes",
+    "fail when no_secret_leak fails",
+    "",
+    "policy development",
+    "allow read_logs",
+    "max_autonomous_steps 25",
+    "max_runtime_seconds 300",
+    "",
+    "verify",
+    "test cites_log_lines",
+    "static_analysis no_secret_leak",
+    'assert bounded_steps "constraints.max_autonomous_steps" 25',
+    "on_failure escalate"
+  ].join("\n");
+  const parsed = parseLsDocument(source, { file: "program.ls" });
+  assert.notEqual(parsed.ast, null);
+  const ir = lowerToSemanticIr(parsed.ast!, { file: "program.ls" }) as SemanticIrContract;
+  const { policyProfile } = lowerToPolicyProfile(parsed.ast!, { file: "program.ls" });
+  const { verificationContract } = lowerToVerificationContract(parsed.ast!, { file: "program.ls" });
+  assert.notEqual(policyProfile, null);
+  assert.notEqual(verificationContract, null);
+  const run = (results: Record<string, unknown>) =>
+    runSemanticIr(ir, {
+      nodeHandlers: {
+        goal: (_node, _inputs, context) => ({ "ir.goal": context.goal }),
+        capability: (node) => ({ [node.outputs[0]]: "log lines" }),
+        check: (node) => ({ [node.outputs[0]]: results[node.outputs[0]] })
+      },
+      continuationGate: {
+        verificationContract: verificationContract!,
+        policyProfile: policyProfile!,
+        feedbackTensor: createFeedbackEvidence()
+      }
+    });
+
+  const passed = await run({ "check.cites_log_lines": true, "check.no_secret_leak": true });
+  assert.equal(passed.continuationDecision.reasonCode, "OUTCOME_SUCCESS_CONDITION_MET");
+
+  await assert.rejects(
+    () => run({ "check.cites_log_lines": true, "check.no_secret_leak": false }),
+    (error) => {
+      assert.ok(error instanceof RuntimeContinuationGateError);
+      assert.equal(error.code, "OUTCOME_FAILURE_CONDITION_MET");
+      assert.equal(error.decision, "stop");
+      return true;
+    }
+  );
+  // Checks that return no boolean report no result.
+  await assert.rejects(
+    () => run({ "check.cites_log_lines": null, "check.no_secret_leak": true }),
+    (error) => {
+      assert.ok(error instanceof RuntimeContinuationGateError);
+      assert.equal(error.code, "VERIFICATION_CHECK_RESULT_MISSING");
+      return true;
+    }
+  );
+});
+
+test("runSemanticIr reports met succeed conditions without a verification contract", async () => {
+  const parsed = parseLsDocument(
+    [
+      'goal "file an issue for the failing build"',
+      'capability read_logs "read CI build logs"',
+      'check cites_log_lines "response cites failing log lines"',
+      "succeed when cites_log_lines passes"
+    ].join("\n"),
+    { file: "program.ls" }
+  );
+  assert.notEqual(parsed.ast, null);
+  const ir = lowerToSemanticIr(parsed.ast!, { file: "program.ls" }) as SemanticIrContract;
+  const run = (passed: boolean) =>
+    runSemanticIr(ir, {
+      nodeHandlers: {
+        goal: (_node, _inputs, context) => ({ "ir.goal": context.goal }),
+        capability: (node) => ({ [node.outputs[0]]: "log lines" }),
+        check: (node) => ({ [node.outputs[0]]: passed })
+      }
+    });
+
+  const succeeded = (await run(true)).continuationDecision;
+  assert.equal(succeeded.decision, "continue");
+  assert.equal(succeeded.reasonCode, "OUTCOME_SUCCESS_CONDITION_MET");
+  assert.equal(succeeded.outcomeConditionId, "outcome-succeed-1");
+  const unmet = (await run(false)).continuationDecision;
+  assert.equal(unmet.reasonCode, "CONTINUATION_GATE_NOT_CONFIGURED");
+});
+
+test("runSemanticIr attributes outcome-condition stops to their .ls source in trace outputs", async () => {
+  const runtimeContracts = loadRuntimeContracts({
+    semanticIr: validSemanticIr,
+    policyProfile: validPolicyProfile,
+    verificationContract: strictStopVerificationContract
+  });
+  const tmpRoot = mkdtempSync(join(tmpdir(), "l-semantica-source-map-"));
+  const traceLedgerPath = join(tmpRoot, "trace-ledger.ndjson");
+  const feedbackTensorPath = join(tmpRoot, "feedback-tensor.ndjson");
+  const traceInspectionReportPath = join(tmpRoot, "trace-inspection.txt");
+  const sourceSpan = {
+    file: "program.ls",
+    start: { offset: 120, line: 7, column: 1 },
+    end: { offset: 150, line: 7, column: 31 }
+  };
+  const verificationStatus = createStrictPassVerificationStatus();
+  verificationStatus.checks[3].passed = false;
+
+  try {
+    await assert.rejects(
+      () =>
+        runSemanticIr(
+          {
+            version: "0.1.0",
+            goal: "ship parser",
+            outcome_conditions: [
+              {
+                id: "outcome-fail-1",
+                outcome: "fail",
+                all_of: [{ kind: "check", check: "workspace.typecheck", status: "failed" }]
+              }
+            ],
+            source_map: { "outcome-fail-1": sourceSpan }
+          },
+          {
+            traceLedgerPath,
+            feedbackTensorPath,
+            traceInspectionReportPath,
+            continuationGate: {
+              verificationContract: runtimeContracts.verificationContract,
+              policyProfile: runtimeContracts.policyProfile,
+              verificationStatus,
+              feedbackTensor: createFeedbackEvidence()
+            }
+          }
+        ),
+      (error) => {
+        assert.ok(error instanceof RuntimeContinuationGateError);
+        assert.equal(error.nodeId, "outcome-fail-1");
+        return true;
+      }
+    );
+
+    const ledger = JSON.parse(readFileSync(traceLedgerPath, "utf8")) as {
+      outcome: { error: { node_id?: string; source_span?: unknown } };
+    };
+    assert.equal(ledger.outcome.error.node_id, "outcome-fail-1");
+    assert.deepEqual(ledger.outcome.error.source_span, sourceSpan);
+    const feedback = JSON.parse(readFileSync(feedbackTensorPath, "utf8")) as FeedbackTensorV1;
+    assert.equal(feedback.failure_signal.node_id, "outcome-fail-1");
+    assert.deepEqual(feedback.failure_signal.source_span, sourceSpan);
+    const ajv = new Ajv2020({ allErrors: true });
+    const feedbackTensorSchema = loadJson("../../docs/spec/schemas/feedbacktensor-v1.schema.json");
+    assert.equal(ajv.validate(feedbackTensorSchema as object, feedback), true, ajv.errorsText());
+    assert.match(
+      readFileSync(traceInspectionReportPath, "utf8"),
+      /^Failure Source: program\.ls:7:1 \(outcome-fail-1\)$/m
+    );
+  } finally {
+    rmSync(tmpRoot, { recursive: true, force: true });
+  }
+});
@@ -57,14 +57,14 @@ function makeDeterministicClock(isoTimestamps: string[]): () => Date {
   };
 }
 
-test("runtime emits linked FeedbackTensor records for failure and repair outcomes", () => {
+test("runtime emits linked FeedbackTensor records for failure and repair outcomes", async () => {
   const tmpRoot = mkdtempSync(join(tmpdir(), "l-semantica-feedback-emission-"));
   const traceLedgerPath = join(tmpRoot, "runtime-trace-ledger.ndjson");
   const feedbackTensorPath = join(tmpRoot, "feedback-tensor.ndjson");
   const runId = "run-linked-feedback-001";
 
   try {
-    assert.throws(
+    await assert.rejects(
       () =>
         runSemanticIr(
           {
@@ -146,13 +146,13 @@ test("runtime emits linked FeedbackTensor records for failure and repair outcome
   }
 });
 
-test("runtime emits medium-confidence feedback for deterministic non-schema failures", () => {
+test("runtime emits medium-confidence feedback for deterministic non-schema failures", async () => {
   const tmpRoot = mkdtempSync(join(tmpdir(), "l-semantica-feedback-emission-"));
   const traceLedgerPath = join(tmpRoot, "runtime-trace-ledger.ndjson");
   const feedbackTensorPath = join(tmpRoot, "feedback-tensor.ndjson");
 
   try {
-    assert.throws(
+    await assert.rejects(
       () =>
         runSemanticIr(
           {
@@ -266,14 +266,14 @@ test("repair feedback confidence is calibrated by terminal outcome", () => {
   }
 });
 
-test("runtime feedback omits trace_entry_id when trace ledger append fails", () => {
+test("runtime feedback omits trace_entry_id when trace ledger append fails", async () => {
   const tmpRoot = mkdtempSync(join(tmpdir(), "l-semantica-feedback-emission-"));
   const missingTraceLedgerPath = join(tmpRoot, "missing", "runtime-trace-ledger.ndjson");
   const feedbackTensorPath = join(tmpRoot, "feedback-tensor.ndjson");
   const runId = "run-feedback-no-trace-link-001";
 
   try {
-    assert.throws(
+    await assert.rejects(
       () =>
         runSemanticIr(
           {
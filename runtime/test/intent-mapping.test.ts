@@ -260,6 +260,41 @@ test("createIntentMappingArtifact prefers AST symbol hits over file-level text m
   }
 });
 
+test("createIntentMappingArtifact uses .ls doc comments as AST match signal", () => {
+  const repo = createFixtureRepo();
+
+  try {
+    writeRepoFile(
+      repo.root,
+      "flows/repo-maintenance.ls",
+      [
+        'goal "maintain repository quality"',
+        'capability read_docs "read repository docs and RFCs"',
+        "## Owns lexer and grammar changes in the compiler package.",
+        'capability edit_code "modify runtime and compiler files safely"',
+        'check run_tests "run lint typecheck and tests before commit"'
+      ].join("\n") + "\n"
+    );
+
+    const snapshot = createSnapshot(repo.root);
+    const artifact = createIntentMappingArtifact({
+      workspaceSnapshot: snapshot,
+      intent: "Tighten lexer grammar",
+      now: () => new Date("2026-02-22T13:00:12.000Z"),
+      toolVersion: "l-semantica@0.1.0-dev"
+    });
+
+    const topCandidate = artifact.payload.candidates[0];
+    assert.equal(topCandidate?.path, "flows/repo-maintenance.ls");
+    assert.equal(topCandidate?.symbol_path, "capability:edit_code");
+    assert.equal(topCandidate?.provenance.method, "ast_symbol_lookup");
+    assert.equal(topCandidate?.provenance.range?.start_line, 4);
+    assert.match(topCandidate?.rationale ?? "", /doc comment overlap 2/);
+  } finally {
+    repo.cleanup();
+  }
+});
+
 test("createIntentMappingArtifact omits text-match provenance range for path-only matches", () => {
   const repo = createFixtureRepo();
 
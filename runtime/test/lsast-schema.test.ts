@@ -0,0 +1,58 @@
+import assert from "node:assert/strict";
+import { readdirSync, readFileSync } from "node:fs";
+import test from "node:test";
+import { Ajv2020 } from "ajv/dist/2020.js";
+
+import { parseLsDocument, serializeAst } from "../../compiler/src/index.ts";
+
+function loadJson(relativePathFromThisTest: string): unknown {
+  const fileContents = readFileSync(new URL(relativePathFromThisTest, import.meta.url), "utf8");
+  return JSON.parse(fileContents) as unknown;
+}
+
+const validExamplesDirectory = new URL("../../docs/spec/examples/valid/", import.meta.url);
+const lsAstSchema = loadJson("../../docs/spec/schemas/lsast-v0.schema.json") as object;
+
+const ajv = new Ajv2020({ allErrors: true });
+const validateLsAst = ajv.compile(lsAstSchema);
+
+function serializedExamples(): Array<{ name: string; value: unknown }> {
+  return readdirSync(validExamplesDirectory)
+    .filter((name) => name.endsWith(".ls"))
+    .map((name) => {
+      const parsed = parseLsDocument(readFileSync(new URL(name, validExamplesDirectory), "utf8"));
+      assert.notEqual(parsed.ast, null, name);
+      return { name, value: parsed.ast !== null ? JSON.parse(serializeAst(parsed.ast)) : null };
+    });
+}
+
+test("LsAst v0 schema accepts serialized ASTs of every valid example", () => {
+  for (const example of serializedExamples()) {
+    const valid = validateLsAst(example.value);
+
+    assert.equal(
+      valid,
+      true,
+      `${example.name}: ${ajv.errorsText(validateLsAst.errors, { separator: "\n" })}`
+    );
+  }
+});
+
+test("LsAst v0 schema rejects unknown versions, node kinds, and fields", () => {
+  const [example] = serializedExamples();
+  const payload = example.value as {
+    schema_version: string;
+    ast: { goal: Record<string, unknown>; capabilities: Array<Record<string, unknown>> };
+  };
+
+  assert.equal(validateLsAst({ ...payload, schema_version: "1.0.0" }), false);
+  const goal = { ...payload.ast.goal, kind: "Goal" };
+  assert.equal(validateLsAst({ ...payload, ast: { ...payload.ast, goal } }), false);
+  assert.equal(
+    validateLsAst({
+      ...payload,
+      ast: { ...payload.ast, capabilities: [{ ...payload.ast.capabilities[0], scope: "repo" }] }
+    }),
+    false
+  );
+});
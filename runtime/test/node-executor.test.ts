@@ -0,0 +1,241 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import test from "node:test";
+import { Ajv2020 } from "ajv/dist/2020.js";
+
+import { lowerToSemanticIr, parseLsDocument } from "../../compiler/src/index.ts";
+import {
+  SemanticIrExecutionError,
+  executeSemanticIrNodes,
+  runSemanticIr,
+  type SemanticIrContract,
+  type SemanticIrDeterministicNode,
+  type SemanticIrNodeHandlers,
+  type TraceLedgerEntryV0
+} from "../src/index.ts";
+
+function loadJson(relativePathFromThisTest: string): unknown {
+  const fileContents = readFileSync(new URL(relativePathFromThisTest, import.meta.url), "utf8");
+  return JSON.parse(fileContents) as unknown;
+}
+
+function compileExample(relativePath: string): SemanticIrContract {
+  const source = readFileSync(
+    new URL(`../../docs/spec/examples/${relativePath}`, import.meta.url),
+    "utf8"
+  );
+  const parsed = parseLsDocument(source, { file: "steps.ls" });
+  assert.notEqual(parsed.ast, null);
+  return lowerToSemanticIr(parsed.ast!, {
+    file: "steps.ls",
+    irId: "ir-steps",
+    now: () => new Date("2026-02-20T12:00:00.000Z")
+  }) as SemanticIrContract;
+}
+
+function recordingHandlers(executed: string[]): SemanticIrNodeHandlers {
+  const handler = (node: SemanticIrDeterministicNode, inputs: Record<string, unknown>) => {
+    executed.push(node.id);
+    return Object.fromEntries(
+      node.outputs.map((output) => [output, `${node.id}(${Object.keys(inputs).join(",")})`])
+    );
+  };
+  return { goal: handler, capability: handler, step: handler, check: handler };
+}
+
+function node(
+  id: string,
+  inputs: string[],
+  outputs: string[],
+  kind = "step"
+): SemanticIrDeterministicNode {
+  return { id, node_class: "deterministic", kind, inputs, outputs };
+}
+
+test("runSemanticIr schedules compiled nodes by their inputs and records outcomes", async () => {
+  const ir = compileExample("valid/steps.ls");
+  const tmpRoot = mkdtempSync(join(tmpdir(), "l-semantica-node-executor-"));
+  const traceLedgerPath = join(tmpRoot, "trace-ledger.ndjson");
+  const executed: string[] = [];
+
+  try {
+    const result = await runSemanticIr(
+      { ...ir, deterministic_nodes: [...ir.deterministic_nodes].reverse() },
+      { traceLedgerPath, nodeHandlers: recordingHandlers(executed) }
+    );
+
+    assert.deepEqual(executed, [
+      "det-goal",
+      "det-capability-open_issue",
+      "det-capability-read_logs",
+      "det-step-collect_logs",
+      "det-step-file_issue",
+      "det-step-notify",
+      "det-check-issue_links_build",
+      "det-check-cites_log_lines"
+    ]);
+    assert.equal(result.outputs["ir.goal"], "det-goal()");
+    assert.equal(
+      result.outputs["step.notify"],
+      "det-step-notify(step.collect_logs,step.file_issue)"
+    );
+    assert.deepEqual(
+      result.nodeOutcomes.map((outcome) => outcome.status),
+      ir.deterministic_nodes.map(() => "succeeded")
+    );
+
+    const entry = JSON.parse(readFileSync(traceLedgerPath, "utf8")) as TraceLedgerEntryV0;
+    assert.equal(entry.outcome.status, "success");
+    assert.deepEqual(
+      entry.nodes?.map((outcome) => outcome.node_id),
+      [...ir.deterministic_nodes].reverse().map((irNode) => irNode.id)
+    );
+    // The ledger schema's `date-time` formats need ajv-formats, which the runtime does not ship.
+    const ajv = new Ajv2020({ allErrors: true, validateFormats: false });
+    const traceLedgerSchema = loadJson("../../docs/spec/schemas/traceledger-v0.schema.json");
+    assert.equal(ajv.validate(traceLedgerSchema as object, entry), true, ajv.errorsText());
+  } finally {
+    rmSync(tmpRoot, { recursive: true, force: true });
+  }
+});
+
+test("runSemanticIr stops at the first failing node and attributes it to its .ls span", async () => {
+  const ir = compileExample("valid/steps.ls");
+  const tmpRoot = mkdtempSync(join(tmpdir(), "l-semantica-node-executor-"));
+  const traceLedgerPath = join(tmpRoot, "trace-ledger.ndjson");
+  const executed: string[] = [];
+  const handlers = recordingHandlers(executed);
+  const runStep = handlers.step;
+  handlers.step = (irNode, inputs, context) => {
+    if (irNode.id === "det-step-file_issue") {
+      throw new Error("issue tracker unavailable");
+    }
+    return runStep(irNode, inputs, context);
+  };
+
+  try {
+    await assert.rejects(
+      () => runSemanticIr(ir, { traceLedgerPath, nodeHandlers: handlers }),
+      (error) => {
+        assert.ok(error instanceof SemanticIrExecutionError);
+        assert.equal(error.code, "SEMANTIC_IR_NODE_FAILED");
+        assert.equal(error.nodeId, "det-step-file_issue");
+        assert.equal(
+          error.message,
+          'SemanticIR node "det-step-file_issue" (step) failed: issue tracker unavailable'
+        );
+        return true;
+      }
+    );
+    assert.equal(executed.includes("det-step-notify"), false);
+
+    const entry = JSON.parse(readFileSync(traceLedgerPath, "utf8")) as TraceLedgerEntryV0;
+    if (entry.outcome.status !== "failure") {
+      assert.fail("Expected failed trace ledger outcome");
+    }
+    assert.equal(entry.outcome.error.node_id, "det-step-file_issue");
+    assert.equal(entry.outcome.error.source_span?.start.line, 6);
+    const statuses = Object.fromEntries(
+      (entry.nodes ?? []).map((outcome) => [outcome.node_id, outcome.status])
+    );
+    assert.equal(statuses["det-step-collect_logs"], "succeeded");
+    assert.equal(statuses["det-step-file_issue"], "failed");
+    assert.equal(statuses["det-step-notify"], "skipped");
+    assert.equal(statuses["det-check-cites_log_lines"], "skipped");
+    assert.equal(
+      entry.nodes?.find((outcome) => outcome.status === "failed")?.error,
+      "issue tracker unavailable"
+    );
+  } finally {
+    rmSync(tmpRoot, { recursive: true, force: true });
+  }
+});
+
+test("executeSemanticIrNodes rejects unschedulable graphs and invalid handler results", async () => {
+  const goal = "ship parser";
+  const handlers: SemanticIrNodeHandlers = { step: () => undefined };
+  const expectCode = (nodes: SemanticIrDeterministicNode[], code: string, nodeId: string) =>
+    assert.rejects(
+      () => executeSemanticIrNodes({ goal, deterministic_nodes: nodes }, { handlers }),
+      (error) => {
+        assert.ok(error instanceof SemanticIrExecutionError);
+        assert.equal(error.code, code);
+        assert.equal(error.nodeId, nodeId);
+        return true;
+      }
+    );
+
+  await expectCode(
+    [node("a", [], ["out.x"]), node("b", [], ["out.x"])],
+    "SEMANTIC_IR_OUTPUT_CONFLICT",
+    "b"
+  );
+  await expectCode(
+    [node("a", ["out.b"], ["out.a"]), node("b", ["out.a"], ["out.b"])],
+    "SEMANTIC_IR_NODE_CYCLE",
+    "a"
+  );
+  await expectCode([node("a", [], ["out.a"], "check")], "SEMANTIC_IR_NODE_HANDLER_MISSING", "a");
+
+  const result = await executeSemanticIrNodes(
+    { goal, deterministic_nodes: [node("a", ["source.goal"], ["out.a"])] },
+    { handlers, inputs: { "source.goal": goal } }
+  );
+  assert.deepEqual(result.outputs, { "out.a": null });
+
+  await assert.rejects(
+    () =>
+      executeSemanticIrNodes(
+        { goal, deterministic_nodes: [node("a", [], ["out.a"]), node("b", ["out.a"], [])] },
+        { handlers: { step: () => ({ "out.z": 1 }) } }
+      ),
+    (error) => {
+      assert.ok(error instanceof SemanticIrExecutionError);
+      assert.equal(error.code, "SEMANTIC_IR_NODE_OUTPUT_INVALID");
+      assert.deepEqual(
+        error.nodeOutcomes.map((outcome) => outcome.status),
+        ["failed", "skipped"]
+      );
+      return true;
+    }
+  );
+});
+
+test("executeSemanticIrNodes awaits asynchronous handlers", async () => {
+  const goal = "ship parser";
+  const nodes = [node("a", [], ["out.a"]), node("b", ["out.a"], ["out.b"])];
+  const result = await executeSemanticIrNodes(
+    { goal, deterministic_nodes: nodes },
+    { handlers: { step: async (current) => ({ [current.outputs[0]]: `${current.id} done` }) } }
+  );
+  assert.deepEqual(result.outputs, { "out.a": "a done", "out.b": "b done" });
+
+  await assert.rejects(
+    () =>
+      executeSemanticIrNodes(
+        { goal, deterministic_nodes: nodes },
+        {
+          handlers: {
+            step: async () => {
+              throw new Error("service unavailable");
+            }
+          }
+        }
+      ),
+    (error) => {
+      assert.ok(error instanceof SemanticIrExecutionError);
+      assert.equal(error.code, "SEMANTIC_IR_NODE_FAILED");
+      assert.equal(error.nodeId, "a");
+      assert.deepEqual(
+        error.nodeOutcomes.map((outcome) => [outcome.status, outcome.error]),
+        [
+          ["failed", "service unavailable"],
+          ["skipped", undefined]
+        ]
+      );
+      return true;
+    }
+  );
+});
@@ -44,6 +44,22 @@ test("repair loop recovers known parse missing quote failures", () => {
   assert.equal(result.repairedExcerpt, 'goal "Ship release"');
 });
 
+test("repair loop closes unterminated strings using compiler fix-its", () => {
+  const result = runRepair({
+    failureClass: "parse",
+    stage: "compile",
+    artifact: "ls_source",
+    excerpt: 'goal "Ship release"\ncapability deploy "deploy build  \ncheck ok "deploy ok"\n'
+  });
+
+  assert.equal(result.decision, "repaired");
+  assert.equal(result.appliedRuleId, "parse.append_missing_goal_quote");
+  assert.equal(
+    result.repairedExcerpt,
+    'goal "Ship release"\ncapability deploy "deploy build"  \ncheck ok "deploy ok"\n'
+  );
+});
+
 test("repair loop enforces bounded retries for deterministic timeout failures", () => {
   const result = runRepair(
     {
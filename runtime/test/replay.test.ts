@@ -0,0 +1,263 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { fileURLToPath } from "node:url";
+import test from "node:test";
+import { Ajv2020 } from "ajv/dist/2020.js";
+
+import { lowerToSemanticIr, parseLsDocument } from "../../compiler/src/index.ts";
+import {
+  ContractValidationError,
+  ReplayRunError,
+  createFixtureStochasticProvider,
+  loadVerificationContract,
+  replayRun,
+  runSemanticIr,
+  type SemanticIrContract,
+  type SemanticIrDeterministicNode,
+  type SemanticIrNodeHandlers,
+  type TraceLedgerEntryV0
+} from "../src/index.ts";
+
+function loadJson(relativePathFromThisTest: string): unknown {
+  const fileContents = readFileSync(new URL(relativePathFromThisTest, import.meta.url), "utf8");
+  return JSON.parse(fileContents) as unknown;
+}
+
+const fixturePath = fileURLToPath(
+  new URL("../../benchmarks/fixtures/stochastic/mock-responses.v0.json", import.meta.url)
+);
+
+function compileInferSteps(): SemanticIrContract {
+  const source = readFileSync(
+    new URL("../../docs/spec/examples/valid/infer-steps.ls", import.meta.url),
+    "utf8"
+  );
+  const parsed = parseLsDocument(source, { file: "infer-steps.ls" });
+  assert.notEqual(parsed.ast, null);
+  return lowerToSemanticIr(parsed.ast!, {
+    file: "infer-steps.ls",
+    irId: "ir-infer-steps",
+    now: () => new Date("2026-02-20T12:00:00.000Z")
+  }) as SemanticIrContract;
+}
+
+function handlers(capabilityResult = "log lines"): SemanticIrNodeHandlers {
+  const echo = (node: SemanticIrDeterministicNode, inputs: Record<string, unknown>) =>
+    Object.fromEntries(node.outputs.map((output) => [output, Object.values(inputs)]));
+  return {
+    goal: (_node, _inputs, context) => ({ "ir.goal": context.goal }),
+    capability: (node) => ({ [node.outputs[0]]: capabilityResult }),
+    check: echo
+  };
+}
+
+async function withLedger(run: (traceLedgerPath: string) => Promise<void>): Promise<void> {
+  const tmpRoot = mkdtempSync(join(tmpdir(), "l-semantica-replay-test-"));
+  try {
+    await run(join(tmpRoot, "trace-ledger.ndjson"));
+  } finally {
+    rmSync(tmpRoot, { recursive: true, force: true });
+  }
+}
+
+test("replayRun re-executes a recorded run from its stochastic responses", async () => {
+  await withLedger(async (traceLedgerPath) => {
+    await runSemanticIr(compileInferSteps(), {
+      traceLedgerPath,
+      recordReplay: true,
+      runIdFactory: () => "run-replay-001",
+      nodeHandlers: handlers(),
+      stochasticProviders: { openai: createFixtureStochasticProvider(fixturePath) }
+    });
+
+    const entry = JSON.parse(readFileSync(traceLedgerPath, "utf8")) as TraceLedgerEntryV0;
+    assert.equal(entry.replay?.semantic_ir.schema_version, "0.1.0");
+    assert.deepEqual(entry.replay?.continuation_decision, {
+      decision: "continue",
+      reason_code: "CONTINUATION_GATE_NOT_CONFIGURED"
+    });
+    const inference = entry.nodes?.find((node) => node.kind === "stochastic");
+    assert.equal(inference?.provider, "openai");
+    assert.equal(inference?.confidence, 0.92);
+    assert.deepEqual(inference?.usage, { input_tokens: 48, output_tokens: 27 });
+    assert.deepEqual(inference?.inputs, {
+      "ir.goal": "summarize failing builds for the on-call engineer"
+    });
+    const ajv = new Ajv2020({ allErrors: true, validateFormats: false });
+    const traceLedgerSchema = loadJson("../../docs/spec/schemas/traceledger-v0.schema.json");
+    assert.equal(ajv.validate(traceLedgerSchema as object, entry), true, ajv.errorsText());
+
+    assert.deepEqual(
+      await replayRun("run-replay-001", traceLedgerPath, { nodeHandlers: handlers() }),
+      { runId: "run-replay-001", matched: true }
+    );
+    assert.deepEqual(
+      await replayRun("run-replay-001", traceLedgerPath, { nodeHandlers: handlers("other lines") }),
+      {
+        runId: "run-replay-001",
+        matched: false,
+        divergence: {
+          path: "nodes.outputs",
+          nodeId: "det-capability-read_logs",
+          expected: { "capability.read_logs": "log lines" },
+          actual: { "capability.read_logs": "other lines" }
+        }
+      }
+    );
+  });
+});
+
+test("replayRun compares continuation decisions and outcomes of blocked runs", async () => {
+  const verificationContract = loadVerificationContract(
+    loadJson("../../docs/spec/examples/verificationcontract/valid/strict-stop-on-failure.json")
+  );
+
+  await withLedger(async (traceLedgerPath) => {
+    await assert.rejects(() =>
+      runSemanticIr(compileInferSteps(), {
+        traceLedgerPath,
+        recordReplay: true,
+        runIdFactory: () => "run-replay-blocked",
+        nodeHandlers: handlers(),
+        stochasticProviders: { openai: createFixtureStochasticProvider(fixturePath) },
+        continuationGate: { verificationContract }
+      })
+    );
+
+    assert.deepEqual(
+      await replayRun("run-replay-blocked", traceLedgerPath, { nodeHandlers: handlers() }),
+      { runId: "run-replay-blocked", matched: true }
+    );
+    const entry = JSON.parse(readFileSync(traceLedgerPath, "utf8")) as TraceLedgerEntryV0;
+    const recordedDecision = {
+      decision: "stop",
+      reason_code: "VERIFICATION_REQUIRED_FEEDBACK_MISSING"
+    } as const;
+    assert.deepEqual(entry.replay?.continuation_decision, recordedDecision);
+    // The gate decides once every node has run.
+    assert.deepEqual(
+      entry.nodes?.map((node) => node.status),
+      entry.nodes?.map(() => "succeeded")
+    );
+
+    const tamperedDecision = { decision: "continue", reason_code: "VERIFICATION_GATE_PASSED" };
+    const replay = { ...entry.replay, continuation_decision: tamperedDecision };
+    const tampered = { ...entry, replay };
+    writeFileSync(traceLedgerPath, `${JSON.stringify(tampered)}\n`, "utf8");
+    const replayed = await replayRun("run-replay-blocked", traceLedgerPath, {
+      nodeHandlers: handlers()
+    });
+    assert.deepEqual(replayed.divergence, {
+      path: "continuation_decision",
+      expected: tamperedDecision,
+      actual: recordedDecision
+    });
+  });
+});
+
+test("replayRun reports the node that diverged before the decision it changed", async () => {
+  const source = [
+    'goal "publish the build summary"',
+    'capability read_logs "read the logs"',
+    'check cites_log_lines "summary cites read_logs lines"',
+    "succeed when cites_log_lines passes",
+    "fail when cites_log_lines fails"
+  ].join("\n");
+  const parsed = parseLsDocument(source, { file: "publish.ls" });
+  assert.notEqual(parsed.ast, null);
+  const ir = lowerToSemanticIr(parsed.ast!, { file: "publish.ls" }) as SemanticIrContract;
+  const citing = (cites: boolean): SemanticIrNodeHandlers => ({
+    ...handlers(),
+    check: (node) => ({ [node.outputs[0]]: cites })
+  });
+
+  await withLedger(async (traceLedgerPath) => {
+    const result = await runSemanticIr(ir, {
+      traceLedgerPath,
+      recordReplay: true,
+      runIdFactory: () => "run-replay-decided",
+      nodeHandlers: citing(true)
+    });
+    assert.equal(result.continuationDecision.reasonCode, "OUTCOME_SUCCESS_CONDITION_MET");
+
+    // The replayed check fails, which also turns the decision into a stop.
+    assert.deepEqual(
+      await replayRun("run-replay-decided", traceLedgerPath, { nodeHandlers: citing(false) }),
+      {
+        runId: "run-replay-decided",
+        matched: false,
+        divergence: {
+          path: "nodes.outputs",
+          nodeId: "det-check-cites_log_lines",
+          expected: { "check.cites_log_lines": true },
+          actual: { "check.cites_log_lines": false }
+        }
+      }
+    );
+  });
+});
+
+test("replayRun answers stochastic nodes from their recorded provider only", async () => {
+  await withLedger(async (traceLedgerPath) => {
+    await runSemanticIr(compileInferSteps(), {
+      traceLedgerPath,
+      recordReplay: true,
+      runIdFactory: () => "run-replay-provider",
+      nodeHandlers: handlers(),
+      stochasticProviders: { openai: createFixtureStochasticProvider(fixturePath) }
+    });
+    const entry = JSON.parse(readFileSync(traceLedgerPath, "utf8")) as TraceLedgerEntryV0;
+    const rewrite = (changes: Partial<TraceLedgerEntryV0>) =>
+      writeFileSync(traceLedgerPath, `${JSON.stringify({ ...entry, ...changes })}\n`, "utf8");
+
+    rewrite({
+      nodes: entry.nodes?.map((node) =>
+        node.kind === "stochastic" ? { ...node, provider: "anthropic" } : node
+      )
+    });
+    // Nodes are compared in the order they ran, so the draft diverges before the check on it.
+    assert.deepEqual(
+      (await replayRun("run-replay-provider", traceLedgerPath, { nodeHandlers: handlers() }))
+        .divergence,
+      {
+        path: "nodes.status",
+        nodeId: "sto-infer-draft_summary",
+        expected: "succeeded",
+        actual: "failed"
+      }
+    );
+
+    // Replay errors that no recorded run could have produced are not reported as divergences.
+    const replay = entry.replay!;
+    rewrite({ replay: { ...replay, semantic_ir: { ...replay.semantic_ir, goal: 7 } } });
+    await assert.rejects(
+      () => replayRun("run-replay-provider", traceLedgerPath, { nodeHandlers: handlers() }),
+      ContractValidationError
+    );
+  });
+});
+
+test("replayRun rejects unknown runs and runs recorded without replay data", async () => {
+  await withLedger(async (traceLedgerPath) => {
+    await runSemanticIr(
+      { version: "0.1.0", goal: "ship parser" },
+      { traceLedgerPath, runIdFactory: () => "run-unrecorded" }
+    );
+
+    for (const [runId, code] of [
+      ["run-missing", "REPLAY_RUN_NOT_FOUND"],
+      ["run-unrecorded", "REPLAY_RECORD_MISSING"]
+    ]) {
+      await assert.rejects(
+        () => replayRun(runId, traceLedgerPath),
+        (error) => {
+          assert.ok(error instanceof ReplayRunError);
+          assert.equal(error.code, code);
+          return true;
+        }
+      );
+    }
+  });
+});
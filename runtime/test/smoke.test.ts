@@ -3,8 +3,8 @@ import test from "node:test";
 
 import { runSemanticIr, type SemanticIrEnvelope } from "../src/index.ts";
 
-test("runSemanticIr returns trace id", () => {
-  const result = runSemanticIr({ version: "0.1.0", goal: "ship parser" });
+test("runSemanticIr returns trace id", async () => {
+  const result = await runSemanticIr({ version: "0.1.0", goal: "ship parser" });
 
   assert.equal(result.ok, true);
   assert.equal(result.traceId, "trace-0.1.0");
@@ -12,32 +12,32 @@ test("runSemanticIr returns trace id", () => {
   assert.equal(result.continuationDecision.reasonCode, "CONTINUATION_GATE_NOT_CONFIGURED");
 });
 
-test("runSemanticIr validates required fields", () => {
-  assert.throws(() => runSemanticIr({ version: " ", goal: "ship parser" }), {
+test("runSemanticIr validates required fields", async () => {
+  await assert.rejects(() => runSemanticIr({ version: " ", goal: "ship parser" }), {
     message: "SemanticIR version is required"
   });
 
-  assert.throws(() => runSemanticIr({ version: "0.1.0", goal: "   " }), {
+  await assert.rejects(() => runSemanticIr({ version: "0.1.0", goal: "   " }), {
     message: "SemanticIR goal is required"
   });
 });
 
-test("runSemanticIr validates input types", () => {
-  assert.throws(() => runSemanticIr(undefined as unknown as SemanticIrEnvelope), {
+test("runSemanticIr validates input types", async () => {
+  await assert.rejects(() => runSemanticIr(undefined as unknown as SemanticIrEnvelope), {
     message: "SemanticIR input must be an object"
   });
-  assert.throws(() => runSemanticIr([] as unknown as SemanticIrEnvelope), {
+  await assert.rejects(() => runSemanticIr([] as unknown as SemanticIrEnvelope), {
     message: "SemanticIR input must be an object"
   });
 
-  assert.throws(
+  await assert.rejects(
     () => runSemanticIr({ version: 100, goal: "ship parser" } as unknown as SemanticIrEnvelope),
     {
       message: "SemanticIR version is required"
     }
   );
 
-  assert.throws(
+  await assert.rejects(
     () => runSemanticIr({ version: "0.1.0", goal: 7 } as unknown as SemanticIrEnvelope),
     {
       message: "SemanticIR goal is required"
@@ -0,0 +1,148 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { fileURLToPath } from "node:url";
+import test from "node:test";
+
+import { lowerToSemanticIr, parseLsDocument } from "../../compiler/src/index.ts";
+import {
+  SemanticIrExecutionError,
+  StochasticProviderError,
+  createFixtureStochasticProvider,
+  runSemanticIr,
+  type SemanticIrContract,
+  type SemanticIrDeterministicNode,
+  type SemanticIrNodeHandlers
+} from "../src/index.ts";
+
+const fixturePath = fileURLToPath(
+  new URL("../../benchmarks/fixtures/stochastic/mock-responses.v0.json", import.meta.url)
+);
+
+function compileInferSteps(): SemanticIrContract {
+  const source = readFileSync(
+    new URL("../../docs/spec/examples/valid/infer-steps.ls", import.meta.url),
+    "utf8"
+  );
+  const parsed = parseLsDocument(source, { file: "infer-steps.ls" });
+  assert.notEqual(parsed.ast, null);
+  return lowerToSemanticIr(parsed.ast!, {
+    file: "infer-steps.ls",
+    irId: "ir-infer-steps",
+    now: () => new Date("2026-02-20T12:00:00.000Z")
+  }) as SemanticIrContract;
+}
+
+function echoHandlers(): SemanticIrNodeHandlers {
+  const handler = (node: SemanticIrDeterministicNode, inputs: Record<string, unknown>) =>
+    Object.fromEntries(node.outputs.map((output) => [output, inputs]));
+  return { goal: () => ({ "ir.goal": "goal" }), capability: handler, check: handler };
+}
+
+function writeFixture(responses: unknown[]): { path: string; cleanup: () => void } {
+  const tmpRoot = mkdtempSync(join(tmpdir(), "l-semantica-stochastic-"));
+  const path = join(tmpRoot, "responses.json");
+  writeFileSync(path, JSON.stringify({ schema_version: "0.1.0", responses }), "utf8");
+  return { path, cleanup: () => rmSync(tmpRoot, { recursive: true, force: true }) };
+}
+
+test("runSemanticIr feeds fixture-backed stochastic outputs to dependent nodes", async () => {
+  const ir = compileInferSteps();
+  const result = await runSemanticIr(ir, {
+    nodeHandlers: echoHandlers(),
+    stochasticProviders: { openai: createFixtureStochasticProvider(fixturePath) }
+  });
+
+  const summary = result.outputs["infer.draft_summary"];
+  assert.match(String(summary), /^The build failed in the typecheck step\./);
+  assert.deepEqual(result.outputs["check.cites_log_lines"], {
+    "capability.read_logs": { "ir.goal": "goal" },
+    "infer.draft_summary": summary
+  });
+  assert.deepEqual(result.tokenUsage, { inputTokens: 48, outputTokens: 27 });
+
+  const inference = result.nodeOutcomes.find((outcome) => outcome.kind === "stochastic");
+  assert.equal(inference?.nodeId, "sto-infer-draft_summary");
+  assert.equal(inference?.status, "succeeded");
+  assert.equal(inference?.confidence, 0.92);
+  assert.deepEqual(inference?.usage, { inputTokens: 48, outputTokens: 27 });
+});
+
+test("runSemanticIr fails stochastic nodes below min_confidence or without a provider", async () => {
+  const ir = compileInferSteps();
+  const fixture = writeFixture([{ output: "unsure", confidence: 0.5 }]);
+
+  try {
+    await assert.rejects(
+      () =>
+        runSemanticIr(ir, {
+          nodeHandlers: echoHandlers(),
+          stochasticProviders: { openai: createFixtureStochasticProvider(fixture.path) }
+        }),
+      (error) => {
+        assert.ok(error instanceof SemanticIrExecutionError);
+        assert.equal(error.code, "SEMANTIC_IR_CONFIDENCE_BELOW_MINIMUM");
+        assert.equal(error.nodeId, "sto-infer-draft_summary");
+        const failed = error.nodeOutcomes.find((outcome) => outcome.status === "failed");
+        assert.equal(failed?.confidence, 0.5);
+        assert.equal(failed?.error, "confidence 0.5 is below min_confidence 0.8");
+        return true;
+      }
+    );
+  } finally {
+    fixture.cleanup();
+  }
+
+  await assert.rejects(
+    () => runSemanticIr(ir, { nodeHandlers: echoHandlers() }),
+    (error) => {
+      assert.ok(error instanceof SemanticIrExecutionError);
+      assert.equal(error.code, "SEMANTIC_IR_PROVIDER_MISSING");
+      assert.equal(error.message, 'No stochastic provider is registered under "openai"');
+      return true;
+    }
+  );
+});
+
+test("createFixtureStochasticProvider matches scripted responses and rejects bad fixtures", async () => {
+  const provider = createFixtureStochasticProvider(fixturePath);
+  const request = {
+    nodeId: "sto-refine-prompt",
+    provider: "openai",
+    prompt: "Refine goal phrasing for adapter output.",
+    temperature: 0.2,
+    inputs: {}
+  };
+  assert.deepEqual(await provider.complete(request), {
+    output: "Compile and validate a minimal semantic contract.",
+    usage: { inputTokens: 12, outputTokens: 9 },
+    confidence: 0.81
+  });
+  await assert.rejects(
+    () => provider.complete({ ...request, nodeId: "sto-other", prompt: "Unscripted prompt." }),
+    (error) => {
+      assert.ok(error instanceof StochasticProviderError);
+      assert.equal(error.code, "STOCHASTIC_FIXTURE_RESPONSE_MISSING");
+      return true;
+    }
+  );
+
+  for (const [responses, detail] of [
+    [[{ confidence: 0.5 }], /responses\[0\] must be an object with an output/],
+    [[{ output: 1, confidence: 2 }], /responses\[0\]\.confidence must be a number between 0 and 1/],
+    [[{ output: 1, confidence: 1, usage: { input_tokens: -1 } }], /responses\[0\]\.usage/]
+  ] as const) {
+    const fixture = writeFixture([...responses]);
+    try {
+      assert.throws(() => createFixtureStochasticProvider(fixture.path), (error) => {
+        assert.ok(error instanceof StochasticProviderError);
+        assert.equal(error.code, "STOCHASTIC_FIXTURE_INVALID");
+        assert.match(error.message, detail);
+        return true;
+      });
+    } finally {
+      fixture.cleanup();
+    }
+  }
+});
@@ -47,7 +47,7 @@ function makeDeterministicClock(isoTimestamps: [string, string] | string[]): ()
   };
 }
 
-test("runSemanticIr emits trace inspection machine + report output for successful invocation", () => {
+test("runSemanticIr emits trace inspection machine + report output for successful invocation", async () => {
   const tmpRoot = mkdtempSync(join(tmpdir(), "l-semantica-trace-inspection-"));
   const traceLedgerPath = join(tmpRoot, "runtime-trace-ledger.ndjson");
   const traceInspectionPath = join(tmpRoot, "trace-inspection.ndjson");
@@ -55,7 +55,7 @@ test("runSemanticIr emits trace inspection machine + report output for successfu
   const runId = "run-trace-inspection-success-001";
 
   try {
-    const result = runSemanticIr(
+    const result = await runSemanticIr(
       {
         version: "0.1.0",
         goal: "ship parser"
@@ -114,7 +114,7 @@ test("runSemanticIr emits trace inspection machine + report output for successfu
   }
 });
 
-test("runSemanticIr emits trace inspection linkage with confidence metadata for failed continuation-gate invocation", () => {
+test("runSemanticIr emits trace inspection linkage with confidence metadata for failed continuation-gate invocation", async () => {
   const tmpRoot = mkdtempSync(join(tmpdir(), "l-semantica-trace-inspection-"));
   const traceLedgerPath = join(tmpRoot, "runtime-trace-ledger.ndjson");
   const feedbackTensorPath = join(tmpRoot, "feedback-tensor.ndjson");
@@ -124,7 +124,7 @@ test("runSemanticIr emits trace inspection linkage with confidence metadata for
   const feedbackId = "ft-trace-inspection-failure-001";
 
   try {
-    assert.throws(
+    await assert.rejects(
       () =>
         runSemanticIr(
           {
@@ -270,13 +270,13 @@ test("runRuleFirstRepairLoop emits trace inspection with repair outcome and atte
   }
 });
 
-test("runSemanticIr ignores trace inspection write failures", () => {
+test("runSemanticIr ignores trace inspection write failures", async () => {
   const tmpRoot = mkdtempSync(join(tmpdir(), "l-semantica-trace-inspection-"));
   const missingInspectionPath = join(tmpRoot, "missing", "trace-inspection.ndjson");
   const missingReportPath = join(tmpRoot, "missing", "trace-inspection.txt");
 
   try {
-    const result = runSemanticIr(
+    const result = await runSemanticIr(
       {
         version: "0.1.0",
         goal: "ship parser"
@@ -33,12 +33,12 @@ function makeDeterministicClock(isoTimestamps: [string, string]): () => Date {
   };
 }
 
-test("runSemanticIr emits trace ledger entry for successful invocation", () => {
+test("runSemanticIr emits trace ledger entry for successful invocation", async () => {
   const tmpRoot = mkdtempSync(join(tmpdir(), "l-semantica-trace-ledger-"));
   const traceLedgerPath = join(tmpRoot, "runtime-trace-ledger.ndjson");
 
   try {
-    runSemanticIr(
+    await runSemanticIr(
       {
         version: "0.1.0",
         goal: "ship parser"
@@ -67,12 +67,12 @@ test("runSemanticIr emits trace ledger entry for successful invocation", () => {
   }
 });
 
-test("runSemanticIr emits trace ledger entry for failed invocation", () => {
+test("runSemanticIr emits trace ledger entry for failed invocation", async () => {
   const tmpRoot = mkdtempSync(join(tmpdir(), "l-semantica-trace-ledger-"));
   const traceLedgerPath = join(tmpRoot, "runtime-trace-ledger.ndjson");
 
   try {
-    assert.throws(
+    await assert.rejects(
       () =>
         runSemanticIr(
           {
@@ -111,12 +111,12 @@ test("runSemanticIr emits trace ledger entry for failed invocation", () => {
   }
 });
 
-test("runSemanticIr normalizes invalid run ids before ledger emission", () => {
+test("runSemanticIr normalizes invalid run ids before ledger emission", async () => {
   const tmpRoot = mkdtempSync(join(tmpdir(), "l-semantica-trace-ledger-"));
   const traceLedgerPath = join(tmpRoot, "runtime-trace-ledger.ndjson");
 
   try {
-    runSemanticIr(
+    await runSemanticIr(
       {
         version: "0.1.0",
         goal: "ship parser"
@@ -137,12 +137,12 @@ test("runSemanticIr normalizes invalid run ids before ledger emission", () => {
   }
 });
 
-test("runSemanticIr ignores trace ledger write failures on successful invocations", () => {
+test("runSemanticIr ignores trace ledger write failures on successful invocations", async () => {
   const tmpRoot = mkdtempSync(join(tmpdir(), "l-semantica-trace-ledger-"));
   const missingTraceLedgerPath = join(tmpRoot, "missing", "runtime-trace-ledger.ndjson");
 
   try {
-    const result = runSemanticIr(
+    const result = await runSemanticIr(
       {
         version: "0.1.0",
         goal: "ship parser"
@@ -162,7 +162,7 @@ test("runSemanticIr ignores trace ledger write failures on successful invocation
   }
 });
 
-test("runSemanticIr tolerates invalid or throwing now hooks", () => {
+test("runSemanticIr tolerates invalid or throwing now hooks", async () => {
   const tmpRoot = mkdtempSync(join(tmpdir(), "l-semantica-trace-ledger-"));
   const traceLedgerPath = join(tmpRoot, "runtime-trace-ledger.ndjson");
 
@@ -176,7 +176,7 @@ test("runSemanticIr tolerates invalid or throwing now hooks", () => {
   };
 
   try {
-    const result = runSemanticIr(
+    const result = await runSemanticIr(
       {
         version: "0.1.0",
         goal: "ship parser"
@@ -201,7 +201,7 @@ test("runSemanticIr tolerates invalid or throwing now hooks", () => {
   }
 });
 
-test("runSemanticIr preserves original non-Error throws with safe ledger message fallback", () => {
+test("runSemanticIr preserves original non-Error throws with safe ledger message fallback", async () => {
   const tmpRoot = mkdtempSync(join(tmpdir(), "l-semantica-trace-ledger-"));
   const traceLedgerPath = join(tmpRoot, "runtime-trace-ledger.ndjson");
 
@@ -219,7 +219,7 @@ test("runSemanticIr preserves original non-Error throws with safe ledger message
   } as unknown as { version: string; goal: string };
 
   try {
-    assert.throws(
+    await assert.rejects(
       () =>
         runSemanticIr(irWithThrowingGetter, {
           traceLedgerPath,
@@ -245,11 +245,11 @@ test("runSemanticIr preserves original non-Error throws with safe ledger message
   }
 });
 
-test("runSemanticIr does not evaluate trace hooks when trace ledger output is disabled", () => {
+test("runSemanticIr does not evaluate trace hooks when trace ledger output is disabled", async () => {
   let runIdFactoryCalls = 0;
   let nowCalls = 0;
 
-  const result = runSemanticIr(
+  const result = await runSemanticIr(
     {
       version: "0.1.0",
       goal: "ship parser"
@@ -272,12 +272,12 @@ test("runSemanticIr does not evaluate trace hooks when trace ledger output is di
   assert.equal(nowCalls, 0);
 });
 
-test("runSemanticIr falls back to best-effort run id when runIdFactory throws", () => {
+test("runSemanticIr falls back to best-effort run id when runIdFactory throws", async () => {
   const tmpRoot = mkdtempSync(join(tmpdir(), "l-semantica-trace-ledger-"));
   const traceLedgerPath = join(tmpRoot, "runtime-trace-ledger.ndjson");
 
   try {
-    const result = runSemanticIr(
+    const result = await runSemanticIr(
       {
         version: "0.1.0",
         goal: "ship parser"
@@ -302,7 +302,7 @@ test("runSemanticIr falls back to best-effort run id when runIdFactory throws",
   }
 });
 
-test("runSemanticIr normalizes whitespace Error names in failure trace entries", () => {
+test("runSemanticIr normalizes whitespace Error names in failure trace entries", async () => {
   const tmpRoot = mkdtempSync(join(tmpdir(), "l-semantica-trace-ledger-"));
   const traceLedgerPath = join(tmpRoot, "runtime-trace-ledger.ndjson");
 
@@ -317,7 +317,7 @@ test("runSemanticIr normalizes whitespace Error names in failure trace entries",
   } as unknown as { version: string; goal: string };
 
   try {
-    assert.throws(
+    await assert.rejects(
       () =>
         runSemanticIr(irWithThrowingGetter, {
           traceLedgerPath,